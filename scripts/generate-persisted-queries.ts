@@ -0,0 +1,173 @@
+#!/usr/bin/env bun
+
+/**
+ * Generate the persisted query manifest from .graphql files
+ *
+ * Scans the given directories for .graphql/.gql documents, resolves the
+ * fragments each operation uses, and writes a manifest of trusted operations
+ * keyed by SHA-256 id. Point PERSISTED_QUERIES_MANIFEST at the output and set
+ * PERSISTED_QUERIES_MODE=allowlist to only allow these operations.
+ *
+ * Usage:
+ *   bun run scripts/generate-persisted-queries.ts [--out persisted-queries.json] [dir ...]
+ *   bun run generate:persisted-queries
+ */
+
+import { relative } from "node:path";
+import {
+  type DefinitionNode,
+  type FragmentDefinitionNode,
+  Kind,
+  type OperationDefinitionNode,
+  parse,
+  print,
+  visit,
+} from "graphql";
+import type { PersistedQueryManifest, PersistedQueryManifestOperation } from "../src/lib/persistedQueries";
+import { createPersistedQueryId } from "../src/lib/queryFingerprint";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DEFAULT_OUTPUT_FILE = "persisted-queries.json";
+const DEFAULT_DIRECTORIES = ["."];
+const DOCUMENT_GLOB = "**/*.{graphql,gql}";
+const IGNORED_SEGMENTS = ["node_modules/", "dist/", ".git/"];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseArgs(argv: string[]): { output: string; directories: string[] } {
+  let output = DEFAULT_OUTPUT_FILE;
+  const directories: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--out" || argv[i] === "-o") {
+      output = argv[++i];
+      if (!output) throw new Error("--out requires a file path");
+    } else {
+      directories.push(argv[i]);
+    }
+  }
+
+  return { output, directories: directories.length ? directories : DEFAULT_DIRECTORIES };
+}
+
+async function findDocuments(directories: string[]): Promise<string[]> {
+  const glob = new Bun.Glob(DOCUMENT_GLOB);
+  const files = new Set<string>();
+
+  for (const directory of directories) {
+    for await (const file of glob.scan({ cwd: directory, absolute: true })) {
+      if (!IGNORED_SEGMENTS.some((segment) => file.includes(`/${segment}`))) {
+        files.add(file);
+      }
+    }
+  }
+
+  return [...files].sort();
+}
+
+/**
+ * Collect the fragment names an operation needs, following nested spreads
+ */
+function collectFragments(
+  node: DefinitionNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+  found = new Set<string>()
+): Set<string> {
+  visit(node, {
+    FragmentSpread(spread) {
+      const name = spread.name.value;
+      if (found.has(name)) return;
+
+      const fragment = fragments.get(name);
+      if (!fragment) throw new Error(`Unknown fragment "${name}"`);
+
+      found.add(name);
+      collectFragments(fragment, fragments, found);
+    },
+  });
+  return found;
+}
+
+// =============================================================================
+// GENERATOR
+// =============================================================================
+
+async function generateManifest(files: string[]): Promise<PersistedQueryManifest> {
+  const operations: OperationDefinitionNode[] = [];
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const sources = new Map<OperationDefinitionNode, string>();
+
+  for (const file of files) {
+    const document = parse(await Bun.file(file).text());
+    const source = relative(process.cwd(), file);
+
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        if (fragments.has(definition.name.value)) {
+          throw new Error(`Duplicate fragment "${definition.name.value}" in ${source}`);
+        }
+        fragments.set(definition.name.value, definition);
+      } else if (definition.kind === Kind.OPERATION_DEFINITION) {
+        if (!definition.name) throw new Error(`Anonymous operation in ${source} - persisted operations must be named`);
+        operations.push(definition);
+        sources.set(definition, source);
+      }
+    }
+  }
+
+  const entries = new Map<string, PersistedQueryManifestOperation>();
+  for (const operation of operations) {
+    const name = operation.name!.value;
+    if (entries.has(name)) {
+      throw new Error(`Duplicate operation "${name}" in ${sources.get(operation)}`);
+    }
+
+    // Operation first, then its fragments in name order, so ids are stable across runs
+    const fragmentNames = [...collectFragments(operation, fragments)].sort();
+    const body = [operation, ...fragmentNames.map((fragmentName) => fragments.get(fragmentName)!)]
+      .map((definition) => print(definition))
+      .join("\n\n");
+
+    entries.set(name, {
+      id: createPersistedQueryId(body),
+      name,
+      type: operation.operation,
+      body,
+    });
+  }
+
+  return {
+    format: "apollo-persisted-query-manifest",
+    version: 1,
+    operations: [...entries.values()].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  const { output, directories } = parseArgs(process.argv.slice(2));
+  const files = await findDocuments(directories);
+  const manifest = await generateManifest(files);
+
+  await Bun.write(output, `${JSON.stringify(manifest, null, 2)}\n`);
+
+  console.log(`Generated ${output}`);
+  console.log(`   Documents scanned: ${files.length}`);
+  console.log(`   Operations: ${manifest.operations.length}`);
+}
+
+main()
+  // queryFingerprint loads the shared SQLite cache, whose cleanup timer would keep the process alive
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Failed to generate persisted query manifest:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
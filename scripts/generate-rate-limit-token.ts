@@ -0,0 +1,66 @@
+#!/usr/bin/env bun
+
+/**
+ * Generate a signed rate limit bypass token
+ *
+ * Signs `<id>.<expiry>` with RATE_LIMIT_BYPASS_SECRET. The server honours the
+ * token (sent as X-RateLimit-Bypass) while the id is listed in
+ * RATE_LIMIT_BYPASS_TOKEN_IDS and the token has not expired.
+ *
+ * Usage:
+ *   RATE_LIMIT_BYPASS_SECRET=... bun run scripts/generate-rate-limit-token.ts --id k6 [--ttl-hours 24]
+ *   bun run generate:rate-limit-token --id k6
+ */
+
+import { signBypassToken } from "../src/lib/rateLimit/bypassToken";
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const DEFAULT_TTL_HOURS = 24;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseArgs(argv: string[]): { id: string; ttlHours: number } {
+  let id = "";
+  let ttlHours = DEFAULT_TTL_HOURS;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--id") {
+      id = argv[++i] ?? "";
+    } else if (argv[i] === "--ttl-hours") {
+      ttlHours = Number(argv[++i]);
+    } else {
+      throw new Error(`Unknown argument "${argv[i]}"`);
+    }
+  }
+
+  if (!id) throw new Error("--id is required");
+  if (!Number.isFinite(ttlHours) || ttlHours <= 0) throw new Error("--ttl-hours must be a positive number");
+  return { id, ttlHours };
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+function main() {
+  const secret = process.env.RATE_LIMIT_BYPASS_SECRET;
+  if (!secret) throw new Error("RATE_LIMIT_BYPASS_SECRET is not set");
+
+  const { id, ttlHours } = parseArgs(process.argv.slice(2));
+  const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+  console.log(signBypassToken(id, secret, expiresAt));
+  console.error(`Token "${id}" expires ${expiresAt.toISOString()} - add "${id}" to RATE_LIMIT_BYPASS_TOKEN_IDS`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("Failed to generate rate limit token:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -9,6 +9,7 @@ import type {
   Config,
   DeploymentConfig,
   RuntimeConfig,
+  SecurityConfig,
   TelemetryConfig,
 } from "./schemas";
 
@@ -77,6 +78,7 @@ export const getCapellaConfig = (): Readonly<CapellaConfig> => getConfig().capel
 export const getRuntimeConfig = (): Readonly<RuntimeConfig> => getConfig().runtime;
 export const getDeploymentConfig = (): Readonly<DeploymentConfig> => getConfig().deployment;
 export const getTelemetryConfig = (): Readonly<TelemetryConfig> => getConfig().telemetry;
+export const getSecurityConfig = (): Readonly<SecurityConfig> => getConfig().security;
 
 // =============================================================================
 // BACKWARD COMPATIBLE SECTION PROXIES
@@ -9,6 +9,19 @@ export const defaultConfig: Config = {
   application: {
     LOG_LEVEL: "info",
     YOGA_RESPONSE_CACHE_TTL: 900000, // 15 minutes
+    YOGA_RESPONSE_CACHE_BACKEND: "memory",
+    YOGA_RESPONSE_CACHE_PATH: "data/graphql-response-cache.sqlite",
+    YOGA_RESPONSE_CACHE_MAX_ENTRIES: 10000,
+    SQLITE_CACHE_BACKEND: "memory",
+    SQLITE_CACHE_PATH: "data/query-cache.sqlite",
+    SQLITE_CACHE_MAX_SIZE_MB: 50,
+    SQLITE_CACHE_MAX_ENTRIES: 10000,
+    SQLITE_CACHE_COMPRESSION: "zstd",
+    SQLITE_CACHE_EVICTION_POLICY: "lru",
+    SQLITE_CACHE_COMPRESSION_THRESHOLD: 1024, // 1KB
+    CACHE_WARMUP_FILE: undefined,
+    CACHE_WARMUP_CONCURRENCY: 4,
+    CACHE_WARMUP_TIMEOUT_MS: 60000, // 1 minute
     PORT: 4000,
     ALLOWED_ORIGINS: ["http://localhost:3000"],
     BASE_URL: "http://localhost",
@@ -57,6 +70,8 @@ export const defaultConfig: Config = {
     TRACES_ENDPOINT: "http://localhost:4318/v1/traces",
     METRICS_ENDPOINT: "http://localhost:4318/v1/metrics",
     LOGS_ENDPOINT: "http://localhost:4318/v1/logs",
+    EXPORT_PROTOCOL: "http/json",
+    EXPORT_COMPRESSION: "none",
     METRIC_READER_INTERVAL: 60000,
     SUMMARY_LOG_INTERVAL: 300000,
     // 2025 compliance defaults
@@ -65,10 +80,65 @@ export const defaultConfig: Config = {
     MAX_QUEUE_SIZE: 10000,
     CIRCUIT_BREAKER_THRESHOLD: 5,
     CIRCUIT_BREAKER_TIMEOUT_MS: 60000,
+    // Spool is opt-in; when enabled it holds up to 64MB / 24h of batches
+    SPOOL_ENABLED: false,
+    SPOOL_PATH: "data/telemetry-spool.sqlite",
+    SPOOL_MAX_BYTES: 67108864,
+    SPOOL_MAX_AGE_MS: 86400000,
+    SPOOL_REPLAY_BYTES_PER_SECOND: 262144,
+    PROMETHEUS_ENABLED: true,
+    // Tail sampling is opt-in; errors, SLA breaches and listed operations are always kept
+    TAIL_SAMPLING_ENABLED: false,
+    TAIL_SAMPLING_DECISION_WAIT_MS: 10000,
+    TAIL_SAMPLING_MAX_TRACES: 10000,
+    TAIL_SAMPLING_MAX_SPANS_PER_TRACE: 1000,
+    TAIL_SAMPLING_OPERATIONS: [],
+    TAIL_SAMPLING_PROBABILITY: 0.1,
     // Log retention policy (days) - balance compliance and cost
     LOG_RETENTION_DEBUG_DAYS: 1, // Debug logs: 1 day
     LOG_RETENTION_INFO_DAYS: 7, // Info logs: 7 days
     LOG_RETENTION_WARN_DAYS: 30, // Warning logs: 30 days
     LOG_RETENTION_ERROR_DAYS: 90, // Error logs: 90 days
   },
+
+  security: {
+    // Bearer JWT verification is opt-in; requests stay anonymous until enabled
+    AUTH_ENABLED: false,
+    AUTH_REQUIRED: false,
+    AUTH_JWKS_URL: undefined,
+    AUTH_JWKS_FILE: undefined,
+    AUTH_ISSUER: undefined,
+    AUTH_AUDIENCE: [],
+    AUTH_ALGORITHMS: ["RS256", "ES256"],
+    AUTH_CLOCK_TOLERANCE_SECONDS: 30,
+    AUTH_JWKS_CACHE_TTL_MS: 600000, // 10 minutes
+    AUTH_DIVISIONS_CLAIM: "divisions",
+    AUTH_BRANDS_CLAIM: "brands",
+    // Allowlist mode rejects any operation not in the manifest
+    PERSISTED_QUERIES_MODE: "apq",
+    PERSISTED_QUERIES_MANIFEST: undefined,
+    PERSISTED_QUERIES_TTL_MS: 86400000, // 24 hours
+    QUERY_COST_ENABLED: true,
+    QUERY_COST_MAX_PER_QUERY: 1000,
+    QUERY_COST_BUDGET: 10000,
+    QUERY_COST_REFILL_PER_SECOND: 100,
+    QUERY_COST_FIELD_COSTS: [],
+    QUERY_COST_MULTIPLIER_ARGUMENTS: ["keys", "divisions", "collections", "first", "last"],
+    // Memory is per replica - use sqlite (shared volume) or resp when running several
+    RATE_LIMIT_ENABLED: true,
+    RATE_LIMIT_BACKEND: "memory",
+    RATE_LIMIT_ALGORITHM: "sliding-window",
+    RATE_LIMIT_MAX_REQUESTS: 500,
+    RATE_LIMIT_WINDOW_MS: 60000, // 1 minute
+    RATE_LIMIT_KEY_BY: ["ip", "path"],
+    RATE_LIMIT_OPERATION_LIMITS: [],
+    RATE_LIMIT_API_KEY_HEADER: "x-api-key",
+    RATE_LIMIT_KEY_PREFIX: "capellaql:ratelimit:",
+    RATE_LIMIT_SQLITE_PATH: "data/rate-limit.sqlite",
+    RATE_LIMIT_REDIS_URL: undefined,
+    RATE_LIMIT_FAIL_OPEN: true,
+    RATE_LIMIT_BYPASS_SECRET: undefined,
+    RATE_LIMIT_BYPASS_TOKEN_IDS: [],
+    ADMIN_API_TOKEN: undefined,
+  },
 };
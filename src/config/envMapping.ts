@@ -35,6 +35,19 @@ export const envVarMapping = {
   application: {
     LOG_LEVEL: { envVar: "LOG_LEVEL", type: "string" },
     YOGA_RESPONSE_CACHE_TTL: { envVar: "YOGA_RESPONSE_CACHE_TTL", type: "number" },
+    YOGA_RESPONSE_CACHE_BACKEND: { envVar: "YOGA_RESPONSE_CACHE_BACKEND", type: "string" },
+    YOGA_RESPONSE_CACHE_PATH: { envVar: "YOGA_RESPONSE_CACHE_PATH", type: "string" },
+    YOGA_RESPONSE_CACHE_MAX_ENTRIES: { envVar: "YOGA_RESPONSE_CACHE_MAX_ENTRIES", type: "number" },
+    SQLITE_CACHE_BACKEND: { envVar: "SQLITE_CACHE_BACKEND", type: "string" },
+    SQLITE_CACHE_PATH: { envVar: "SQLITE_CACHE_PATH", type: "string" },
+    SQLITE_CACHE_MAX_SIZE_MB: { envVar: "SQLITE_CACHE_MAX_SIZE_MB", type: "number" },
+    SQLITE_CACHE_MAX_ENTRIES: { envVar: "SQLITE_CACHE_MAX_ENTRIES", type: "number" },
+    SQLITE_CACHE_COMPRESSION: { envVar: "SQLITE_CACHE_COMPRESSION", type: "string" },
+    SQLITE_CACHE_EVICTION_POLICY: { envVar: "SQLITE_CACHE_EVICTION_POLICY", type: "string" },
+    SQLITE_CACHE_COMPRESSION_THRESHOLD: { envVar: "SQLITE_CACHE_COMPRESSION_THRESHOLD", type: "number" },
+    CACHE_WARMUP_FILE: { envVar: "CACHE_WARMUP_FILE", type: "string" },
+    CACHE_WARMUP_CONCURRENCY: { envVar: "CACHE_WARMUP_CONCURRENCY", type: "number" },
+    CACHE_WARMUP_TIMEOUT_MS: { envVar: "CACHE_WARMUP_TIMEOUT_MS", type: "number" },
     PORT: { envVar: "PORT", type: "number" },
     ALLOWED_ORIGINS: { envVar: "ALLOWED_ORIGINS", type: "array" },
     BASE_URL: { envVar: "BASE_URL", type: "string" },
@@ -86,6 +99,8 @@ export const envVarMapping = {
     TRACES_ENDPOINT: { envVar: "OTEL_EXPORTER_OTLP_TRACES_ENDPOINT", type: "string" },
     METRICS_ENDPOINT: { envVar: "OTEL_EXPORTER_OTLP_METRICS_ENDPOINT", type: "string" },
     LOGS_ENDPOINT: { envVar: "OTEL_EXPORTER_OTLP_LOGS_ENDPOINT", type: "string" },
+    EXPORT_PROTOCOL: { envVar: "OTEL_EXPORTER_OTLP_PROTOCOL", type: "string" },
+    EXPORT_COMPRESSION: { envVar: "OTEL_EXPORTER_OTLP_COMPRESSION", type: "string" },
 
     // Interval settings
     METRIC_READER_INTERVAL: { envVar: "METRIC_READER_INTERVAL", type: "number" },
@@ -100,12 +115,77 @@ export const envVarMapping = {
     CIRCUIT_BREAKER_THRESHOLD: { envVar: "CIRCUIT_BREAKER_THRESHOLD", type: "number" },
     CIRCUIT_BREAKER_TIMEOUT_MS: { envVar: "CIRCUIT_BREAKER_TIMEOUT_MS", type: "number" },
 
+    // Disk spool for outages
+    SPOOL_ENABLED: { envVar: "TELEMETRY_SPOOL_ENABLED", type: "boolean" },
+    SPOOL_PATH: { envVar: "TELEMETRY_SPOOL_PATH", type: "string" },
+    SPOOL_MAX_BYTES: { envVar: "TELEMETRY_SPOOL_MAX_BYTES", type: "number" },
+    SPOOL_MAX_AGE_MS: { envVar: "TELEMETRY_SPOOL_MAX_AGE_MS", type: "number" },
+    SPOOL_REPLAY_BYTES_PER_SECOND: { envVar: "TELEMETRY_SPOOL_REPLAY_BYTES_PER_SECOND", type: "number" },
+
+    // Prometheus scrape endpoint
+    PROMETHEUS_ENABLED: { envVar: "TELEMETRY_PROMETHEUS_ENABLED", type: "boolean" },
+
+    // Tail-based trace sampling
+    TAIL_SAMPLING_ENABLED: { envVar: "TELEMETRY_TAIL_SAMPLING_ENABLED", type: "boolean" },
+    TAIL_SAMPLING_DECISION_WAIT_MS: { envVar: "TELEMETRY_TAIL_SAMPLING_DECISION_WAIT_MS", type: "number" },
+    TAIL_SAMPLING_MAX_TRACES: { envVar: "TELEMETRY_TAIL_SAMPLING_MAX_TRACES", type: "number" },
+    TAIL_SAMPLING_MAX_SPANS_PER_TRACE: { envVar: "TELEMETRY_TAIL_SAMPLING_MAX_SPANS_PER_TRACE", type: "number" },
+    TAIL_SAMPLING_OPERATIONS: { envVar: "TELEMETRY_TAIL_SAMPLING_OPERATIONS", type: "array" },
+    TAIL_SAMPLING_PROBABILITY: { envVar: "TELEMETRY_TAIL_SAMPLING_PROBABILITY", type: "number" },
+
     // Log retention policy
     LOG_RETENTION_DEBUG_DAYS: { envVar: "LOG_RETENTION_DEBUG_DAYS", type: "number" },
     LOG_RETENTION_INFO_DAYS: { envVar: "LOG_RETENTION_INFO_DAYS", type: "number" },
     LOG_RETENTION_WARN_DAYS: { envVar: "LOG_RETENTION_WARN_DAYS", type: "number" },
     LOG_RETENTION_ERROR_DAYS: { envVar: "LOG_RETENTION_ERROR_DAYS", type: "number" },
   },
+
+  security: {
+    // JWT/OIDC bearer authentication
+    AUTH_ENABLED: { envVar: "AUTH_ENABLED", type: "boolean" },
+    AUTH_REQUIRED: { envVar: "AUTH_REQUIRED", type: "boolean" },
+    AUTH_JWKS_URL: { envVar: "AUTH_JWKS_URL", type: "string" },
+    AUTH_JWKS_FILE: { envVar: "AUTH_JWKS_FILE", type: "string" },
+    AUTH_ISSUER: { envVar: "AUTH_ISSUER", type: "string" },
+    AUTH_AUDIENCE: { envVar: "AUTH_AUDIENCE", type: "array" },
+    AUTH_ALGORITHMS: { envVar: "AUTH_ALGORITHMS", type: "array" },
+    AUTH_CLOCK_TOLERANCE_SECONDS: { envVar: "AUTH_CLOCK_TOLERANCE_SECONDS", type: "number" },
+    AUTH_JWKS_CACHE_TTL_MS: { envVar: "AUTH_JWKS_CACHE_TTL_MS", type: "number" },
+
+    // Field-level authorization (@auth directive)
+    AUTH_DIVISIONS_CLAIM: { envVar: "AUTH_DIVISIONS_CLAIM", type: "string" },
+    AUTH_BRANDS_CLAIM: { envVar: "AUTH_BRANDS_CLAIM", type: "string" },
+
+    // Persisted queries
+    PERSISTED_QUERIES_MODE: { envVar: "PERSISTED_QUERIES_MODE", type: "string" },
+    PERSISTED_QUERIES_MANIFEST: { envVar: "PERSISTED_QUERIES_MANIFEST", type: "string" },
+    PERSISTED_QUERIES_TTL_MS: { envVar: "PERSISTED_QUERIES_TTL_MS", type: "number" },
+
+    // Query cost analysis
+    QUERY_COST_ENABLED: { envVar: "QUERY_COST_ENABLED", type: "boolean" },
+    QUERY_COST_MAX_PER_QUERY: { envVar: "QUERY_COST_MAX_PER_QUERY", type: "number" },
+    QUERY_COST_BUDGET: { envVar: "QUERY_COST_BUDGET", type: "number" },
+    QUERY_COST_REFILL_PER_SECOND: { envVar: "QUERY_COST_REFILL_PER_SECOND", type: "number" },
+    QUERY_COST_FIELD_COSTS: { envVar: "QUERY_COST_FIELD_COSTS", type: "array" },
+    QUERY_COST_MULTIPLIER_ARGUMENTS: { envVar: "QUERY_COST_MULTIPLIER_ARGUMENTS", type: "array" },
+
+    // Rate limiting
+    RATE_LIMIT_ENABLED: { envVar: "RATE_LIMIT_ENABLED", type: "boolean" },
+    RATE_LIMIT_BACKEND: { envVar: "RATE_LIMIT_BACKEND", type: "string" },
+    RATE_LIMIT_ALGORITHM: { envVar: "RATE_LIMIT_ALGORITHM", type: "string" },
+    RATE_LIMIT_MAX_REQUESTS: { envVar: "RATE_LIMIT_MAX_REQUESTS", type: "number" },
+    RATE_LIMIT_WINDOW_MS: { envVar: "RATE_LIMIT_WINDOW_MS", type: "number" },
+    RATE_LIMIT_KEY_BY: { envVar: "RATE_LIMIT_KEY_BY", type: "array" },
+    RATE_LIMIT_OPERATION_LIMITS: { envVar: "RATE_LIMIT_OPERATION_LIMITS", type: "array" },
+    RATE_LIMIT_API_KEY_HEADER: { envVar: "RATE_LIMIT_API_KEY_HEADER", type: "string" },
+    RATE_LIMIT_KEY_PREFIX: { envVar: "RATE_LIMIT_KEY_PREFIX", type: "string" },
+    RATE_LIMIT_SQLITE_PATH: { envVar: "RATE_LIMIT_SQLITE_PATH", type: "string" },
+    RATE_LIMIT_REDIS_URL: { envVar: "RATE_LIMIT_REDIS_URL", type: "string" },
+    RATE_LIMIT_FAIL_OPEN: { envVar: "RATE_LIMIT_FAIL_OPEN", type: "boolean" },
+    RATE_LIMIT_BYPASS_SECRET: { envVar: "RATE_LIMIT_BYPASS_SECRET", type: "string" },
+    RATE_LIMIT_BYPASS_TOKEN_IDS: { envVar: "RATE_LIMIT_BYPASS_TOKEN_IDS", type: "array" },
+    ADMIN_API_TOKEN: { envVar: "ADMIN_API_TOKEN", type: "string" },
+  },
 } as const satisfies Record<string, Record<string, EnvVarEntry>>;
 
 export type EnvVarMapping = typeof envVarMapping;
@@ -19,6 +19,7 @@ export {
   getDeploymentEnvironment,
   getEnvironment,
   getRuntimeConfig,
+  getSecurityConfig,
   getTelemetryConfig,
   isProduction,
   loadConfig,
@@ -48,6 +49,7 @@ export type {
   Config,
   DeploymentConfig,
   RuntimeConfig,
+  SecurityConfig,
   TelemetryConfig,
 } from "./schemas";
 // Schemas and types
@@ -59,6 +61,7 @@ export {
   DeploymentConfigSchema,
   RuntimeConfigSchema,
   SchemaRegistry,
+  SecurityConfigSchema,
   TelemetryConfigSchema,
 } from "./schemas";
 
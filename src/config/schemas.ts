@@ -12,6 +12,22 @@ import { z } from "zod";
 export interface ApplicationConfig {
   LOG_LEVEL: string;
   YOGA_RESPONSE_CACHE_TTL: number;
+  // Where Yoga response cache entries are stored
+  YOGA_RESPONSE_CACHE_BACKEND: "memory" | "sqlite" | "shared";
+  YOGA_RESPONSE_CACHE_PATH: string;
+  YOGA_RESPONSE_CACHE_MAX_ENTRIES: number;
+  // Resolver-level SQLite cache (BunSQLiteCache)
+  SQLITE_CACHE_BACKEND: "memory" | "file";
+  SQLITE_CACHE_PATH: string;
+  SQLITE_CACHE_MAX_SIZE_MB: number;
+  SQLITE_CACHE_MAX_ENTRIES: number;
+  SQLITE_CACHE_COMPRESSION: "zstd" | "gzip" | "none";
+  SQLITE_CACHE_EVICTION_POLICY: "lru" | "lfu" | "greedy-dual" | "tinylfu";
+  SQLITE_CACHE_COMPRESSION_THRESHOLD: number;
+  // Operations replayed at boot before /health/ready reports ready
+  CACHE_WARMUP_FILE?: string;
+  CACHE_WARMUP_CONCURRENCY: number;
+  CACHE_WARMUP_TIMEOUT_MS: number;
   PORT: number;
   ALLOWED_ORIGINS: string[];
   BASE_URL: string;
@@ -60,6 +76,9 @@ export interface TelemetryConfig {
   TRACES_ENDPOINT: string;
   METRICS_ENDPOINT: string;
   LOGS_ENDPOINT: string;
+  // Wire protocol and body compression of the Bun OTLP exporters
+  EXPORT_PROTOCOL: "http/json" | "http/protobuf" | "grpc";
+  EXPORT_COMPRESSION: "none" | "gzip";
   METRIC_READER_INTERVAL: number;
   SUMMARY_LOG_INTERVAL: number;
   // 2025 compliance settings
@@ -68,6 +87,21 @@ export interface TelemetryConfig {
   MAX_QUEUE_SIZE: number;
   CIRCUIT_BREAKER_THRESHOLD: number;
   CIRCUIT_BREAKER_TIMEOUT_MS: number;
+  // On-disk spool for batches the collector couldn't take
+  SPOOL_ENABLED: boolean;
+  SPOOL_PATH: string;
+  SPOOL_MAX_BYTES: number;
+  SPOOL_MAX_AGE_MS: number;
+  SPOOL_REPLAY_BYTES_PER_SECOND: number;
+  // Pull-based /metrics endpoint for Prometheus scrapers
+  PROMETHEUS_ENABLED: boolean;
+  // Tail-based trace sampling in BunSpanProcessor
+  TAIL_SAMPLING_ENABLED: boolean;
+  TAIL_SAMPLING_DECISION_WAIT_MS: number;
+  TAIL_SAMPLING_MAX_TRACES: number;
+  TAIL_SAMPLING_MAX_SPANS_PER_TRACE: number;
+  TAIL_SAMPLING_OPERATIONS: string[];
+  TAIL_SAMPLING_PROBABILITY: number;
   // Log retention policy (days)
   LOG_RETENTION_DEBUG_DAYS: number;
   LOG_RETENTION_INFO_DAYS: number;
@@ -75,12 +109,58 @@ export interface TelemetryConfig {
   LOG_RETENTION_ERROR_DAYS: number;
 }
 
+export interface SecurityConfig {
+  // JWT/OIDC bearer authentication
+  AUTH_ENABLED: boolean;
+  AUTH_REQUIRED: boolean;
+  AUTH_JWKS_URL?: string;
+  AUTH_JWKS_FILE?: string;
+  AUTH_ISSUER?: string;
+  AUTH_AUDIENCE: string[];
+  AUTH_ALGORITHMS: string[];
+  AUTH_CLOCK_TOLERANCE_SECONDS: number;
+  AUTH_JWKS_CACHE_TTL_MS: number;
+  // Claims holding the division/brand codes a caller may access
+  AUTH_DIVISIONS_CLAIM: string;
+  AUTH_BRANDS_CLAIM: string;
+  // Persisted queries (APQ / trusted documents)
+  PERSISTED_QUERIES_MODE: "disabled" | "apq" | "allowlist";
+  PERSISTED_QUERIES_MANIFEST?: string;
+  PERSISTED_QUERIES_TTL_MS: number;
+  // Static query cost analysis and per-client budgets
+  QUERY_COST_ENABLED: boolean;
+  QUERY_COST_MAX_PER_QUERY: number;
+  QUERY_COST_BUDGET: number;
+  QUERY_COST_REFILL_PER_SECOND: number;
+  QUERY_COST_FIELD_COSTS: string[];
+  QUERY_COST_MULTIPLIER_ARGUMENTS: string[];
+  // HTTP rate limiting
+  RATE_LIMIT_ENABLED: boolean;
+  RATE_LIMIT_BACKEND: "memory" | "sqlite" | "resp";
+  RATE_LIMIT_ALGORITHM: "sliding-window" | "token-bucket";
+  RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_WINDOW_MS: number;
+  RATE_LIMIT_KEY_BY: ("ip" | "user" | "apiKey" | "operation" | "path")[];
+  RATE_LIMIT_OPERATION_LIMITS: string[];
+  RATE_LIMIT_API_KEY_HEADER: string;
+  RATE_LIMIT_KEY_PREFIX: string;
+  RATE_LIMIT_SQLITE_PATH: string;
+  RATE_LIMIT_REDIS_URL?: string;
+  RATE_LIMIT_FAIL_OPEN: boolean;
+  // Signed tokens that skip rate limiting (load tests, trusted callers)
+  RATE_LIMIT_BYPASS_SECRET?: string;
+  RATE_LIMIT_BYPASS_TOKEN_IDS: string[];
+  // Bearer token for the /admin endpoints (disabled when unset)
+  ADMIN_API_TOKEN?: string;
+}
+
 export interface Config {
   application: ApplicationConfig;
   capella: CapellaConfig;
   runtime: RuntimeConfig;
   deployment: DeploymentConfig;
   telemetry: TelemetryConfig;
+  security: SecurityConfig;
 }
 
 // =============================================================================
@@ -105,6 +185,50 @@ export const ApplicationConfigSchema = z.strictObject({
     .max(3600000, "Cache TTL should not exceed 1 hour")
     .refine((val) => !Number.isNaN(val), "Cache TTL cannot be NaN")
     .describe("GraphQL Yoga response cache TTL in milliseconds"),
+  YOGA_RESPONSE_CACHE_BACKEND: z
+    .enum(["memory", "sqlite", "shared"])
+    .describe(
+      "Response cache store: per-process memory, a SQLite file owned by this process, or a file shared by workers"
+    ),
+  YOGA_RESPONSE_CACHE_PATH: NonEmptyString.describe("SQLite file for the sqlite and shared response cache backends"),
+  YOGA_RESPONSE_CACHE_MAX_ENTRIES: PositiveInt.describe("Maximum cached responses; the oldest are dropped first"),
+  SQLITE_CACHE_BACKEND: z
+    .enum(["memory", "file"])
+    .describe("Resolver cache store: per-process memory, or a WAL-mode SQLite file that survives restarts"),
+  SQLITE_CACHE_PATH: NonEmptyString.describe("SQLite file for the file resolver cache backend"),
+  SQLITE_CACHE_MAX_SIZE_MB: z
+    .number()
+    .min(1, "Resolver cache size must be at least 1MB")
+    .max(4096, "Resolver cache size should not exceed 4GB")
+    .describe("Maximum size of cached resolver values; least recently used entries are evicted beyond it"),
+  SQLITE_CACHE_MAX_ENTRIES: PositiveInt.describe("Maximum cached resolver entries"),
+  SQLITE_CACHE_COMPRESSION: z
+    .enum(["zstd", "gzip", "none"])
+    .describe("Codec for resolver cache values above SQLITE_CACHE_COMPRESSION_THRESHOLD"),
+  SQLITE_CACHE_EVICTION_POLICY: z
+    .enum(["lru", "lfu", "greedy-dual", "tinylfu"])
+    .describe(
+      "Resolver cache eviction: least recently or frequently used, cost/size-aware GreedyDual, or LRU behind a TinyLFU admission filter"
+    ),
+  SQLITE_CACHE_COMPRESSION_THRESHOLD: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Resolver cache values larger than this many bytes are compressed"),
+  CACHE_WARMUP_FILE: NonEmptyString.optional().describe(
+    "JSON file of GraphQL operations and variables replayed at boot to warm the caches; warm-up is off when unset"
+  ),
+  CACHE_WARMUP_CONCURRENCY: z
+    .number()
+    .int()
+    .min(1)
+    .max(32, "Cache warm-up concurrency should not exceed 32")
+    .describe("Warm-up operations executed in parallel"),
+  CACHE_WARMUP_TIMEOUT_MS: z
+    .number()
+    .min(1000, "Cache warm-up timeout must be at least 1 second")
+    .max(600000, "Cache warm-up timeout should not exceed 10 minutes")
+    .describe("Longest /health/ready waits for cache warm-up before reporting ready anyway"),
   PORT: PortNumber.describe("Server listening port"),
   ALLOWED_ORIGINS: z.array(z.string().url()).describe("CORS allowed origins"),
   BASE_URL: z.string().url("BASE_URL must be a valid URL").describe("Application base URL"),
@@ -190,6 +314,10 @@ export const TelemetryConfigSchema = z.strictObject({
   TRACES_ENDPOINT: z.string().url("TRACES_ENDPOINT must be a valid URL").describe("OTLP traces endpoint"),
   METRICS_ENDPOINT: z.string().url("METRICS_ENDPOINT must be a valid URL").describe("OTLP metrics endpoint"),
   LOGS_ENDPOINT: z.string().url("LOGS_ENDPOINT must be a valid URL").describe("OTLP logs endpoint"),
+  EXPORT_PROTOCOL: z
+    .enum(["http/json", "http/protobuf", "grpc"])
+    .describe("OTLP protocol of the SDK and Bun exporters; grpc uses only the host and port of each endpoint"),
+  EXPORT_COMPRESSION: z.enum(["none", "gzip"]).describe("Compression of OTLP export requests"),
   METRIC_READER_INTERVAL: z
     .number()
     .min(1000, "METRIC_READER_INTERVAL must be at least 1000ms")
@@ -228,6 +356,53 @@ export const TelemetryConfigSchema = z.strictObject({
     .min(10000, "CIRCUIT_BREAKER_TIMEOUT_MS must be at least 10 seconds")
     .max(300000, "CIRCUIT_BREAKER_TIMEOUT_MS should not exceed 5 minutes")
     .describe("Circuit breaker timeout"),
+  SPOOL_ENABLED: z.boolean().describe("Spool failed telemetry exports to disk and replay them on recovery"),
+  SPOOL_PATH: NonEmptyString.describe("SQLite file holding spooled telemetry batches"),
+  SPOOL_MAX_BYTES: z
+    .number()
+    .int()
+    .min(1048576, "SPOOL_MAX_BYTES must be at least 1MB")
+    .max(2147483648, "SPOOL_MAX_BYTES should not exceed 2GB")
+    .describe("Spool size cap; the oldest batches are evicted first"),
+  SPOOL_MAX_AGE_MS: z
+    .number()
+    .int()
+    .min(60000, "SPOOL_MAX_AGE_MS must be at least 1 minute")
+    .max(604800000, "SPOOL_MAX_AGE_MS should not exceed 7 days")
+    .describe("Age after which spooled batches are discarded"),
+  SPOOL_REPLAY_BYTES_PER_SECOND: z
+    .number()
+    .int()
+    .min(1024, "SPOOL_REPLAY_BYTES_PER_SECOND must be at least 1KB")
+    .describe("Bandwidth cap for replaying spooled batches"),
+  PROMETHEUS_ENABLED: z.boolean().describe("Serve OpenTelemetry metrics at /metrics in Prometheus/OpenMetrics format"),
+  TAIL_SAMPLING_ENABLED: z.boolean().describe("Decide which traces to keep after they complete instead of at the head"),
+  TAIL_SAMPLING_DECISION_WAIT_MS: z
+    .number()
+    .int()
+    .min(1000, "TAIL_SAMPLING_DECISION_WAIT_MS must be at least 1 second")
+    .max(300000, "TAIL_SAMPLING_DECISION_WAIT_MS should not exceed 5 minutes")
+    .describe("How long a trace is buffered waiting for its root span"),
+  TAIL_SAMPLING_MAX_TRACES: z
+    .number()
+    .int()
+    .min(100, "TAIL_SAMPLING_MAX_TRACES must be at least 100")
+    .max(1000000, "TAIL_SAMPLING_MAX_TRACES should not exceed 1000000")
+    .describe("Traces buffered at once; the oldest is decided early when full"),
+  TAIL_SAMPLING_MAX_SPANS_PER_TRACE: z
+    .number()
+    .int()
+    .min(10, "TAIL_SAMPLING_MAX_SPANS_PER_TRACE must be at least 10")
+    .max(100000, "TAIL_SAMPLING_MAX_SPANS_PER_TRACE should not exceed 100000")
+    .describe("Spans buffered per trace; further spans are dropped"),
+  TAIL_SAMPLING_OPERATIONS: z
+    .array(NonEmptyString)
+    .describe("Span or GraphQL operation names whose traces are always kept"),
+  TAIL_SAMPLING_PROBABILITY: z
+    .number()
+    .min(0, "TAIL_SAMPLING_PROBABILITY must be between 0 and 1")
+    .max(1, "TAIL_SAMPLING_PROBABILITY must be between 0 and 1")
+    .describe("Share of traces kept when no other policy matches"),
   // Log retention policy validation
   LOG_RETENTION_DEBUG_DAYS: z.number().min(1).max(365).describe("Debug log retention in days"),
   LOG_RETENTION_INFO_DAYS: z.number().min(1).max(365).describe("Info log retention in days"),
@@ -235,6 +410,121 @@ export const TelemetryConfigSchema = z.strictObject({
   LOG_RETENTION_ERROR_DAYS: z.number().min(1).max(2555).describe("Error log retention in days"),
 });
 
+// Security schema - validation rules only
+export const SecurityConfigSchema = z
+  .strictObject({
+    AUTH_ENABLED: z.boolean().describe("Verify Bearer JWTs on incoming requests"),
+    AUTH_REQUIRED: z.boolean().describe("Reject requests without a Bearer token"),
+    AUTH_JWKS_URL: z.string().url("AUTH_JWKS_URL must be a valid URL").optional().describe("JWKS endpoint URL"),
+    AUTH_JWKS_FILE: NonEmptyString.optional().describe("Path to a local JWKS file"),
+    AUTH_ISSUER: NonEmptyString.optional().describe("Expected token issuer (iss)"),
+    AUTH_AUDIENCE: z.array(NonEmptyString).describe("Accepted token audiences (aud)"),
+    AUTH_ALGORITHMS: z
+      .array(z.enum(["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"]))
+      .min(1, "AUTH_ALGORITHMS must allow at least one algorithm")
+      .describe("Accepted JWS signing algorithms"),
+    AUTH_CLOCK_TOLERANCE_SECONDS: z
+      .number()
+      .int()
+      .min(0)
+      .max(300, "AUTH_CLOCK_TOLERANCE_SECONDS should not exceed 5 minutes")
+      .describe("Allowed clock skew for exp/nbf checks"),
+    AUTH_JWKS_CACHE_TTL_MS: z
+      .number()
+      .min(10000, "AUTH_JWKS_CACHE_TTL_MS must be at least 10 seconds")
+      .max(86400000, "AUTH_JWKS_CACHE_TTL_MS should not exceed 24 hours")
+      .describe("How long fetched signing keys are cached"),
+    AUTH_DIVISIONS_CLAIM: NonEmptyString.describe("Token claim listing accessible division codes"),
+    AUTH_BRANDS_CLAIM: NonEmptyString.describe("Token claim listing accessible brand codes"),
+    PERSISTED_QUERIES_MODE: z
+      .enum(["disabled", "apq", "allowlist"])
+      .describe("Persisted query handling: off, automatic (APQ), or manifest allowlist only"),
+    PERSISTED_QUERIES_MANIFEST: NonEmptyString.optional().describe("Path to the persisted query manifest"),
+    PERSISTED_QUERIES_TTL_MS: z
+      .number()
+      .min(60000, "PERSISTED_QUERIES_TTL_MS must be at least 1 minute")
+      .describe("How long registered APQ queries are cached"),
+    QUERY_COST_ENABLED: z.boolean().describe("Reject operations over the static cost limit or client budget"),
+    QUERY_COST_MAX_PER_QUERY: z.number().int().min(1).describe("Highest cost a single operation may have"),
+    QUERY_COST_BUDGET: z.number().int().min(1).describe("Cost budget per client (user or IP) when full"),
+    QUERY_COST_REFILL_PER_SECOND: z.number().min(0).describe("Cost units each client budget regains per second"),
+    QUERY_COST_FIELD_COSTS: z
+      .array(
+        z
+          .string()
+          .regex(/^[A-Za-z_]\w*\.[A-Za-z_]\w*=\d+(\.\d+)?$/, "QUERY_COST_FIELD_COSTS entries must be Type.field=cost")
+      )
+      .describe("Per-field cost overrides (Type.field=cost), taking precedence over @cost"),
+    QUERY_COST_MULTIPLIER_ARGUMENTS: z
+      .array(NonEmptyString)
+      .describe("Arguments that scale a field's cost when it has no @cost multipliers"),
+    RATE_LIMIT_ENABLED: z.boolean().describe("Rate limit HTTP requests"),
+    RATE_LIMIT_BACKEND: z
+      .enum(["memory", "sqlite", "resp"])
+      .describe("Rate limit state store: per-process memory, shared SQLite file, or Redis-protocol server"),
+    RATE_LIMIT_ALGORITHM: z.enum(["sliding-window", "token-bucket"]).describe("Rate limit algorithm"),
+    RATE_LIMIT_MAX_REQUESTS: z.number().int().min(1).describe("Requests allowed per window (token bucket capacity)"),
+    RATE_LIMIT_WINDOW_MS: z
+      .number()
+      .min(1000, "RATE_LIMIT_WINDOW_MS must be at least 1 second")
+      .describe("Rate limit window (token bucket refill period)"),
+    RATE_LIMIT_KEY_BY: z
+      .array(z.enum(["ip", "user", "apiKey", "operation", "path"]))
+      .min(1, "RATE_LIMIT_KEY_BY needs at least one key part")
+      .describe("Request attributes combined into the rate limit key"),
+    RATE_LIMIT_OPERATION_LIMITS: z
+      .array(
+        z.string().regex(/^[A-Za-z_]\w*=\d+$/, "RATE_LIMIT_OPERATION_LIMITS entries must be operationOrField=limit")
+      )
+      .describe("Extra per-window limits for GraphQL operation or root field names"),
+    RATE_LIMIT_API_KEY_HEADER: NonEmptyString.describe("Header holding the caller's API key"),
+    RATE_LIMIT_KEY_PREFIX: z.string().describe("Prefix for keys in shared rate limit stores"),
+    RATE_LIMIT_SQLITE_PATH: NonEmptyString.describe("SQLite file for the sqlite rate limit backend"),
+    RATE_LIMIT_REDIS_URL: z
+      .string()
+      .regex(/^rediss?:\/\//, "RATE_LIMIT_REDIS_URL must be a redis:// or rediss:// URL")
+      .optional()
+      .describe("Server URL for the resp rate limit backend"),
+    RATE_LIMIT_FAIL_OPEN: z.boolean().describe("Allow requests when the rate limit store is unavailable"),
+    RATE_LIMIT_BYPASS_SECRET: z
+      .string()
+      .min(32, "RATE_LIMIT_BYPASS_SECRET must be at least 32 characters")
+      .optional()
+      .describe("HMAC secret for rate limit bypass tokens"),
+    RATE_LIMIT_BYPASS_TOKEN_IDS: z
+      .array(z.string().regex(/^[A-Za-z0-9_-]+$/, "RATE_LIMIT_BYPASS_TOKEN_IDS entries must be simple identifiers"))
+      .describe("Bypass token ids that are currently honoured"),
+    ADMIN_API_TOKEN: z
+      .string()
+      .min(32, "ADMIN_API_TOKEN must be at least 32 characters")
+      .optional()
+      .describe("Bearer token for the /admin endpoints; they respond 404 when unset"),
+  })
+  .refine((data) => !data.AUTH_ENABLED || Boolean(data.AUTH_JWKS_URL || data.AUTH_JWKS_FILE), {
+    message: "AUTH_JWKS_URL or AUTH_JWKS_FILE is required when AUTH_ENABLED is true",
+    path: ["AUTH_JWKS_URL"],
+  })
+  .refine((data) => !data.AUTH_REQUIRED || data.AUTH_ENABLED, {
+    message: "AUTH_REQUIRED has no effect unless AUTH_ENABLED is true",
+    path: ["AUTH_REQUIRED"],
+  })
+  .refine((data) => data.PERSISTED_QUERIES_MODE !== "allowlist" || Boolean(data.PERSISTED_QUERIES_MANIFEST), {
+    message: "PERSISTED_QUERIES_MANIFEST is required when PERSISTED_QUERIES_MODE is allowlist",
+    path: ["PERSISTED_QUERIES_MANIFEST"],
+  })
+  .refine((data) => data.QUERY_COST_MAX_PER_QUERY <= data.QUERY_COST_BUDGET, {
+    message: "QUERY_COST_MAX_PER_QUERY cannot exceed QUERY_COST_BUDGET",
+    path: ["QUERY_COST_MAX_PER_QUERY"],
+  })
+  .refine((data) => data.RATE_LIMIT_BACKEND !== "resp" || Boolean(data.RATE_LIMIT_REDIS_URL), {
+    message: "RATE_LIMIT_REDIS_URL is required when RATE_LIMIT_BACKEND is resp",
+    path: ["RATE_LIMIT_REDIS_URL"],
+  })
+  .refine((data) => data.RATE_LIMIT_BYPASS_TOKEN_IDS.length === 0 || Boolean(data.RATE_LIMIT_BYPASS_SECRET), {
+    message: "RATE_LIMIT_BYPASS_SECRET is required when RATE_LIMIT_BYPASS_TOKEN_IDS is set",
+    path: ["RATE_LIMIT_BYPASS_SECRET"],
+  });
+
 // =============================================================================
 // PRODUCTION SECURITY VALIDATION (per 4-pillar pattern)
 // =============================================================================
@@ -289,6 +579,15 @@ function addProductionSecurityValidation(data: Config, ctx: z.RefinementCtx): vo
   } catch {
     // URL parsing failed, will be caught by schema validation
   }
+
+  // Tokens must be bound to an issuer when authentication is on in production
+  if (data.security.AUTH_ENABLED && !data.security.AUTH_ISSUER) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "AUTH_ISSUER must be set when authentication is enabled in production",
+      path: ["security", "AUTH_ISSUER"],
+    });
+  }
 }
 
 // =============================================================================
@@ -302,6 +601,7 @@ export const ConfigSchema = z
     runtime: RuntimeConfigSchema,
     deployment: DeploymentConfigSchema,
     telemetry: TelemetryConfigSchema,
+    security: SecurityConfigSchema,
   })
   .superRefine(addProductionSecurityValidation);
 
@@ -315,6 +615,7 @@ export const SchemaRegistry = {
   Runtime: RuntimeConfigSchema,
   Deployment: DeploymentConfigSchema,
   Telemetry: TelemetryConfigSchema,
+  Security: SecurityConfigSchema,
   Config: ConfigSchema,
 } as const;
 
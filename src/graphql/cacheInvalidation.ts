@@ -0,0 +1,51 @@
+/* src/graphql/cacheInvalidation.ts - Tag invalidation across every cache layer */
+
+import { bunSQLiteCache } from "$lib/bunSQLiteCache";
+import { defaultQueryCache } from "$lib/queryCache";
+import { error as err, log } from "../telemetry/logger";
+import { responseCache } from "./responseCache";
+
+export interface TagInvalidationResult {
+  tags: string[];
+  /** Entries removed per layer */
+  removed: {
+    queryCache: number;
+    sqliteCache: number;
+    responseCache: number;
+  };
+  /** Layers that failed; their entries expire with their TTL */
+  failed: string[];
+}
+
+/**
+ * Purge every entry tagged with any of the tags from the query cache, the
+ * SQLite cache and the GraphQL response cache. A failing layer doesn't stop
+ * the others.
+ */
+export async function invalidateCacheTags(tags: readonly string[]): Promise<TagInvalidationResult> {
+  const unique = [...new Set(tags)];
+  const result: TagInvalidationResult = {
+    tags: unique,
+    removed: { queryCache: 0, sqliteCache: 0, responseCache: 0 },
+    failed: [],
+  };
+  if (unique.length === 0) return result;
+
+  const layers: Array<[keyof TagInvalidationResult["removed"], () => number | Promise<number>]> = [
+    ["queryCache", () => defaultQueryCache.invalidateTags(unique)],
+    ["sqliteCache", () => bunSQLiteCache.invalidateTags(unique)],
+    ["responseCache", () => responseCache.invalidateTags(unique)],
+  ];
+
+  for (const [layer, invalidate] of layers) {
+    try {
+      result.removed[layer] = await invalidate();
+    } catch (error) {
+      err("Cache tag invalidation failed", error, { layer, tags: unique.length });
+      result.failed.push(layer);
+    }
+  }
+
+  log("Cache tags invalidated", { tags: unique, ...result.removed, failed: result.failed });
+  return result;
+}
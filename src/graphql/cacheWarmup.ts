@@ -0,0 +1,58 @@
+/* src/graphql/cacheWarmup.ts - Cache warm-up by executing GraphQL operations in-process */
+
+import { execute, type GraphQLSchema, parse, validate } from "graphql";
+import config from "$config";
+import { type CacheWarmupExecutor, cacheWarmer, loadCacheWarmupOperations } from "$lib/cacheWarmup";
+import { err } from "../telemetry/logger";
+import { createSystemContext } from "./context";
+import { schema } from "./schema";
+
+const WARMUP_USER_ID = "system:cache-warmup";
+
+/**
+ * Execute operations directly against the schema, so resolvers fill the
+ * query and SQLite caches without going through HTTP, rate limits or cost budgets
+ */
+export function createSchemaExecutor(schema: GraphQLSchema): CacheWarmupExecutor {
+  return async ({ query, operationName, variables }) => {
+    const document = parse(query);
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) {
+      throw validationErrors[0];
+    }
+
+    const result = await execute({
+      schema,
+      document,
+      operationName,
+      variableValues: variables,
+      contextValue: createSystemContext(WARMUP_USER_ID),
+    });
+    if (result.errors?.length) {
+      throw result.errors[0];
+    }
+  };
+}
+
+/**
+ * Start warming the caches from CACHE_WARMUP_FILE without waiting for it;
+ * /health/ready reports not ready until the run finishes or
+ * CACHE_WARMUP_TIMEOUT_MS passes
+ */
+export async function startCacheWarmup(): Promise<void> {
+  const path = config.application.CACHE_WARMUP_FILE;
+  if (!path) return;
+
+  try {
+    const operations = await loadCacheWarmupOperations(path);
+    // Not awaited: the server starts serving while readiness waits for the run
+    cacheWarmer.run(operations, createSchemaExecutor(schema), {
+      concurrency: config.application.CACHE_WARMUP_CONCURRENCY,
+      timeoutMs: config.application.CACHE_WARMUP_TIMEOUT_MS,
+    });
+  } catch (error) {
+    // A broken warm-up file must not keep the instance out of rotation
+    err("Cache warm-up could not start", error, { path });
+    cacheWarmer.fail(error);
+  }
+}
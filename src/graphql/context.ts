@@ -2,25 +2,30 @@
 
 import type DataLoader from "dataloader";
 import { ulid } from "ulid";
+import { getSecurityConfig } from "$config";
+import { type AuthenticatedUser, authenticateRequest } from "$lib/auth";
 import { type CollectionKey, createDocumentDataLoader, type DocumentResult } from "$lib/couchbase";
+import { createEntityLoaders, type EntityLoaders } from "$lib/entityLoaders";
 import { debug } from "../telemetry/logger";
 
 // Enhanced GraphQL context type with additional tracking
 export interface GraphQLContext {
   requestId: string;
   dataLoader: DataLoader<CollectionKey, DocumentResult>;
-  user?: {
-    id: string;
-  };
+  /** Batched look, image, option and assignment loaders */
+  loaders: EntityLoaders;
+  /** Verified bearer token identity; undefined for anonymous requests */
+  user?: AuthenticatedUser;
   clientIp?: string;
   userAgent?: string;
   startTime?: number;
 }
 
 /**
- * Create GraphQL context for each request
+ * Create GraphQL context for each request.
+ * Rejects with AuthenticationError when the Bearer token fails verification.
  */
-export function contextFactory({ request }: { request: Request }): GraphQLContext {
+export async function contextFactory({ request }: { request: Request }): Promise<GraphQLContext> {
   const requestId = ulid();
   const startTime = Date.now();
 
@@ -31,14 +36,59 @@ export function contextFactory({ request }: { request: Request }): GraphQLContex
   // Create a new DataLoader instance per request for proper caching isolation
   const dataLoader = createDocumentDataLoader();
 
+  // Memoized per request - usually already verified by the response cache session
+  const user = await authenticateRequest(request);
+
   return {
     requestId,
     dataLoader,
+    loaders: createEntityLoaders(),
     clientIp,
     userAgent,
     startTime,
-    // User context could be extracted from headers/JWT in the future
-    user: undefined,
+    user,
+  };
+}
+
+/**
+ * Create GraphQL context for an operation received over a WebSocket connection.
+ * Each subscription gets its own requestId and loaders.
+ */
+export function createWebSocketContext({
+  clientIp,
+  userAgent,
+  user,
+}: {
+  clientIp?: string;
+  userAgent?: string;
+  user?: AuthenticatedUser;
+}): GraphQLContext {
+  return {
+    requestId: ulid(),
+    dataLoader: createDocumentDataLoader(),
+    loaders: createEntityLoaders(),
+    clientIp,
+    userAgent,
+    startTime: Date.now(),
+    user,
+  };
+}
+
+/**
+ * Create GraphQL context for operations the server runs itself (cache
+ * warm-up). The system identity may read every division and brand.
+ */
+export function createSystemContext(id: string): GraphQLContext {
+  const security = getSecurityConfig();
+  return {
+    requestId: ulid(),
+    dataLoader: createDocumentDataLoader(),
+    loaders: createEntityLoaders(),
+    startTime: Date.now(),
+    user: {
+      id,
+      claims: { sub: id, [security.AUTH_DIVISIONS_CLAIM]: "*", [security.AUTH_BRANDS_CLAIM]: "*" },
+    },
   };
 }
 
@@ -0,0 +1,137 @@
+/* src/graphql/directives/auth.ts - @auth schema directive */
+
+import {
+  defaultFieldResolver,
+  type GraphQLField,
+  type GraphQLFieldResolver,
+  GraphQLObjectType,
+  type GraphQLSchema,
+  getDirectiveValues,
+} from "graphql";
+import { getSecurityConfig } from "$config";
+import {
+  type AccessScope,
+  type AuthRequirement,
+  applyResultScope,
+  assertArgumentsAllowed,
+  type ClaimNames,
+  getAccessScope,
+} from "$lib/auth/policy";
+import { AuthenticationError } from "$models/errors";
+import { debug } from "../../telemetry/logger";
+import type { GraphQLContext } from "../context";
+
+/**
+ * SDL for the directive; merged into typeDefs
+ */
+export const authDirectiveTypeDefs = /* GraphQL */ `
+  enum AuthRequirement {
+    AUTHENTICATED
+    DIVISION
+    BRAND
+  }
+
+  directive @auth(requires: [AuthRequirement!]! = [AUTHENTICATED]) on OBJECT | FIELD_DEFINITION
+`;
+
+export interface AuthDirectiveOptions {
+  /** Whether policies are enforced; without token verification every caller is anonymous */
+  enabled: boolean;
+  claimNames: ClaimNames;
+}
+
+/**
+ * Read directive options from the security config
+ */
+function getOptionsFromConfig(): AuthDirectiveOptions {
+  const security = getSecurityConfig();
+  return {
+    enabled: security.AUTH_ENABLED,
+    claimNames: { divisions: security.AUTH_DIVISIONS_CLAIM, brands: security.AUTH_BRANDS_CLAIM },
+  };
+}
+
+/**
+ * Resolve the caller's scope for a protected field.
+ * Returns undefined when nothing needs filtering (authentication disabled,
+ * or the field only requires a signed-in caller).
+ */
+function enforce(
+  options: AuthDirectiveOptions,
+  requirements: readonly AuthRequirement[],
+  field: GraphQLField<unknown, GraphQLContext>,
+  args: Record<string, unknown>,
+  context: GraphQLContext
+): AccessScope | undefined {
+  if (!options.enabled) return undefined;
+
+  if (!context.user) {
+    throw new AuthenticationError();
+  }
+
+  if (requirements.every((requirement) => requirement === "AUTHENTICATED")) {
+    return undefined;
+  }
+
+  const scope = getAccessScope(context.user.claims, options.claimNames);
+  assertArgumentsAllowed(
+    requirements,
+    scope,
+    args,
+    field.args.map((arg) => arg.name),
+    field.name
+  );
+  return scope;
+}
+
+function protectField(
+  field: GraphQLField<unknown, GraphQLContext>,
+  requirements: readonly AuthRequirement[],
+  getOptions: () => AuthDirectiveOptions
+): void {
+  const resolve: GraphQLFieldResolver<unknown, GraphQLContext> = field.resolve ?? defaultFieldResolver;
+
+  field.resolve = async (source, args, context, info) => {
+    const scope = enforce(getOptions(), requirements, field, args, context);
+    const result = await resolve(source, args, context, info);
+    return scope ? applyResultScope(result, requirements, scope, field.name) : result;
+  };
+
+  const subscribe = field.subscribe;
+  if (subscribe) {
+    field.subscribe = (source, args, context, info) => {
+      enforce(getOptions(), requirements, field, args, context);
+      return subscribe(source, args, context, info);
+    };
+  }
+}
+
+/**
+ * Wrap every field annotated with @auth (directly or via its object type)
+ * with the policy checks. Field-level directives override the type-level one.
+ * Options are read from config on each call unless given explicitly.
+ */
+export function applyAuthDirective(schema: GraphQLSchema, options?: AuthDirectiveOptions): GraphQLSchema {
+  const getOptions = options ? () => options : getOptionsFromConfig;
+  const directive = schema.getDirective("auth");
+  if (!directive) return schema;
+
+  let protectedFields = 0;
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (!(type instanceof GraphQLObjectType) || type.name.startsWith("__")) continue;
+
+    const typeRequirements = type.astNode ? getDirectiveValues(directive, type.astNode)?.requires : undefined;
+
+    for (const field of Object.values(type.getFields())) {
+      const fieldRequirements = field.astNode ? getDirectiveValues(directive, field.astNode)?.requires : undefined;
+      const requirements = (fieldRequirements ?? typeRequirements) as AuthRequirement[] | undefined;
+      if (!requirements) continue;
+
+      protectField(field as GraphQLField<unknown, GraphQLContext>, requirements, getOptions);
+      protectedFields++;
+    }
+  }
+
+  debug("@auth directive applied", { protectedFields });
+  return schema;
+}
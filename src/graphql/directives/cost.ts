@@ -0,0 +1,15 @@
+/* src/graphql/directives/cost.ts - @cost schema directive */
+
+/**
+ * SDL for the directive; merged into typeDefs.
+ *
+ * value: cost of resolving the field itself (defaults: 1 for object/list fields, 0 for scalars)
+ * multipliers: arguments that scale the field and everything selected beneath it -
+ *   list arguments count their items, numeric arguments their value
+ *
+ * Read by the static calculator in $lib/queryCost; costs can also be
+ * overridden per field through QUERY_COST_FIELD_COSTS.
+ */
+export const costDirectiveTypeDefs = /* GraphQL */ `
+  directive @cost(value: Int!, multipliers: [String!]) on FIELD_DEFINITION
+`;
@@ -0,0 +1,74 @@
+/* src/graphql/errors.ts - Client-facing GraphQL errors for application errors */
+
+import { GraphQLError } from "graphql";
+import { AuthenticationError, AuthorizationError, ConflictError, DocumentNotFoundError } from "$models/errors";
+
+/**
+ * Convert an authentication/authorization failure (thrown directly or wrapped
+ * by graphql-js as originalError) into a GraphQLError that is safe to show
+ * clients. Returns undefined for every other error so callers can mask it.
+ *
+ * Authentication failures carry an HTTP 401 and WWW-Authenticate challenge;
+ * authorization failures stay field-level so sibling data is still returned.
+ */
+export function toClientAuthError(error: unknown): GraphQLError | undefined {
+  const original = error instanceof GraphQLError ? (error.originalError ?? error) : error;
+  const located = error instanceof GraphQLError ? error : undefined;
+
+  if (original instanceof AuthenticationError) {
+    return new GraphQLError(original.message, {
+      nodes: located?.nodes,
+      path: located?.path,
+      extensions: {
+        code: original.code,
+        http: {
+          status: original.statusCode,
+          headers: { "WWW-Authenticate": 'Bearer error="invalid_token"' },
+        },
+      },
+    });
+  }
+
+  if (original instanceof AuthorizationError) {
+    return new GraphQLError(original.message, {
+      nodes: located?.nodes,
+      path: located?.path,
+      extensions: { code: original.code },
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert a stale-version conflict or missing document from a mutation into a
+ * client-facing GraphQLError. Conflicts carry the expected and current version
+ * so clients can re-read and retry. Returns undefined for every other error.
+ */
+export function toClientWriteError(error: unknown): GraphQLError | undefined {
+  const original = error instanceof GraphQLError ? (error.originalError ?? error) : error;
+  const located = error instanceof GraphQLError ? error : undefined;
+
+  if (original instanceof ConflictError) {
+    return new GraphQLError(original.message, {
+      nodes: located?.nodes,
+      path: located?.path,
+      extensions: {
+        code: original.code,
+        documentKey: original.context?.documentId,
+        expectedVersion: original.context?.expectedVersion,
+        currentVersion: original.context?.currentVersion ?? null,
+      },
+    });
+  }
+
+  if (original instanceof DocumentNotFoundError) {
+    return new GraphQLError(original.message, {
+      nodes: located?.nodes,
+      path: located?.path,
+      extensions: { code: original.code },
+    });
+  }
+
+  return undefined;
+}
@@ -0,0 +1,182 @@
+/* src/graphql/listView.ts - Filter and orderBy arguments for list queries */
+
+/**
+ * A list query's filter and orderBy run either in N1QL (as WHERE / ORDER BY
+ * over the function's rows) or over the cached full list when that is
+ * already at hand. Both paths share the semantics defined here:
+ *
+ * - string `contains` is case-insensitive, `eq`, `in` and `startsWith` are exact
+ * - a boolean flag matches missing/null values as false
+ * - ascending order puts missing/null values first, descending puts them last
+ * - ties are broken by the list's key field, so paging stays stable
+ */
+
+export interface StringFilter {
+  eq?: string | null;
+  in?: string[] | null;
+  contains?: string | null;
+  startsWith?: string | null;
+}
+
+export interface IntFilter {
+  eq?: number | null;
+  in?: number[] | null;
+}
+
+export type SortDirection = "ASC" | "DESC";
+
+export interface ListOrder {
+  field: string;
+  direction?: SortDirection | null;
+}
+
+export type ListFilter = Record<string, StringFilter | IntFilter | boolean | null | undefined>;
+
+// A type rather than an interface so it can be spread into cache key variables
+export type ListViewArgs = {
+  filter?: ListFilter | null;
+  orderBy?: ListOrder[] | null;
+};
+
+/**
+ * The document fields a list query can filter and sort on
+ */
+export interface ListViewFields {
+  /** Filter input field -> document field and how it is compared */
+  filters: Record<string, { path: string; kind: "string" | "int" | "boolean" }>;
+  /** orderBy enum value -> document field */
+  orderBy: Record<string, string>;
+  /** Document field that makes the order total */
+  key: string;
+}
+
+export interface N1qlListView {
+  /** WHERE clause without the keyword; empty when nothing is filtered */
+  where: string;
+  /** ORDER BY clause without the keyword; empty without orderBy */
+  orderBy: string;
+  parameters: Record<string, unknown>;
+}
+
+export function hasListView({ filter, orderBy }: ListViewArgs): boolean {
+  const filtered = Object.values(filter ?? {}).some((condition) => condition !== null && condition !== undefined);
+  return filtered || (orderBy?.length ?? 0) > 0;
+}
+
+// Paths come from the ListViewFields definitions, never from arguments
+const fieldRef = (alias: string, path: string) => `${alias}.\`${path}\``;
+
+/**
+ * Translate filter and orderBy into N1QL over rows bound to alias.
+ * Values are passed as named parameters ($lv0, $lv1, ...).
+ */
+export function toN1qlListView(alias: string, fields: ListViewFields, args: ListViewArgs): N1qlListView {
+  const predicates: string[] = [];
+  const parameters: Record<string, unknown> = {};
+  const param = (value: unknown) => {
+    const name = `lv${Object.keys(parameters).length}`;
+    parameters[name] = value;
+    return `$${name}`;
+  };
+
+  for (const [name, condition] of Object.entries(args.filter ?? {})) {
+    const definition = fields.filters[name];
+    if (!definition || condition === null || condition === undefined) continue;
+    const ref = fieldRef(alias, definition.path);
+
+    if (definition.kind === "boolean") {
+      predicates.push(`IFMISSINGORNULL(${ref}, FALSE) = ${param(condition)}`);
+      continue;
+    }
+
+    const { eq, in: values } = condition as StringFilter | IntFilter;
+    if (eq !== null && eq !== undefined) predicates.push(`${ref} = ${param(eq)}`);
+    if (values) predicates.push(`${ref} IN ${param(values)}`);
+
+    if (definition.kind === "string") {
+      const { contains, startsWith } = condition as StringFilter;
+      if (contains) predicates.push(`CONTAINS(LOWER(${ref}), ${param(contains.toLowerCase())})`);
+      if (startsWith) predicates.push(`POSITION(${ref}, ${param(startsWith)}) = 0`);
+    }
+  }
+
+  const order = (args.orderBy ?? []).flatMap(({ field, direction }) => {
+    const path = fields.orderBy[field];
+    if (!path) return [];
+    return direction === "DESC" ? [`${fieldRef(alias, path)} DESC`] : [`${fieldRef(alias, path)} ASC`];
+  });
+  if (order.length > 0) order.push(`${fieldRef(alias, fields.key)} ASC`);
+
+  return { where: predicates.join(" AND "), orderBy: order.join(", "), parameters };
+}
+
+/**
+ * SELECT the rows of a function returning an array (e.g. get_looks(...)),
+ * filtered and sorted in the query service
+ */
+export function selectFromFunction(call: string, alias: string, view: N1qlListView): string {
+  const where = view.where ? ` WHERE ${view.where}` : "";
+  const orderBy = view.orderBy ? ` ORDER BY ${view.orderBy}` : "";
+  return `SELECT RAW ${alias} FROM ${call} AS ${alias}${where}${orderBy}`;
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+function matches(row: Record<string, unknown>, fields: ListViewFields, filter: ListFilter): boolean {
+  for (const [name, condition] of Object.entries(filter)) {
+    const definition = fields.filters[name];
+    if (!definition || isMissing(condition)) continue;
+    const value = row[definition.path];
+
+    if (definition.kind === "boolean") {
+      if ((value ?? false) !== condition) return false;
+      continue;
+    }
+
+    const { eq, in: values } = condition as StringFilter | IntFilter;
+    if (!isMissing(eq) && value !== eq) return false;
+    if (values && !(values as unknown[]).includes(value)) return false;
+
+    if (definition.kind === "string") {
+      const { contains, startsWith } = condition as StringFilter;
+      const text = typeof value === "string" ? value : null;
+      if (contains && !text?.toLowerCase().includes(contains.toLowerCase())) return false;
+      if (startsWith && !text?.startsWith(startsWith)) return false;
+    }
+  }
+  return true;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (isMissing(a) || isMissing(b)) {
+    return isMissing(a) === isMissing(b) ? 0 : isMissing(a) ? -1 : 1;
+  }
+  if (a === b) return 0;
+  return (a as string | number | boolean) < (b as string | number | boolean) ? -1 : 1;
+}
+
+/**
+ * Apply filter and orderBy to an already fetched list (e.g. the cached full
+ * list); returns a new array and leaves rows untouched
+ */
+export function applyListView<T>(rows: readonly T[], fields: ListViewFields, args: ListViewArgs): T[] {
+  const filter = args.filter ?? {};
+  const result = rows.filter((row) => row && matches(row as Record<string, unknown>, fields, filter));
+
+  const order = (args.orderBy ?? []).flatMap(({ field, direction }) => {
+    const path = fields.orderBy[field];
+    return path ? [{ path, descending: direction === "DESC" }] : [];
+  });
+  if (order.length === 0) return result;
+  order.push({ path: fields.key, descending: false });
+
+  return result.sort((left, right) => {
+    const a = left as Record<string, unknown>;
+    const b = right as Record<string, unknown>;
+    for (const { path, descending } of order) {
+      const compared = compareValues(a[path], b[path]);
+      if (compared !== 0) return descending ? -compared : compared;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,147 @@
+/* src/graphql/pagination.ts - Relay-style cursor connections */
+
+import { GraphQLError } from "graphql";
+
+/**
+ * Relay connection arguments (forward and backward paging)
+ */
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Edge<T> {
+  cursor: string;
+  node: T;
+}
+
+export interface Connection<T> {
+  edges: Edge<T>[];
+  pageInfo: PageInfo;
+  totalCount: number;
+}
+
+/**
+ * Extracts the stable identity of a node (e.g. documentKey, optionCode).
+ * Returning null falls back to the node's position in the list.
+ */
+export type NodeKeyExtractor<T> = (node: T) => string | null | undefined;
+
+interface DecodedCursor {
+  key: string | null;
+  offset: number;
+}
+
+const CURSOR_PREFIX = "cursor:v1:";
+
+/**
+ * Encode a cursor from the node key and its offset in the full result set.
+ * The key keeps cursors stable when a cached list is served again; the offset
+ * is only used when the key is no longer present.
+ */
+export function encodeCursor(key: string | null | undefined, offset: number): string {
+  const payload = JSON.stringify({ k: key ?? null, o: offset });
+  return Buffer.from(CURSOR_PREFIX + payload, "utf8").toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): DecodedCursor {
+  try {
+    const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+    if (!decoded.startsWith(CURSOR_PREFIX)) {
+      throw new Error("unknown cursor format");
+    }
+
+    const payload = JSON.parse(decoded.slice(CURSOR_PREFIX.length));
+    if (typeof payload?.o !== "number" || !Number.isInteger(payload.o) || payload.o < 0) {
+      throw new Error("invalid cursor offset");
+    }
+
+    return {
+      key: typeof payload.k === "string" ? payload.k : null,
+      offset: payload.o,
+    };
+  } catch {
+    throw new GraphQLError(`Invalid cursor: ${cursor}`, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+}
+
+/**
+ * Resolve a cursor to its index in the current list.
+ * Prefers the node key so cursors survive reordering; falls back to the offset.
+ */
+function resolveCursorIndex<T>(items: T[], cursor: string, getKey: NodeKeyExtractor<T>): number {
+  const { key, offset } = decodeCursor(cursor);
+
+  if (key !== null) {
+    // Fast path: node still at the same position
+    if (offset < items.length && getKey(items[offset]) === key) {
+      return offset;
+    }
+
+    const index = items.findIndex((item) => getKey(item) === key);
+    if (index !== -1) {
+      return index;
+    }
+  }
+
+  return Math.min(offset, items.length);
+}
+
+/**
+ * Build a Relay connection from a fully materialised list.
+ *
+ * The list is expected to come from the SQLite cache, so slicing here means
+ * paging through a cached result never re-queries Couchbase.
+ */
+export function connectionFromArray<T>(items: T[], args: ConnectionArgs, getKey: NodeKeyExtractor<T>): Connection<T> {
+  const { first, after, last, before } = args;
+  const totalCount = items.length;
+
+  let start = 0;
+  let end = totalCount;
+
+  if (after) {
+    start = Math.max(start, resolveCursorIndex(items, after, getKey) + 1);
+  }
+  if (before) {
+    end = Math.min(end, resolveCursorIndex(items, before, getKey));
+  }
+  end = Math.max(start, end);
+
+  if (first != null) {
+    end = Math.min(end, start + first);
+  }
+  if (last != null) {
+    start = Math.max(start, end - last);
+  }
+
+  const edges = items.slice(start, end).map((node, i) => ({
+    cursor: encodeCursor(getKey(node), start + i),
+    node,
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: end < totalCount,
+      hasPreviousPage: start > 0,
+      startCursor: edges.length > 0 ? edges[0].cursor : null,
+      endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+    },
+    totalCount,
+  };
+}
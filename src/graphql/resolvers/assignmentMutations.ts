@@ -0,0 +1,179 @@
+/* src/graphql/resolvers/assignmentMutations.ts */
+
+import { getSecurityConfig } from "$config";
+import { getAccessScope } from "$lib/auth";
+import { bunSQLiteCache, SQLiteCacheKeys } from "$lib/bunSQLiteCache";
+import { DocumentIds } from "$lib/couchbaseDocumentIds";
+import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
+import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
+import {
+  type AssignmentChange,
+  type AssignmentChangeResult,
+  type AssignmentKey,
+  type BulkAssignmentResult,
+  getSeasonalAssignmentRepository,
+} from "$lib/seasonalAssignmentRepository";
+import { AuthorizationError } from "$models/errors";
+import { error as err, log } from "../../telemetry/logger";
+import type { GraphQLContext } from "../context";
+import { invalidateResponseCache } from "../responseCache";
+import {
+  type AssignmentDivisionsArgs,
+  AssignmentDivisionsArgsSchema,
+  type AssignmentListEditArgs,
+  AssignmentListEditArgsSchema,
+  withValidation,
+} from "../validation/schemas";
+
+/**
+ * Sales organization codes and channels apply to every division of an
+ * assignment, so editing them needs access to all divisions.
+ */
+function assertAllDivisionsAccess(context: GraphQLContext, fieldName: string): void {
+  const security = getSecurityConfig();
+  if (!security.AUTH_ENABLED || !context.user) return;
+
+  const scope = getAccessScope(context.user.claims, {
+    divisions: security.AUTH_DIVISIONS_CLAIM,
+    brands: security.AUTH_BRANDS_CLAIM,
+  });
+  if (scope.divisions !== "*") {
+    throw new AuthorizationError("Editing assignments across divisions requires access to every division", fieldName);
+  }
+}
+
+/**
+ * Evict every cached read of a changed assignment: the getAllSeasonalAssignments
+ * variants, the assignment and per-user division entities and responses
+ * containing the assignment.
+ */
+async function evictAssignments(results: AssignmentChangeResult[]): Promise<void> {
+  const changed = results.filter((result) => result.status === "UPDATED" || result.status === "AMBIGUOUS");
+
+  for (const { styleSeasonCode, companyCode } of changed) {
+    for (const company of [companyCode, undefined]) {
+      for (const isActive of [undefined, true, false]) {
+        await bunSQLiteCache.delete(
+          QueryFingerprintBuilder.for("getAllSeasonalAssignments")
+            .withVariables({ styleSeasonCode, companyCode: company, isActive })
+            .withPrefix("gql")
+            .build()
+        );
+      }
+    }
+
+    await bunSQLiteCache.delete(SQLiteCacheKeys.entitySeasonalAssignment(styleSeasonCode, companyCode));
+    const entityPrefix = SQLiteCacheKeys.entityDivisionAssignment(styleSeasonCode, companyCode, "");
+    await bunSQLiteCache.invalidatePattern(new RegExp(`(^|:)${entityPrefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+  }
+
+  await invalidateResponseCache(
+    changed.flatMap(({ documentKey }) => [
+      { typename: "SeasonalAssignment", id: documentKey },
+      { typename: "SeasonalDivisionalAssignment", id: documentKey },
+    ])
+  );
+}
+
+async function applyChange(
+  fieldName: string,
+  assignments: AssignmentKey[],
+  change: AssignmentChange,
+  dryRun: boolean,
+  context: GraphQLContext
+): Promise<BulkAssignmentResult> {
+  try {
+    const result = await getSeasonalAssignmentRepository().applyBulk(assignments, change, {
+      dryRun,
+      requestId: context.requestId,
+    });
+
+    log("Bulk assignment mutation completed", {
+      requestId: context.requestId,
+      mutation: fieldName,
+      dryRun,
+      committed: result.committed,
+      documents: result.results.length,
+      user: context.user?.id,
+    });
+
+    if (!dryRun) {
+      await evictAssignments(result.results);
+    }
+    return result;
+  } catch (error) {
+    err(`Error in ${fieldName} resolver:`, error, { requestId: context.requestId, dryRun });
+    throw error;
+  }
+}
+
+function divisionsResolver(fieldName: string, isActive: boolean) {
+  return withValidation(
+    AssignmentDivisionsArgsSchema,
+    async (_: unknown, args: AssignmentDivisionsArgs, context: GraphQLContext) =>
+      applyChange(
+        fieldName,
+        args.assignments,
+        { kind: "divisions", divisionCodes: args.divisionCodes, isActive },
+        args.dryRun ?? false,
+        context
+      )
+  );
+}
+
+function listEditResolver(fieldName: string, kind: "salesOrganizationCodes" | "channels") {
+  return withValidation(
+    AssignmentListEditArgsSchema,
+    async (_: unknown, args: AssignmentListEditArgs, context: GraphQLContext) => {
+      assertAllDivisionsAccess(context, fieldName);
+      return applyChange(
+        fieldName,
+        args.assignments,
+        { kind, add: args.add, remove: args.remove },
+        args.dryRun ?? false,
+        context
+      );
+    }
+  );
+}
+
+// Assignment documents are keyed by season and company; exposing the key lets
+// the response cache track (and invalidate) them as entities
+const assignmentDocumentKey = (assignment: { documentKey?: string; styleSeasonCode?: string; companyCode?: string }) =>
+  assignment.documentKey ??
+  (assignment.styleSeasonCode && assignment.companyCode
+    ? DocumentIds.seasonalAssignment(assignment.styleSeasonCode, assignment.companyCode)
+    : null);
+
+const assignmentMutations = {
+  Mutation: {
+    activateAssignmentDivisions: withPerformanceTracking(
+      "Mutation",
+      "activateAssignmentDivisions",
+      divisionsResolver("activateAssignmentDivisions", true)
+    ),
+    deactivateAssignmentDivisions: withPerformanceTracking(
+      "Mutation",
+      "deactivateAssignmentDivisions",
+      divisionsResolver("deactivateAssignmentDivisions", false)
+    ),
+    updateAssignmentSalesOrganizationCodes: withPerformanceTracking(
+      "Mutation",
+      "updateAssignmentSalesOrganizationCodes",
+      listEditResolver("updateAssignmentSalesOrganizationCodes", "salesOrganizationCodes")
+    ),
+    updateAssignmentChannels: withPerformanceTracking(
+      "Mutation",
+      "updateAssignmentChannels",
+      listEditResolver("updateAssignmentChannels", "channels")
+    ),
+  },
+  SeasonalAssignment: {
+    documentKey: assignmentDocumentKey,
+  },
+  SeasonalDivisionalAssignment: {
+    documentKey: assignmentDocumentKey,
+  },
+};
+
+export default assignmentMutations;
@@ -0,0 +1,64 @@
+/* src/graphql/resolvers/documentChanges.ts */
+
+import { subscribeToDocumentChanges } from "$lib/documentChangeSource";
+import { debug } from "../../telemetry/logger";
+import type { GraphQLContext } from "../context";
+import {
+  type LookChangedArgs,
+  LookChangedArgsSchema,
+  type OptionChangedArgs,
+  OptionChangedArgsSchema,
+  withValidation,
+} from "../validation/schemas";
+
+// Subscribe to look changes for a single division
+const lookChangedSubscriber = withValidation(
+  LookChangedArgsSchema,
+  async (_: unknown, args: LookChangedArgs, context: GraphQLContext) => {
+    const { divisionCode } = args;
+
+    debug("lookChanged subscription registered", {
+      requestId: context.requestId,
+      divisionCode,
+      user: context.user?.id,
+    });
+
+    return subscribeToDocumentChanges("look", {
+      filter: (event) => event.divisionCode === divisionCode,
+    });
+  }
+);
+
+// Subscribe to option changes for a season and division
+const optionChangedSubscriber = withValidation(
+  OptionChangedArgsSchema,
+  async (_: unknown, args: OptionChangedArgs, context: GraphQLContext) => {
+    const { styleSeasonCode, divisionCode } = args;
+
+    debug("optionChanged subscription registered", {
+      requestId: context.requestId,
+      styleSeasonCode,
+      divisionCode,
+      user: context.user?.id,
+    });
+
+    return subscribeToDocumentChanges("option", {
+      filter: (event) => event.styleSeasonCode === styleSeasonCode && event.divisionCode === divisionCode,
+    });
+  }
+);
+
+const documentChanges = {
+  Subscription: {
+    lookChanged: {
+      subscribe: lookChangedSubscriber,
+      resolve: (event: unknown) => event,
+    },
+    optionChanged: {
+      subscribe: optionChangedSubscriber,
+      resolve: (event: unknown) => event,
+    },
+  },
+};
+
+export default documentChanges;
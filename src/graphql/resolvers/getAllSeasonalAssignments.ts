@@ -1,6 +1,7 @@
 /* src/graphql/resolvers/getAllSeasonalAssignments.ts */
 
 import { cacheEntities, SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { CacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
@@ -96,6 +97,10 @@ const getAllSeasonalAssignmentsResolver = withValidation(
                     ttlMs: 5 * 60 * 1000,
                     userScoped: true,
                     userId: context.user?.id,
+                    tags: (item: any) => [
+                      CacheTags.season(item.styleSeasonCode),
+                      ...(item.division?.code ? [CacheTags.division(item.division.code)] : []),
+                    ],
                   }
                 );
               }
@@ -104,7 +109,8 @@ const getAllSeasonalAssignmentsResolver = withValidation(
 
           return data;
         },
-        5 * 60 * 1000 // 5-minute TTL
+        5 * 60 * 1000, // 5-minute TTL
+        [CacheTags.season(styleSeasonCode)]
       );
     } catch (error) {
       err("Error in get all seasonal assignments resolver:", error, {
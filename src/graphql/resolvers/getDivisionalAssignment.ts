@@ -1,6 +1,7 @@
 /* src/graphql/resolvers/getDivisionalAssignment.ts */
 
 import { cacheEntities, getEntity, SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { CacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
@@ -87,12 +88,14 @@ const getDivisionAssignmentResolver = withValidation(
             requiredFields: ["styleSeasonCode", "companyCode"],
             ttlMs: 5 * 60 * 1000,
             userScoped: true,
+            tags: () => [CacheTags.season(styleSeasonCode), CacheTags.division(divisionCode)],
             userId: context.user?.id,
           });
 
           return data;
         },
-        5 * 60 * 1000 // 5-minute TTL
+        5 * 60 * 1000, // 5-minute TTL
+        [CacheTags.season(styleSeasonCode), CacheTags.division(divisionCode)]
       );
     } catch (error) {
       err("Error in get division assignment resolver:", error, {
@@ -1,16 +1,21 @@
 /* src/graphql/resolvers/index.ts */
 
+import assignmentMutations from "./assignmentMutations";
+import documentChanges from "./documentChanges";
 import documentSearch from "./documentSearch";
 import getAllSeasonalAssignments from "./getAllSeasonalAssignments";
 import getDivisionAssignment from "./getDivisionalAssignment";
 import imageDetails from "./imageDetails";
 import imageUrlCheck from "./imageUrlCheck";
 import lookDetails from "./lookDetails";
+import lookMutations from "./lookMutations";
 import looks from "./looks";
 import looksSummary from "./looksSummary";
 import looksUrlCheck from "./looksUrlCheck";
 import optionsProductView from "./optionsProductView";
 import optionsSummary from "./optionsSummary";
+import relationships from "./relationships";
+import search from "./search";
 
 const resolvers = {
   Query: {
@@ -23,9 +28,34 @@ const resolvers = {
     ...imageUrlCheck.Query,
     ...looksUrlCheck.Query,
     ...documentSearch.Query,
+    ...search.Query,
     ...getDivisionAssignment.Query,
     ...getAllSeasonalAssignments.Query,
   },
+  Mutation: {
+    ...lookMutations.Mutation,
+    ...assignmentMutations.Mutation,
+  },
+  Subscription: {
+    ...documentChanges.Subscription,
+  },
+  Look: {
+    ...lookMutations.Look,
+    ...relationships.Look,
+  },
+  OptionProductView: {
+    ...relationships.OptionProductView,
+  },
+  SeasonalAssignment: {
+    ...assignmentMutations.SeasonalAssignment,
+    ...relationships.SeasonalAssignment,
+  },
+  SearchHit: {
+    ...search.SearchHit,
+  },
+  SeasonalDivisionalAssignment: {
+    ...assignmentMutations.SeasonalDivisionalAssignment,
+  },
 };
 
 export default resolvers;
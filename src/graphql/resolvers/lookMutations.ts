@@ -0,0 +1,132 @@
+/* src/graphql/resolvers/lookMutations.ts */
+
+import { CacheTags } from "$lib/cacheTags";
+import { publishDocumentChange } from "$lib/documentChangeSource";
+import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
+import { getLookRepository, type VersionedLook } from "$lib/lookRepository";
+import { error as err, log } from "../../telemetry/logger";
+import { invalidateCacheTags } from "../cacheInvalidation";
+import type { GraphQLContext } from "../context";
+import {
+  type ReorderLooksArgs,
+  ReorderLooksArgsSchema,
+  type SoftDeleteLookArgs,
+  SoftDeleteLookArgsSchema,
+  type UpdateLookArgs,
+  UpdateLookArgsSchema,
+  withValidation,
+} from "../validation/schemas";
+
+/**
+ * Purge everything tagged with the look (its entity, the looks lists holding
+ * it, cached responses) and notify lookChanged subscribers.
+ */
+async function afterLookWrite({ look, version }: VersionedLook, deleted = false): Promise<Record<string, unknown>> {
+  await invalidateCacheTags([CacheTags.look(look.documentKey)]);
+
+  const result = { ...look, version };
+  publishDocumentChange("look", {
+    documentKey: look.documentKey,
+    divisionCode: look.divisionCode,
+    changeType: deleted ? "DELETE" : "UPSERT",
+    look: result,
+    changedAt: new Date().toISOString(),
+  });
+  return result;
+}
+
+function auditFields(context: GraphQLContext): Record<string, unknown> {
+  return {
+    modifiedOn: new Date().toISOString(),
+    ...(context.user ? { documentUpdatedBy: context.user.id } : {}),
+  };
+}
+
+const updateLookResolver = withValidation(
+  UpdateLookArgsSchema,
+  async (_: unknown, args: UpdateLookArgs, context: GraphQLContext) => {
+    const { documentKey, divisionCode, expectedVersion, input } = args;
+
+    try {
+      const updated = await getLookRepository().updateVersioned(documentKey, divisionCode, expectedVersion, {
+        ...input,
+        ...auditFields(context),
+      });
+
+      log("Look updated", {
+        requestId: context.requestId,
+        documentKey,
+        fields: Object.keys(input),
+        user: context.user?.id,
+      });
+
+      return await afterLookWrite(updated);
+    } catch (error) {
+      err("Error in updateLook resolver:", error, { requestId: context.requestId, documentKey });
+      throw error;
+    }
+  }
+);
+
+const reorderLooksResolver = withValidation(
+  ReorderLooksArgsSchema,
+  async (_: unknown, args: ReorderLooksArgs, context: GraphQLContext) => {
+    const { divisionCode, moves } = args;
+
+    try {
+      const reordered = await getLookRepository().reorder(divisionCode, moves, context.requestId);
+
+      log("Looks reordered", {
+        requestId: context.requestId,
+        divisionCode,
+        count: moves.length,
+        user: context.user?.id,
+      });
+
+      return await Promise.all(reordered.map((look) => afterLookWrite(look)));
+    } catch (error) {
+      err("Error in reorderLooks resolver:", error, { requestId: context.requestId, divisionCode });
+      throw error;
+    }
+  }
+);
+
+const softDeleteLookResolver = withValidation(
+  SoftDeleteLookArgsSchema,
+  async (_: unknown, args: SoftDeleteLookArgs, context: GraphQLContext) => {
+    const { documentKey, divisionCode, expectedVersion } = args;
+
+    try {
+      const deleted = await getLookRepository().updateVersioned(documentKey, divisionCode, expectedVersion, {
+        isDeleted: true,
+        ...auditFields(context),
+      });
+
+      log("Look soft-deleted", {
+        requestId: context.requestId,
+        documentKey,
+        user: context.user?.id,
+      });
+
+      return await afterLookWrite(deleted, true);
+    } catch (error) {
+      err("Error in softDeleteLook resolver:", error, { requestId: context.requestId, documentKey });
+      throw error;
+    }
+  }
+);
+
+const lookMutations = {
+  Mutation: {
+    updateLook: withPerformanceTracking("Mutation", "updateLook", updateLookResolver),
+    reorderLooks: withPerformanceTracking("Mutation", "reorderLooks", reorderLooksResolver),
+    softDeleteLook: withPerformanceTracking("Mutation", "softDeleteLook", softDeleteLookResolver),
+  },
+  Look: {
+    // Looks read through the query functions carry no CAS; a list's versions are read in one batch
+    version: (look: { documentKey?: string; version?: string }, _args: unknown, context: GraphQLContext) =>
+      look.version ?? (look.documentKey ? context.loaders.lookVersions.load(look.documentKey) : null),
+  },
+};
+
+export default lookMutations;
@@ -1,100 +1,195 @@
 /* src/graphql/resolvers/looks.ts */
 
-import { cacheEntities, SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { bunSQLiteCache, cacheEntities, SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { CacheTags, collectCacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
 import { debug, error as err, log } from "../../telemetry/logger";
 import type { GraphQLContext } from "../context";
-import { type LooksArgs, LooksArgsSchema, withValidation } from "../validation/schemas";
+import {
+  applyListView,
+  hasListView,
+  type ListViewArgs,
+  type ListViewFields,
+  selectFromFunction,
+  toN1qlListView,
+} from "../listView";
+import { connectionFromArray } from "../pagination";
+import {
+  type LooksArgs,
+  LooksArgsSchema,
+  type LooksConnectionArgs,
+  LooksConnectionArgsSchema,
+  withValidation,
+} from "../validation/schemas";
+
+type LooksScope = Pick<LooksArgs, "brand" | "season" | "division">;
+
+/**
+ * Fields looks can be filtered and sorted on
+ */
+const LOOK_LIST_FIELDS: ListViewFields = {
+  filters: {
+    title: { path: "title", kind: "string" },
+    trend: { path: "trend", kind: "string" },
+    tag: { path: "tag", kind: "string" },
+    lookType: { path: "lookType", kind: "int" },
+    isDeleted: { path: "isDeleted", kind: "boolean" },
+  },
+  orderBy: { TITLE: "title", POSITION: "position", TREND: "trend", LOOK_TYPE: "lookType" },
+  key: "documentKey",
+};
+
+const looksCacheKey = (variables: LooksScope & ListViewArgs) =>
+  QueryFingerprintBuilder.for("looks").withVariables(variables).withPrefix("gql").build();
+
+/**
+ * Fetch the looks for a brand/season/division through the SQLite cache.
+ * Shared by `looks` and `looksConnection` so paging reuses the cached list.
+ * A filter or orderBy runs over the cached full list when there is one and
+ * in N1QL otherwise.
+ */
+async function fetchLooks(args: LooksArgs, context: GraphQLContext): Promise<any[]> {
+  const { filter, orderBy, ...scope } = args;
+  const view = { filter, orderBy };
+  if (!hasListView(view)) {
+    return fetchLookRows(scope, undefined, context);
+  }
+
+  const cached = await bunSQLiteCache.get<any[]>(looksCacheKey(scope));
+  if (cached) {
+    return applyListView(cached, LOOK_LIST_FIELDS, view);
+  }
+  return fetchLookRows(scope, view, context);
+}
+
+async function fetchLookRows(
+  scope: LooksScope,
+  view: ListViewArgs | undefined,
+  context: GraphQLContext
+): Promise<any[]> {
+  const { brand, season, division } = scope;
+
+  // Use QueryFingerprintBuilder for SIMD-accelerated cache key generation
+  const cacheKey = looksCacheKey(view ? { ...scope, ...view } : scope);
+
+  log("GraphQL looks query initiated", {
+    requestId: context.requestId,
+    operationName: "looks",
+    parameters: { brand, season, division },
+    filtered: Boolean(view),
+    user: context.user?.id,
+    clientIp: context.clientIp,
+  });
+
+  // Use SQLite cache with 5-minute TTL for looks data
+  return await withSQLiteCache(
+    cacheKey,
+    async () => {
+      const conn = await connectionManager.getConnection();
+
+      const call = `\`default\`.\`media_assets\`.get_looks($brand, $season, $division)`;
+      const listView = view ? toN1qlListView("look", LOOK_LIST_FIELDS, view) : undefined;
+      const query = listView ? selectFromFunction(call, "look", listView) : `EXECUTE FUNCTION ${call}`;
+
+      log("Database query execution (cache miss)", {
+        operationName: "looks",
+        query: listView ? "get_looks (filtered)" : "get_looks",
+        parameters: { brand, season, division },
+        requestId: context.requestId,
+        cacheStatus: "miss",
+      });
+
+      const result = await QueryExecutor.execute(conn.cluster, query, {
+        parameters: { brand, season, division, ...listView?.parameters },
+        usePreparedStatement: false, // Disabled - causes race condition under high concurrency
+        queryContext: "default.media_assets",
+        requestId: context.requestId,
+      });
+
+      const queryEndTime = Date.now();
+      const queryDuration = queryEndTime - (context.startTime || queryEndTime);
+
+      log("GraphQL looks query completed", {
+        requestId: context.requestId,
+        operationName: "looks",
+        rowCount: result.rows?.length || 0,
+        queryDurationMs: queryDuration,
+        performanceCategory: queryDuration > 1000 ? "slow" : queryDuration > 500 ? "moderate" : "fast",
+        cacheStatus: "populated",
+      });
+
+      // EXECUTE FUNCTION returns the list as its single row; SELECT returns one row per look
+      const rows = listView ? result.rows : result.rows?.[0];
+
+      // Handle empty results (e.g., invalid division)
+      if (!rows || !Array.isArray(rows) || rows.length === 0) {
+        debug("Looks query returned no results", {
+          requestId: context.requestId,
+          parameters: { brand, season, division },
+        });
+        return [];
+      }
+
+      // Look.relatedOptions needs the season to find the options of the related styles
+      const data = season ? rows.map((look: any) => ({ styleSeasonCode: season, ...look })) : rows;
+
+      debug("Looks query result details", {
+        requestId: context.requestId,
+        resultCount: data.length,
+      });
+
+      // Cache individual look entities for lookDetails reuse
+      cacheEntities(data, (look: any) => (look.documentKey ? SQLiteCacheKeys.entityLook(look.documentKey) : null), {
+        requiredFields: ["documentKey", "divisionCode", "lookType", "assetUrl", "title"],
+        ttlMs: 10 * 60 * 1000,
+        userScoped: false,
+        tags: (look: any) => [CacheTags.look(look.documentKey), CacheTags.division(look.divisionCode)],
+      });
+
+      return data;
+    },
+    5 * 60 * 1000, // 5-minute TTL
+    // Tagged with every look in the list so editing one purges the list
+    (data) => [
+      ...collectCacheTags({ brand, season, division }),
+      ...data.flatMap((look: any) => (look?.documentKey ? [CacheTags.look(look.documentKey)] : [])),
+    ]
+  );
+}
 
 // Enhanced resolver with validation and context
 const looksResolver = withValidation(
   LooksArgsSchema,
   async (_: unknown, args: LooksArgs, context: GraphQLContext): Promise<any> => {
     try {
-      const { brand, season, division } = args;
-
-      // Use QueryFingerprintBuilder for SIMD-accelerated cache key generation
-      const cacheKey = QueryFingerprintBuilder.for("looks")
-        .withVariables({ brand, season, division })
-        .withPrefix("gql")
-        .build();
-
-      log("GraphQL looks query initiated", {
+      return await fetchLooks(args, context);
+    } catch (error) {
+      err("GraphQL looks query failed", error, {
         requestId: context.requestId,
         operationName: "looks",
-        parameters: { brand, season, division },
-        user: context.user?.id,
+        parameters: args,
         clientIp: context.clientIp,
       });
+      throw error;
+    }
+  }
+);
+
+// Relay connection over the cached looks list
+const looksConnectionResolver = withValidation(
+  LooksConnectionArgsSchema,
+  async (_: unknown, args: LooksConnectionArgs, context: GraphQLContext): Promise<any> => {
+    try {
+      const { first, after, last, before, ...looksArgs } = args;
+      const data = await fetchLooks(looksArgs, context);
 
-      // Use SQLite cache with 5-minute TTL for looks data
-      return await withSQLiteCache(
-        cacheKey,
-        async () => {
-          const conn = await connectionManager.getConnection();
-
-          const query = `EXECUTE FUNCTION \`default\`.\`media_assets\`.get_looks($brand, $season, $division)`;
-
-          log("Database query execution (cache miss)", {
-            operationName: "looks",
-            query: "get_looks",
-            parameters: { brand, season, division },
-            requestId: context.requestId,
-            cacheStatus: "miss",
-          });
-
-          const result = await QueryExecutor.execute(conn.cluster, query, {
-            parameters: { brand, season, division },
-            usePreparedStatement: false, // Disabled - causes race condition under high concurrency
-            queryContext: "default.media_assets",
-            requestId: context.requestId,
-          });
-
-          const queryEndTime = Date.now();
-          const queryDuration = queryEndTime - (context.startTime || queryEndTime);
-
-          log("GraphQL looks query completed", {
-            requestId: context.requestId,
-            operationName: "looks",
-            rowCount: result.rows?.length || 0,
-            queryDurationMs: queryDuration,
-            performanceCategory: queryDuration > 1000 ? "slow" : queryDuration > 500 ? "moderate" : "fast",
-            cacheStatus: "populated",
-          });
-
-          const data = result.rows?.[0];
-
-          // Handle empty results (e.g., invalid division)
-          if (!data || !Array.isArray(data) || data.length === 0) {
-            debug("Looks query returned no results", {
-              requestId: context.requestId,
-              parameters: { brand, season, division },
-            });
-            return [];
-          }
-
-          debug("Looks query result details", {
-            requestId: context.requestId,
-            resultCount: data.length,
-          });
-
-          // Cache individual look entities for lookDetails reuse
-          cacheEntities(data, (look: any) => (look.documentKey ? SQLiteCacheKeys.entityLook(look.documentKey) : null), {
-            requiredFields: ["documentKey", "divisionCode", "lookType", "assetUrl", "title"],
-            ttlMs: 10 * 60 * 1000,
-            userScoped: false,
-          });
-
-          return data;
-        },
-        5 * 60 * 1000 // 5-minute TTL
-      );
+      return connectionFromArray(data, { first, after, last, before }, (look: any) => look?.documentKey);
     } catch (error) {
-      err("GraphQL looks query failed", error, {
+      err("GraphQL looksConnection query failed", error, {
         requestId: context.requestId,
-        operationName: "looks",
+        operationName: "looksConnection",
         parameters: args,
         clientIp: context.clientIp,
       });
@@ -107,6 +202,7 @@ const looks = {
   Query: {
     // Wrap the resolver with performance tracking
     looks: withPerformanceTracking("Query", "looks", looksResolver),
+    looksConnection: withPerformanceTracking("Query", "looksConnection", looksConnectionResolver),
   },
 };
 
@@ -1,6 +1,7 @@
 /* src/graphql/resolvers/looksSummary.ts */
 
 import { withSQLiteCache } from "$lib/bunSQLiteCache";
+import { collectCacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
@@ -72,7 +73,8 @@ const looksSummaryResolver = withValidation(
 
           return result.rows[0][0];
         },
-        5 * 60 * 1000 // 5-minute TTL
+        5 * 60 * 1000, // 5-minute TTL
+        collectCacheTags({ brand, season, division })
       );
     } catch (error) {
       err("Error in looks summary resolver:", error, {
@@ -1,6 +1,7 @@
 /* src/graphql/resolvers/looksUrlCheck.ts */
 
 import { SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { CacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { debug, error as err, log } from "../../telemetry/logger";
@@ -55,7 +56,8 @@ const looksUrlCheckResolver = withValidation(
           // Handle empty results gracefully - return empty array
           return result.rows?.[0] || [];
         },
-        2 * 60 * 1000 // 2-minute TTL
+        2 * 60 * 1000, // 2-minute TTL
+        [CacheTags.season(season), ...divisions.map(CacheTags.division)]
       );
     } catch (error) {
       err("Error in looks URL check resolver:", error, {
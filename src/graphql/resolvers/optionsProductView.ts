@@ -1,99 +1,176 @@
 /* src/graphql/resolvers/optionsProductView.ts */
 
-import { cacheEntities, SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { bunSQLiteCache, cacheEntities, SQLiteCacheKeys, withSQLiteCache } from "$lib/bunSQLiteCache";
+import { CacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
 import { debug, error as err, log } from "../../telemetry/logger";
 import type { GraphQLContext } from "../context";
-import { type OptionsProductViewArgs, OptionsProductViewArgsSchema, withValidation } from "../validation/schemas";
-
-// Enhanced resolver with validation, caching, and context
-const optionsProductViewResolver = withValidation(
+import {
+  applyListView,
+  hasListView,
+  type ListViewArgs,
+  type ListViewFields,
+  selectFromFunction,
+  toN1qlListView,
+} from "../listView";
+import { connectionFromArray } from "../pagination";
+import {
+  type OptionsProductViewArgs,
   OptionsProductViewArgsSchema,
-  async (_: unknown, args: OptionsProductViewArgs, context: GraphQLContext): Promise<any> => {
-    try {
-      const { BrandCode, SalesOrganizationCode, StyleSeasonCode, DivisionCode, ActiveOption, SalesChannels } = args;
+  type OptionsProductViewConnectionArgs,
+  OptionsProductViewConnectionArgsSchema,
+  withValidation,
+} from "../validation/schemas";
 
-      // Use QueryFingerprintBuilder for SIMD-accelerated cache key generation
-      const cacheKey = QueryFingerprintBuilder.for("optionsProductView")
-        .withVariables({ BrandCode, SalesOrganizationCode, StyleSeasonCode, DivisionCode, ActiveOption, SalesChannels })
-        .withPrefix("gql")
-        .build();
+type OptionsProductViewScope = Omit<OptionsProductViewArgs, "filter" | "orderBy">;
 
-      log("Options product view query initiated", {
-        requestId: context.requestId,
+/**
+ * Fields options can be filtered and sorted on
+ */
+const OPTION_LIST_FIELDS: ListViewFields = {
+  filters: {
+    optionCode: { path: "optionCode", kind: "string" },
+    description: { path: "description", kind: "string" },
+    styleDescription: { path: "styleDescription", kind: "string" },
+    activeOption: { path: "activeOption", kind: "boolean" },
+    isAvailable: { path: "isAvailable", kind: "boolean" },
+    isCancelled: { path: "isCancelled", kind: "boolean" },
+    isClosed: { path: "isClosed", kind: "boolean" },
+    isNew: { path: "isNew", kind: "boolean" },
+    isSoldOut: { path: "isSoldOut", kind: "boolean" },
+    isUpdated: { path: "isUpdated", kind: "boolean" },
+    isOpenForEcom: { path: "isOpenForEcom", kind: "boolean" },
+    hasImageDocument: { path: "hasImageDocument", kind: "boolean" },
+  },
+  orderBy: { OPTION_CODE: "optionCode", DESCRIPTION: "description", STYLE_DESCRIPTION: "styleDescription" },
+  key: "optionCode",
+};
+
+// Use QueryFingerprintBuilder for SIMD-accelerated cache key generation
+const optionsCacheKey = (variables: OptionsProductViewScope & ListViewArgs) =>
+  QueryFingerprintBuilder.for("optionsProductView").withVariables(variables).withPrefix("gql").build();
+
+/**
+ * Fetch the options product view for a division through the SQLite cache.
+ * Shared by `optionsProductView` and `optionsProductViewConnection` so paging reuses the cached list.
+ * A filter or orderBy runs over the cached full list when there is one and in N1QL otherwise.
+ */
+async function fetchOptionsProductView(args: OptionsProductViewArgs, context: GraphQLContext): Promise<any[]> {
+  const { filter, orderBy, ...scope } = args;
+  const view = { filter, orderBy };
+  if (!hasListView(view)) {
+    return fetchOptionRows(scope, undefined, context);
+  }
+
+  const cached = await bunSQLiteCache.get<any[]>(optionsCacheKey(scope));
+  if (cached) {
+    return applyListView(cached, OPTION_LIST_FIELDS, view);
+  }
+  return fetchOptionRows(scope, view, context);
+}
+
+async function fetchOptionRows(
+  scope: OptionsProductViewScope,
+  view: ListViewArgs | undefined,
+  context: GraphQLContext
+): Promise<any[]> {
+  const { BrandCode, SalesOrganizationCode, StyleSeasonCode, DivisionCode, ActiveOption, SalesChannels } = scope;
+  const cacheKey = optionsCacheKey(view ? { ...scope, ...view } : scope);
+
+  log("Options product view query initiated", {
+    requestId: context.requestId,
+    BrandCode,
+    SalesOrganizationCode,
+    StyleSeasonCode,
+    DivisionCode,
+    ActiveOption,
+    SalesChannelsCount: SalesChannels.length,
+    filtered: Boolean(view),
+    user: context.user?.id,
+  });
+
+  // Use SQLite cache with 5-minute TTL for options product view data
+  return await withSQLiteCache(
+    cacheKey,
+    async () => {
+      const conn = await connectionManager.getConnection();
+
+      const call = `\`default\`.\`_default\`.get_options_product_view($BrandCode, $SalesOrganizationCode, $StyleSeasonCode, $DivisionCode, $ActiveOption, $SalesChannels)`;
+      const listView = view ? toN1qlListView("option", OPTION_LIST_FIELDS, view) : undefined;
+      const query = listView ? selectFromFunction(call, "option", listView) : `EXECUTE FUNCTION ${call}`;
+      const parameters = {
         BrandCode,
         SalesOrganizationCode,
         StyleSeasonCode,
         DivisionCode,
         ActiveOption,
-        SalesChannelsCount: SalesChannels.length,
-        user: context.user?.id,
+        SalesChannels,
+        ...listView?.parameters,
+      };
+
+      log("Executing options product view query (cache miss)", {
+        query,
+        parameters,
+        requestId: context.requestId,
       });
 
-      // Use SQLite cache with 5-minute TTL for options product view data
-      return await withSQLiteCache(
-        cacheKey,
-        async () => {
-          const conn = await connectionManager.getConnection();
-
-          const query = `EXECUTE FUNCTION \`default\`.\`_default\`.get_options_product_view($BrandCode, $SalesOrganizationCode, $StyleSeasonCode, $DivisionCode, $ActiveOption, $SalesChannels)`;
-          const parameters = {
-            BrandCode,
-            SalesOrganizationCode,
-            StyleSeasonCode,
-            DivisionCode,
-            ActiveOption,
-            SalesChannels,
-          };
-
-          log("Executing options product view query (cache miss)", {
-            query,
-            parameters,
-            requestId: context.requestId,
-          });
-
-          const result = await QueryExecutor.execute(conn.cluster, query, {
-            parameters,
-            usePreparedStatement: true,
-            queryContext: "default._default",
-            requestId: context.requestId,
-          });
-
-          debug("Options product view query result", {
-            requestId: context.requestId,
-            rowCount: result.rows?.length || 0,
-            result: result.rows?.[0] ? JSON.stringify(result.rows[0], null, 2) : "empty",
-          });
-
-          // Handle empty results gracefully - return empty array
-          if (!result.rows?.length || !result.rows[0]) {
-            return [];
-          }
+      const result = await QueryExecutor.execute(conn.cluster, query, {
+        parameters,
+        // Each filter shape is its own statement text; only the plain call is worth preparing
+        usePreparedStatement: !listView,
+        queryContext: "default._default",
+        requestId: context.requestId,
+      });
 
-          const data = result.rows[0];
-
-          // Cache individual option entities for imageDetails reuse
-          cacheEntities(
-            data,
-            (option: any) => {
-              if (option.divisionCode && option.styleCode) {
-                return SQLiteCacheKeys.entityImage(option.divisionCode, StyleSeasonCode, option.styleCode);
-              }
-              return null;
-            },
-            {
-              requiredFields: ["divisionCode", "styleCode", "imageUrl"],
-              ttlMs: 10 * 60 * 1000,
-              userScoped: false,
-            }
-          );
-
-          return data;
+      debug("Options product view query result", {
+        requestId: context.requestId,
+        rowCount: result.rows?.length || 0,
+        result: result.rows?.[0] ? JSON.stringify(result.rows[0], null, 2) : "empty",
+      });
+
+      // EXECUTE FUNCTION returns the list as its single row; SELECT returns one row per option
+      const rows = listView ? result.rows : result.rows?.[0];
+
+      // Handle empty results gracefully - return empty array
+      if (!Array.isArray(rows) || rows.length === 0) {
+        return [];
+      }
+
+      // OptionProductView.imageDetails needs the season to find the image document
+      const data = rows.map((option: any) => ({ styleSeasonCode: StyleSeasonCode, ...option }));
+
+      // Cache individual option entities for imageDetails reuse
+      cacheEntities(
+        data,
+        (option: any) => {
+          if (option.divisionCode && option.styleCode) {
+            return SQLiteCacheKeys.entityImage(option.divisionCode, StyleSeasonCode, option.styleCode);
+          }
+          return null;
         },
-        5 * 60 * 1000 // 5-minute TTL
+        {
+          requiredFields: ["divisionCode", "styleCode", "imageUrl"],
+          ttlMs: 10 * 60 * 1000,
+          userScoped: false,
+          tags: () => [CacheTags.season(StyleSeasonCode), CacheTags.division(DivisionCode)],
+        }
       );
+
+      return data;
+    },
+    5 * 60 * 1000, // 5-minute TTL
+    [CacheTags.brand(BrandCode), CacheTags.season(StyleSeasonCode), CacheTags.division(DivisionCode)]
+  );
+}
+
+// Enhanced resolver with validation, caching, and context
+const optionsProductViewResolver = withValidation(
+  OptionsProductViewArgsSchema,
+  async (_: unknown, args: OptionsProductViewArgs, context: GraphQLContext): Promise<any> => {
+    try {
+      return await fetchOptionsProductView(args, context);
     } catch (error) {
       err("Error in options product view resolver:", error, {
         requestId: context.requestId,
@@ -104,10 +181,34 @@ const optionsProductViewResolver = withValidation(
   }
 );
 
+// Relay connection over the cached options product view
+const optionsProductViewConnectionResolver = withValidation(
+  OptionsProductViewConnectionArgsSchema,
+  async (_: unknown, args: OptionsProductViewConnectionArgs, context: GraphQLContext): Promise<any> => {
+    try {
+      const { first, after, last, before, ...scope } = args;
+      const data = await fetchOptionsProductView(scope, context);
+
+      return connectionFromArray(data, { first, after, last, before }, (option: any) => option?.optionCode);
+    } catch (error) {
+      err("Error in options product view connection resolver:", error, {
+        requestId: context.requestId,
+        args,
+      });
+      throw error;
+    }
+  }
+);
+
 const optionsProductView = {
   Query: {
     // Wrap the resolver with performance tracking
     optionsProductView: withPerformanceTracking("Query", "optionsProductView", optionsProductViewResolver),
+    optionsProductViewConnection: withPerformanceTracking(
+      "Query",
+      "optionsProductViewConnection",
+      optionsProductViewConnectionResolver
+    ),
   },
 };
 
@@ -1,6 +1,7 @@
 /* src/graphql/resolvers/optionsSummary.ts */
 
 import { withSQLiteCache } from "$lib/bunSQLiteCache";
+import { CacheTags } from "$lib/cacheTags";
 import { connectionManager, QueryExecutor } from "$lib/couchbase";
 import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
 import { QueryFingerprintBuilder } from "$lib/queryFingerprint";
@@ -77,7 +78,8 @@ const optionsSummaryResolver = withValidation(
 
           return result.rows[0][0];
         },
-        3 * 60 * 1000 // 3-minute TTL
+        3 * 60 * 1000, // 3-minute TTL
+        [CacheTags.season(StyleSeasonCode), CacheTags.division(DivisionCode)]
       );
     } catch (error) {
       err("Error in options summary resolver:", error, {
@@ -0,0 +1,90 @@
+/* src/graphql/resolvers/relationships.ts */
+
+/**
+ * Object fields linking looks, options, images and assignments. Each one
+ * resolves through the request's entity loaders, so a list of 50 looks
+ * asking for relatedOptions reads all the options in one batch.
+ */
+
+import type { AssignmentDivision, SeasonalAssignmentDocument } from "$lib/seasonalAssignmentRepository";
+import type { GraphQLContext } from "../context";
+
+interface LookParent {
+  documentKey?: string;
+  divisionCode?: string;
+  relatedStyles?: (string | null)[] | null;
+  /** Set by the looks queries from their season argument */
+  styleSeasonCode?: string;
+  styleSeasonCodeAfs?: string;
+}
+
+interface OptionParent {
+  divisionCode?: string;
+  styleCode?: string;
+  /** Set by the optionsProductView queries from their StyleSeasonCode argument */
+  styleSeasonCode?: string;
+}
+
+type AssignmentParent = Partial<SeasonalAssignmentDocument>;
+
+const relatedOptions = async (look: LookParent, _args: unknown, context: GraphQLContext) => {
+  const styleSeasonCode = look.styleSeasonCode ?? look.styleSeasonCodeAfs;
+  const { divisionCode } = look;
+  if (!divisionCode || !styleSeasonCode || !look.relatedStyles?.length) {
+    return [];
+  }
+
+  const styleCodes = look.relatedStyles.filter((styleCode): styleCode is string => Boolean(styleCode));
+  const options = await context.loaders.options.loadMany(
+    styleCodes.map((styleCode) => ({ divisionCode, styleSeasonCode, styleCode }))
+  );
+
+  // Styles without an option document are left out; a failed batch fails the field
+  const failure = options.find((option) => option instanceof Error);
+  if (failure) throw failure;
+  return options.filter((option) => option !== null);
+};
+
+const lookDetails = (look: LookParent, _args: unknown, context: GraphQLContext) =>
+  look.documentKey ? context.loaders.looks.load(look.documentKey) : null;
+
+const optionImageDetails = (option: OptionParent, _args: unknown, context: GraphQLContext) => {
+  const { divisionCode, styleSeasonCode, styleCode } = option;
+  if (!divisionCode || !styleSeasonCode || !styleCode) return null;
+  return context.loaders.images.load({ divisionCode, styleSeasonCode, styleCode });
+};
+
+/**
+ * One SeasonalDivisionalAssignment per division, read from the current
+ * assignment document (falling back to the parent when it's gone). Only the
+ * divisions the parent lists are returned: @auth has already narrowed those
+ * to the caller's scope, and the reloaded document is unscoped.
+ */
+const divisionsDetail = async (assignment: AssignmentParent, _args: unknown, context: GraphQLContext) => {
+  const { styleSeasonCode, companyCode } = assignment;
+  const current =
+    styleSeasonCode && companyCode
+      ? ((await context.loaders.assignments.load({ styleSeasonCode, companyCode })) ?? assignment)
+      : assignment;
+
+  const visible = new Set((assignment.divisions ?? []).map((division) => division.code));
+  const { divisions, ...shared } = current;
+  return (divisions ?? [])
+    .filter((division: AssignmentDivision) => visible.has(division.code))
+    .map((division: AssignmentDivision) => ({ ...shared, division }));
+};
+
+const relationships = {
+  Look: {
+    relatedOptions,
+    details: lookDetails,
+  },
+  OptionProductView: {
+    imageDetails: optionImageDetails,
+  },
+  SeasonalAssignment: {
+    divisionsDetail,
+  },
+};
+
+export default relationships;
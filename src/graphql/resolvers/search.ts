@@ -0,0 +1,237 @@
+/* src/graphql/resolvers/search.ts */
+
+/**
+ * Full-text search over looks and options through the Search service.
+ * Each type has its own scope-level index; searching several types queries
+ * each index for the requested window and merges the hits by score.
+ */
+
+import { GraphQLError } from "graphql";
+import { getSecurityConfig } from "$config";
+import { getAccessScope } from "$lib/auth";
+import {
+  type SearchExecutor,
+  type SearchFacetResult,
+  type SearchHitRow,
+  type SearchIndexTarget,
+  type SearchResponse,
+  searchExecutor,
+} from "$lib/couchbase";
+import { OPTIONS_KEYSPACE } from "$lib/entityLoaders";
+import { withPerformanceTracking } from "$lib/graphqlPerformanceTracker";
+import { LOOKS_KEYSPACE } from "$lib/lookRepository";
+import { error as err, log } from "../../telemetry/logger";
+import type { GraphQLContext } from "../context";
+import { decodeCursor, encodeCursor } from "../pagination";
+import { type SearchArgs, SearchArgsSchema, withValidation } from "../validation/schemas";
+
+type SearchType = "LOOK" | "OPTION";
+type SearchFacetField = "DIVISION" | "TREND" | "GENDER";
+
+interface SearchTypeDefinition {
+  target: SearchIndexTarget;
+  /** Fields returned with highlighted fragments */
+  highlightFields: string[];
+  /** Stored fields needed to resolve the hit */
+  fields: string[];
+  /** Facet (and filter) -> document field */
+  facetFields: Record<SearchFacetField, string>;
+}
+
+export const SEARCH_TYPES: Record<SearchType, SearchTypeDefinition> = {
+  LOOK: {
+    target: { index: "looks_search", bucket: LOOKS_KEYSPACE.bucket, scope: LOOKS_KEYSPACE.scope },
+    highlightFields: ["title", "description", "trend", "tag"],
+    fields: ["divisionCode"],
+    facetFields: { DIVISION: "divisionCode", TREND: "trend", GENDER: "gender" },
+  },
+  OPTION: {
+    target: { index: "options_search", bucket: OPTIONS_KEYSPACE.bucket, scope: OPTIONS_KEYSPACE.scope },
+    highlightFields: ["description", "styleDescription", "colorDescription1"],
+    fields: ["divisionCode", "styleSeasonCode", "styleNumber"],
+    facetFields: { DIVISION: "divisionCode", TREND: "trend", GENDER: "merchandisingHierarchy.gender" },
+  },
+};
+
+const FACET_FIELDS: SearchFacetField[] = ["DIVISION", "TREND", "GENDER"];
+const FACET_SIZE = 10;
+const DEFAULT_PAGE_SIZE = 20;
+// The Search service rejects deeper pages (bleveMaxResultWindow) well past this
+const MAX_RESULT_WINDOW = 1000;
+
+interface SearchHit {
+  id: string;
+  type: SearchType;
+  score: number;
+  divisionCode: string | null;
+  highlights: Array<{ field: string; fragments: string[] }>;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Divisions a restricted caller's search is limited to when they don't
+ * filter by division themselves; undefined means no limit. The @auth
+ * directive has already rejected filters naming other divisions.
+ */
+function divisionScope(context: GraphQLContext): string[] | undefined {
+  const security = getSecurityConfig();
+  if (!security.AUTH_ENABLED || !context.user) return undefined;
+
+  const { divisions } = getAccessScope(context.user.claims, {
+    divisions: security.AUTH_DIVISIONS_CLAIM,
+    brands: security.AUTH_BRANDS_CLAIM,
+  });
+  return divisions === "*" ? undefined : [...divisions];
+}
+
+/**
+ * Sum one facet across indexes, keeping the most frequent terms
+ */
+function mergeFacets(field: SearchFacetField, facets: SearchFacetResult[]) {
+  const counts = new Map<string, number>();
+  let total = 0;
+  let missing = 0;
+  for (const facet of facets) {
+    total += facet.total;
+    missing += facet.missing;
+    for (const { term, count } of facet.terms) {
+      counts.set(term, (counts.get(term) ?? 0) + count);
+    }
+  }
+
+  const terms = [...counts]
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, FACET_SIZE);
+  const other = total - terms.reduce((sum, term) => sum + term.count, 0);
+  return { field, total, missing, other, terms };
+}
+
+const toHit = (type: SearchType, row: SearchHitRow): SearchHit => ({
+  id: row.id,
+  type,
+  score: row.score,
+  divisionCode: typeof row.fields.divisionCode === "string" ? row.fields.divisionCode : null,
+  highlights: Object.entries(row.fragments).map(([field, fragments]) => ({ field, fragments })),
+  fields: row.fields,
+});
+
+export function createSearchResolvers(executor: SearchExecutor) {
+  const searchResolver = withValidation(
+    SearchArgsSchema,
+    async (_: unknown, args: SearchArgs, context: GraphQLContext): Promise<any> => {
+      const { text, filters } = args;
+      const types: SearchType[] = [...new Set(args.types ?? (Object.keys(SEARCH_TYPES) as SearchType[]))];
+      const first = args.first ?? DEFAULT_PAGE_SIZE;
+      const offset = args.after ? decodeCursor(args.after).offset + 1 : 0;
+
+      if (offset + first > MAX_RESULT_WINDOW) {
+        throw new GraphQLError(`Search results are limited to the first ${MAX_RESULT_WINDOW} hits`, {
+          extensions: { code: "BAD_USER_INPUT" },
+        });
+      }
+
+      const divisions = filters?.divisions?.length ? filters.divisions : divisionScope(context);
+
+      log("GraphQL search query initiated", {
+        requestId: context.requestId,
+        operationName: "search",
+        types,
+        first,
+        offset,
+        user: context.user?.id,
+        clientIp: context.clientIp,
+      });
+
+      try {
+        // A single index pages in the Search service; several are merged here
+        const window = types.length === 1 ? { limit: first, skip: offset } : { limit: offset + first, skip: 0 };
+        const responses: Array<[SearchType, SearchResponse]> =
+          divisions?.length === 0
+            ? []
+            : await Promise.all(
+                types.map(async (type): Promise<[SearchType, SearchResponse]> => {
+                  const { target, highlightFields, fields, facetFields } = SEARCH_TYPES[type];
+                  const response = await executor.search(target, {
+                    text,
+                    fields,
+                    highlightFields,
+                    filters: {
+                      [facetFields.DIVISION]: divisions ?? [],
+                      [facetFields.TREND]: filters?.trends ?? [],
+                      [facetFields.GENDER]: filters?.genders ?? [],
+                    },
+                    facets: Object.fromEntries(
+                      FACET_FIELDS.map((facet) => [facet, { field: facetFields[facet], size: FACET_SIZE }])
+                    ),
+                    ...window,
+                    requestId: context.requestId,
+                  });
+                  return [type, response];
+                })
+              );
+
+        const hits = responses
+          .flatMap(([type, response]) => response.hits.map((row) => toHit(type, row)))
+          .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+        const page = types.length === 1 ? hits : hits.slice(offset, offset + first);
+        const totalCount = responses.reduce((sum, [, response]) => sum + response.totalHits, 0);
+
+        const edges = page.map((hit, index) => ({ cursor: encodeCursor(hit.id, offset + index), node: hit }));
+
+        return {
+          edges,
+          pageInfo: {
+            hasNextPage: offset + page.length < totalCount,
+            hasPreviousPage: offset > 0,
+            startCursor: edges[0]?.cursor ?? null,
+            endCursor: edges[edges.length - 1]?.cursor ?? null,
+          },
+          totalCount,
+          maxScore: Math.max(0, ...responses.map(([, response]) => response.maxScore)),
+          facets: FACET_FIELDS.map((facet) =>
+            mergeFacets(
+              facet,
+              responses.flatMap(([, response]) => (response.facets[facet] ? [response.facets[facet]] : []))
+            )
+          ),
+        };
+      } catch (error) {
+        err("GraphQL search query failed", error, {
+          requestId: context.requestId,
+          operationName: "search",
+          types,
+          clientIp: context.clientIp,
+        });
+        throw error;
+      }
+    }
+  );
+
+  return {
+    Query: {
+      search: withPerformanceTracking("Query", "search", searchResolver),
+    },
+    SearchHit: {
+      look: (hit: SearchHit, _args: unknown, context: GraphQLContext) =>
+        hit.type === "LOOK" ? context.loaders.looks.load(hit.id) : null,
+      option: (hit: SearchHit, _args: unknown, context: GraphQLContext) => {
+        const { divisionCode } = hit;
+        const { styleSeasonCode, styleNumber } = hit.fields;
+        if (
+          hit.type !== "OPTION" ||
+          !divisionCode ||
+          typeof styleSeasonCode !== "string" ||
+          typeof styleNumber !== "string"
+        ) {
+          return null;
+        }
+        return context.loaders.options.load({ divisionCode, styleSeasonCode, styleCode: styleNumber });
+      },
+    },
+  };
+}
+
+const search = createSearchResolvers(searchExecutor);
+
+export default search;
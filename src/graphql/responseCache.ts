@@ -0,0 +1,36 @@
+/* src/graphql/responseCache.ts - Shared GraphQL response cache */
+
+import { config } from "$config";
+import { SQLiteGraphQLCache } from "$lib/graphqlResponseCache";
+import { debug, error as err } from "../telemetry/logger";
+
+/**
+ * Cache behind the Yoga response cache plugin. Shared so resolvers can evict
+ * entities the plugin can't see in a mutation's result, and so the admin API
+ * can list and purge entries.
+ */
+export const responseCache = new SQLiteGraphQLCache({
+  backend: config.application.YOGA_RESPONSE_CACHE_BACKEND,
+  path: config.application.YOGA_RESPONSE_CACHE_PATH,
+  maxEntries: config.application.YOGA_RESPONSE_CACHE_MAX_ENTRIES,
+});
+
+export interface ResponseCacheEntity {
+  typename: string;
+  id?: string;
+}
+
+/**
+ * Evict cached responses containing the given entities (by typename, or typename + id)
+ */
+export async function invalidateResponseCache(entities: ResponseCacheEntity[]): Promise<void> {
+  if (entities.length === 0) return;
+
+  try {
+    await responseCache.invalidate(entities);
+    debug("Response cache invalidated", { entities: entities.length });
+  } catch (error) {
+    // A stale entry expires with its TTL; never fail the write over it
+    err("Response cache invalidation failed", error, { entities: entities.length });
+  }
+}
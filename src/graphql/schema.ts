@@ -1,10 +1,14 @@
 /* src/graphql/schema.ts */
 
 import { makeExecutableSchema } from "@graphql-tools/schema";
+import { applyAuthDirective, authDirectiveTypeDefs } from "./directives/auth";
+import { costDirectiveTypeDefs } from "./directives/cost";
 import resolvers from "./resolvers/index";
 import typeDefs from "./typeDefs";
 
-export const schema = makeExecutableSchema({
-  typeDefs,
-  resolvers,
-});
+export const schema = applyAuthDirective(
+  makeExecutableSchema({
+    typeDefs: [authDirectiveTypeDefs, costDirectiveTypeDefs, typeDefs],
+    resolvers,
+  })
+);
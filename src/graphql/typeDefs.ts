@@ -17,6 +17,13 @@ const typeDefs = gql`
     trend: String
     relatedStyles: [String]
     isDeleted: Boolean
+    tag: String
+    position: Int
+    "Optimistic concurrency token (Couchbase CAS) to pass as expectedVersion when editing"
+    version: String
+    "Options of the relatedStyles in the look's division and season; styles without an option are left out"
+    relatedOptions: [OptionFull]
+    details: LookDetails
   }
 
   type LookSummary {
@@ -129,6 +136,7 @@ const typeDefs = gql`
     isOpenForEcom: Boolean
     hasDeliveryDropDate: Boolean
     hasImageDocument: Boolean
+    imageDetails: ImageDetails
   }
 
   type OptionFull {
@@ -294,6 +302,167 @@ const typeDefs = gql`
 
   scalar JSON
 
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type LookEdge {
+    cursor: String!
+    node: Look
+  }
+
+  type LooksConnection {
+    edges: [LookEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type OptionProductViewEdge {
+    cursor: String!
+    node: OptionProductView
+  }
+
+  type OptionsProductViewConnection {
+    edges: [OptionProductViewEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  "Conditions on a string field; all given conditions must hold. contains ignores case."
+  input StringFilter {
+    eq: String
+    in: [String!]
+    contains: String
+    startsWith: String
+  }
+
+  input IntFilter {
+    eq: Int
+    in: [Int!]
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  "Boolean flags treat a missing value as false"
+  input LookFilter {
+    title: StringFilter
+    trend: StringFilter
+    tag: StringFilter
+    lookType: IntFilter
+    isDeleted: Boolean
+  }
+
+  enum LookOrderField {
+    TITLE
+    POSITION
+    TREND
+    LOOK_TYPE
+  }
+
+  input LookOrderBy {
+    field: LookOrderField!
+    direction: SortDirection = ASC
+  }
+
+  "Boolean flags treat a missing value as false"
+  input OptionProductViewFilter {
+    optionCode: StringFilter
+    description: StringFilter
+    styleDescription: StringFilter
+    activeOption: Boolean
+    isAvailable: Boolean
+    isCancelled: Boolean
+    isClosed: Boolean
+    isNew: Boolean
+    isSoldOut: Boolean
+    isUpdated: Boolean
+    isOpenForEcom: Boolean
+    hasImageDocument: Boolean
+  }
+
+  enum OptionProductViewOrderField {
+    OPTION_CODE
+    DESCRIPTION
+    STYLE_DESCRIPTION
+  }
+
+  input OptionProductViewOrderBy {
+    field: OptionProductViewOrderField!
+    direction: SortDirection = ASC
+  }
+
+  enum SearchType {
+    LOOK
+    OPTION
+  }
+
+  "Values within a field are alternatives; every given field must match"
+  input SearchFilters {
+    divisions: [String!]
+    trends: [String!]
+    genders: [String!]
+  }
+
+  type SearchHighlight {
+    field: String!
+    "Matched terms are wrapped in <mark>"
+    fragments: [String!]!
+  }
+
+  type SearchHit {
+    id: String!
+    type: SearchType!
+    score: Float!
+    divisionCode: String
+    highlights: [SearchHighlight!]!
+    "Set when type is LOOK"
+    look: Look
+    "Set when type is OPTION"
+    option: OptionFull
+  }
+
+  type SearchHitEdge {
+    cursor: String!
+    node: SearchHit!
+  }
+
+  enum SearchFacetField {
+    DIVISION
+    TREND
+    GENDER
+  }
+
+  type SearchFacetTerm {
+    term: String!
+    count: Int!
+  }
+
+  type SearchFacet {
+    field: SearchFacetField!
+    "Hits with a value for the field"
+    total: Int!
+    "Hits without a value for the field"
+    missing: Int!
+    "Hits whose value is not among terms"
+    other: Int!
+    terms: [SearchFacetTerm!]!
+  }
+
+  type SearchConnection {
+    edges: [SearchHitEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+    maxScore: Float!
+    "Counted over every hit, not just this page"
+    facets: [SearchFacet!]!
+  }
+
   input BucketScopeCollection {
     bucket: String!
     scope: String!
@@ -309,6 +478,8 @@ const typeDefs = gql`
   }
 
   type SeasonalAssignment {
+    "Key of the assignment document (derived from styleSeasonCode and companyCode)"
+    documentKey: String
     channels: [String!]!
     divisions: [Division!]!
     salesOrganizationCodes: [String!]!
@@ -320,9 +491,13 @@ const typeDefs = gql`
     fms: FMS!
     createdOn: String!
     modifiedOn: String!
+    "The assignment as seen from each of its divisions"
+    divisionsDetail: [SeasonalDivisionalAssignment!]!
   }
 
   type SeasonalDivisionalAssignment {
+    "Key of the assignment document (derived from styleSeasonCode and companyCode)"
+    documentKey: String
     channels: [String!]!
     division: Division
     salesOrganizationCodes: [String!]!
@@ -352,16 +527,56 @@ const typeDefs = gql`
     year: String!
   }
 
+  enum DocumentChangeType {
+    UPSERT
+    DELETE
+  }
+
+  type LookChangeEvent {
+    documentKey: String!
+    divisionCode: String!
+    changeType: DocumentChangeType!
+    look: Look
+    changedAt: String!
+  }
+
+  type OptionChangeEvent {
+    optionCode: String!
+    styleSeasonCode: String!
+    divisionCode: String!
+    changeType: DocumentChangeType!
+    option: OptionProductView
+    changedAt: String!
+  }
+
   type Query {
-    looksSummary(brand: String, season: String, division: String): LookSummary
-    looks(brand: String, season: String, division: String): [Look]
+    looksSummary(brand: String, season: String, division: String): LookSummary @auth(requires: [DIVISION, BRAND])
+    looks(
+      brand: String
+      season: String
+      division: String
+      filter: LookFilter
+      "Applied in order; ties fall back to documentKey"
+      orderBy: [LookOrderBy!]
+    ): [Look] @auth(requires: [DIVISION, BRAND]) @cost(value: 5)
+    looksConnection(
+      brand: String
+      season: String
+      division: String
+      filter: LookFilter
+      orderBy: [LookOrderBy!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): LooksConnection! @auth(requires: [DIVISION, BRAND])
     optionsSummary(
       SalesOrganizationCode: String!
       StyleSeasonCode: String!
       DivisionCode: String!
       ActiveOption: Boolean!
       SalesChannels: [SalesChannel!]!
-    ): OptionSummary!
+    ): OptionSummary! @auth(requires: [DIVISION])
     optionsProductView(
       BrandCode: String!
       SalesOrganizationCode: String!
@@ -369,36 +584,162 @@ const typeDefs = gql`
       DivisionCode: String!
       ActiveOption: Boolean!
       SalesChannels: [SalesChannel!]!
-    ): [OptionProductView]
+      filter: OptionProductViewFilter
+      "Applied in order; ties fall back to optionCode"
+      orderBy: [OptionProductViewOrderBy!]
+    ): [OptionProductView] @auth(requires: [DIVISION, BRAND]) @cost(value: 10)
+    optionsProductViewConnection(
+      BrandCode: String!
+      SalesOrganizationCode: String!
+      StyleSeasonCode: String!
+      DivisionCode: String!
+      ActiveOption: Boolean!
+      SalesChannels: [SalesChannel!]!
+      filter: OptionProductViewFilter
+      orderBy: [OptionProductViewOrderBy!]
+      first: Int
+      after: String
+      last: Int
+      before: String
+    ): OptionsProductViewConnection! @auth(requires: [DIVISION, BRAND])
     imageDetails(
       divisionCode: String!
       styleSeasonCode: String!
       styleCode: String!
-    ): ImageDetails
-    lookDetails(lookDocKey: String!): LookDetails
+    ): ImageDetails @auth(requires: [DIVISION])
+    lookDetails(lookDocKey: String!): LookDetails @auth(requires: [DIVISION])
     getImageUrlCheck(
       divisions: [String!]!
       season: String!
-    ): [UrlSuffixesResult!]!
+    ): [UrlSuffixesResult!]! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["divisions"])
     getLooksUrlCheck(
       divisions: [String!]!
       season: String!
-    ): [UrlSuffixesResult!]!
+    ): [UrlSuffixesResult!]! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["divisions"])
     searchDocuments(
       collections: [BucketScopeCollection!]!
       keys: [String!]!
-    ): [DocumentResult!]!
+    ): [DocumentResult!]! @auth @cost(value: 5, multipliers: ["keys", "collections"])
+    "Full-text search over looks and options, best matches first"
+    search(
+      text: String!
+      "Defaults to every type"
+      types: [SearchType!]
+      filters: SearchFilters
+      first: Int
+      after: String
+    ): SearchConnection! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["first"])
     getAllSeasonalAssignments(
       styleSeasonCode: String!
       companyCode: String
       isActive: Boolean
-    ): [SeasonalAssignment!]!
+    ): [SeasonalAssignment!]! @auth(requires: [DIVISION]) @cost(value: 5)
     #        getSeasonalAssignment(styleSeasonCode: String!, companyCode: String!, isActive: Boolean): SeasonalAssignment
     getDivisionAssignment(
       styleSeasonCode: String!
       companyCode: String!
       divisionCode: String!
-    ): SeasonalDivisionalAssignment
+    ): SeasonalDivisionalAssignment @auth(requires: [DIVISION])
+  }
+
+  input UpdateLookInput {
+    title: String
+    trend: String
+    tag: String
+    relatedStyles: [String!]
+    position: Int
+  }
+
+  input LookPositionInput {
+    documentKey: String!
+    expectedVersion: String!
+    position: Int!
+  }
+
+  input SeasonalAssignmentKey {
+    styleSeasonCode: String!
+    companyCode: String!
+  }
+
+  enum AssignmentChangeStatus {
+    UPDATED
+    UNCHANGED
+    NOT_FOUND
+    WOULD_UPDATE
+    AMBIGUOUS
+  }
+
+  type ListDiff {
+    added: [String!]!
+    removed: [String!]!
+  }
+
+  type DivisionStatusChange {
+    code: String!
+    from: Boolean!
+    to: Boolean!
+  }
+
+  type AssignmentChangeResult {
+    documentKey: String!
+    styleSeasonCode: String!
+    companyCode: String!
+    status: AssignmentChangeStatus!
+    divisions: [DivisionStatusChange!]!
+    salesOrganizationCodes: ListDiff!
+    channels: ListDiff!
+    unknownDivisionCodes: [String!]!
+    "Assignment after the change, or as it would be on a dry run"
+    assignment: SeasonalAssignment
+  }
+
+  type BulkAssignmentResult {
+    dryRun: Boolean!
+    "False on a dry run; null when the commit outcome is ambiguous"
+    committed: Boolean
+    results: [AssignmentChangeResult!]!
+  }
+
+  type Mutation {
+    updateLook(
+      documentKey: String!
+      divisionCode: String!
+      expectedVersion: String!
+      input: UpdateLookInput!
+    ): Look! @auth(requires: [DIVISION]) @cost(value: 10)
+    reorderLooks(divisionCode: String!, moves: [LookPositionInput!]!): [Look!]!
+      @auth(requires: [DIVISION])
+      @cost(value: 10, multipliers: ["moves"])
+    softDeleteLook(documentKey: String!, divisionCode: String!, expectedVersion: String!): Look!
+      @auth(requires: [DIVISION])
+      @cost(value: 10)
+    activateAssignmentDivisions(
+      assignments: [SeasonalAssignmentKey!]!
+      divisionCodes: [String!]!
+      dryRun: Boolean = false
+    ): BulkAssignmentResult! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["assignments"])
+    deactivateAssignmentDivisions(
+      assignments: [SeasonalAssignmentKey!]!
+      divisionCodes: [String!]!
+      dryRun: Boolean = false
+    ): BulkAssignmentResult! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["assignments"])
+    updateAssignmentSalesOrganizationCodes(
+      assignments: [SeasonalAssignmentKey!]!
+      add: [String!]
+      remove: [String!]
+      dryRun: Boolean = false
+    ): BulkAssignmentResult! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["assignments"])
+    updateAssignmentChannels(
+      assignments: [SeasonalAssignmentKey!]!
+      add: [String!]
+      remove: [String!]
+      dryRun: Boolean = false
+    ): BulkAssignmentResult! @auth(requires: [DIVISION]) @cost(value: 10, multipliers: ["assignments"])
+  }
+
+  type Subscription {
+    lookChanged(divisionCode: String!): LookChangeEvent! @auth(requires: [DIVISION])
+    optionChanged(styleSeasonCode: String!, divisionCode: String!): OptionChangeEvent! @auth(requires: [DIVISION])
   }
 `;
 
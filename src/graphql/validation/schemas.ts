@@ -3,17 +3,106 @@
 import { GraphQLError } from "graphql";
 import { z } from "zod";
 
-// Schema for looks query - all parameters are optional strings
+// List filter and orderBy inputs shared by looks and optionsProductView
+const MAX_FILTER_VALUES = 100;
+const MAX_ORDER_BY = 3;
+
+export const StringFilterSchema = z
+  .object({
+    eq: z.string().nullish(),
+    in: z.array(z.string()).max(MAX_FILTER_VALUES).nullish(),
+    contains: z.string().min(1).max(200).nullish(),
+    startsWith: z.string().min(1).max(200).nullish(),
+  })
+  .strict();
+
+export const IntFilterSchema = z
+  .object({
+    eq: z.number().int().nullish(),
+    in: z.array(z.number().int()).max(MAX_FILTER_VALUES).nullish(),
+  })
+  .strict();
+
+export const SortDirectionSchema = z.enum(["ASC", "DESC"]);
+
+export const LookFilterSchema = z
+  .object({
+    title: StringFilterSchema.nullish(),
+    trend: StringFilterSchema.nullish(),
+    tag: StringFilterSchema.nullish(),
+    lookType: IntFilterSchema.nullish(),
+    isDeleted: z.boolean().nullish(),
+  })
+  .strict();
+
+export const LookOrderBySchema = z
+  .object({
+    field: z.enum(["TITLE", "POSITION", "TREND", "LOOK_TYPE"]),
+    direction: SortDirectionSchema.nullish(),
+  })
+  .strict();
+
+export const OptionProductViewFilterSchema = z
+  .object({
+    optionCode: StringFilterSchema.nullish(),
+    description: StringFilterSchema.nullish(),
+    styleDescription: StringFilterSchema.nullish(),
+    activeOption: z.boolean().nullish(),
+    isAvailable: z.boolean().nullish(),
+    isCancelled: z.boolean().nullish(),
+    isClosed: z.boolean().nullish(),
+    isNew: z.boolean().nullish(),
+    isSoldOut: z.boolean().nullish(),
+    isUpdated: z.boolean().nullish(),
+    isOpenForEcom: z.boolean().nullish(),
+    hasImageDocument: z.boolean().nullish(),
+  })
+  .strict();
+
+export const OptionProductViewOrderBySchema = z
+  .object({
+    field: z.enum(["OPTION_CODE", "DESCRIPTION", "STYLE_DESCRIPTION"]),
+    direction: SortDirectionSchema.nullish(),
+  })
+  .strict();
+
+const LookListViewShape = {
+  filter: LookFilterSchema.nullish(),
+  orderBy: z.array(LookOrderBySchema).max(MAX_ORDER_BY).nullish(),
+};
+
+const OptionProductViewListViewShape = {
+  filter: OptionProductViewFilterSchema.nullish(),
+  orderBy: z.array(OptionProductViewOrderBySchema).max(MAX_ORDER_BY).nullish(),
+};
+
+// Schema for looks query - scoping parameters are optional strings
 export const LooksArgsSchema = z
   .object({
     brand: z.string().optional(),
     season: z.string().optional(),
     division: z.string().optional(),
+    ...LookListViewShape,
   })
   .strict();
 
 export type LooksArgs = z.infer<typeof LooksArgsSchema>;
 
+// Relay connection arguments shared by paginated list queries
+const MAX_PAGE_SIZE = 500;
+
+export const ConnectionArgsShape = {
+  first: z.number().int().min(0).max(MAX_PAGE_SIZE).nullish(),
+  after: z.string().min(1).nullish(),
+  last: z.number().int().min(0).max(MAX_PAGE_SIZE).nullish(),
+  before: z.string().min(1).nullish(),
+};
+
+// Schema for looksConnection query - looks scoping plus connection arguments
+export const LooksConnectionArgsSchema = LooksArgsSchema.extend(ConnectionArgsShape).strict();
+
+export type LooksConnectionArgs = z.infer<typeof LooksConnectionArgsSchema>;
+
 // Schema for looksSummary query - same as looks
 export const LooksSummaryArgsSchema = z
   .object({
@@ -50,11 +139,17 @@ export const OptionsProductViewArgsSchema = z
     DivisionCode: z.string().min(1),
     ActiveOption: z.boolean(),
     SalesChannels: z.array(SalesChannelSchema).min(1),
+    ...OptionProductViewListViewShape,
   })
   .strict();
 
 export type OptionsProductViewArgs = z.infer<typeof OptionsProductViewArgsSchema>;
 
+// Schema for optionsProductViewConnection query
+export const OptionsProductViewConnectionArgsSchema = OptionsProductViewArgsSchema.extend(ConnectionArgsShape).strict();
+
+export type OptionsProductViewConnectionArgs = z.infer<typeof OptionsProductViewConnectionArgsSchema>;
+
 // Schema for imageDetails query - all parameters are required
 export const ImageDetailsArgsSchema = z
   .object({
@@ -93,6 +188,31 @@ export const DocumentSearchArgsSchema = z
 
 export type DocumentSearchArgs = z.infer<typeof DocumentSearchArgsSchema>;
 
+// Schema for search query - full-text search over looks and options
+const MAX_SEARCH_PAGE_SIZE = 100;
+
+export const SearchTypeSchema = z.enum(["LOOK", "OPTION"]);
+
+export const SearchFiltersSchema = z
+  .object({
+    divisions: z.array(z.string().min(1)).max(MAX_FILTER_VALUES).nullish(),
+    trends: z.array(z.string().min(1)).max(MAX_FILTER_VALUES).nullish(),
+    genders: z.array(z.string().min(1)).max(MAX_FILTER_VALUES).nullish(),
+  })
+  .strict();
+
+export const SearchArgsSchema = z
+  .object({
+    text: z.string().trim().min(1).max(200),
+    types: z.array(SearchTypeSchema).min(1).nullish(),
+    filters: SearchFiltersSchema.nullish(),
+    first: z.number().int().min(0).max(MAX_SEARCH_PAGE_SIZE).nullish(),
+    after: z.string().min(1).nullish(),
+  })
+  .strict();
+
+export type SearchArgs = z.infer<typeof SearchArgsSchema>;
+
 // Schema for getImageUrlCheck query
 export const ImageUrlCheckArgsSchema = z
   .object({
@@ -135,6 +255,128 @@ export const GetDivisionAssignmentArgsSchema = z
 
 export type GetDivisionAssignmentArgs = z.infer<typeof GetDivisionAssignmentArgsSchema>;
 
+// Schema for lookChanged subscription
+export const LookChangedArgsSchema = z
+  .object({
+    divisionCode: z.string().min(1),
+  })
+  .strict();
+
+export type LookChangedArgs = z.infer<typeof LookChangedArgsSchema>;
+
+// Schema for optionChanged subscription
+export const OptionChangedArgsSchema = z
+  .object({
+    styleSeasonCode: z.string().min(1),
+    divisionCode: z.string().min(1),
+  })
+  .strict();
+
+export type OptionChangedArgs = z.infer<typeof OptionChangedArgsSchema>;
+
+// Look versions are Couchbase CAS values, passed around as decimal strings
+const LookVersionSchema = z.string().regex(/^\d+$/, "must be a version returned by a previous read");
+
+// Schema for updateLook mutation - at least one editable field
+export const UpdateLookInputSchema = z
+  .object({
+    title: z.string().max(500).optional(),
+    trend: z.string().max(200).optional(),
+    tag: z.string().max(200).optional(),
+    relatedStyles: z.array(z.string().min(1)).max(200).optional(),
+    position: z.number().int().min(0).optional(),
+  })
+  .strict()
+  .refine((input) => Object.values(input).some((value) => value !== undefined), {
+    message: "At least one field must be updated",
+  });
+
+export const UpdateLookArgsSchema = z
+  .object({
+    documentKey: z.string().min(1),
+    divisionCode: z.string().min(1),
+    expectedVersion: LookVersionSchema,
+    input: UpdateLookInputSchema,
+  })
+  .strict();
+
+export type UpdateLookArgs = z.infer<typeof UpdateLookArgsSchema>;
+
+// Schema for reorderLooks mutation - each look moved once
+export const ReorderLooksArgsSchema = z
+  .object({
+    divisionCode: z.string().min(1),
+    moves: z
+      .array(
+        z
+          .object({
+            documentKey: z.string().min(1),
+            expectedVersion: LookVersionSchema,
+            position: z.number().int().min(0),
+          })
+          .strict()
+      )
+      .min(1)
+      .max(100)
+      .refine((moves) => new Set(moves.map((move) => move.documentKey)).size === moves.length, {
+        message: "Each look may only be moved once",
+      }),
+  })
+  .strict();
+
+export type ReorderLooksArgs = z.infer<typeof ReorderLooksArgsSchema>;
+
+// Schema for softDeleteLook mutation
+export const SoftDeleteLookArgsSchema = z
+  .object({
+    documentKey: z.string().min(1),
+    divisionCode: z.string().min(1),
+    expectedVersion: LookVersionSchema,
+  })
+  .strict();
+
+export type SoftDeleteLookArgs = z.infer<typeof SoftDeleteLookArgsSchema>;
+
+// Seasonal assignment documents targeted by a bulk mutation
+const SeasonalAssignmentKeySchema = z
+  .object({
+    styleSeasonCode: z.string().min(1),
+    companyCode: z.string().min(1),
+  })
+  .strict();
+
+const BulkAssignmentShape = {
+  assignments: z.array(SeasonalAssignmentKeySchema).min(1).max(100),
+  dryRun: z.boolean().nullish(),
+};
+
+// Schema for activateAssignmentDivisions / deactivateAssignmentDivisions mutations
+export const AssignmentDivisionsArgsSchema = z
+  .object({
+    ...BulkAssignmentShape,
+    divisionCodes: z.array(z.string().min(1)).min(1),
+  })
+  .strict();
+
+export type AssignmentDivisionsArgs = z.infer<typeof AssignmentDivisionsArgsSchema>;
+
+// Schema for updateAssignmentSalesOrganizationCodes / updateAssignmentChannels mutations
+export const AssignmentListEditArgsSchema = z
+  .object({
+    ...BulkAssignmentShape,
+    add: z.array(z.string().min(1)).default([]),
+    remove: z.array(z.string().min(1)).default([]),
+  })
+  .strict()
+  .refine((args) => args.add.length + args.remove.length > 0, {
+    message: "Nothing to add or remove",
+  })
+  .refine((args) => !args.add.some((value) => args.remove.includes(value)), {
+    message: "A value cannot be both added and removed",
+  });
+
+export type AssignmentListEditArgs = z.infer<typeof AssignmentListEditArgsSchema>;
+
 /**
  * Higher-order function to add validation to GraphQL resolvers
  */
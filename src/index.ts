@@ -61,10 +61,23 @@ if (earlyShutdownRequested) {
 
 // Dynamic imports for modules that need instrumentation
 // This ensures they're loaded AFTER telemetry is initialized
-const [{ default: config }, { graphqlHandler }, { healthHandlers }, middleware, types, websocket] = await Promise.all([
+const [
+  { default: config },
+  { startCacheWarmup },
+  { adminHandlers },
+  { graphqlHandler },
+  { healthHandlers },
+  { metricsHandler },
+  middleware,
+  types,
+  websocket,
+] = await Promise.all([
   import("./config"),
+  import("./graphql/cacheWarmup"),
+  import("./server/handlers/admin"),
   import("./server/handlers/graphql"),
   import("./server/handlers/health"),
+  import("./server/handlers/metrics"),
   import("./server/middleware"),
   import("./server/types"),
   import("./server/websocket/subscriptions"),
@@ -86,13 +99,8 @@ type RequestContext = typeof types.RequestContext extends new (
 ) => infer R
   ? R
   : typeof types.RequestContext;
-type WebSocketData = typeof types.WebSocketData extends new (
-  ...args: infer _
-) => infer R
-  ? R
-  : typeof types.WebSocketData;
 
-const { shouldUpgradeWebSocket, websocketHandlers } = websocket;
+const { shouldUpgradeWebSocket, upgradeWebSocket, websocketHandlers } = websocket;
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -190,6 +198,13 @@ const wrappedHealthHandlers = {
 
 const wrappedGraphqlHandler = withMiddleware(graphqlHandler);
 
+const wrappedMetricsHandler = withMiddleware(metricsHandler);
+
+const wrappedAdminHandlers = {
+  responseCache: withMiddleware(adminHandlers.responseCache),
+  invalidateTags: withMiddleware(adminHandlers.invalidateTags),
+};
+
 let server: Server | null = null;
 let isShuttingDown = false;
 
@@ -268,10 +283,38 @@ async function createServer(): Promise<Server> {
         return wrappedHealthHandlers.live(request, context);
       },
 
+      // Prometheus scrape endpoint
+      "/metrics": async (request) => {
+        const context = createRequestContext(request);
+        return wrappedMetricsHandler(request, context);
+      },
+
+      // Admin endpoints (bearer ADMIN_API_TOKEN)
+      "/admin/cache/responses": {
+        GET: async (request) => {
+          const context = createRequestContext(request);
+          return wrappedAdminHandlers.responseCache(request, context);
+        },
+        DELETE: async (request) => {
+          const context = createRequestContext(request);
+          return wrappedAdminHandlers.responseCache(request, context);
+        },
+      },
+      "/admin/cache/invalidate": {
+        POST: async (request) => {
+          const context = createRequestContext(request);
+          return wrappedAdminHandlers.invalidateTags(request, context);
+        },
+      },
+
       // GraphQL with per-method handling
       "/graphql": {
-        GET: async (request) => {
+        GET: async (request, server) => {
           const context = createRequestContext(request);
+          // WebSocket handshakes are GETs to /graphql, so they land here rather than in fetch
+          if (shouldUpgradeWebSocket(request)) {
+            return upgradeWebSocket(request, server, context);
+          }
           return wrappedGraphqlHandler(request, context);
         },
         POST: async (request) => {
@@ -282,26 +325,8 @@ async function createServer(): Promise<Server> {
       },
     },
 
-    // Fallback for unmatched routes and WebSocket upgrade
-    async fetch(request, server) {
-      const context = createRequestContext(request);
-
-      // Handle WebSocket upgrade for GraphQL subscriptions
-      if (shouldUpgradeWebSocket(request)) {
-        const wsData: WebSocketData = {
-          requestId: context.requestId,
-          clientIp: context.clientIp,
-          connectedAt: Date.now(),
-        };
-
-        const upgraded = server.upgrade(request, { data: wsData });
-        if (upgraded) {
-          return undefined; // WebSocket upgrade successful
-        }
-        return StaticResponses.WS_UPGRADE_FAILED;
-      }
-
-      // Return 404 for unmatched routes
+    // Fallback for unmatched routes
+    async fetch() {
       return StaticResponses.NOT_FOUND;
     },
 
@@ -388,6 +413,7 @@ function setupGracefulShutdown(): void {
     try {
       // Dynamic imports to avoid circular dependencies
       const { shutdownPerformanceMonitor } = await import("./lib/performanceMonitor");
+      const { bunSQLiteCache } = await import("./lib/bunSQLiteCache");
       const { shutdownBatchCoordinator } = await import("./telemetry/coordinator/BatchCoordinator");
       // connectionManager already imported at top level
 
@@ -399,7 +425,7 @@ function setupGracefulShutdown(): void {
 
       // Phase 2: Cleanup rate limit store
       log("Shutdown Phase 2: Cleaning up rate limit store", { phase: 2 });
-      cleanupRateLimitStore();
+      await cleanupRateLimitStore();
 
       // Phase 3: Flush telemetry buffers before closing connections
       log("Shutdown Phase 3: Flushing telemetry batch coordinator", { phase: 3 });
@@ -443,6 +469,8 @@ function setupGracefulShutdown(): void {
       // Phase 6: Cleanup remaining resources
       log("Shutdown Phase 6: Cleaning up remaining resources", { phase: 6 });
       shutdownPerformanceMonitor();
+      // Closing checkpoints the WAL of a file-backed cache for the next start
+      bunSQLiteCache.destroy();
 
       const shutdownDuration = Date.now() - shutdownStartTime;
 
@@ -486,6 +514,9 @@ function setupGracefulShutdown(): void {
   });
 }
 
+// Replay CACHE_WARMUP_FILE in the background; /health/ready waits for it
+await startCacheWarmup();
+
 // Start the server
 createServer().catch((error) => {
   console.error("Failed to start server:", error);
@@ -0,0 +1,103 @@
+/* src/lib/auth/index.ts - Request authentication */
+
+import { getSecurityConfig } from "$config";
+import { AuthenticationError } from "$models/errors";
+import { debug } from "../../telemetry/logger";
+import { JwksKeyStore } from "./jwks";
+import { extractBearerToken, type JwtClaims, JwtVerifier } from "./jwtVerifier";
+
+export type { JsonWebKeyEntry, JsonWebKeySet, JwksKeyStoreOptions } from "./jwks";
+export { JwksKeyStore } from "./jwks";
+export type { JwtClaims, JwtVerifierOptions } from "./jwtVerifier";
+export { extractBearerToken, JwtVerifier } from "./jwtVerifier";
+export type { AccessScope, AuthRequirement, ClaimNames, CodeScope } from "./policy";
+export { applyResultScope, assertArgumentsAllowed, getAccessScope, isAllowed } from "./policy";
+
+/**
+ * Identity attached to GraphQLContext.user after a token is verified
+ */
+export interface AuthenticatedUser {
+  /** Verified subject (sub claim) */
+  id: string;
+  claims: JwtClaims;
+}
+
+let verifier: JwtVerifier | null | undefined;
+
+/**
+ * Lazily build the verifier from config; null when authentication is disabled
+ */
+export function getJwtVerifier(): JwtVerifier | null {
+  if (verifier === undefined) {
+    const security = getSecurityConfig();
+    verifier = security.AUTH_ENABLED
+      ? new JwtVerifier({
+          keyStore: new JwksKeyStore({
+            url: security.AUTH_JWKS_URL,
+            file: security.AUTH_JWKS_FILE,
+            cacheTtlMs: security.AUTH_JWKS_CACHE_TTL_MS,
+          }),
+          issuer: security.AUTH_ISSUER,
+          audience: security.AUTH_AUDIENCE,
+          algorithms: security.AUTH_ALGORITHMS,
+          clockToleranceSeconds: security.AUTH_CLOCK_TOLERANCE_SECONDS,
+        })
+      : null;
+  }
+  return verifier;
+}
+
+/**
+ * Replace the verifier (tests) or pass undefined to rebuild it from config
+ */
+export function setJwtVerifier(next: JwtVerifier | null | undefined): void {
+  verifier = next;
+}
+
+/**
+ * Verify a raw Authorization header value.
+ * Resolves to undefined for anonymous callers when authentication is optional;
+ * rejects with AuthenticationError for invalid tokens or missing required ones.
+ */
+export async function authenticateAuthorization(
+  authorization: string | null | undefined
+): Promise<AuthenticatedUser | undefined> {
+  const activeVerifier = getJwtVerifier();
+  if (!activeVerifier) return undefined;
+
+  const token = extractBearerToken(authorization);
+  if (!token) {
+    if (getSecurityConfig().AUTH_REQUIRED) {
+      throw new AuthenticationError();
+    }
+    return undefined;
+  }
+
+  try {
+    const claims = await activeVerifier.verify(token);
+    return { id: claims.sub, claims };
+  } catch (error) {
+    debug("Bearer token rejected", {
+      reason: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Verification result per request, so the response cache session and the
+ * context factory share one signature check.
+ */
+const userByRequest = new WeakMap<Request, Promise<AuthenticatedUser | undefined>>();
+
+/**
+ * Authenticate an HTTP request from its Authorization header (memoized per Request)
+ */
+export function authenticateRequest(request: Request): Promise<AuthenticatedUser | undefined> {
+  let pending = userByRequest.get(request);
+  if (!pending) {
+    pending = authenticateAuthorization(request.headers.get("authorization"));
+    userByRequest.set(request, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,211 @@
+/* src/lib/auth/jwks.ts - JSON Web Key Set loading and signing key cache */
+
+import { AuthenticationError } from "$models/errors";
+import { debug, log, warn } from "../../telemetry/logger";
+
+/**
+ * A single public key from a JWKS document
+ */
+export interface JsonWebKeyEntry extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface JsonWebKeySet {
+  keys: JsonWebKeyEntry[];
+}
+
+export interface JwksKeyStoreOptions {
+  /** Remote JWKS endpoint (e.g. https://issuer/.well-known/jwks.json) */
+  url?: string;
+  /** Local JWKS file, used when no URL is configured */
+  file?: string;
+  /** How long a fetched key set is trusted before it is refreshed (ms) */
+  cacheTtlMs: number;
+  /** Minimum time between refreshes triggered by an unknown kid (ms) */
+  refreshCooldownMs?: number;
+  /** Timeout for the JWKS HTTP request (ms) */
+  fetchTimeoutMs?: number;
+}
+
+/**
+ * WebCrypto import/verify parameters per JWS algorithm
+ */
+interface AlgorithmParams {
+  importParams: RsaHashedImportParams | EcKeyImportParams;
+  verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+  kty: "RSA" | "EC";
+}
+
+const ALGORITHMS: Record<string, AlgorithmParams> = {
+  RS256: rsa("RSASSA-PKCS1-v1_5", "SHA-256"),
+  RS384: rsa("RSASSA-PKCS1-v1_5", "SHA-384"),
+  RS512: rsa("RSASSA-PKCS1-v1_5", "SHA-512"),
+  PS256: rsa("RSA-PSS", "SHA-256", 32),
+  PS384: rsa("RSA-PSS", "SHA-384", 48),
+  PS512: rsa("RSA-PSS", "SHA-512", 64),
+  ES256: ec("P-256", "SHA-256"),
+  ES384: ec("P-384", "SHA-384"),
+  ES512: ec("P-521", "SHA-512"),
+};
+
+function rsa(name: string, hash: string, saltLength?: number): AlgorithmParams {
+  return {
+    importParams: { name, hash },
+    verifyParams: saltLength ? { name, saltLength } : { name },
+    kty: "RSA",
+  };
+}
+
+function ec(namedCurve: string, hash: string): AlgorithmParams {
+  return {
+    importParams: { name: "ECDSA", namedCurve },
+    verifyParams: { name: "ECDSA", hash },
+    kty: "EC",
+  };
+}
+
+/**
+ * Get the WebCrypto verify parameters for a JWS algorithm, or undefined if unsupported
+ */
+export function getVerifyParams(alg: string): AlgorithmParams["verifyParams"] | undefined {
+  return ALGORITHMS[alg]?.verifyParams;
+}
+
+/**
+ * Caches the configured JWKS and the CryptoKeys imported from it.
+ *
+ * The key set is refreshed after cacheTtlMs, or early when a token names a kid
+ * we have not seen (key rotation) - at most once per refreshCooldownMs so a
+ * stream of forged kids cannot hammer the identity provider. Concurrent
+ * refreshes share one in-flight load, and a failed refresh keeps serving the
+ * previous keys.
+ */
+export class JwksKeyStore {
+  private keys: JsonWebKeyEntry[] = [];
+  private loadedAt = 0;
+  private lastRefreshAttempt = 0;
+  private inflight: Promise<void> | null = null;
+  private importedKeys = new Map<string, Promise<CryptoKey>>();
+
+  constructor(private options: JwksKeyStoreOptions) {
+    if (!options.url && !options.file) {
+      throw new Error("JwksKeyStore requires a JWKS url or file");
+    }
+  }
+
+  /**
+   * Resolve the verification key for a token header
+   */
+  async getKey(kid: string | undefined, alg: string): Promise<CryptoKey> {
+    const params = ALGORITHMS[alg];
+    if (!params) {
+      throw new AuthenticationError(`Unsupported token algorithm: ${alg}`);
+    }
+
+    if (this.loadedAt === 0 || Date.now() - this.loadedAt > this.options.cacheTtlMs) {
+      await this.refresh();
+    }
+
+    let jwk = this.findKey(kid, alg, params.kty);
+    if (!jwk && kid && Date.now() - this.lastRefreshAttempt > (this.options.refreshCooldownMs ?? 30000)) {
+      debug("Unknown signing key id, refreshing JWKS", { kid });
+      await this.refresh();
+      jwk = this.findKey(kid, alg, params.kty);
+    }
+
+    if (!jwk) {
+      throw new AuthenticationError("No matching signing key for token");
+    }
+
+    const cacheKey = `${jwk.kid ?? ""}:${alg}`;
+    let imported = this.importedKeys.get(cacheKey);
+    if (!imported) {
+      imported = crypto.subtle.importKey("jwk", jwk, params.importParams, false, ["verify"]);
+      // Don't cache a rejected import
+      imported.catch(() => this.importedKeys.delete(cacheKey));
+      this.importedKeys.set(cacheKey, imported);
+    }
+
+    try {
+      return await imported;
+    } catch (error) {
+      throw new AuthenticationError("Signing key could not be imported", error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Number of keys currently cached
+   */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Reload the key set (coalesces concurrent callers)
+   */
+  refresh(): Promise<void> {
+    if (!this.inflight) {
+      this.lastRefreshAttempt = Date.now();
+      this.inflight = this.load().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  private findKey(kid: string | undefined, alg: string, kty: string): JsonWebKeyEntry | undefined {
+    const candidates = this.keys.filter(
+      (key) => key.kty === kty && (!key.alg || key.alg === alg) && (!key.use || key.use === "sig")
+    );
+    if (kid) {
+      return candidates.find((key) => key.kid === kid);
+    }
+    // Tokens without a kid are only accepted when the choice is unambiguous
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private async load(): Promise<void> {
+    const source = this.options.url ?? this.options.file!;
+    try {
+      const jwks = this.options.url ? await this.fetchRemote(this.options.url) : await this.readFile(source);
+      if (!jwks || !Array.isArray(jwks.keys)) {
+        throw new Error("JWKS document has no keys array");
+      }
+
+      this.keys = jwks.keys;
+      this.loadedAt = Date.now();
+      this.importedKeys.clear();
+
+      log("JWKS loaded", { source, keyCount: this.keys.length });
+    } catch (error) {
+      if (this.keys.length > 0) {
+        // Keep verifying with the previous keys until the provider recovers
+        warn("JWKS refresh failed, continuing with cached keys", {
+          source,
+          keyCount: this.keys.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        this.loadedAt = Date.now();
+        return;
+      }
+      throw new AuthenticationError("Signing keys are unavailable", error instanceof Error ? error : undefined);
+    }
+  }
+
+  private async fetchRemote(url: string): Promise<JsonWebKeySet> {
+    const response = await fetch(url, {
+      headers: { accept: "application/json" },
+      signal: AbortSignal.timeout(this.options.fetchTimeoutMs ?? 5000),
+    });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with HTTP ${response.status}`);
+    }
+    return (await response.json()) as JsonWebKeySet;
+  }
+
+  private async readFile(path: string): Promise<JsonWebKeySet> {
+    return (await Bun.file(path).json()) as JsonWebKeySet;
+  }
+}
@@ -0,0 +1,136 @@
+/* src/lib/auth/jwtVerifier.ts - Bearer JWT verification */
+
+import { AuthenticationError } from "$models/errors";
+import { getVerifyParams, type JwksKeyStore } from "./jwks";
+
+/**
+ * Registered claims plus whatever the identity provider adds
+ * (divisions, brands, scopes, ...)
+ */
+export interface JwtClaims {
+  sub: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface JwtVerifierOptions {
+  keyStore: JwksKeyStore;
+  /** Expected iss; not checked when omitted */
+  issuer?: string;
+  /** Accepted aud values; not checked when empty */
+  audience?: readonly string[];
+  /** Allowed header alg values */
+  algorithms: readonly string[];
+  /** Allowed clock skew for exp/nbf (seconds) */
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * Verifies compact JWS tokens against a JWKS and the configured issuer/audience.
+ * Every failure surfaces as an AuthenticationError with a client-safe message.
+ */
+export class JwtVerifier {
+  constructor(private options: JwtVerifierOptions) {}
+
+  async verify(token: string): Promise<JwtClaims> {
+    const parts = token.split(".");
+    if (parts.length !== 3 || parts.some((part) => part.length === 0)) {
+      throw new AuthenticationError("Malformed token");
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    const header = decodeSegment<JwtHeader>(encodedHeader, "header");
+    if (typeof header.alg !== "string" || !this.options.algorithms.includes(header.alg)) {
+      throw new AuthenticationError(`Token algorithm not allowed: ${String(header.alg)}`);
+    }
+
+    const verifyParams = getVerifyParams(header.alg);
+    if (!verifyParams) {
+      throw new AuthenticationError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const key = await this.options.keyStore.getKey(header.kid, header.alg);
+    const valid = await crypto.subtle.verify(
+      verifyParams,
+      key,
+      Buffer.from(encodedSignature, "base64url"),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) {
+      throw new AuthenticationError("Invalid token signature");
+    }
+
+    // Claims are only trusted once the signature checks out
+    const claims = decodeSegment<JwtClaims>(encodedPayload, "payload");
+    this.validateClaims(claims);
+    return claims;
+  }
+
+  private validateClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockToleranceSeconds ?? 0;
+
+    if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+      throw new AuthenticationError("Token has no subject");
+    }
+
+    if (typeof claims.exp !== "number") {
+      throw new AuthenticationError("Token has no expiry");
+    }
+    if (now - tolerance >= claims.exp) {
+      throw new AuthenticationError("Token expired");
+    }
+
+    if (typeof claims.nbf === "number" && now + tolerance < claims.nbf) {
+      throw new AuthenticationError("Token not yet valid");
+    }
+
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new AuthenticationError("Token issuer not accepted");
+    }
+
+    const audience = this.options.audience ?? [];
+    if (audience.length > 0) {
+      const tokenAudience = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+      if (!tokenAudience.some((aud) => audience.includes(aud))) {
+        throw new AuthenticationError("Token audience not accepted");
+      }
+    }
+  }
+}
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+    if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) {
+      throw new Error("not an object");
+    }
+    return decoded as T;
+  } catch {
+    throw new AuthenticationError(`Malformed token ${name}`);
+  }
+}
+
+/**
+ * Pull the token out of an Authorization header.
+ * Returns null when no header is present; any other scheme is rejected.
+ */
+export function extractBearerToken(authorization: string | null | undefined): string | null {
+  if (!authorization) return null;
+
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization);
+  if (!match) {
+    throw new AuthenticationError("Authorization header must use the Bearer scheme");
+  }
+  return match[1];
+}
@@ -0,0 +1,180 @@
+/* src/lib/auth/policy.ts - Brand/division access policy */
+
+import { AuthenticationError, AuthorizationError } from "$models/errors";
+import type { JwtClaims } from "./jwtVerifier";
+
+/**
+ * What an @auth directive asks of the caller
+ */
+export type AuthRequirement = "AUTHENTICATED" | "DIVISION" | "BRAND";
+
+/**
+ * Codes a caller may see; "*" grants every code
+ */
+export type CodeScope = ReadonlySet<string> | "*";
+
+export interface AccessScope {
+  divisions: CodeScope;
+  brands: CodeScope;
+}
+
+export interface ClaimNames {
+  divisions: string;
+  brands: string;
+}
+
+/**
+ * Argument names (lower-cased) that carry division or brand codes
+ */
+const DIVISION_ARGUMENTS = new Set(["divisioncode", "division", "divisions", "divisioncodes"]);
+const BRAND_ARGUMENTS = new Set(["brandcode", "brand", "brands", "brandcodes"]);
+
+/**
+ * Read a code claim that may be an array, or a space/comma separated string
+ */
+function readCodeClaim(claims: JwtClaims, name: string): CodeScope {
+  const value = claims[name];
+  const codes = Array.isArray(value)
+    ? value.filter((code): code is string => typeof code === "string")
+    : typeof value === "string"
+      ? value.split(/[\s,]+/)
+      : [];
+
+  const trimmed = codes.map((code) => code.trim()).filter(Boolean);
+  return trimmed.includes("*") ? "*" : new Set(trimmed);
+}
+
+/**
+ * Derive the divisions and brands a caller may access from their token claims
+ */
+export function getAccessScope(claims: JwtClaims, claimNames: ClaimNames): AccessScope {
+  return {
+    divisions: readCodeClaim(claims, claimNames.divisions),
+    brands: readCodeClaim(claims, claimNames.brands),
+  };
+}
+
+export function isAllowed(scope: CodeScope, code: string): boolean {
+  return scope === "*" || scope.has(code);
+}
+
+/**
+ * Collect string values of matching arguments, including one level of input objects
+ */
+function collectCodes(args: Record<string, unknown>, names: Set<string>, depth = 0): string[] {
+  const codes: string[] = [];
+  for (const [name, value] of Object.entries(args)) {
+    if (value === null || value === undefined) continue;
+
+    if (names.has(name.toLowerCase())) {
+      if (typeof value === "string") codes.push(value);
+      if (Array.isArray(value)) codes.push(...value.filter((code): code is string => typeof code === "string"));
+    } else if (depth === 0 && typeof value === "object" && !Array.isArray(value)) {
+      codes.push(...collectCodes(value as Record<string, unknown>, names, depth + 1));
+    }
+  }
+  return codes;
+}
+
+/**
+ * Check resolver arguments against the caller's scope.
+ *
+ * @param declaredArguments - names of the arguments the field declares; a restricted
+ *   caller must supply a division/brand when the field accepts one, so an omitted
+ *   optional filter cannot widen the query to every division.
+ * @throws AuthenticationError when there is no caller, AuthorizationError on denial
+ */
+export function assertArgumentsAllowed(
+  requirements: readonly AuthRequirement[],
+  scope: AccessScope | undefined,
+  args: Record<string, unknown>,
+  declaredArguments: readonly string[],
+  fieldName: string
+): void {
+  if (!scope) {
+    throw new AuthenticationError();
+  }
+
+  const checks: Array<[AuthRequirement, Set<string>, CodeScope, string]> = [
+    ["DIVISION", DIVISION_ARGUMENTS, scope.divisions, "division"],
+    ["BRAND", BRAND_ARGUMENTS, scope.brands, "brand"],
+  ];
+
+  for (const [requirement, names, codeScope, label] of checks) {
+    if (!requirements.includes(requirement) || codeScope === "*") continue;
+
+    const codes = collectCodes(args, names);
+    const denied = codes.filter((code) => !codeScope.has(code));
+    if (denied.length > 0) {
+      throw new AuthorizationError(`Access denied to ${label} ${denied.join(", ")}`, fieldName);
+    }
+
+    if (codes.length === 0 && declaredArguments.some((name) => names.has(name.toLowerCase()))) {
+      throw new AuthorizationError(`A ${label} you have access to must be specified`, fieldName);
+    }
+  }
+}
+
+function readItemCode(item: Record<string, unknown>, keys: readonly string[]): string | undefined {
+  for (const key of keys) {
+    if (typeof item[key] === "string") return item[key] as string;
+  }
+  return undefined;
+}
+
+/**
+ * Check a single result object against the scope; undefined means "drop it".
+ * Objects listing divisions (e.g. SeasonalAssignment.divisions) are narrowed to
+ * the visible ones and dropped when none remain.
+ */
+function scopeItem<T>(item: T, requirements: readonly AuthRequirement[], scope: AccessScope): T | undefined {
+  if (!item || typeof item !== "object") return item;
+  const record = item as Record<string, unknown>;
+
+  if (requirements.includes("BRAND") && scope.brands !== "*") {
+    const brand = readItemCode(record, ["brandCode", "BrandCode", "brand"]);
+    if (brand !== undefined && !scope.brands.has(brand)) return undefined;
+  }
+
+  if (requirements.includes("DIVISION") && scope.divisions !== "*") {
+    const divisions = scope.divisions;
+    const division = readItemCode(record, ["divisionCode", "DivisionCode"]);
+    if (division !== undefined && !divisions.has(division)) return undefined;
+
+    if (Array.isArray(record.divisions)) {
+      const visible = record.divisions.filter((entry) => {
+        const code = typeof entry === "string" ? entry : (entry as { code?: unknown })?.code;
+        return typeof code !== "string" || divisions.has(code);
+      });
+      if (visible.length === 0 && record.divisions.length > 0) return undefined;
+      if (visible.length !== record.divisions.length) {
+        return { ...record, divisions: visible } as T;
+      }
+    }
+  }
+
+  return item;
+}
+
+/**
+ * Narrow a resolver result to what the caller may see.
+ * Lists are filtered; a single object outside the scope is denied.
+ */
+export function applyResultScope<T>(
+  result: T,
+  requirements: readonly AuthRequirement[],
+  scope: AccessScope,
+  fieldName: string
+): T {
+  if (result === null || result === undefined) return result;
+
+  if (Array.isArray(result)) {
+    return result.map((item) => scopeItem(item, requirements, scope)).filter((item) => item !== undefined) as T;
+  }
+
+  const scoped = scopeItem(result, requirements, scope);
+  if (scoped === undefined) {
+    throw new AuthorizationError("Access denied", fieldName);
+  }
+  return scoped;
+}
@@ -1,22 +1,66 @@
 /* src/lib/bunSQLiteCache.ts - Bun-native SQLite Query Cache */
 
 import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import config from "$config";
+import { isCircuitBreakerOpen } from "$lib/couchbase";
 import { debug, err, log, warn } from "../telemetry/logger";
-import type { CacheStats } from "./queryCache";
+import { FrequencySketch } from "./frequencySketch";
+import type { CacheEvictionPolicy, CacheStats, CacheTagSource } from "./queryCache";
+
+/**
+ * Bumped whenever the table layout changes; cache files with another version are reset on open
+ */
+const SCHEMA_VERSION = 3;
+
+/**
+ * How a stored value is encoded; "none" is plain UTF-8 JSON
+ */
+export type CacheCompressionCodec = "gzip" | "zstd";
+type StoredCodec = CacheCompressionCodec | "none";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Value as written to the value BLOB column
+ */
+interface EncodedValue {
+  bytes: Uint8Array;
+  codec: StoredCodec;
+  rawSize: number; // UTF-8 bytes before compression
+}
 
 /**
  * Cache entry stored in SQLite
  */
 interface SQLiteCacheEntry {
   key: string;
-  value: string;
+  value: Uint8Array<ArrayBuffer>;
+  codec: StoredCodec;
   expires_at: number;
+  stale_until: number;
   hit_count: number;
   last_accessed: number;
   created_at: number;
-  size: number;
+  size: number; // Stored (compressed) bytes
+  raw_size: number;
+  cost: number; // Fetcher duration in ms
+  priority: number; // GreedyDual H value
 }
 
+/**
+ * Victim order for each policy; TinyLFU evicts in LRU order once a newcomer
+ * has been admitted
+ */
+const EVICTION_ORDER: Record<CacheEvictionPolicy, string> = {
+  lru: "last_accessed ASC, hit_count ASC",
+  lfu: "hit_count ASC, last_accessed ASC",
+  "greedy-dual": "priority ASC, last_accessed ASC",
+  tinylfu: "last_accessed ASC, hit_count ASC",
+};
+
 /**
  * Cache configuration for SQLite cache
  */
@@ -26,6 +70,33 @@ export interface BunSQLiteCacheConfig {
   cleanupIntervalMs: number;
   maxEntries: number;
   compressionThreshold: number; // Compress values larger than this (bytes)
+  /**
+   * Which entries make room for new ones (default: lru). greedy-dual weighs
+   * each entry's recomputation cost against its size; tinylfu only admits a
+   * new key when it is requested more often than the entry it would evict.
+   */
+  evictionPolicy?: CacheEvictionPolicy;
+  /** Codec for values above compressionThreshold (default: zstd) */
+  compressionCodec?: CacheCompressionCodec | "none";
+  /** SQLite file (WAL mode) that keeps entries across restarts; in-memory when unset */
+  path?: string;
+  /** How long after expiry getOrSet serves the old value while one background refresh runs */
+  staleWhileRevalidateMs?: number;
+  /** How long after expiry getOrSet may serve the old value when the fetcher fails */
+  staleIfErrorMs?: number;
+  /** Which fetcher failures may be answered with stale data (default: none) */
+  serveStaleOnError?: (error: unknown) => boolean;
+}
+
+/**
+ * getOrSet counters beyond plain hits and misses
+ */
+export interface RevalidationStats {
+  staleHits: number; // Expired values served while a background refresh ran
+  staleIfErrorHits: number; // Expired values served because the fetcher failed
+  coalesced: number; // Misses that joined an in-flight fetch instead of starting one
+  backgroundRefreshes: number;
+  refreshFailures: number;
 }
 
 /**
@@ -40,12 +111,30 @@ export class BunSQLiteCache {
     misses: 0,
     evictions: 0,
     memoryUsage: 0,
+    evictionsByPolicy: { lru: 0, lfu: 0, "greedy-dual": 0, tinylfu: 0, expired: 0 },
+  };
+  private admissionsRejected = 0;
+  // GreedyDual inflation value L: the priority of the last evicted entry
+  private inflation = 0;
+  private sketch?: FrequencySketch;
+  private revalidation: RevalidationStats = {
+    staleHits: 0,
+    staleIfErrorHits: 0,
+    coalesced: 0,
+    backgroundRefreshes: 0,
+    refreshFailures: 0,
   };
+  private compression = { uncompressedBytes: 0, compressedEntries: 0 };
+  // Single-flight fetches by key, shared by concurrent misses and background refreshes
+  private inFlight = new Map<string, Promise<unknown>>();
   private cleanupTimer?: Timer;
   private insertStmt?: any;
   private selectStmt?: any;
+  private selectStaleStmt?: any;
   private updateHitStmt?: any;
   private deleteStmt?: any;
+  private deleteTagsStmt?: any;
+  private insertTagStmt?: any;
   private countStmt?: any;
   private sizeStmt?: any;
 
@@ -67,56 +156,79 @@ export class BunSQLiteCache {
   private initialize(): void {
     try {
       if (typeof Bun !== "undefined") {
-        // Use in-memory SQLite database for maximum performance
-        this.db = new Database(":memory:");
-
-        // Create optimized table with proper indexing
-        this.db.exec(`
-          CREATE TABLE cache (
-            key TEXT PRIMARY KEY,
-            value TEXT NOT NULL,
-            expires_at INTEGER NOT NULL,
-            hit_count INTEGER DEFAULT 0,
-            last_accessed INTEGER DEFAULT 0,
-            created_at INTEGER DEFAULT 0,
-            size INTEGER DEFAULT 0
-          ) WITHOUT ROWID;
-          
-          CREATE INDEX idx_expires_at ON cache(expires_at);
-          CREATE INDEX idx_last_accessed ON cache(last_accessed);
-          CREATE INDEX idx_hit_count ON cache(hit_count DESC);
-        `);
+        const path = this.config.path ?? ":memory:";
+        const persistent = path !== ":memory:";
+
+        // In-memory by default for maximum performance; a WAL file keeps entries across restarts
+        if (persistent) mkdirSync(dirname(path), { recursive: true });
+        this.db = new Database(path, { create: true });
+        if (persistent) {
+          this.db.exec("PRAGMA journal_mode = WAL");
+          this.db.exec("PRAGMA synchronous = NORMAL");
+          this.db.exec("PRAGMA busy_timeout = 5000");
+        }
+
+        this.createSchema();
 
-        // Prepare statements for maximum performance
-        this.insertStmt = this.db.prepare(`
+        // Statements are cached on the connection and finalized when it closes
+        this.insertStmt = this.db.query(`
           INSERT OR REPLACE INTO cache 
-          (key, value, expires_at, hit_count, last_accessed, created_at, size)
-          VALUES (?, ?, ?, 0, ?, ?, ?)
+          (key, value, codec, expires_at, stale_until, hit_count, last_accessed, created_at, size, raw_size, cost, priority)
+          VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
         `);
 
-        this.selectStmt = this.db.prepare(`
-          SELECT value, hit_count, expires_at FROM cache 
+        this.selectStmt = this.db.query(`
+          SELECT value, codec, hit_count, expires_at FROM cache 
           WHERE key = ? AND expires_at > ?
         `);
 
-        this.updateHitStmt = this.db.prepare(`
+        this.selectStaleStmt = this.db.query(`
+          SELECT value, codec, expires_at FROM cache
+          WHERE key = ? AND expires_at <= ? AND stale_until > ?
+        `);
+
+        this.updateHitStmt = this.db.query(`
           UPDATE cache 
-          SET hit_count = hit_count + 1, last_accessed = ?
+          SET hit_count = hit_count + 1, last_accessed = ?, priority = ? + MAX(cost, 1.0) / MAX(size, 1)
           WHERE key = ?
         `);
 
-        this.deleteStmt = this.db.prepare("DELETE FROM cache WHERE key = ?");
+        this.deleteStmt = this.db.query("DELETE FROM cache WHERE key = ?");
+
+        this.deleteTagsStmt = this.db.query("DELETE FROM cache_tags WHERE key = ?");
 
-        this.countStmt = this.db.prepare("SELECT COUNT(*) as count FROM cache");
+        this.insertTagStmt = this.db.query("INSERT OR IGNORE INTO cache_tags (tag, key) VALUES (?, ?)");
 
-        this.sizeStmt = this.db.prepare("SELECT COALESCE(SUM(size), 0) as total_size FROM cache");
+        this.countStmt = this.db.query("SELECT COUNT(*) as count FROM cache");
+
+        this.sizeStmt = this.db.query(`
+          SELECT COALESCE(SUM(size), 0) as total_size, COALESCE(SUM(raw_size), 0) as raw_size,
+            COUNT(CASE WHEN codec != 'none' THEN 1 END) as compressed
+          FROM cache
+        `);
+
+        if (this.evictionPolicy() === "tinylfu") {
+          this.sketch = new FrequencySketch(this.config.maxEntries);
+        }
+
+        if (persistent) {
+          this.pruneOnStartup();
+          // Restored priorities are relative to the previous process's L
+          const { floor } = this.db.query("SELECT COALESCE(MIN(priority), 0) as floor FROM cache").get() as {
+            floor: number;
+          };
+          this.inflation = floor;
+        }
 
         this.startCleanupTimer();
 
         log("BunSQLiteCache initialized with native SQLite", {
+          path,
           maxMemoryMB: this.config.maxMemoryMB,
           maxEntries: this.config.maxEntries,
           defaultTtlMs: this.config.defaultTtlMs,
+          evictionPolicy: this.evictionPolicy(),
+          restoredEntries: this.stats.size,
         });
       } else {
         log("Bun not available, SQLite cache disabled - falling back to Map cache");
@@ -127,6 +239,101 @@ export class BunSQLiteCache {
     }
   }
 
+  /**
+   * Create the tables, discarding a cache file written with an older layout
+   */
+  private createSchema(): void {
+    if (!this.db) return;
+
+    const { user_version: version } = this.db.query("PRAGMA user_version").get() as { user_version: number };
+    if (version !== SCHEMA_VERSION) {
+      // Cached data can always be refetched, so an outdated file is simply reset
+      this.db.exec(`
+        DROP TRIGGER IF EXISTS cache_tags_cleanup;
+        DROP TABLE IF EXISTS cache_tags;
+        DROP TABLE IF EXISTS cache;
+      `);
+    }
+
+    // Create optimized table with proper indexing
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cache (
+        key TEXT PRIMARY KEY,
+        value BLOB NOT NULL,
+        codec TEXT NOT NULL DEFAULT 'none',
+        expires_at INTEGER NOT NULL,
+        stale_until INTEGER NOT NULL,
+        hit_count INTEGER DEFAULT 0,
+        last_accessed INTEGER DEFAULT 0,
+        created_at INTEGER DEFAULT 0,
+        size INTEGER DEFAULT 0,
+        raw_size INTEGER DEFAULT 0,
+        cost REAL DEFAULT 0,
+        priority REAL DEFAULT 0
+      ) WITHOUT ROWID;
+
+      CREATE INDEX IF NOT EXISTS idx_expires_at ON cache(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_stale_until ON cache(stale_until);
+      CREATE INDEX IF NOT EXISTS idx_last_accessed ON cache(last_accessed);
+      CREATE INDEX IF NOT EXISTS idx_hit_count ON cache(hit_count DESC);
+      CREATE INDEX IF NOT EXISTS idx_priority ON cache(priority);
+
+      CREATE TABLE IF NOT EXISTS cache_tags (
+        tag TEXT NOT NULL,
+        key TEXT NOT NULL,
+        PRIMARY KEY (tag, key)
+      ) WITHOUT ROWID;
+
+      CREATE INDEX IF NOT EXISTS idx_cache_tags_key ON cache_tags(key);
+
+      -- Evictions, expiry and deletes all drop the entry's tags
+      CREATE TRIGGER IF NOT EXISTS cache_tags_cleanup AFTER DELETE ON cache BEGIN
+        DELETE FROM cache_tags WHERE key = old.key;
+      END;
+
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+  }
+
+  /**
+   * Drop what a previous process left behind past its stale window, then trim
+   * the restored entries to the configured entry and size limits, keeping the
+   * most recently used
+   */
+  private pruneOnStartup(): void {
+    if (!this.db) return;
+
+    try {
+      const expired = this.db.query("DELETE FROM cache WHERE stale_until <= ?").run(Date.now()).changes;
+
+      const overflow = this.db
+        .query(`
+        DELETE FROM cache WHERE key IN (
+          SELECT key FROM cache ORDER BY last_accessed DESC, key LIMIT -1 OFFSET ?
+        )`)
+        .run(this.config.maxEntries).changes;
+
+      const oversized = this.db
+        .query(`
+        DELETE FROM cache WHERE key IN (
+          SELECT key FROM (
+            SELECT key, SUM(size) OVER (ORDER BY last_accessed DESC, key) AS running_size FROM cache
+          ) WHERE running_size > ?
+        )`)
+        .run(this.config.maxMemoryMB * 1024 * 1024).changes;
+
+      this.updateStats();
+      log("SQLite cache pruned on startup", {
+        expired,
+        evicted: overflow + oversized,
+        remaining: this.stats.size,
+        cacheOperation: "startup-prune",
+      });
+    } catch (error) {
+      err("SQLite cache startup prune error:", error);
+    }
+  }
+
   /**
    * Get value from cache with automatic hit tracking
    */
@@ -139,17 +346,18 @@ export class BunSQLiteCache {
     try {
       const now = Date.now();
       const result = this.selectStmt?.get(key, now) as SQLiteCacheEntry | undefined;
+      this.sketch?.increment(key);
 
       if (!result) {
         this.stats.misses++;
         return null;
       }
 
-      // Update hit count and last accessed atomically
-      this.updateHitStmt?.run(now, key);
+      // Update hit count, last accessed and GreedyDual priority atomically
+      this.updateHitStmt?.run(now, this.inflation, key);
       this.stats.hits++;
 
-      const data = this.deserializeValue(result.value);
+      const data = this.deserializeValue<T>(result.value, result.codec);
 
       log("SQLite cache hit", {
         key: key.substring(0, 50) + (key.length > 50 ? "..." : ""),
@@ -169,20 +377,40 @@ export class BunSQLiteCache {
   /**
    * Set value in cache with automatic memory management
    */
-  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+  async set<T>(key: string, value: T, ttlMs?: number, tags?: string[], costMs = 0): Promise<void> {
     if (!this.db) return;
 
     try {
       const now = Date.now();
       const expiresAt = now + (ttlMs || this.config.defaultTtlMs);
-      const serializedValue = this.serializeValue(value);
-      const size = this.estimateSize(serializedValue);
+      const staleUntil = expiresAt + this.staleRetentionMs();
+      const encoded = this.serializeValue(value);
+      const size = encoded.bytes.byteLength;
 
       // Check if we need to make space
-      await this.ensureCapacity(size);
+      if (!(await this.ensureCapacity(key, size))) {
+        return;
+      }
 
-      // Insert/update the entry
-      this.insertStmt?.run(key, serializedValue, expiresAt, now, now, size);
+      // Insert/update the entry (REPLACE doesn't fire the delete trigger, so reset tags here)
+      const priority = this.inflation + Math.max(costMs, 1) / Math.max(size, 1);
+      this.insertStmt?.run(
+        key,
+        encoded.bytes,
+        encoded.codec,
+        expiresAt,
+        staleUntil,
+        now,
+        now,
+        size,
+        encoded.rawSize,
+        costMs,
+        priority
+      );
+      this.deleteTagsStmt?.run(key);
+      for (const tag of tags ?? []) {
+        this.insertTagStmt?.run(tag, key);
+      }
 
       // Update stats
       this.updateStats();
@@ -190,6 +418,8 @@ export class BunSQLiteCache {
       debug("SQLite cache set", {
         key: key.substring(0, 50) + (key.length > 50 ? "..." : ""),
         size,
+        codec: encoded.codec,
+        costMs,
         ttl: ttlMs || this.config.defaultTtlMs,
         expiresIn: expiresAt - now,
         cacheOperation: "store",
@@ -200,25 +430,104 @@ export class BunSQLiteCache {
   }
 
   /**
-   * Get value or execute fetcher function with caching
+   * Get value or execute fetcher function with caching.
+   *
+   * Concurrent misses on a key share one fetch. Within staleWhileRevalidateMs
+   * of expiry the old value is returned at once while a single background
+   * fetch refreshes it; within staleIfErrorMs it is returned when the fetch
+   * fails with an error accepted by serveStaleOnError.
    */
-  async getOrSet<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number): Promise<T> {
+  async getOrSet<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number, tags?: CacheTagSource<T>): Promise<T> {
     const cached = await this.get<T>(key);
     if (cached !== null) {
       return cached;
     }
 
-    // Cache miss - fetch fresh data
+    const stale = this.getStale<T>(key);
+    if (stale && stale.expiredFor < (this.config.staleWhileRevalidateMs ?? 0)) {
+      this.revalidation.staleHits++;
+      if (!this.inFlight.has(key)) {
+        this.revalidation.backgroundRefreshes++;
+        this.fetchOnce(key, fetcher, ttlMs, tags).catch(() => {
+          this.revalidation.refreshFailures++;
+        });
+      }
+      return stale.value;
+    }
+
+    const inFlight = this.inFlight.get(key) as Promise<T> | undefined;
+    if (inFlight) {
+      this.revalidation.coalesced++;
+    }
+
     try {
-      const data = await fetcher();
-      await this.set(key, data, ttlMs);
-      return data;
+      return await (inFlight ?? this.fetchOnce(key, fetcher, ttlMs, tags));
     } catch (error) {
-      err("Cache fetcher failed", error, { key });
+      if (stale && stale.expiredFor < (this.config.staleIfErrorMs ?? 0) && this.config.serveStaleOnError?.(error)) {
+        this.revalidation.staleIfErrorHits++;
+        warn("Serving stale cache entry after fetch failure", {
+          key: key.substring(0, 50) + (key.length > 50 ? "..." : ""),
+          expiredForMs: stale.expiredFor,
+          cacheOperation: "stale-if-error",
+        });
+        return stale.value;
+      }
       throw error;
     }
   }
 
+  /**
+   * Run the fetcher and store its result, sharing the call with every caller
+   * that asks for the same key before it settles
+   */
+  private fetchOnce<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number, tags?: CacheTagSource<T>): Promise<T> {
+    const existing = this.inFlight.get(key) as Promise<T> | undefined;
+    if (existing) return existing;
+
+    const pending = (async () => {
+      try {
+        const startTime = performance.now();
+        const data = await fetcher();
+        // The fetch duration is what evicting this entry would cost to recompute
+        const costMs = performance.now() - startTime;
+        await this.set(key, data, ttlMs, typeof tags === "function" ? tags(data) : tags, costMs);
+        return data;
+      } catch (error) {
+        err("Cache fetcher failed", error, { key });
+        throw error;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, pending);
+    return pending;
+  }
+
+  /**
+   * Expired value still inside its stale retention window
+   */
+  private getStale<T>(key: string): { value: T; expiredFor: number } | null {
+    if (!this.db || this.staleRetentionMs() === 0) return null;
+
+    try {
+      const now = Date.now();
+      const row = this.selectStaleStmt?.get(key, now, now) as SQLiteCacheEntry | undefined;
+      if (!row) return null;
+      return { value: this.deserializeValue<T>(row.value, row.codec), expiredFor: now - row.expires_at };
+    } catch (error) {
+      err("SQLite cache stale read error:", error);
+      return null;
+    }
+  }
+
+  /**
+   * How long expired rows are kept for stale-while-revalidate / stale-if-error
+   */
+  private staleRetentionMs(): number {
+    return Math.max(this.config.staleWhileRevalidateMs ?? 0, this.config.staleIfErrorMs ?? 0);
+  }
+
   /**
    * Check if key exists and is not expired
    */
@@ -274,7 +583,9 @@ export class BunSQLiteCache {
         misses: this.stats.misses,
         evictions: this.stats.evictions,
         memoryUsage: 0,
+        evictionsByPolicy: this.stats.evictionsByPolicy,
       };
+      this.compression = { uncompressedBytes: 0, compressedEntries: 0 };
 
       log("SQLite cache cleared", {
         cacheOperation: "clear",
@@ -320,22 +631,71 @@ export class BunSQLiteCache {
     }
   }
 
+  /**
+   * Invalidate every entry written with any of the tags
+   */
+  async invalidateTags(tags: readonly string[]): Promise<number> {
+    if (!this.db || tags.length === 0) return 0;
+
+    try {
+      const tagged = `key IN (SELECT key FROM cache_tags WHERE tag IN (${tags.map(() => "?").join(", ")}))`;
+      // Counted up front: the delete's change count includes rows removed by the tag trigger
+      const { count: deletedCount } = this.db
+        .prepare(`SELECT COUNT(*) as count FROM cache WHERE ${tagged}`)
+        .get(...tags) as {
+        count: number;
+      };
+      this.db.prepare(`DELETE FROM cache WHERE ${tagged}`).run(...tags);
+
+      if (deletedCount > 0) {
+        this.updateStats();
+      }
+      log("SQLite cache tag invalidation", {
+        tags,
+        deleted: deletedCount,
+        cacheOperation: "tag-invalidate",
+      });
+
+      return deletedCount;
+    } catch (error) {
+      err("SQLite cache invalidateTags error:", error);
+      return 0;
+    }
+  }
+
   /**
    * Get cache statistics
    */
-  getStats(): CacheStats & {
-    hitRate: number;
-    avgHitsPerEntry: number;
-    compressionRatio: number;
-  } {
+  getStats(): CacheStats &
+    RevalidationStats & {
+      hitRate: number;
+      avgHitsPerEntry: number;
+      compressionRatio: number;
+      compressedEntries: number;
+      uncompressedBytes: number;
+      evictionPolicy: CacheEvictionPolicy;
+      admissionsRejected: number;
+      inFlight: number;
+    } {
     const hitRate =
       this.stats.hits + this.stats.misses > 0 ? (this.stats.hits / (this.stats.hits + this.stats.misses)) * 100 : 0;
 
     return {
       ...this.stats,
+      evictionsByPolicy: { ...this.stats.evictionsByPolicy },
+      evictionPolicy: this.evictionPolicy(),
+      admissionsRejected: this.admissionsRejected,
+      ...this.revalidation,
+      inFlight: this.inFlight.size,
       hitRate: Math.round(hitRate * 100) / 100,
       avgHitsPerEntry: this.stats.size > 0 ? this.stats.hits / this.stats.size : 0,
-      compressionRatio: 1.0, // TODO: Implement compression tracking
+      // Uncompressed / stored bytes across current entries; 1 when nothing is compressed
+      compressionRatio:
+        this.stats.memoryUsage > 0
+          ? Math.round((this.compression.uncompressedBytes / this.stats.memoryUsage) * 100) / 100
+          : 1,
+      compressedEntries: this.compression.compressedEntries,
+      uncompressedBytes: this.compression.uncompressedBytes,
     };
   }
 
@@ -434,57 +794,125 @@ export class BunSQLiteCache {
   }
 
   /**
-   * Serialize value for storage
+   * Serialize value for storage, compressing it above compressionThreshold
+   * when that actually makes it smaller
    */
-  private serializeValue<T>(value: T): string {
-    const jsonString = JSON.stringify(value);
-
-    // TODO: Implement compression for large values
-    if (jsonString.length > this.config.compressionThreshold) {
-      // Future: Add compression here
-      // return compress(jsonString);
+  private serializeValue<T>(value: T): EncodedValue {
+    const raw = textEncoder.encode(JSON.stringify(value));
+    const codec = this.config.compressionCodec ?? "zstd";
+
+    if (codec !== "none" && raw.byteLength > this.config.compressionThreshold) {
+      const compressed = codec === "zstd" ? Bun.zstdCompressSync(raw) : Bun.gzipSync(raw);
+      if (compressed.byteLength < raw.byteLength) {
+        return { bytes: compressed, codec, rawSize: raw.byteLength };
+      }
     }
 
-    return jsonString;
+    return { bytes: raw, codec: "none", rawSize: raw.byteLength };
   }
 
   /**
    * Deserialize value from storage
    */
-  private deserializeValue<T>(value: string): T {
-    // TODO: Implement decompression
-    // if (isCompressed(value)) {
-    //   value = decompress(value);
-    // }
-
-    return JSON.parse(value);
+  private deserializeValue<T>(value: Uint8Array<ArrayBuffer>, codec: StoredCodec): T {
+    const raw = codec === "zstd" ? Bun.zstdDecompressSync(value) : codec === "gzip" ? Bun.gunzipSync(value) : value;
+    return JSON.parse(textDecoder.decode(raw));
   }
 
-  /**
-   * Estimate size of serialized value
-   */
-  private estimateSize(value: string): number {
-    // UTF-16 approximation
-    return value.length * 2;
+  private evictionPolicy(): CacheEvictionPolicy {
+    return this.config.evictionPolicy ?? "lru";
   }
 
   /**
-   * Ensure cache has capacity for new entries
+   * Ensure cache has capacity for new entries. Returns false when the TinyLFU
+   * filter declines to admit the key.
    */
-  private async ensureCapacity(newEntrySize: number): Promise<void> {
-    if (!this.db) return;
+  private async ensureCapacity(key: string, newEntrySize: number): Promise<boolean> {
+    if (!this.db) return false;
 
     const currentStats = this.getCurrentDBStats();
     const maxMemoryBytes = this.config.maxMemoryMB * 1024 * 1024;
+    const overMemory = currentStats.totalSize + newEntrySize > maxMemoryBytes;
+    const overCount = currentStats.entryCount >= this.config.maxEntries;
+
+    if (!overMemory && !overCount) {
+      return true;
+    }
+
+    if (this.sketch && !this.admit(key)) {
+      this.admissionsRejected++;
+      debug("SQLite cache admission rejected", {
+        key: key.substring(0, 50) + (key.length > 50 ? "..." : ""),
+        cacheOperation: "tinylfu-reject",
+      });
+      return false;
+    }
 
     // Check memory limit
-    if (currentStats.totalSize + newEntrySize > maxMemoryBytes) {
+    if (overMemory) {
       await this.evictByMemory(newEntrySize);
     }
 
     // Check entry count limit
-    if (currentStats.entryCount >= this.config.maxEntries) {
-      await this.evictLRU(Math.max(1, Math.floor(this.config.maxEntries * 0.1))); // Remove 10%
+    if (overCount) {
+      await this.evictEntries(Math.max(1, Math.floor(this.config.maxEntries * 0.1))); // Remove 10%
+    }
+
+    return true;
+  }
+
+  /**
+   * TinyLFU admission: a new key only displaces the next victim when it has
+   * been requested more often. Replacing an existing key is always allowed.
+   */
+  private admit(key: string): boolean {
+    if (!this.db || !this.sketch) return true;
+
+    if (this.db.query("SELECT 1 FROM cache WHERE key = ?").get(key)) {
+      return true;
+    }
+
+    const victim = this.db.query(`SELECT key FROM cache ORDER BY ${EVICTION_ORDER.tinylfu} LIMIT 1`).get() as
+      | { key: string }
+      | undefined;
+    return !victim || this.sketch.frequency(key) > this.sketch.frequency(victim.key);
+  }
+
+  /**
+   * Delete the next victims in policy order until count entries or
+   * targetSpace bytes are gone
+   */
+  private evictVictims(count: number, targetSpace = Number.POSITIVE_INFINITY): { evicted: number; freedSpace: number } {
+    if (!this.db) return { evicted: 0, freedSpace: 0 };
+
+    const policy = this.evictionPolicy();
+    const victims = this.db
+      .query(`SELECT key, size, priority FROM cache ORDER BY ${EVICTION_ORDER[policy]} LIMIT ?`)
+      .all(count) as Array<Pick<SQLiteCacheEntry, "key" | "size" | "priority">>;
+
+    let freedSpace = 0;
+    let evicted = 0;
+    for (const entry of victims) {
+      if (freedSpace >= targetSpace) break;
+
+      const result = this.deleteStmt?.run(entry.key);
+      if (result?.changes > 0) {
+        freedSpace += entry.size;
+        evicted++;
+        // GreedyDual ages every remaining entry by raising L to the victim's priority
+        this.inflation = Math.max(this.inflation, entry.priority);
+      }
+    }
+
+    this.stats.evictions += evicted;
+    this.countEvictions(policy, evicted);
+    return { evicted, freedSpace };
+  }
+
+  private countEvictions(reason: CacheEvictionPolicy | "expired", count: number): void {
+    const byPolicy = this.stats.evictionsByPolicy;
+    if (byPolicy && count > 0) {
+      byPolicy[reason] = (byPolicy[reason] ?? 0) + count;
     }
   }
 
@@ -500,6 +928,7 @@ export class BunSQLiteCache {
 
       if (expiredCount > 0) {
         this.stats.evictions += expiredCount;
+        this.countEvictions("expired", expiredCount);
         log("SQLite cache expired eviction", {
           expired: expiredCount,
           cacheOperation: "expired-eviction",
@@ -514,34 +943,15 @@ export class BunSQLiteCache {
         return;
       }
 
-      // Evict LRU entries until we have enough space
-      let freedSpace = 0;
-      let evicted = 0;
+      // Evict entries in policy order until we have enough space
       const targetSpace = requiredSpace + maxMemoryBytes * 0.1; // 10% buffer
+      const { evicted, freedSpace } = this.evictVictims(100, targetSpace);
 
-      const lruEntries = this.db
-        .prepare(`
-        SELECT key, size FROM cache 
-        ORDER BY last_accessed ASC, hit_count ASC
-        LIMIT 100
-      `)
-        .all() as Array<{ key: string; size: number }>;
-
-      for (const entry of lruEntries) {
-        if (freedSpace >= targetSpace) break;
-
-        const result = this.deleteStmt?.run(entry.key);
-        if (result?.changes > 0) {
-          freedSpace += entry.size;
-          evicted++;
-        }
-      }
-
-      this.stats.evictions += evicted;
       warn("SQLite cache memory pressure eviction", {
         evicted,
         freedSpace,
         requiredSpace,
+        evictionPolicy: this.evictionPolicy(),
         cacheOperation: "memory-eviction",
         performanceImpact: "memory-pressure",
       });
@@ -551,35 +961,20 @@ export class BunSQLiteCache {
   }
 
   /**
-   * Evict least recently used entries
+   * Evict entries in policy order to stay under maxEntries
    */
-  private async evictLRU(count: number): Promise<void> {
+  private async evictEntries(count: number): Promise<void> {
     if (!this.db) return;
 
     try {
-      const lruKeys = this.db
-        .prepare(`
-        SELECT key FROM cache 
-        ORDER BY last_accessed ASC, hit_count ASC 
-        LIMIT ?
-      `)
-        .all(count) as Array<{ key: string }>;
-
-      let evicted = 0;
-      for (const row of lruKeys) {
-        const result = this.deleteStmt?.run(row.key);
-        if (result?.changes > 0) {
-          evicted++;
-        }
-      }
-
-      this.stats.evictions += evicted;
-      log("SQLite cache LRU eviction", {
+      const { evicted } = this.evictVictims(count);
+      log("SQLite cache capacity eviction", {
         evicted,
-        cacheOperation: "lru-eviction",
+        evictionPolicy: this.evictionPolicy(),
+        cacheOperation: "capacity-eviction",
       });
     } catch (error) {
-      err("SQLite cache evictLRU error:", error);
+      err("SQLite cache evictEntries error:", error);
     }
   }
 
@@ -593,6 +988,7 @@ export class BunSQLiteCache {
       const dbStats = this.getCurrentDBStats();
       this.stats.size = dbStats.entryCount;
       this.stats.memoryUsage = dbStats.totalSize;
+      this.compression = { uncompressedBytes: dbStats.rawSize, compressedEntries: dbStats.compressedEntries };
     } catch (error) {
       err("SQLite cache updateStats error:", error);
     }
@@ -601,20 +997,22 @@ export class BunSQLiteCache {
   /**
    * Get current database statistics
    */
-  private getCurrentDBStats(): { entryCount: number; totalSize: number } {
-    if (!this.db) return { entryCount: 0, totalSize: 0 };
+  private getCurrentDBStats(): { entryCount: number; totalSize: number; rawSize: number; compressedEntries: number } {
+    if (!this.db) return { entryCount: 0, totalSize: 0, rawSize: 0, compressedEntries: 0 };
 
     try {
       const countResult = this.countStmt?.get() as { count: number };
-      const sizeResult = this.sizeStmt?.get() as { total_size: number };
+      const sizeResult = this.sizeStmt?.get() as { total_size: number; raw_size: number; compressed: number };
 
       return {
         entryCount: countResult?.count || 0,
         totalSize: sizeResult?.total_size || 0,
+        rawSize: sizeResult?.raw_size || 0,
+        compressedEntries: sizeResult?.compressed || 0,
       };
     } catch (error) {
       err("SQLite cache getCurrentDBStats error:", error);
-      return { entryCount: 0, totalSize: 0 };
+      return { entryCount: 0, totalSize: 0, rawSize: 0, compressedEntries: 0 };
     }
   }
 
@@ -635,7 +1033,8 @@ export class BunSQLiteCache {
 
     try {
       const now = Date.now();
-      const result = this.db.prepare("DELETE FROM cache WHERE expires_at <= ?").run(now);
+      // Expired rows stay readable for stale serving until stale_until
+      const result = this.db.prepare("DELETE FROM cache WHERE stale_until <= ?").run(now);
       const cleaned = result.changes;
 
       if (cleaned > 0) {
@@ -694,14 +1093,31 @@ export function generateOperationKey(operation: string, variables?: unknown): st
   return generateHashedKey(input);
 }
 
-// Default cache instance
-export const bunSQLiteCache = new BunSQLiteCache();
+// Default cache instance; stale data only stands in for Couchbase while its circuit breaker is open
+export const bunSQLiteCache = new BunSQLiteCache({
+  maxMemoryMB: config.application.SQLITE_CACHE_MAX_SIZE_MB,
+  defaultTtlMs: 5 * 60 * 1000, // 5 minutes
+  cleanupIntervalMs: 60 * 1000, // 1 minute
+  maxEntries: config.application.SQLITE_CACHE_MAX_ENTRIES,
+  path: config.application.SQLITE_CACHE_BACKEND === "file" ? config.application.SQLITE_CACHE_PATH : undefined,
+  compressionThreshold: config.application.SQLITE_CACHE_COMPRESSION_THRESHOLD,
+  compressionCodec: config.application.SQLITE_CACHE_COMPRESSION,
+  evictionPolicy: config.application.SQLITE_CACHE_EVICTION_POLICY,
+  staleWhileRevalidateMs: 60 * 1000, // 1 minute
+  staleIfErrorMs: 30 * 60 * 1000, // 30 minutes
+  serveStaleOnError: isCircuitBreakerOpen,
+});
 
 /**
  * Helper function to cache database operations with SQLite
  */
-export async function withSQLiteCache<T>(key: string, fetcher: () => Promise<T>, ttlMs?: number): Promise<T> {
-  return bunSQLiteCache.getOrSet(key, fetcher, ttlMs);
+export async function withSQLiteCache<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttlMs?: number,
+  tags?: CacheTagSource<T>
+): Promise<T> {
+  return bunSQLiteCache.getOrSet(key, fetcher, ttlMs, tags);
 }
 
 /**
@@ -770,12 +1186,19 @@ export const SQLiteCacheKeys = {
 
   healthCheck: (component: string) => `health:${component}`,
 
+  // Automatic persisted query text by SHA-256 hash
+  persistedQuery: (sha256Hash: string) => `apq:${sha256Hash}`,
+
   // Entity-level cache keys (for cross-query entity reuse)
   entityLook: (documentKey: string) => `entity:look:${documentKey}`,
   entityImage: (divisionCode: string, styleSeasonCode: string, styleCode: string) =>
     `entity:image:${divisionCode}:${styleSeasonCode}:${styleCode}`,
+  entityOption: (divisionCode: string, styleSeasonCode: string, styleCode: string) =>
+    `entity:option:${divisionCode}:${styleSeasonCode}:${styleCode}`,
   entityDivisionAssignment: (styleSeasonCode: string, companyCode: string, divisionCode: string) =>
     `entity:divAssign:${styleSeasonCode}:${companyCode}:${divisionCode}`,
+  entitySeasonalAssignment: (styleSeasonCode: string, companyCode: string) =>
+    `entity:assign:${styleSeasonCode}:${companyCode}`,
   entityDocument: (bucket: string, scope: string, collection: string, id: string) =>
     `entity:doc:${bucket}:${scope}:${collection}:${id}`,
 };
@@ -788,6 +1211,8 @@ export interface EntityCacheOptions {
   ttlMs?: number;
   userScoped?: boolean;
   userId?: string;
+  /** Cache tags for each entity (see CacheTags) */
+  tags?: (item: any) => string[];
 }
 
 /**
@@ -834,7 +1259,7 @@ export function cacheEntities<T extends Record<string, unknown>>(
       if (baseKey) {
         const key = getEntityKey(baseKey, options);
         try {
-          await bunSQLiteCache.set(key, item, ttlMs);
+          await bunSQLiteCache.set(key, item, ttlMs, options.tags?.(item));
           cached++;
         } catch {
           // Ignore cache errors - fire and forget
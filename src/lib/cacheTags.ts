@@ -0,0 +1,133 @@
+/* src/lib/cacheTags.ts - Cache tags shared by every cache layer */
+
+import { type ArgumentNode, getOperationAST, Kind, parse, valueFromASTUntyped, visit } from "graphql";
+
+/**
+ * Tags name the business data an entry was built from (`division:01`,
+ * `season:SS26`, `look:<documentKey>`), so one invalidation can purge the
+ * query cache, the SQLite cache and the GraphQL response cache together.
+ */
+export type CacheTagKind = "division" | "season" | "brand" | "look";
+
+export const CacheTags = {
+  division: (divisionCode: string) => `division:${divisionCode}`,
+  season: (styleSeasonCode: string) => `season:${styleSeasonCode}`,
+  brand: (brandCode: string) => `brand:${brandCode}`,
+  look: (documentKey: string) => `look:${documentKey}`,
+};
+
+const CACHE_TAG_PATTERN = /^(division|season|brand|look):[^\s,|]{1,200}$/;
+
+export function isCacheTag(tag: string): boolean {
+  return CACHE_TAG_PATTERN.test(tag);
+}
+
+/**
+ * Fields whose string values identify a division, season or brand - both as
+ * GraphQL arguments (`division`, `season`, `DivisionCode`) and in returned
+ * documents
+ */
+const TAGGED_FIELDS: Record<string, CacheTagKind> = {
+  division: "division",
+  divisions: "division",
+  divisionCode: "division",
+  divisionCodes: "division",
+  DivisionCode: "division",
+  season: "season",
+  styleSeasonCode: "season",
+  StyleSeasonCode: "season",
+  brand: "brand",
+  brandCode: "brand",
+  BrandCode: "brand",
+};
+
+/**
+ * Tags for the divisions, seasons and brands mentioned anywhere in a value
+ * (variables, a result). Collection stops at maxTags.
+ */
+export function collectCacheTags(value: unknown, maxTags = 100): string[] {
+  const tags = new Set<string>();
+  const add = (kind: CacheTagKind, code: unknown) => {
+    if (typeof code === "string" && code.length > 0 && tags.size < maxTags) {
+      const tag = `${kind}:${code}`;
+      if (isCacheTag(tag)) tags.add(tag);
+    }
+  };
+
+  const visit = (node: unknown, depth: number): void => {
+    if (node === null || typeof node !== "object" || depth > 12 || tags.size >= maxTags) return;
+    if (Array.isArray(node)) {
+      for (const item of node) visit(item, depth + 1);
+      return;
+    }
+    for (const [field, child] of Object.entries(node)) {
+      const kind = TAGGED_FIELDS[field];
+      if (kind) {
+        for (const code of Array.isArray(child) ? child : [child]) add(kind, code);
+      } else {
+        visit(child, depth + 1);
+      }
+    }
+  };
+
+  visit(value, 0);
+  return [...tags];
+}
+
+// Documents whose arguments are remembered; clients send the same few documents over and over
+const MAX_MEMOISED_DOCUMENTS = 500;
+
+const argumentsByDocument = new Map<string, readonly ArgumentNode[]>();
+
+/**
+ * Field arguments of the operation a document executes, fragments included.
+ * Parsed once per document and operation name; unparseable documents have none.
+ */
+function operationArguments(document: string, operationName?: string | null): readonly ArgumentNode[] {
+  const key = `${operationName ?? ""}\n${document}`;
+  const memoised = argumentsByDocument.get(key);
+  if (memoised) return memoised;
+
+  const found: ArgumentNode[] = [];
+  try {
+    const parsed = parse(document);
+    const operation = getOperationAST(parsed, operationName);
+    if (operation) {
+      const collect = {
+        Argument(node: ArgumentNode) {
+          found.push(node);
+        },
+      };
+      visit(operation, collect);
+      for (const definition of parsed.definitions) {
+        if (definition.kind === Kind.FRAGMENT_DEFINITION) visit(definition, collect);
+      }
+    }
+  } catch {
+    // Execution reports the syntax error
+  }
+
+  if (argumentsByDocument.size >= MAX_MEMOISED_DOCUMENTS) {
+    const oldest = argumentsByDocument.keys().next().value;
+    if (oldest !== undefined) argumentsByDocument.delete(oldest);
+  }
+  argumentsByDocument.set(key, found);
+  return found;
+}
+
+/**
+ * Tags for the field arguments of the operation a document executes, inline
+ * literals and variables alike - `looks(DivisionCode: "01")` and
+ * `looks(divisionCode: $d)` both tag `division:01`.
+ */
+export function collectArgumentCacheTags(
+  document: string,
+  variableValues: Record<string, unknown> = {},
+  operationName?: string | null,
+  maxTags = 100
+): string[] {
+  const values = operationArguments(document, operationName).map((node) => ({
+    [node.name.value]: valueFromASTUntyped(node.value, variableValues),
+  }));
+  return collectCacheTags(values, maxTags);
+}
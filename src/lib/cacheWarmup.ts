@@ -0,0 +1,185 @@
+/* src/lib/cacheWarmup.ts - Replays configured operations at boot to warm the caches */
+
+import { log, warn } from "../telemetry/logger";
+
+/**
+ * One operation to replay; a list of variables replays it once per entry
+ * (e.g. the current season's looksSummary for each division)
+ */
+export interface CacheWarmupFileOperation {
+  query: string;
+  operationName?: string;
+  variables?: Record<string, unknown> | Record<string, unknown>[];
+}
+
+export interface CacheWarmupOperation {
+  query: string;
+  operationName?: string;
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Runs one operation; rejects when it fails
+ */
+export type CacheWarmupExecutor = (operation: CacheWarmupOperation) => Promise<void>;
+
+export type CacheWarmupState = "disabled" | "running" | "complete" | "timed-out" | "failed";
+
+export interface CacheWarmupStatus {
+  state: CacheWarmupState;
+  total: number;
+  succeeded: number;
+  failed: number;
+  startedAt?: string;
+  durationMs?: number;
+  /** First few failures, for /health/ready */
+  errors: Array<{ operationName?: string; message: string }>;
+}
+
+export interface CacheWarmupOptions {
+  concurrency: number;
+  /** Readiness stops waiting after this long; remaining operations keep running */
+  timeoutMs: number;
+}
+
+const MAX_REPORTED_ERRORS = 10;
+
+const isVariables = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Parse a warm-up file (a JSON array of operations) into one operation per
+ * variables entry
+ */
+export function parseCacheWarmupOperations(document: unknown): CacheWarmupOperation[] {
+  if (!Array.isArray(document)) {
+    throw new Error("Cache warm-up file must be a JSON array of operations");
+  }
+
+  return (document as CacheWarmupFileOperation[]).flatMap((entry, index) => {
+    if (typeof entry?.query !== "string" || entry.query.trim() === "") {
+      throw new Error(`Cache warm-up operation ${index} has no query`);
+    }
+    if (entry.operationName !== undefined && typeof entry.operationName !== "string") {
+      throw new Error(`Cache warm-up operation ${index} has an invalid operationName`);
+    }
+
+    const variables = entry.variables === undefined ? [undefined] : [entry.variables].flat();
+    if (!variables.every((value) => value === undefined || isVariables(value))) {
+      throw new Error(`Cache warm-up operation ${index} has invalid variables`);
+    }
+
+    return variables.map((value) => ({ query: entry.query, operationName: entry.operationName, variables: value }));
+  });
+}
+
+/**
+ * Load a warm-up file from disk
+ */
+export async function loadCacheWarmupOperations(path: string): Promise<CacheWarmupOperation[]> {
+  const operations = parseCacheWarmupOperations(await Bun.file(path).json());
+  log("Cache warm-up operations loaded", { path, operations: operations.length });
+  return operations;
+}
+
+/**
+ * Tracks a warm-up run so readiness can wait for it
+ */
+export class CacheWarmer {
+  private status: CacheWarmupStatus = { state: "disabled", total: 0, succeeded: 0, failed: 0, errors: [] };
+
+  getStatus(): CacheWarmupStatus {
+    return { ...this.status, errors: [...this.status.errors] };
+  }
+
+  /**
+   * Ready unless a warm-up is still running within its timeout
+   */
+  isReady(): boolean {
+    return this.status.state !== "running";
+  }
+
+  /**
+   * Mark the warm-up as failed before it could start (e.g. an unreadable file)
+   */
+  fail(error: unknown): void {
+    this.status = {
+      state: "failed",
+      total: 0,
+      succeeded: 0,
+      failed: 0,
+      errors: [{ message: error instanceof Error ? error.message : String(error) }],
+    };
+  }
+
+  /**
+   * Replay the operations, at most options.concurrency at a time. Resolves
+   * when all have settled or the timeout passes, whichever comes first.
+   */
+  async run(
+    operations: readonly CacheWarmupOperation[],
+    execute: CacheWarmupExecutor,
+    options: CacheWarmupOptions
+  ): Promise<CacheWarmupStatus> {
+    const startedAt = Date.now();
+    const status: CacheWarmupStatus = {
+      state: "running",
+      total: operations.length,
+      succeeded: 0,
+      failed: 0,
+      startedAt: new Date(startedAt).toISOString(),
+      errors: [],
+    };
+    this.status = status;
+
+    let next = 0;
+    const worker = async () => {
+      while (next < operations.length) {
+        const operation = operations[next++];
+        try {
+          await execute(operation);
+          status.succeeded++;
+        } catch (error) {
+          status.failed++;
+          if (status.errors.length < MAX_REPORTED_ERRORS) {
+            status.errors.push({
+              operationName: operation.operationName,
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(options.concurrency, operations.length) }, worker);
+    let timer: Timer | undefined;
+    const timedOut = await Promise.race([
+      Promise.all(workers).then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), options.timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    status.state = timedOut ? "timed-out" : "complete";
+    status.durationMs = Date.now() - startedAt;
+
+    const summary = {
+      total: status.total,
+      succeeded: status.succeeded,
+      failed: status.failed,
+      durationMs: status.durationMs,
+    };
+    if (timedOut) {
+      warn("Cache warm-up timed out, reporting ready while it continues", { ...summary, timeoutMs: options.timeoutMs });
+    } else if (status.failed > 0) {
+      warn("Cache warm-up completed with failures", { ...summary, errors: status.errors });
+    } else {
+      log("Cache warm-up completed", summary);
+    }
+
+    return this.getStatus();
+  }
+}
+
+export const cacheWarmer = new CacheWarmer();
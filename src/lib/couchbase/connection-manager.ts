@@ -29,7 +29,7 @@
 
 import { type Bucket, type Cluster, type Collection, connect, type Scope, ServiceType } from "couchbase";
 import { err, log, warn } from "../../telemetry/logger";
-import { type CircuitBreaker, createCouchbaseCircuitBreaker } from "./circuit-breaker";
+import { type CircuitBreaker, CircuitBreakerOpenError, createCouchbaseCircuitBreaker } from "./circuit-breaker";
 import { loadCouchbaseConfig, parseConnectionString, validateProductionConfig } from "./config";
 import { buildConnectionOptions } from "./connection-options";
 import {
@@ -751,3 +751,11 @@ export const connectionManager = CouchbaseConnectionManager.getInstance();
 // Note: Signal handlers (SIGINT/SIGTERM) are handled centrally in src/index.ts
 // to avoid multiple handler registrations causing duplicate shutdown calls.
 // The connectionManager.close() method is idempotent and safe to call multiple times.
+
+/**
+ * Whether Couchbase is currently refusing requests: the connection circuit
+ * breaker is open, or the error was raised by an open breaker.
+ */
+export function isCircuitBreakerOpen(error?: unknown): boolean {
+  return error instanceof CircuitBreakerOpenError || connectionManager.getCircuitBreakerState() === "open";
+}
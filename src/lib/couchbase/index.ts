@@ -37,6 +37,7 @@
 export {
   CouchbaseConnectionManager,
   connectionManager,
+  isCircuitBreakerOpen,
 } from "./connection-manager";
 
 // =============================================================================
@@ -153,6 +154,26 @@ export {
   QueryExecutor,
 } from "./query-executor";
 
+// =============================================================================
+// SEARCH EXECUTOR
+// =============================================================================
+
+export { InMemorySearchBackend } from "./memory-search-backend";
+export type {
+  SearchBackend,
+  SearchFacetResult,
+  SearchFacetTerm,
+  SearchHitRow,
+  SearchIndexTarget,
+  SearchResponse,
+  SearchSpec,
+} from "./search-executor";
+export {
+  CouchbaseSearchBackend,
+  SearchExecutor,
+  searchExecutor,
+} from "./search-executor";
+
 // =============================================================================
 // KV OPERATIONS
 // =============================================================================
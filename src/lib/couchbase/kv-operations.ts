@@ -11,7 +11,15 @@
  * - Batch operations with parallel execution
  */
 
-import type { Collection, DurabilityLevel, GetOptions, GetResult, MutationResult, UpsertOptions } from "couchbase";
+import {
+  type Collection,
+  type DurabilityLevel,
+  type GetOptions,
+  type GetResult,
+  MutateInSpec,
+  type MutationResult,
+  type UpsertOptions,
+} from "couchbase";
 import { getErrorMessage } from "$utils/errorUtils";
 import { warn } from "../../telemetry/logger";
 import { DocumentNotFoundError } from "./errors";
@@ -231,34 +239,25 @@ export class KVOperations {
       timeout?: number;
     } = {}
   ): Promise<MutationResult> {
-    // Build the spec
-    let spec = collection.mutateIn(id);
-
-    for (const op of operations) {
+    const specs = operations.map((op) => {
       switch (op.type) {
         case "upsert":
-          spec = spec.upsert(op.path, op.value);
-          break;
+          return MutateInSpec.upsert(op.path, op.value);
         case "insert":
-          spec = spec.insert(op.path, op.value);
-          break;
+          return MutateInSpec.insert(op.path, op.value);
         case "replace":
-          spec = spec.replace(op.path, op.value);
-          break;
+          return MutateInSpec.replace(op.path, op.value);
         case "remove":
-          spec = spec.remove(op.path);
-          break;
+          return MutateInSpec.remove(op.path);
         case "arrayAppend":
-          spec = spec.arrayAppend(op.path, op.value);
-          break;
+          return MutateInSpec.arrayAppend(op.path, op.value);
         case "arrayPrepend":
-          spec = spec.arrayPrepend(op.path, op.value);
-          break;
+          return MutateInSpec.arrayPrepend(op.path, op.value);
       }
-    }
+    });
 
     // Execute with options
-    return await (spec as any).execute({
+    return await collection.mutateIn(id, specs, {
       cas: options.cas as any,
       durabilityLevel: options.durability as DurabilityLevel,
       timeout: options.timeout || 7500,
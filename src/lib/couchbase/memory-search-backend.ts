@@ -0,0 +1,153 @@
+/* src/lib/couchbase/memory-search-backend.ts */
+
+/**
+ * In-process Search backend for tests and local development.
+ *
+ * Approximates the Search service closely enough to exercise callers:
+ * - Text is split into lower-cased word tokens; a document matches when
+ *   any query token appears in one of its string fields (match query, OR)
+ * - Scores are term frequency weighted by inverse document frequency
+ * - Filters compare field values exactly (keyword-analysed fields); fields
+ *   are addressed by path, e.g. "merchandisingHierarchy.gender"
+ * - Fragments wrap matched tokens in <mark>, like HighlightStyle.HTML
+ * - Term facets count values over every match, not just the returned page
+ */
+
+import type {
+  SearchBackend,
+  SearchFacetResult,
+  SearchHitRow,
+  SearchIndexTarget,
+  SearchResponse,
+  SearchSpec,
+} from "./search-executor";
+
+type IndexedDocument = Record<string, unknown>;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+
+const valueAt = (document: IndexedDocument, path: string): unknown =>
+  path.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], document);
+
+const stringFields = (document: IndexedDocument): Array<[string, string]> =>
+  Object.entries(document).filter((entry): entry is [string, string] => typeof entry[1] === "string");
+
+function highlight(text: string, tokens: Set<string>): string | null {
+  let matched = false;
+  const fragment = text.replace(TOKEN_PATTERN, (word) => {
+    if (!tokens.has(word.toLowerCase())) return word;
+    matched = true;
+    return `<mark>${word}</mark>`;
+  });
+  return matched ? fragment : null;
+}
+
+export class InMemorySearchBackend implements SearchBackend {
+  private readonly indexes = new Map<string, Map<string, IndexedDocument>>();
+  /** Requests received, for assertions */
+  readonly requests: Array<{ target: SearchIndexTarget; spec: SearchSpec }> = [];
+  /** When set, every search rejects with this error */
+  failure: Error | null = null;
+
+  /**
+   * Add or replace documents in an index
+   */
+  index(indexName: string, documents: Record<string, IndexedDocument>): this {
+    const index = this.indexes.get(indexName) ?? new Map<string, IndexedDocument>();
+    for (const [id, document] of Object.entries(documents)) {
+      index.set(id, document);
+    }
+    this.indexes.set(indexName, index);
+    return this;
+  }
+
+  async search(target: SearchIndexTarget, spec: SearchSpec): Promise<SearchResponse> {
+    this.requests.push({ target, spec });
+    if (this.failure) {
+      throw this.failure;
+    }
+
+    const documents = [...(this.indexes.get(target.index) ?? new Map<string, IndexedDocument>())];
+    const queryTokens = new Set(tokenize(spec.text));
+    const filters = Object.entries(spec.filters ?? {}).filter(([, values]) => values.length > 0);
+
+    const candidates = documents.filter(([, document]) =>
+      filters.every(([field, values]) => values.includes(String(valueAt(document, field))))
+    );
+
+    // Inverse document frequency over the whole index
+    const documentFrequency = new Map<string, number>();
+    for (const [, document] of documents) {
+      const tokens = new Set(stringFields(document).flatMap(([, value]) => tokenize(value)));
+      for (const token of tokens) {
+        documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+      }
+    }
+
+    const matches: SearchHitRow[] = [];
+    for (const [id, document] of candidates) {
+      const tokens = stringFields(document).flatMap(([, value]) => tokenize(value));
+      let score = 0;
+      for (const token of tokens) {
+        if (queryTokens.has(token)) {
+          score += Math.log(1 + documents.length / (documentFrequency.get(token) ?? 1));
+        }
+      }
+      if (score === 0) continue;
+
+      const fragments: Record<string, string[]> = {};
+      for (const field of spec.highlightFields ?? []) {
+        const value = valueAt(document, field);
+        const fragment = typeof value === "string" ? highlight(value, queryTokens) : null;
+        if (fragment) fragments[field] = [fragment];
+      }
+
+      const fields = Object.fromEntries(
+        (spec.fields ?? []).map((field) => [field, valueAt(document, field)]).filter(([, value]) => value !== undefined)
+      );
+
+      matches.push({ id, index: target.index, score: score / Math.sqrt(tokens.length), fragments, fields });
+    }
+
+    matches.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+
+    const matched = new Map(candidates);
+    const facets: Record<string, SearchFacetResult> = {};
+    for (const [name, { field, size }] of Object.entries(spec.facets ?? {})) {
+      const counts = new Map<string, number>();
+      let missing = 0;
+      for (const match of matches) {
+        const document = matched.get(match.id);
+        const value = document ? valueAt(document, field) : undefined;
+        if (value === undefined || value === null) {
+          missing++;
+          continue;
+        }
+        counts.set(String(value), (counts.get(String(value)) ?? 0) + 1);
+      }
+
+      const terms = [...counts]
+        .map(([term, count]) => ({ term, count }))
+        .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+      const total = matches.length - missing;
+      const returned = terms.slice(0, size);
+      facets[name] = {
+        field,
+        total,
+        missing,
+        other: total - returned.reduce((sum, term) => sum + term.count, 0),
+        terms: returned,
+      };
+    }
+
+    const skip = spec.skip ?? 0;
+    return {
+      hits: matches.slice(skip, skip + spec.limit),
+      totalHits: matches.length,
+      maxScore: matches[0]?.score ?? 0,
+      facets,
+    };
+  }
+}
@@ -0,0 +1,284 @@
+/* src/lib/couchbase/search-executor.ts */
+
+/**
+ * Search Executor Module
+ *
+ * Full-text search over Couchbase Search (FTS) indexes:
+ * - Backend-neutral request/response shapes (hits, highlighted fragments, term facets)
+ * - Circuit breaker so an unavailable Search service fails fast
+ * - Metrics recorded alongside N1QL and KV operations
+ * - Pluggable backend; tests use InMemorySearchBackend instead of a cluster
+ */
+
+import { type Counter, type Histogram, metrics } from "@opentelemetry/api";
+import {
+  type Cluster,
+  HighlightStyle,
+  SearchFacet,
+  SearchQuery,
+  type SearchQueryOptions,
+  SearchRequest,
+} from "couchbase";
+import { debug, warn } from "../../telemetry/logger";
+import { METER_NAMES } from "../../telemetry/metrics";
+import { type CircuitBreaker, CircuitBreakerOpenError, createCouchbaseCircuitBreaker } from "./circuit-breaker";
+import { connectionManager } from "./connection-manager";
+import { CouchbaseErrorClassifier } from "./errors";
+import { recordQuery } from "./metrics";
+import type { CircuitBreakerStats } from "./types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A scope-level Search index
+ */
+export interface SearchIndexTarget {
+  index: string;
+  bucket: string;
+  scope: string;
+}
+
+export interface SearchSpec {
+  /** Free text, analysed and matched against the index's default field */
+  text: string;
+  /** Stored fields returned with each hit */
+  fields?: string[];
+  /** Fields to return highlighted fragments for */
+  highlightFields?: string[];
+  /** Field -> accepted values; values are alternatives, fields must all match */
+  filters?: Record<string, string[]>;
+  /** Facet name -> term facet over a field */
+  facets?: Record<string, { field: string; size: number }>;
+  limit: number;
+  skip?: number;
+  timeout?: number;
+  requestId?: string;
+}
+
+export interface SearchHitRow {
+  id: string;
+  index: string;
+  score: number;
+  /** Field -> fragments with matches wrapped in <mark> */
+  fragments: Record<string, string[]>;
+  fields: Record<string, unknown>;
+}
+
+export interface SearchFacetTerm {
+  term: string;
+  count: number;
+}
+
+export interface SearchFacetResult {
+  field: string;
+  /** Hits with a value for the field */
+  total: number;
+  /** Hits without a value for the field */
+  missing: number;
+  /** Hits whose value is not among the returned terms */
+  other: number;
+  terms: SearchFacetTerm[];
+}
+
+export interface SearchResponse {
+  hits: SearchHitRow[];
+  totalHits: number;
+  maxScore: number;
+  facets: Record<string, SearchFacetResult>;
+}
+
+/**
+ * Where search requests are sent; CouchbaseSearchBackend in production,
+ * InMemorySearchBackend in tests
+ */
+export interface SearchBackend {
+  search(target: SearchIndexTarget, spec: SearchSpec): Promise<SearchResponse>;
+}
+
+// =============================================================================
+// COUCHBASE BACKEND
+// =============================================================================
+
+/**
+ * Sends requests to the Search service through the SDK's scope.search().
+ */
+export class CouchbaseSearchBackend implements SearchBackend {
+  constructor(private readonly getCluster: () => Promise<Cluster>) {}
+
+  async search(target: SearchIndexTarget, spec: SearchSpec): Promise<SearchResponse> {
+    const cluster = await this.getCluster();
+    const scope = cluster.bucket(target.bucket).scope(target.scope);
+    const result = await scope.search(
+      target.index,
+      SearchRequest.create(CouchbaseSearchBackend.buildQuery(spec)),
+      CouchbaseSearchBackend.buildOptions(spec)
+    );
+
+    // SearchRow and SearchMetaData are untyped in the SDK
+    const meta = result.meta as any;
+    const facets: Record<string, SearchFacetResult> = {};
+    for (const [name, facet] of Object.entries<any>(meta?.facets ?? {})) {
+      facets[name] = {
+        field: facet.field,
+        total: facet.total ?? 0,
+        missing: facet.missing ?? 0,
+        other: facet.other ?? 0,
+        terms: (facet.terms ?? []).map((term: any) => ({ term: String(term.term), count: term.count })),
+      };
+    }
+
+    return {
+      hits: result.rows.map((row: any) => ({
+        id: row.id,
+        index: row.index,
+        score: row.score,
+        fragments: row.fragments ?? {},
+        fields: row.fields ?? {},
+      })),
+      totalHits: meta?.metrics?.total_rows ?? meta?.metrics?.totalRows ?? result.rows.length,
+      maxScore: meta?.metrics?.max_score ?? meta?.metrics?.maxScore ?? 0,
+      facets,
+    };
+  }
+
+  /**
+   * Match the text, and for each filtered field one of its values
+   */
+  private static buildQuery(spec: SearchSpec): SearchQuery {
+    const filters = Object.entries(spec.filters ?? {}).filter(([, values]) => values.length > 0);
+    const match = SearchQuery.match(spec.text);
+    if (filters.length === 0) {
+      return match;
+    }
+
+    return SearchQuery.conjuncts([
+      match,
+      ...filters.map(([field, values]) =>
+        SearchQuery.disjuncts(values.map((value) => SearchQuery.term(value).field(field)))
+      ),
+    ]);
+  }
+
+  private static buildOptions(spec: SearchSpec): SearchQueryOptions {
+    return {
+      limit: spec.limit,
+      skip: spec.skip,
+      fields: spec.fields,
+      highlight: spec.highlightFields ? { style: HighlightStyle.HTML, fields: spec.highlightFields } : undefined,
+      facets: spec.facets
+        ? Object.fromEntries(
+            Object.entries(spec.facets).map(([name, { field, size }]) => [name, SearchFacet.term(field, size)])
+          )
+        : undefined,
+      timeout: spec.timeout,
+    };
+  }
+}
+
+// =============================================================================
+// SEARCH EXECUTOR CLASS
+// =============================================================================
+
+let searchRequests: Counter | undefined;
+let searchDuration: Histogram | undefined;
+
+function getInstruments(): { requests: Counter; duration: Histogram } {
+  if (!searchRequests || !searchDuration) {
+    const meter = metrics.getMeter(METER_NAMES.database, "1.0.0");
+    searchRequests = meter.createCounter("couchbase_search_requests_total", {
+      description: "Search service requests by index and outcome",
+    });
+    searchDuration = meter.createHistogram("couchbase_search_duration_ms", {
+      description: "Search service request duration",
+      unit: "ms",
+    });
+  }
+  return { requests: searchRequests, duration: searchDuration };
+}
+
+/**
+ * Run full-text searches through a backend, guarded by a circuit breaker.
+ *
+ * Usage:
+ * ```typescript
+ * const response = await searchExecutor.search(
+ *   { index: "looks_search", bucket: "default", scope: "media_assets" },
+ *   { text: "denim", limit: 20, highlightFields: ["title"], facets: { trend: { field: "trend", size: 10 } } }
+ * );
+ * ```
+ */
+export class SearchExecutor {
+  constructor(
+    private readonly backend: SearchBackend,
+    private readonly circuitBreaker: CircuitBreaker = createCouchbaseCircuitBreaker()
+  ) {}
+
+  async search(target: SearchIndexTarget, spec: SearchSpec): Promise<SearchResponse> {
+    const startTime = performance.now();
+    const { requests, duration } = getInstruments();
+
+    try {
+      const response = await this.circuitBreaker.execute(() => this.backend.search(target, spec));
+      const elapsed = performance.now() - startTime;
+
+      recordQuery("search", elapsed, true, {
+        query: spec.text,
+        bucket: target.bucket,
+        scope: target.scope,
+        requestId: spec.requestId,
+      });
+      requests.add(1, { index: target.index, outcome: "success" });
+      duration.record(elapsed, { index: target.index });
+
+      debug("Search completed", {
+        component: "couchbase",
+        operation: "search",
+        index: target.index,
+        totalHits: response.totalHits,
+        durationMs: Number(elapsed.toFixed(2)),
+        requestId: spec.requestId,
+      });
+
+      return response;
+    } catch (error) {
+      const elapsed = performance.now() - startTime;
+      const circuitOpen = error instanceof CircuitBreakerOpenError;
+      const errorContext = CouchbaseErrorClassifier.extractContext(error, "search");
+
+      recordQuery("search", elapsed, false, {
+        query: spec.text,
+        errorType: errorContext.errorName ?? (error instanceof Error ? error.name : "UnknownError"),
+        bucket: target.bucket,
+        scope: target.scope,
+        requestId: spec.requestId,
+      });
+      requests.add(1, { index: target.index, outcome: circuitOpen ? "circuit_open" : "error" });
+
+      warn("Search failed", {
+        component: "couchbase",
+        operation: "search",
+        index: target.index,
+        circuitOpen,
+        error: errorContext.message,
+        requestId: spec.requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * State of the Search service circuit breaker
+   */
+  getCircuitBreakerStats(): CircuitBreakerStats {
+    return this.circuitBreaker.getStats();
+  }
+}
+
+/**
+ * Shared executor over the connection manager's cluster.
+ */
+export const searchExecutor = new SearchExecutor(
+  new CouchbaseSearchBackend(async () => (await connectionManager.getConnection()).cluster)
+);
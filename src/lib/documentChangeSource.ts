@@ -0,0 +1,202 @@
+/* src/lib/documentChangeSource.ts - Pluggable document change events for subscriptions */
+
+import { EventEmitter } from "events";
+import { debug, log, warn } from "../telemetry/logger";
+
+export type DocumentChangeType = "UPSERT" | "DELETE";
+
+/**
+ * Emitted when a look document is created, updated or deleted
+ */
+export interface LookChangeEvent {
+  documentKey: string;
+  divisionCode: string;
+  changeType: DocumentChangeType;
+  look?: Record<string, unknown> | null;
+  changedAt: string;
+}
+
+/**
+ * Emitted when an option document is created, updated or deleted
+ */
+export interface OptionChangeEvent {
+  optionCode: string;
+  styleSeasonCode: string;
+  divisionCode: string;
+  changeType: DocumentChangeType;
+  option?: Record<string, unknown> | null;
+  changedAt: string;
+}
+
+/**
+ * Topic name -> event payload
+ */
+export interface DocumentChangeEventMap {
+  look: LookChangeEvent;
+  option: OptionChangeEvent;
+}
+
+export type DocumentChangeTopic = keyof DocumentChangeEventMap;
+
+export type DocumentChangeListener<K extends DocumentChangeTopic> = (event: DocumentChangeEventMap[K]) => void;
+
+/**
+ * A source of document change events (in-process emitter, DCP/eventing bridge, etc.)
+ */
+export interface DocumentChangeSource {
+  readonly name: string;
+  subscribe<K extends DocumentChangeTopic>(topic: K, listener: DocumentChangeListener<K>): () => void;
+  close(): Promise<void>;
+}
+
+/**
+ * Default change source - events are published from within this process
+ * (mutations, ingestion hooks, tests) and delivered synchronously to listeners.
+ */
+export class InProcessChangeSource implements DocumentChangeSource {
+  readonly name = "in-process";
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every active subscription registers a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  subscribe<K extends DocumentChangeTopic>(topic: K, listener: DocumentChangeListener<K>): () => void {
+    this.emitter.on(topic, listener);
+    return () => {
+      this.emitter.off(topic, listener);
+    };
+  }
+
+  publish<K extends DocumentChangeTopic>(topic: K, event: DocumentChangeEventMap[K]): void {
+    this.emitter.emit(topic, event);
+  }
+
+  listenerCount(topic: DocumentChangeTopic): number {
+    return this.emitter.listenerCount(topic);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+const inProcessSource = new InProcessChangeSource();
+let activeSource: DocumentChangeSource = inProcessSource;
+
+/**
+ * Get the change source subscriptions currently read from
+ */
+export function getChangeSource(): DocumentChangeSource {
+  return activeSource;
+}
+
+/**
+ * Replace the active change source (e.g. with a Couchbase eventing bridge)
+ */
+export async function setChangeSource(source: DocumentChangeSource): Promise<void> {
+  const previous = activeSource;
+  activeSource = source;
+
+  if (previous !== inProcessSource && previous !== source) {
+    await previous.close();
+  }
+
+  log("Document change source configured", {
+    source: source.name,
+    previousSource: previous.name,
+  });
+}
+
+/**
+ * Publish a change event in-process.
+ * Always delivered to the in-process source; a custom source is expected to
+ * deliver its own events, so publishing here only reaches it if it is the default.
+ */
+export function publishDocumentChange<K extends DocumentChangeTopic>(topic: K, event: DocumentChangeEventMap[K]): void {
+  debug("Document change published", {
+    topic,
+    changeType: event.changeType,
+    divisionCode: event.divisionCode,
+  });
+  inProcessSource.publish(topic, event);
+}
+
+/**
+ * Options for subscribing to a change topic as an async iterator
+ */
+export interface ChangeIteratorOptions<K extends DocumentChangeTopic> {
+  filter?: (event: DocumentChangeEventMap[K]) => boolean;
+  /** Maximum undelivered events per subscriber; oldest are dropped beyond this */
+  maxBuffer?: number;
+  source?: DocumentChangeSource;
+}
+
+/**
+ * Subscribe to a change topic as an AsyncIterableIterator, suitable for
+ * GraphQL subscription resolvers. Calling return() unsubscribes.
+ */
+export function subscribeToDocumentChanges<K extends DocumentChangeTopic>(
+  topic: K,
+  options: ChangeIteratorOptions<K> = {}
+): AsyncIterableIterator<DocumentChangeEventMap[K]> {
+  const { filter, maxBuffer = 100, source = activeSource } = options;
+  const buffer: DocumentChangeEventMap[K][] = [];
+  const waiting: Array<(result: IteratorResult<DocumentChangeEventMap[K]>) => void> = [];
+  let done = false;
+  let dropped = 0;
+
+  const unsubscribe = source.subscribe(topic, (event) => {
+    if (done || (filter && !filter(event))) return;
+
+    const next = waiting.shift();
+    if (next) {
+      next({ value: event, done: false });
+      return;
+    }
+
+    buffer.push(event);
+    if (buffer.length > maxBuffer) {
+      buffer.shift();
+      dropped++;
+      if (dropped === 1 || dropped % 100 === 0) {
+        warn("Slow subscriber - dropping change events", { topic, dropped, maxBuffer });
+      }
+    }
+  });
+
+  const finish = (): IteratorResult<DocumentChangeEventMap[K]> => {
+    if (!done) {
+      done = true;
+      unsubscribe();
+      buffer.length = 0;
+      for (const resolve of waiting.splice(0)) {
+        resolve({ value: undefined, done: true });
+      }
+    }
+    return { value: undefined, done: true };
+  };
+
+  return {
+    next(): Promise<IteratorResult<DocumentChangeEventMap[K]>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    return(): Promise<IteratorResult<DocumentChangeEventMap[K]>> {
+      return Promise.resolve(finish());
+    },
+    throw(error?: unknown): Promise<IteratorResult<DocumentChangeEventMap[K]>> {
+      finish();
+      return Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
@@ -0,0 +1,364 @@
+/* src/lib/entityLoaders.ts - Per-request batched loaders for looks, images, options and assignments */
+
+/**
+ * Every GraphQL request gets its own loaders, so fields resolved in the same
+ * tick (50 lookDetails aliases, the images of a page of options) share one
+ * batch: keys already in the entity cache are served from SQLite and the
+ * rest are read from Couchbase in one call - a KVOperations.getMulti for
+ * looks and assignments (the keyspaces and keys their repositories write),
+ * one N1QL statement for images and options. Documents read from Couchbase
+ * are written back to the entity cache for later requests. Look versions
+ * (CAS) are batched the same way but always read live, never cached.
+ */
+
+import { type Counter, type Histogram, metrics } from "@opentelemetry/api";
+import DataLoader from "dataloader";
+import { connectionManager, KVOperations, QueryExecutor } from "$lib/couchbase";
+import { METER_NAMES } from "../telemetry/metrics";
+import { cacheEntities, getEntity, SQLiteCacheKeys } from "./bunSQLiteCache";
+import { CacheTags } from "./cacheTags";
+import { DocumentIds } from "./couchbaseDocumentIds";
+import { LOOKS_KEYSPACE, type LookDocument } from "./lookRepository";
+import {
+  ASSIGNMENTS_KEYSPACE,
+  type AssignmentKey,
+  type SeasonalAssignmentDocument,
+} from "./seasonalAssignmentRepository";
+
+export interface EntityKeyspace {
+  bucket: string;
+  scope: string;
+  collection: string;
+}
+
+/**
+ * Option documents; the get_options_* functions in the same scope read them
+ */
+export const OPTIONS_KEYSPACE = { bucket: "default", scope: "_default", collection: "_default" } as const;
+
+export interface StyleKey {
+  divisionCode: string;
+  styleSeasonCode: string;
+  styleCode: string;
+}
+
+export type EntityDocument = Record<string, unknown>;
+
+export type EntityLoaderName = "looks" | "images" | "options" | "assignments";
+
+export interface EntityLoaders {
+  /** Keyed by look documentKey */
+  looks: DataLoader<string, LookDocument | null, string>;
+  images: DataLoader<StyleKey, EntityDocument | null, string>;
+  options: DataLoader<StyleKey, EntityDocument | null, string>;
+  assignments: DataLoader<AssignmentKey, SeasonalAssignmentDocument | null, string>;
+  /** Current version (CAS) by look documentKey */
+  lookVersions: DataLoader<string, string | null, string>;
+}
+
+/**
+ * Where loaders read the documents missing from the entity cache
+ */
+export interface EntitySources {
+  /** Read documents by id from one collection; ids that don't exist are left out of the result */
+  getMulti(keyspace: EntityKeyspace, ids: string[]): Promise<Map<string, unknown>>;
+  /** Read the current version (CAS) of documents without their bodies; missing ids are left out */
+  getVersions(keyspace: EntityKeyspace, ids: string[]): Promise<Map<string, string>>;
+  /** Run one N1QL statement and return its rows */
+  query(statement: string, parameters: Record<string, unknown>): Promise<unknown[]>;
+}
+
+export interface EntityLoaderStats {
+  /** Keys served from the entity cache */
+  hits: number;
+  /** Keys read from Couchbase */
+  misses: number;
+  /** Misses Couchbase had no document for */
+  notFound: number;
+  batches: number;
+  averageBatchSize: number;
+  maxBatchSize: number;
+}
+
+interface EntityLoaderDefinition<K, V> {
+  name: EntityLoaderName;
+  /** Entity cache key; also deduplicates keys within a request */
+  cacheKey: (key: K) => string;
+  /** Read the documents of a batch in one call, in key order (null when missing) */
+  fetch: (keys: readonly K[], sources: EntitySources) => Promise<(EntityDocument | null)[]>;
+  toEntity: (key: K, document: EntityDocument) => V;
+  tags: (key: K, entity: V) => string[];
+  ttlMs: number;
+}
+
+const MAX_BATCH_SIZE = 100;
+const ENTITY_TTL_MS = 10 * 60 * 1000;
+
+const styleTags = (key: StyleKey) => [CacheTags.season(key.styleSeasonCode), CacheTags.division(key.divisionCode)];
+
+/**
+ * KV batch read for a keyspace whose document ids derive from the key
+ */
+function byDocumentId<K>(keyspace: EntityKeyspace, documentId: (key: K) => string) {
+  return async (keys: readonly K[], sources: EntitySources): Promise<(EntityDocument | null)[]> => {
+    const ids = keys.map(documentId);
+    const documents = await sources.getMulti(keyspace, [...new Set(ids)]);
+    return ids.map((id) => (documents.get(id) as EntityDocument | undefined) ?? null);
+  };
+}
+
+/**
+ * getImageDetails for every style in one statement; the array comprehension keeps key order
+ */
+const IMAGE_DETAILS_BATCH =
+  "SELECT RAW ARRAY `default`.`_default`.getImageDetails(style.divisionCode, style.styleSeasonCode, style.styleCode)[0] FOR style IN $styles END";
+
+/**
+ * The option document of each style in OPTIONS_KEYSPACE, matched on its own fields
+ */
+const OPTIONS_BY_STYLE =
+  "SELECT RAW o FROM `default`.`_default`.`_default` AS o WHERE [o.divisionCode, o.styleSeasonCode, o.styleNumber] IN $styles";
+
+const styleTuple = (divisionCode: unknown, styleSeasonCode: unknown, styleCode: unknown) =>
+  JSON.stringify([divisionCode, styleSeasonCode, styleCode]);
+
+const LOOKS: EntityLoaderDefinition<string, LookDocument> = {
+  name: "looks",
+  cacheKey: (documentKey) => SQLiteCacheKeys.entityLook(documentKey),
+  // The document key as LookRepository reads and writes it
+  fetch: byDocumentId(LOOKS_KEYSPACE, (documentKey) => documentKey),
+  toEntity: (documentKey, document) => ({ ...(document as LookDocument), documentKey }),
+  tags: (documentKey, look) => [
+    CacheTags.look(documentKey),
+    ...(look.divisionCode ? [CacheTags.division(look.divisionCode)] : []),
+  ],
+  ttlMs: ENTITY_TTL_MS,
+};
+
+const IMAGES: EntityLoaderDefinition<StyleKey, EntityDocument> = {
+  name: "images",
+  cacheKey: (key) => SQLiteCacheKeys.entityImage(key.divisionCode, key.styleSeasonCode, key.styleCode),
+  fetch: async (keys, sources) => {
+    const [images] = await sources.query(IMAGE_DETAILS_BATCH, { styles: keys });
+    return keys.map((_, index) => (images as (EntityDocument | null)[] | undefined)?.[index] ?? null);
+  },
+  toEntity: (_key, document) => document,
+  tags: styleTags,
+  ttlMs: ENTITY_TTL_MS,
+};
+
+const OPTIONS: EntityLoaderDefinition<StyleKey, EntityDocument> = {
+  name: "options",
+  cacheKey: (key) => SQLiteCacheKeys.entityOption(key.divisionCode, key.styleSeasonCode, key.styleCode),
+  fetch: async (keys, sources) => {
+    const styles = keys.map((key) => [key.divisionCode, key.styleSeasonCode, key.styleCode]);
+    const rows = (await sources.query(OPTIONS_BY_STYLE, { styles })) as EntityDocument[];
+    const byStyle = new Map<string, EntityDocument>();
+    for (const option of rows) {
+      const style = styleTuple(option.divisionCode, option.styleSeasonCode, option.styleNumber);
+      if (!byStyle.has(style)) byStyle.set(style, option);
+    }
+    return keys.map((key) => byStyle.get(styleTuple(key.divisionCode, key.styleSeasonCode, key.styleCode)) ?? null);
+  },
+  toEntity: (_key, document) => document,
+  tags: styleTags,
+  ttlMs: ENTITY_TTL_MS,
+};
+
+const ASSIGNMENTS: EntityLoaderDefinition<AssignmentKey, SeasonalAssignmentDocument> = {
+  name: "assignments",
+  cacheKey: (key) => SQLiteCacheKeys.entitySeasonalAssignment(key.styleSeasonCode, key.companyCode),
+  fetch: byDocumentId(ASSIGNMENTS_KEYSPACE, (key: AssignmentKey) =>
+    DocumentIds.seasonalAssignment(key.styleSeasonCode, key.companyCode)
+  ),
+  toEntity: (_key, document) => document as SeasonalAssignmentDocument,
+  tags: (key) => [CacheTags.season(key.styleSeasonCode)],
+  ttlMs: 5 * 60 * 1000,
+};
+
+// =============================================================================
+// STATISTICS
+// =============================================================================
+
+interface LoaderCounters {
+  hits: number;
+  misses: number;
+  notFound: number;
+  batches: number;
+  batchedKeys: number;
+  maxBatchSize: number;
+}
+
+const emptyCounters = (): LoaderCounters => ({
+  hits: 0,
+  misses: 0,
+  notFound: 0,
+  batches: 0,
+  batchedKeys: 0,
+  maxBatchSize: 0,
+});
+
+const counters: Record<EntityLoaderName, LoaderCounters> = {
+  looks: emptyCounters(),
+  images: emptyCounters(),
+  options: emptyCounters(),
+  assignments: emptyCounters(),
+};
+
+let instruments: { loads: Counter; batchSize: Histogram } | undefined;
+
+// Created on first use so they bind to the meter provider registered at startup
+function loaderInstruments() {
+  if (!instruments) {
+    const meter = metrics.getMeter(METER_NAMES.cache, "1.0.0");
+    instruments = {
+      loads: meter.createCounter("dataloader_loads_total", {
+        description: "Keys loaded by entity loaders, by loader and result (hit, miss, not_found)",
+        unit: "1",
+      }),
+      batchSize: meter.createHistogram("dataloader_batch_size", {
+        description: "Keys per entity loader batch",
+        unit: "1",
+      }),
+    };
+  }
+  return instruments;
+}
+
+function recordBatch(loader: EntityLoaderName, size: number, hits: number, found: number): void {
+  const stats = counters[loader];
+  const misses = size - hits;
+  stats.batches++;
+  stats.batchedKeys += size;
+  stats.maxBatchSize = Math.max(stats.maxBatchSize, size);
+  stats.hits += hits;
+  stats.misses += misses;
+  stats.notFound += misses - found;
+
+  const { loads, batchSize } = loaderInstruments();
+  batchSize.record(size, { loader });
+  if (hits > 0) loads.add(hits, { loader, result: "hit" });
+  if (found > 0) loads.add(found, { loader, result: "miss" });
+  if (misses > found) loads.add(misses - found, { loader, result: "not_found" });
+}
+
+/**
+ * Totals across all requests since startup (or the last reset)
+ */
+export function getEntityLoaderStats(): Record<EntityLoaderName, EntityLoaderStats> {
+  const entries = Object.entries(counters).map(([name, stats]) => [
+    name,
+    {
+      hits: stats.hits,
+      misses: stats.misses,
+      notFound: stats.notFound,
+      batches: stats.batches,
+      averageBatchSize: stats.batches > 0 ? stats.batchedKeys / stats.batches : 0,
+      maxBatchSize: stats.maxBatchSize,
+    },
+  ]);
+  return Object.fromEntries(entries) as Record<EntityLoaderName, EntityLoaderStats>;
+}
+
+export function resetEntityLoaderStats(): void {
+  for (const name of Object.keys(counters) as EntityLoaderName[]) {
+    counters[name] = emptyCounters();
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+const couchbaseSources: EntitySources = {
+  getMulti: (keyspace, ids) =>
+    KVOperations.getMulti(connectionManager.getCollection(keyspace.bucket, keyspace.scope, keyspace.collection), ids),
+  getVersions: async (keyspace, ids) => {
+    const collection = connectionManager.getCollection(keyspace.bucket, keyspace.scope, keyspace.collection);
+    // exists() returns the CAS alone; the reads run concurrently like getMulti's
+    const results = await Promise.all(ids.map(async (id) => ({ id, result: await collection.exists(id) })));
+    const versions = new Map<string, string>();
+    for (const { id, result } of results) {
+      if (result.exists && result.cas) versions.set(id, result.cas.toString());
+    }
+    return versions;
+  },
+  query: async (statement, parameters) => {
+    const conn = await connectionManager.getConnection();
+    const result = await QueryExecutor.execute(conn.cluster, statement, { parameters, usePreparedStatement: true });
+    return result.rows ?? [];
+  },
+};
+
+function createEntityLoader<K, V>(
+  definition: EntityLoaderDefinition<K, V>,
+  sources: EntitySources
+): DataLoader<K, V | null, string> {
+  const batchLoad = async (keys: readonly K[]): Promise<(V | null)[]> => {
+    const entities: (V | null)[] = await Promise.all(keys.map((key) => getEntity<V>(definition.cacheKey(key))));
+    const missing = keys.filter((_, index) => entities[index] === null);
+
+    let found = 0;
+    if (missing.length > 0) {
+      const documents = await definition.fetch(missing, sources);
+
+      let next = 0;
+      keys.forEach((key, index) => {
+        if (entities[index] !== null) return;
+        const document = documents[next++];
+        if (!document) return;
+
+        const entity = definition.toEntity(key, document);
+        entities[index] = entity;
+        found++;
+        cacheEntities(entity as Record<string, unknown>, () => definition.cacheKey(key), {
+          requiredFields: [],
+          ttlMs: definition.ttlMs,
+          tags: () => definition.tags(key, entity),
+        });
+      });
+    }
+
+    recordBatch(definition.name, keys.length, keys.length - missing.length, found);
+    return entities;
+  };
+
+  return new DataLoader(batchLoad, {
+    cacheKeyFn: definition.cacheKey,
+    maxBatchSize: MAX_BATCH_SIZE,
+    // Same immediate scheduling as the document DataLoader
+    batchScheduleFn: (callback) => process.nextTick(callback),
+  });
+}
+
+/**
+ * Versions change on every write, so unlike entities they skip the entity cache
+ */
+function createVersionLoader(
+  keyspace: EntityKeyspace,
+  sources: EntitySources
+): DataLoader<string, string | null, string> {
+  const batchLoad = async (ids: readonly string[]): Promise<(string | null)[]> => {
+    const versions = await sources.getVersions(keyspace, [...ids]);
+    return ids.map((id) => versions.get(id) ?? null);
+  };
+
+  return new DataLoader(batchLoad, {
+    maxBatchSize: MAX_BATCH_SIZE,
+    batchScheduleFn: (callback) => process.nextTick(callback),
+  });
+}
+
+/**
+ * Create the loaders for one request. The sources default to Couchbase and
+ * are swapped out in tests.
+ */
+export function createEntityLoaders(sources: EntitySources = couchbaseSources): EntityLoaders {
+  return {
+    looks: createEntityLoader(LOOKS, sources),
+    images: createEntityLoader(IMAGES, sources),
+    options: createEntityLoader(OPTIONS, sources),
+    assignments: createEntityLoader(ASSIGNMENTS, sources),
+    lookVersions: createVersionLoader(LOOKS_KEYSPACE, sources),
+  };
+}
@@ -0,0 +1,68 @@
+/* src/lib/frequencySketch.ts - Count-min sketch of key popularity for TinyLFU admission */
+
+const DEPTH = 4;
+const MAX_COUNT = 15;
+
+/**
+ * Approximate access counts in fixed memory. Counters are halved once
+ * sampleSize increments have been recorded, so old popularity fades and
+ * recently hot keys can win admission.
+ */
+export class FrequencySketch {
+  private readonly table: Uint8Array;
+  private readonly mask: number;
+  private readonly sampleSize: number;
+  private additions = 0;
+
+  constructor(expectedEntries: number) {
+    let width = 16;
+    while (width < expectedEntries) width *= 2;
+    this.table = new Uint8Array(width * DEPTH);
+    this.mask = width - 1;
+    this.sampleSize = width * 10;
+  }
+
+  /**
+   * Record one access to key
+   */
+  increment(key: string): void {
+    let added = false;
+    for (const index of this.indexes(key)) {
+      if (this.table[index] < MAX_COUNT) {
+        this.table[index]++;
+        added = true;
+      }
+    }
+
+    if (added && ++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  /**
+   * Estimated accesses to key since counters were last halved
+   */
+  frequency(key: string): number {
+    let min = MAX_COUNT;
+    for (const index of this.indexes(key)) {
+      min = Math.min(min, this.table[index]);
+    }
+    return min;
+  }
+
+  private indexes(key: string): number[] {
+    // Double hashing: two 32-bit halves of one 64-bit hash give every row its own slot
+    const hash = BigInt(Bun.hash(key));
+    const low = Number(hash & 0xffffffffn);
+    const high = Number(hash >> 32n) | 1;
+    const width = this.mask + 1;
+    return Array.from({ length: DEPTH }, (_, row) => row * width + ((low + row * high) & this.mask));
+  }
+
+  private age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+}
@@ -1,156 +1,384 @@
 /* src/lib/graphqlResponseCache.ts - SQLite-based Response Cache for GraphQL Yoga */
 
-import config from "../config";
+import { Database, type Statement } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { type BuildResponseCacheKeyFunction, type Cache, hashSHA256 } from "@graphql-yoga/plugin-response-cache";
+import type { ExecutionResult } from "graphql";
 import { debug, err, log } from "../telemetry/logger";
-import { BunSQLiteCache } from "./bunSQLiteCache";
+import { CacheTags, collectArgumentCacheTags, collectCacheTags } from "./cacheTags";
 
 /**
- * Cache interface compatible with GraphQL Yoga's response cache plugin
- * Uses SQLite instead of WeakMap to avoid compatibility issues
+ * Where cached responses live:
+ * - memory: in-process only, lost on restart
+ * - sqlite: a file owned by this process (exclusive lock), survives restarts
+ * - shared: a file several workers read and write concurrently (WAL + busy timeout)
+ */
+export type GraphQLCacheBackend = "memory" | "sqlite" | "shared";
+
+export interface SQLiteGraphQLCacheOptions {
+  backend: GraphQLCacheBackend;
+  /** Database file for the sqlite and shared backends */
+  path?: string;
+  /** Oldest responses beyond this count are dropped on cleanup */
+  maxEntries?: number;
+  cleanupIntervalMs?: number;
+  now?: () => number;
+}
+
+/**
+ * A cached response as listed by the admin API
+ */
+export interface CachedResponseEntry {
+  id: string;
+  operationName: string;
+  size: number;
+  createdAt: number;
+  /** null when the response never expires */
+  expiresAt: number | null;
+  entities: string[];
+  tags: string[];
+}
+
+export interface GraphQLResponseCacheStats {
+  backend: GraphQLCacheBackend;
+  entries: number;
+  hits: number;
+  misses: number;
+  sets: number;
+  invalidations: number;
+  hitRate: number;
+}
+
+interface ResponseRow {
+  id: string;
+  operation_name: string;
+  data: string;
+  created_at: number;
+  expires_at: number | null;
+}
+
+/** Operation name recorded for documents without one */
+export const ANONYMOUS_OPERATION = "anonymous";
+
+// Cache keys are "<operationName>|<hash>[|<tags>]" so entries can be listed per
+// operation and tagged by their arguments
+const KEY_SEPARATOR = "|";
+
+// Tags share the entity index; "#" can't start a GraphQL type name
+const TAG_PREFIX = "#";
+
+// Types whose id is a look document key
+const LOOK_TYPENAMES = new Set(["Look", "LookDetails"]);
+
+const OPERATION_NAME_PATTERN = /^\s*(?:query|mutation|subscription)\s+([_A-Za-z]\w*)/;
+
+/**
+ * Operation name a cache key was built for
+ */
+export function operationNameFromKey(key: string): string {
+  const separator = key.indexOf(KEY_SEPARATOR);
+  return separator > 0 ? key.slice(0, separator) : ANONYMOUS_OPERATION;
+}
+
+/**
+ * Tags carried in a cache key (from the operation's arguments)
+ */
+function tagsFromKey(key: string): string[] {
+  const tags = key.split(KEY_SEPARATOR)[2];
+  return tags ? tags.split(",") : [];
+}
+
+/**
+ * Entity id in the same "Type:id" form the in-memory cache uses
+ */
+function entityId(typename: string, id?: number | string): string {
+  return id === undefined || id === null ? typename : `${typename}:${id}`;
+}
+
+/**
+ * GraphQL Yoga response cache backed by a SQLite database. Responses are
+ * indexed by the entities they contain, so mutations (and resolvers) can
+ * evict every response holding a given type or `Type:id` whichever process
+ * cached it.
  */
 export class SQLiteGraphQLCache implements Cache {
-  private sqliteCache: BunSQLiteCache;
-  private cacheKeyPrefix = "gql_response:";
-
-  constructor() {
-    this.sqliteCache = new BunSQLiteCache({
-      maxMemoryMB: 100, // 100MB for response cache
-      defaultTtlMs: config.application.YOGA_RESPONSE_CACHE_TTL,
-      cleanupIntervalMs: 5 * 60 * 1000, // 5 minutes
-      maxEntries: 10000,
-      compressionThreshold: 1024, // Compress responses > 1KB
+  readonly backend: GraphQLCacheBackend;
+  private db: Database;
+  private readonly now: () => number;
+  private readonly maxEntries: number;
+  private cleanupTimer: Timer | null;
+  private stats = { hits: 0, misses: 0, sets: 0, invalidations: 0 };
+
+  private selectStmt: Statement<ResponseRow, [string, number]>;
+  private upsertStmt: Statement<unknown, [string, string, string, number, number | null]>;
+  private insertEntityStmt: Statement<unknown, [string, string]>;
+  private deleteStmt: Statement<unknown, [string]>;
+  private deleteEntitiesStmt: Statement<unknown, [string]>;
+  private responsesForEntityStmt: Statement<{ response_id: string }, [string]>;
+  private setTx: (id: string, data: string, entities: string[], expiresAt: number | null) => void;
+  private deleteTx: (ids: string[]) => void;
+
+  constructor(options: SQLiteGraphQLCacheOptions) {
+    this.backend = options.backend;
+    this.now = options.now ?? Date.now;
+    this.maxEntries = options.maxEntries ?? 10000;
+
+    const path = options.backend === "memory" ? ":memory:" : (options.path ?? "data/graphql-response-cache.sqlite");
+    if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+
+    this.db = new Database(path, { create: true });
+    if (options.backend === "sqlite") {
+      this.db.exec("PRAGMA locking_mode = EXCLUSIVE");
+    }
+    if (options.backend !== "memory") {
+      this.db.exec("PRAGMA journal_mode = WAL");
+      this.db.exec("PRAGMA synchronous = NORMAL");
+      this.db.exec("PRAGMA busy_timeout = 5000");
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS responses (
+        id TEXT PRIMARY KEY,
+        operation_name TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_responses_operation ON responses(operation_name);
+      CREATE INDEX IF NOT EXISTS idx_responses_expires ON responses(expires_at);
+      CREATE TABLE IF NOT EXISTS response_entities (
+        entity TEXT NOT NULL,
+        response_id TEXT NOT NULL,
+        PRIMARY KEY (entity, response_id)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS idx_response_entities_response ON response_entities(response_id);
+    `);
+
+    this.selectStmt = this.db.query("SELECT * FROM responses WHERE id = ? AND (expires_at IS NULL OR expires_at > ?)");
+    this.upsertStmt = this.db.query(`
+      INSERT INTO responses (id, operation_name, data, created_at, expires_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET data = excluded.data, created_at = excluded.created_at, expires_at = excluded.expires_at
+    `);
+    this.insertEntityStmt = this.db.query(
+      "INSERT OR IGNORE INTO response_entities (entity, response_id) VALUES (?, ?)"
+    );
+    this.deleteStmt = this.db.query("DELETE FROM responses WHERE id = ?");
+    this.deleteEntitiesStmt = this.db.query("DELETE FROM response_entities WHERE response_id = ?");
+    this.responsesForEntityStmt = this.db.query("SELECT response_id FROM response_entities WHERE entity = ?");
+
+    this.setTx = this.db.transaction((id: string, data: string, entities: string[], expiresAt: number | null) => {
+      this.deleteEntitiesStmt.run(id);
+      this.upsertStmt.run(id, operationNameFromKey(id), data, this.now(), expiresAt);
+      for (const entity of entities) {
+        this.insertEntityStmt.run(entity, id);
+      }
     });
+    this.deleteTx = this.db.transaction((ids: string[]) => {
+      for (const id of ids) {
+        this.deleteStmt.run(id);
+        this.deleteEntitiesStmt.run(id);
+      }
+    });
+
+    this.prune();
+    this.cleanupTimer = setInterval(() => this.prune(), options.cleanupIntervalMs ?? 5 * 60 * 1000);
+    this.cleanupTimer.unref?.();
+
+    log("GraphQL response cache initialized", { backend: this.backend, path, maxEntries: this.maxEntries });
   }
 
-  /**
-   * Get cached response
-   */
-  async get(key: string): Promise<any> {
+  get(id: string): ExecutionResult | undefined {
     try {
-      const prefixedKey = this.cacheKeyPrefix + key;
-      const cached = await this.sqliteCache.get(prefixedKey);
-
-      if (cached !== null) {
-        debug("GraphQL response cache hit", {
-          cacheKey: key.substring(0, 100) + (key.length > 100 ? "..." : ""),
-          hasValue: cached !== null,
-        });
-        return cached;
+      const row = this.selectStmt.get(id, this.now());
+      if (!row) {
+        this.stats.misses++;
+        return undefined;
       }
-
-      debug("GraphQL response cache miss", {
-        cacheKey: key.substring(0, 100) + (key.length > 100 ? "..." : ""),
-      });
-      return undefined;
+      this.stats.hits++;
+      debug("GraphQL response cache hit", { operationName: row.operation_name });
+      return JSON.parse(row.data) as ExecutionResult;
     } catch (error) {
-      err("GraphQL response cache get error:", error, { key: key.substring(0, 100) });
+      err("GraphQL response cache get error:", error, { operationName: operationNameFromKey(id) });
+      this.stats.misses++;
       return undefined;
     }
   }
 
-  /**
-   * Set cached response with TTL
-   */
-  async set(key: string, value: any, ttl?: number): Promise<void> {
-    try {
-      const prefixedKey = this.cacheKeyPrefix + key;
-      const ttlMs = ttl ? ttl * 1000 : config.application.YOGA_RESPONSE_CACHE_TTL; // Convert seconds to ms
-
-      await this.sqliteCache.set(prefixedKey, value, ttlMs);
+  set(id: string, data: ExecutionResult, entities: Iterable<{ typename: string; id?: number | string }>, ttl: number) {
+    if (!(ttl > 0)) return;
 
-      log("GraphQL response cached", {
-        cacheKey: key.substring(0, 100) + (key.length > 100 ? "..." : ""),
-        ttlMs,
-        valueSize: JSON.stringify(value).length,
-      });
+    try {
+      const entityIds = new Set<string>();
+      const tags = new Set([...tagsFromKey(id), ...collectCacheTags(data.data)]);
+      for (const entity of entities) {
+        entityIds.add(entity.typename);
+        if (entity.id !== undefined) {
+          entityIds.add(entityId(entity.typename, entity.id));
+          if (LOOK_TYPENAMES.has(entity.typename)) tags.add(CacheTags.look(String(entity.id)));
+        }
+      }
+      for (const tag of tags) entityIds.add(TAG_PREFIX + tag);
+      this.setTx(id, JSON.stringify(data), [...entityIds], Number.isFinite(ttl) ? this.now() + ttl : null);
+      this.stats.sets++;
     } catch (error) {
-      err("GraphQL response cache set error:", error, { key: key.substring(0, 100) });
+      err("GraphQL response cache set error:", error, { operationName: operationNameFromKey(id) });
     }
   }
 
   /**
-   * Delete cached response (optional method)
+   * Evict every response containing the entities - by typename alone, or typename + id
    */
-  async delete(key: string): Promise<boolean> {
-    try {
-      const prefixedKey = this.cacheKeyPrefix + key;
-      await this.sqliteCache.delete(prefixedKey);
-      return true;
-    } catch (error) {
-      err("GraphQL response cache delete error:", error, { key: key.substring(0, 100) });
-      return false;
+  invalidate(entities: Iterable<{ typename: string; id?: number | string }>): void {
+    const removed = this.invalidateIndexed([...entities].map((entity) => entityId(entity.typename, entity.id)));
+    if (removed > 0) {
+      debug("GraphQL response cache entities invalidated", { responses: removed });
     }
   }
-}
 
-/**
- * Create a global SQLite-based GraphQL cache instance
- */
-export const sqliteGraphQLCache = new SQLiteGraphQLCache();
+  /**
+   * Evict every response tagged with any of the tags. Returns how many were removed.
+   */
+  invalidateTags(tags: readonly string[]): number {
+    const removed = this.invalidateIndexed(tags.map((tag) => TAG_PREFIX + tag));
+    log("GraphQL response cache tag invalidation", { tags, removed });
+    return removed;
+  }
 
-/**
- * Build cache key for GraphQL operations
- * This avoids WeakMap issues by using string-only keys
- */
-export function buildGraphQLCacheKey(cacheKeyData: {
-  operationName?: string | null;
-  source: string;
-  variableValues?: Record<string, any> | null;
-}): string {
-  try {
-    const { operationName, source, variableValues } = cacheKeyData;
-
-    // Create a deterministic string key
-    const parts = [
-      operationName || "anonymous",
-      // Use first 200 chars of source for performance
-      source.substring(0, 200),
-      // Sort variables to ensure consistent key generation
-      variableValues ? JSON.stringify(sortObject(variableValues)) : "null",
-    ];
-
-    const key = parts.join("|");
-
-    debug("Generated GraphQL cache key", {
-      operationName,
-      sourceLength: source.length,
-      hasVariables: !!variableValues,
-      keyLength: key.length,
+  private invalidateIndexed(indexed: string[]): number {
+    const responseIds = new Set<string>();
+    for (const entry of indexed) {
+      for (const row of this.responsesForEntityStmt.all(entry)) {
+        responseIds.add(row.response_id);
+      }
+    }
+    if (responseIds.size === 0) return 0;
+
+    this.deleteTx([...responseIds]);
+    this.stats.invalidations += responseIds.size;
+    return responseIds.size;
+  }
+
+  /**
+   * Live entries, optionally only those of one operation
+   */
+  list(operationName?: string, limit = 100): CachedResponseEntry[] {
+    const now = this.now();
+    const rows = (
+      operationName
+        ? this.db
+            .query<ResponseRow, [string, number, number]>(
+              "SELECT * FROM responses WHERE operation_name = ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY created_at DESC LIMIT ?"
+            )
+            .all(operationName, now, limit)
+        : this.db
+            .query<ResponseRow, [number, number]>(
+              "SELECT * FROM responses WHERE expires_at IS NULL OR expires_at > ? ORDER BY created_at DESC LIMIT ?"
+            )
+            .all(now, limit)
+    ) as ResponseRow[];
+
+    const entitiesStmt = this.db.query<{ entity: string }, [string]>(
+      "SELECT entity FROM response_entities WHERE response_id = ? ORDER BY entity"
+    );
+    return rows.map((row) => {
+      const indexed = entitiesStmt.all(row.id).map((entity) => entity.entity);
+      return {
+        id: row.id,
+        operationName: row.operation_name,
+        size: row.data.length,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+        entities: indexed.filter((entry) => !entry.startsWith(TAG_PREFIX)),
+        tags: indexed.filter((entry) => entry.startsWith(TAG_PREFIX)).map((entry) => entry.slice(TAG_PREFIX.length)),
+      };
     });
+  }
 
-    return key;
-  } catch (error) {
-    err("Error building GraphQL cache key:", error);
-    // Fallback to a simple key
-    return `fallback:${Date.now()}:${Math.random()}`;
+  /**
+   * Remove the entries of one operation, or every entry. Returns how many were removed.
+   */
+  purge(operationName?: string): number {
+    const ids = (
+      operationName
+        ? this.db
+            .query<{ id: string }, [string]>("SELECT id FROM responses WHERE operation_name = ?")
+            .all(operationName)
+        : this.db.query<{ id: string }, []>("SELECT id FROM responses").all()
+    ).map((row) => row.id);
+
+    this.deleteTx(ids);
+    log("GraphQL response cache purged", { operationName: operationName ?? "*", removed: ids.length });
+    return ids.length;
   }
-}
 
-/**
- * Get session ID for cache key generation
- * Returns null for now (global caching), but can be enhanced for user-specific caching
- */
-export function getSessionId(): string | null {
-  // For now, use global caching
-  // In the future, this could extract user ID from context/headers
-  return null;
+  getStats(): GraphQLResponseCacheStats {
+    const { entries } = this.db
+      .query<{ entries: number }, [number]>(
+        "SELECT COUNT(*) AS entries FROM responses WHERE expires_at IS NULL OR expires_at > ?"
+      )
+      .get(this.now()) ?? { entries: 0 };
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      backend: this.backend,
+      entries,
+      ...this.stats,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0,
+    };
+  }
+
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.db.close();
+  }
+
+  /**
+   * Drop expired responses, then the oldest ones beyond maxEntries
+   */
+  private prune(): void {
+    try {
+      const expired = this.db
+        .query<{ id: string }, [number]>("SELECT id FROM responses WHERE expires_at IS NOT NULL AND expires_at <= ?")
+        .all(this.now())
+        .map((row) => row.id);
+      const overflow = this.db
+        .query<{ id: string }, [number]>("SELECT id FROM responses ORDER BY created_at DESC LIMIT -1 OFFSET ?")
+        .all(this.maxEntries)
+        .map((row) => row.id);
+      const ids = [...new Set([...expired, ...overflow])];
+      if (ids.length > 0) {
+        this.deleteTx(ids);
+        debug("GraphQL response cache pruned", { removed: ids.length });
+      }
+    } catch (error) {
+      err("GraphQL response cache cleanup error:", error);
+    }
+  }
 }
 
 /**
- * Get operation-specific TTL
+ * Yoga cache key: the operation name, a hash of everything that makes the
+ * response distinct (document, variables, session), then the cache tags of
+ * the field arguments - responses don't always select the division or season
+ * they were filtered by
  */
-export function getOperationTTL(operationName: string): number {
-  // TTL in seconds (GraphQL Yoga expects seconds, not milliseconds)
-  const ttlSeconds = {
-    looks: 300, // 5 minutes
-    optionsSummary: 180, // 3 minutes
-    imageDetails: 600, // 10 minutes
-    searchDocuments: 120, // 2 minutes
-    assignments: 300, // 5 minutes
-  };
-
-  return ttlSeconds[operationName as keyof typeof ttlSeconds] || 300; // 5 minutes default
-}
+export const buildGraphQLCacheKey: BuildResponseCacheKeyFunction = async ({
+  documentString,
+  operationName,
+  variableValues,
+  sessionId,
+}) => {
+  const name = operationName || documentString.match(OPERATION_NAME_PATTERN)?.[1] || ANONYMOUS_OPERATION;
+  const hash = await hashSHA256(
+    [documentString, operationName ?? "", JSON.stringify(sortObject(variableValues ?? {})), sessionId ?? ""].join(
+      KEY_SEPARATOR
+    )
+  );
+  const tags = collectArgumentCacheTags(documentString, variableValues ?? {}, operationName, 20);
+  return [name, hash, ...(tags.length > 0 ? [tags.join(",")] : [])].join(KEY_SEPARATOR);
+};
 
 /**
  * Determine if operation should be cached
@@ -191,12 +419,3 @@ function sortObject(obj: any): any {
 
   return sorted;
 }
-
-/**
- * Type definition for Cache interface (since it might not be available)
- */
-interface Cache {
-  get(key: string): Promise<any>;
-  set(key: string, value: any, ttl?: number): Promise<void>;
-  delete?(key: string): Promise<boolean>;
-}
@@ -0,0 +1,201 @@
+/* src/lib/lookRepository.ts */
+
+/**
+ * Look document writes with optimistic concurrency.
+ *
+ * Every write takes the version (CAS) the caller last read; a document that
+ * changed since then is rejected with a ConflictError instead of being
+ * overwritten, so editors never silently lose each other's changes.
+ */
+
+import type { Collection, TransactionAttemptContext } from "couchbase";
+import {
+  CasMismatchError,
+  CouchbaseRepository,
+  CouchbaseTransactionHandler,
+  connectionManager,
+  DocumentNotFoundError as KeyNotFoundError,
+  KVOperations,
+  type TransactionOperationContext,
+} from "$lib/couchbase";
+import { ConflictError, DocumentNotFoundError, isAppError } from "$models/errors";
+import { warn } from "../telemetry/logger";
+
+/**
+ * Where look documents live (same scope as the look eventing functions)
+ */
+export const LOOKS_KEYSPACE = {
+  bucket: "default",
+  scope: "media_assets",
+  collection: "looks",
+} as const;
+
+export interface LookDocument extends Record<string, unknown> {
+  documentKey: string;
+  divisionCode: string;
+  title?: string;
+  trend?: string;
+  tag?: string;
+  relatedStyles?: string[];
+  position?: number;
+  isDeleted?: boolean;
+  modifiedOn?: string;
+  documentUpdatedBy?: string;
+}
+
+/**
+ * A look together with the version (CAS) to send back on the next write
+ */
+export interface VersionedLook {
+  look: LookDocument;
+  version: string;
+}
+
+/**
+ * Fields editors may change through updateLook
+ */
+export type LookUpdate = Partial<Pick<LookDocument, "title" | "trend" | "tag" | "relatedStyles" | "position">>;
+
+export interface LookMove {
+  documentKey: string;
+  expectedVersion: string;
+  position: number;
+}
+
+export type TransactionRunner = <T>(
+  logic: (ctx: TransactionAttemptContext) => Promise<T>,
+  context: TransactionOperationContext
+) => Promise<T>;
+
+/**
+ * Find an application error thrown inside a transaction; the SDK wraps it
+ * (TransactionFailedError.cause) when the attempt is rolled back.
+ */
+function findAppError(error: unknown): Error | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (isAppError(current)) return current;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+export class LookRepository extends CouchbaseRepository<LookDocument> {
+  constructor(
+    collection: Collection,
+    private readonly runTransaction: TransactionRunner = (logic, context) =>
+      CouchbaseTransactionHandler.executeTransaction(logic, context)
+  ) {
+    super(collection, "look");
+  }
+
+  /**
+   * Read a look with its current version; null when it doesn't exist
+   */
+  async findVersioned(documentKey: string): Promise<VersionedLook | null> {
+    const result = await KVOperations.get<LookDocument>(this.collection, documentKey);
+    if (!result) return null;
+    return { look: { ...result.value, documentKey }, version: result.cas.toString() };
+  }
+
+  /**
+   * Current version only, without transferring the document body
+   */
+  async getVersion(documentKey: string): Promise<string | null> {
+    const result = await KVOperations.get(this.collection, documentKey, { project: ["divisionCode"] });
+    return result ? result.cas.toString() : null;
+  }
+
+  /**
+   * Apply field updates if the look is still at expectedVersion.
+   * Looks outside divisionCode are reported as not found.
+   *
+   * @throws ConflictError when the stored version differs from expectedVersion
+   * @throws DocumentNotFoundError when the look doesn't exist in the division
+   */
+  async updateVersioned(
+    documentKey: string,
+    divisionCode: string,
+    expectedVersion: string,
+    updates: Record<string, unknown>
+  ): Promise<VersionedLook> {
+    const current = await this.findVersioned(documentKey);
+    if (!current || current.look.divisionCode !== divisionCode) {
+      throw new DocumentNotFoundError(documentKey, LOOKS_KEYSPACE.collection);
+    }
+    // Fail fast; the CAS on the write below still guards the race after this read
+    if (current.version !== expectedVersion) {
+      throw new ConflictError(documentKey, expectedVersion, current.version);
+    }
+
+    const operations = Object.entries(updates).map(([path, value]) => ({ type: "upsert" as const, path, value }));
+
+    try {
+      const result = await KVOperations.mutateIn(this.collection, documentKey, operations, { cas: expectedVersion });
+      return { look: { ...current.look, ...updates } as LookDocument, version: result.cas.toString() };
+    } catch (error) {
+      if (error instanceof CasMismatchError) {
+        const latest = await this.getVersion(documentKey).catch(() => null);
+        throw new ConflictError(documentKey, expectedVersion, latest ?? undefined, error);
+      }
+      if (error instanceof KeyNotFoundError) {
+        throw new DocumentNotFoundError(documentKey, LOOKS_KEYSPACE.collection, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Set the position of several looks in one transaction: either every look
+   * moves or, if any is stale or missing, none do.
+   */
+  async reorder(divisionCode: string, moves: readonly LookMove[], requestId?: string): Promise<VersionedLook[]> {
+    const context = CouchbaseTransactionHandler.createTransactionContext(
+      "reorder_looks",
+      requestId,
+      LOOKS_KEYSPACE.bucket,
+      LOOKS_KEYSPACE.scope,
+      LOOKS_KEYSPACE.collection
+    );
+
+    try {
+      await this.runTransaction(async (ctx) => {
+        for (const move of moves) {
+          const doc = await CouchbaseTransactionHandler.safeGet(ctx, this.collection, move.documentKey, context);
+          if (!doc || doc.content?.divisionCode !== divisionCode) {
+            throw new DocumentNotFoundError(move.documentKey, LOOKS_KEYSPACE.collection);
+          }
+          if (doc.cas.toString() !== move.expectedVersion) {
+            throw new ConflictError(move.documentKey, move.expectedVersion, doc.cas.toString());
+          }
+          await CouchbaseTransactionHandler.safeReplace(ctx, doc, { ...doc.content, position: move.position }, context);
+        }
+      }, context);
+    } catch (error) {
+      const appError = findAppError(error);
+      if (appError) {
+        warn("Look reorder rolled back", { requestId, reason: appError.message });
+        throw appError;
+      }
+      throw error;
+    }
+
+    // Versions change on commit, so read them back for the caller's next write
+    const looks = await Promise.all(moves.map((move) => this.findVersioned(move.documentKey)));
+    return looks.filter((look): look is VersionedLook => look !== null);
+  }
+}
+
+let repository: LookRepository | undefined;
+
+/**
+ * Shared repository on the looks collection, created once Couchbase is connected
+ */
+export function getLookRepository(): LookRepository {
+  if (!repository) {
+    repository = new LookRepository(
+      connectionManager.getCollection(LOOKS_KEYSPACE.bucket, LOOKS_KEYSPACE.scope, LOOKS_KEYSPACE.collection)
+    );
+  }
+  return repository;
+}
@@ -0,0 +1,226 @@
+/* src/lib/persistedQueries.ts - Automatic persisted queries and trusted document allowlist */
+
+import { GraphQLError } from "graphql";
+import type { Plugin } from "graphql-yoga";
+import { debug, err, log, warn } from "../telemetry/logger";
+import { type BunSQLiteCache, bunSQLiteCache, SQLiteCacheKeys } from "./bunSQLiteCache";
+import { createPersistedQueryId } from "./queryFingerprint";
+
+export type PersistedQueryMode = "disabled" | "apq" | "allowlist";
+
+/**
+ * One trusted operation in the manifest
+ */
+export interface PersistedQueryManifestOperation {
+  id: string;
+  name: string;
+  type: "query" | "mutation" | "subscription";
+  body: string;
+}
+
+/**
+ * Manifest written by scripts/generate-persisted-queries.ts
+ * (same shape as Apollo's persisted query manifest)
+ */
+export interface PersistedQueryManifest {
+  format: "apollo-persisted-query-manifest";
+  version: 1;
+  operations: PersistedQueryManifestOperation[];
+}
+
+export interface PersistedQueryOptions {
+  mode: PersistedQueryMode;
+  /** Trusted operations by id; required for allowlist mode, optional pre-seed for apq */
+  manifest?: ReadonlyMap<string, string>;
+  /** How long registered APQ queries stay in the cache (ms) */
+  ttlMs: number;
+  cache?: BunSQLiteCache;
+}
+
+interface PersistedQueryExtension {
+  version?: number;
+  sha256Hash?: string;
+}
+
+/**
+ * Request parameters the store reads and rewrites
+ */
+export interface PersistedQueryParams {
+  query?: string;
+  extensions?: Record<string, unknown>;
+}
+
+function persistedQueryError(message: string, code: string, status: number): GraphQLError {
+  return new GraphQLError(message, { extensions: { code, http: { status } } });
+}
+
+/**
+ * True for the protocol errors raised here; they must reach clients unmasked
+ * because APQ clients match on the code/message to resend the full query.
+ */
+export function isPersistedQueryError(error: unknown): boolean {
+  return error instanceof GraphQLError && String(error.extensions?.code ?? "").startsWith("PERSISTED_QUERY_");
+}
+
+/**
+ * Parse and verify a manifest document. Every id must be the hash of its body,
+ * so a hand-edited manifest cannot map a trusted id to a different query.
+ */
+export function parsePersistedQueryManifest(manifest: PersistedQueryManifest): Map<string, string> {
+  if (manifest?.format !== "apollo-persisted-query-manifest" || !Array.isArray(manifest.operations)) {
+    throw new Error("Not a persisted query manifest");
+  }
+
+  const operations = new Map<string, string>();
+  for (const operation of manifest.operations) {
+    if (createPersistedQueryId(operation.body) !== operation.id) {
+      throw new Error(`Manifest id does not match body for operation ${operation.name}`);
+    }
+    operations.set(operation.id, operation.body);
+  }
+  return operations;
+}
+
+/**
+ * Load a manifest file from disk
+ */
+export async function loadPersistedQueryManifest(path: string): Promise<Map<string, string>> {
+  const operations = parsePersistedQueryManifest(await Bun.file(path).json());
+  log("Persisted query manifest loaded", { path, operations: operations.size });
+  return operations;
+}
+
+/**
+ * Resolves the query text for a request under the configured mode.
+ *
+ * - apq: a hash-only request is served from the manifest or SQLite cache, or
+ *   answered with PersistedQueryNotFound so the client retries with the text;
+ *   a request with text and hash registers it after checking the hash.
+ * - allowlist: only operations in the manifest run, whether sent by hash or text.
+ */
+export class PersistedQueryStore {
+  private cache: BunSQLiteCache;
+
+  constructor(private options: PersistedQueryOptions) {
+    if (options.mode === "allowlist" && !options.manifest) {
+      throw new Error("Allowlist mode requires a persisted query manifest");
+    }
+    this.cache = options.cache ?? bunSQLiteCache;
+  }
+
+  get mode(): PersistedQueryMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Return the query text to execute, or throw a GraphQLError the client understands
+   */
+  async resolve(params: PersistedQueryParams): Promise<string | undefined> {
+    if (this.options.mode === "disabled") return params.query;
+
+    const extension = params.extensions?.persistedQuery as PersistedQueryExtension | undefined;
+    const hash = extension?.sha256Hash;
+
+    if (extension && (extension.version !== 1 || typeof hash !== "string")) {
+      throw persistedQueryError("Unsupported persisted query version", "PERSISTED_QUERY_NOT_SUPPORTED", 400);
+    }
+
+    if (this.options.mode === "allowlist") {
+      return this.resolveAllowlisted(params.query, hash);
+    }
+
+    if (!hash) return params.query;
+
+    if (params.query) {
+      if (createPersistedQueryId(params.query) !== hash) {
+        throw persistedQueryError("provided sha does not match query", "PERSISTED_QUERY_HASH_MISMATCH", 400);
+      }
+      await this.cache.set(SQLiteCacheKeys.persistedQuery(hash), params.query, this.options.ttlMs);
+      debug("Persisted query registered", { sha256Hash: hash });
+      return params.query;
+    }
+
+    const stored =
+      this.options.manifest?.get(hash) ?? (await this.cache.get<string>(SQLiteCacheKeys.persistedQuery(hash)));
+    if (!stored) {
+      // Message is part of the APQ protocol - clients match on it to resend the text
+      throw persistedQueryError("PersistedQueryNotFound", "PERSISTED_QUERY_NOT_FOUND", 200);
+    }
+    return stored;
+  }
+
+  private resolveAllowlisted(query: string | undefined, hash: string | undefined): string {
+    const manifest = this.options.manifest!;
+    const id = hash ?? (query ? createPersistedQueryId(query) : undefined);
+    const trusted = id ? manifest.get(id) : undefined;
+
+    if (!trusted || (query && hash && createPersistedQueryId(query) !== hash)) {
+      warn("Rejected operation outside the persisted query allowlist", { sha256Hash: id });
+      throw persistedQueryError(
+        "Operation is not in the persisted query allowlist",
+        "PERSISTED_QUERY_NOT_ALLOWED",
+        403
+      );
+    }
+    return trusted;
+  }
+}
+
+/**
+ * Build a store from config values, loading the manifest when one is configured.
+ * A broken manifest is fatal in allowlist mode and only skipped in apq mode.
+ */
+export async function createPersistedQueryStore(options: {
+  mode: PersistedQueryMode;
+  manifestPath?: string;
+  ttlMs: number;
+}): Promise<PersistedQueryStore> {
+  let manifest: Map<string, string> | undefined;
+  if (options.manifestPath && options.mode !== "disabled") {
+    try {
+      manifest = await loadPersistedQueryManifest(options.manifestPath);
+    } catch (error) {
+      if (options.mode === "allowlist") throw error;
+      warn("Persisted query manifest could not be loaded, continuing with APQ only", {
+        path: options.manifestPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  log("Persisted queries configured", { mode: options.mode, trustedOperations: manifest?.size ?? 0 });
+  return new PersistedQueryStore({ mode: options.mode, manifest, ttlMs: options.ttlMs });
+}
+
+/**
+ * Resolve a request's query text through the store. Shared by the Yoga plugin
+ * and the WebSocket transport, so both enforce the same mode.
+ */
+export async function resolvePersistedQuery(
+  getStore: () => Promise<PersistedQueryStore>,
+  params: PersistedQueryParams
+): Promise<string | undefined> {
+  let store: PersistedQueryStore;
+  try {
+    store = await getStore();
+  } catch (error) {
+    err("Persisted query store unavailable", error);
+    throw persistedQueryError("Persisted queries are unavailable", "PERSISTED_QUERY_UNAVAILABLE", 503);
+  }
+  return store.resolve(params);
+}
+
+/**
+ * Yoga plugin that swaps hash-only requests for their query text.
+ * Must be registered before the response cache, which keys on the query text.
+ */
+export function usePersistedQueries(getStore: () => Promise<PersistedQueryStore>): Plugin {
+  return {
+    async onParams({ params, setParams }) {
+      const query = await resolvePersistedQuery(getStore, params);
+      if (query !== params.query) {
+        setParams({ ...params, query });
+      }
+    },
+  };
+}
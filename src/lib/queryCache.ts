@@ -11,8 +11,14 @@ interface CacheEntry<T> {
   ttl: number;
   hits: number;
   size: number; // Approximate size in bytes for memory management
+  tags?: string[];
 }
 
+/**
+ * How a bounded cache picks entries to evict (see BunSQLiteCacheConfig.evictionPolicy)
+ */
+export type CacheEvictionPolicy = "lru" | "lfu" | "greedy-dual" | "tinylfu";
+
 /**
  * Cache statistics for monitoring
  */
@@ -22,8 +28,15 @@ export interface CacheStats {
   misses: number;
   evictions: number;
   memoryUsage: number; // Approximate bytes
+  // Evictions by the policy that chose them; "expired" entries were removed on memory pressure
+  evictionsByPolicy?: Partial<Record<CacheEvictionPolicy | "expired", number>>;
 }
 
+/**
+ * Cache tags for an entry, fixed up front or derived from the fetched data
+ */
+export type CacheTagSource<T> = string[] | ((data: T) => string[]);
+
 /**
  * Cache configuration options
  */
@@ -40,6 +53,7 @@ export interface CacheConfig {
 export class QueryCache {
   private cache = new Map<string, CacheEntry<any>>();
   private accessOrder = new Map<string, number>(); // For LRU tracking
+  private keysByTag = new Map<string, Set<string>>();
   private stats: CacheStats = {
     size: 0,
     hits: 0,
@@ -69,7 +83,12 @@ export class QueryCache {
   /**
    * Get cached data or execute fetcher function
    */
-  async getOrSet<T>(key: string, fetcher: () => Promise<T>, ttl: number = this.config.defaultTtl): Promise<T> {
+  async getOrSet<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    ttl: number = this.config.defaultTtl,
+    tags?: CacheTagSource<T>
+  ): Promise<T> {
     // Check if key exists and is not expired
     const cached = this.cache.get(key);
     const now = Date.now();
@@ -97,7 +116,7 @@ export class QueryCache {
       const data = await fetcher();
 
       // Store in cache
-      this.set(key, data, ttl);
+      this.set(key, data, ttl, typeof tags === "function" ? tags(data) : tags);
 
       return data;
     } catch (error) {
@@ -109,10 +128,13 @@ export class QueryCache {
   /**
    * Set data in cache
    */
-  set<T>(key: string, data: T, ttl: number = this.config.defaultTtl): void {
+  set<T>(key: string, data: T, ttl: number = this.config.defaultTtl, tags?: string[]): void {
     const size = this.estimateSize(data);
     const now = Date.now();
 
+    // Replace rather than double-count an existing entry
+    this.remove(key);
+
     // Check if we need to make space
     this.ensureCapacity(size);
 
@@ -122,10 +144,19 @@ export class QueryCache {
       ttl,
       hits: 0,
       size,
+      tags,
     };
 
     this.cache.set(key, entry);
     this.updateAccessOrder(key);
+    for (const tag of tags ?? []) {
+      let keys = this.keysByTag.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.keysByTag.set(tag, keys);
+      }
+      keys.add(key);
+    }
 
     this.stats.size = this.cache.size;
     this.stats.memoryUsage += size;
@@ -180,6 +211,11 @@ export class QueryCache {
     if (entry) {
       this.cache.delete(key);
       this.accessOrder.delete(key);
+      for (const tag of entry.tags ?? []) {
+        const keys = this.keysByTag.get(tag);
+        keys?.delete(key);
+        if (keys?.size === 0) this.keysByTag.delete(tag);
+      }
       this.stats.size = this.cache.size;
       this.stats.memoryUsage -= entry.size;
 
@@ -196,6 +232,7 @@ export class QueryCache {
     const oldSize = this.cache.size;
     this.cache.clear();
     this.accessOrder.clear();
+    this.keysByTag.clear();
     this.stats = {
       size: 0,
       hits: this.stats.hits,
@@ -231,6 +268,19 @@ export class QueryCache {
     return count;
   }
 
+  /**
+   * Invalidate every entry written with any of the tags
+   */
+  invalidateTags(tags: readonly string[]): number {
+    const keys = new Set(tags.flatMap((tag) => [...(this.keysByTag.get(tag) ?? [])]));
+    for (const key of keys) {
+      this.remove(key);
+    }
+
+    log("Cache tag invalidation", { tags, count: keys.size });
+    return keys.size;
+  }
+
   /**
    * Create a cache key from query parameters
    */
@@ -360,8 +410,13 @@ export const defaultQueryCache = new QueryCache();
 /**
  * Helper function to cache database operations
  */
-export async function withCache<T>(key: string, fetcher: () => Promise<T>, ttl?: number): Promise<T> {
-  return defaultQueryCache.getOrSet(key, fetcher, ttl);
+export async function withCache<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttl?: number,
+  tags?: CacheTagSource<T>
+): Promise<T> {
+  return defaultQueryCache.getOrSet(key, fetcher, ttl, tags);
 }
 
 /**
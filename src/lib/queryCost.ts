@@ -0,0 +1,440 @@
+/* src/lib/queryCost.ts - Static query cost analysis and per-client cost budgets */
+
+import {
+  type DocumentNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  GraphQLError,
+  type GraphQLField,
+  GraphQLIncludeDirective,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  GraphQLSkipDirective,
+  getArgumentValues,
+  getDirectiveValues,
+  getNamedType,
+  getOperationAST,
+  getVariableValues,
+  isCompositeType,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  type SelectionSetNode,
+} from "graphql";
+import type { Plugin } from "graphql-yoga";
+import { debug, warn } from "../telemetry/logger";
+
+/**
+ * Cost settings for a single field
+ */
+export interface FieldCost {
+  value: number;
+  multipliers: readonly string[];
+}
+
+export interface QueryCostOptions {
+  /** Overrides keyed by schema coordinate, e.g. "Query.searchDocuments" */
+  fieldCosts?: Readonly<Record<string, number>>;
+  /** Arguments that scale a field when it has no @cost multipliers of its own */
+  defaultMultipliers?: readonly string[];
+  /** Cost of object/list fields without @cost or override */
+  defaultObjectCost?: number;
+  /** Cost of scalar/enum fields without @cost or override */
+  defaultScalarCost?: number;
+}
+
+/**
+ * Parse "Type.field=cost" entries from config into a coordinate map
+ */
+export function parseFieldCosts(entries: readonly string[]): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const entry of entries) {
+    const [coordinate, rawCost] = entry.split("=").map((part) => part.trim());
+    const cost = Number(rawCost);
+    if (!coordinate?.includes(".") || !Number.isFinite(cost) || cost < 0) {
+      warn("Ignoring invalid query cost override", { entry });
+      continue;
+    }
+    costs[coordinate] = cost;
+  }
+  return costs;
+}
+
+/**
+ * Computes the static cost of an operation before it runs.
+ *
+ * Each field costs its @cost value (or the configured override/default) plus the
+ * cost of its selections, all multiplied by its multiplier arguments - so
+ * searchDocuments(keys: 200 items, collections: 5 items) costs 1000x its base.
+ */
+export class QueryCostCalculator {
+  private directiveCosts = new Map<string, FieldCost>();
+
+  constructor(
+    private schema: GraphQLSchema,
+    private options: QueryCostOptions = {}
+  ) {
+    const directive = schema.getDirective("cost");
+    if (!directive) return;
+
+    for (const type of Object.values(schema.getTypeMap())) {
+      if (!isObjectType(type) || type.name.startsWith("__")) continue;
+      for (const field of Object.values(type.getFields())) {
+        const values = field.astNode ? getDirectiveValues(directive, field.astNode) : undefined;
+        if (values) {
+          this.directiveCosts.set(`${type.name}.${field.name}`, {
+            value: values.value as number,
+            multipliers: (values.multipliers as string[] | undefined) ?? [],
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Cost of the selected operation; 0 when the operation cannot be identified
+   * (validation reports that separately).
+   */
+  calculate(document: DocumentNode, operationName?: string | null, variables?: Record<string, unknown> | null): number {
+    const operation = getOperationAST(document, operationName ?? undefined);
+    if (!operation) return 0;
+
+    const rootType = this.schema.getRootType(operation.operation);
+    if (!rootType) return 0;
+
+    const coerced = getVariableValues(this.schema, operation.variableDefinitions ?? [], variables ?? {});
+    const variableValues = coerced.coerced ?? {};
+
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments.set(definition.name.value, definition);
+      }
+    }
+
+    return this.selectionSetCost(operation.selectionSet, rootType, fragments, variableValues, new Set());
+  }
+
+  private selectionSetCost(
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLNamedType,
+    fragments: Map<string, FragmentDefinitionNode>,
+    variables: Record<string, unknown>,
+    visitedFragments: Set<string>
+  ): number {
+    let total = 0;
+
+    for (const selection of selectionSet.selections) {
+      if (!this.isIncluded(selection, variables)) continue;
+
+      switch (selection.kind) {
+        case Kind.FIELD:
+          total += this.fieldCost(selection, parentType, fragments, variables, visitedFragments);
+          break;
+        case Kind.INLINE_FRAGMENT: {
+          const typeName = selection.typeCondition?.name.value;
+          const fragmentType = typeName ? this.schema.getType(typeName) : parentType;
+          if (fragmentType) {
+            total += this.selectionSetCost(
+              selection.selectionSet,
+              fragmentType,
+              fragments,
+              variables,
+              visitedFragments
+            );
+          }
+          break;
+        }
+        case Kind.FRAGMENT_SPREAD: {
+          const name = selection.name.value;
+          const fragment = fragments.get(name);
+          // Cycles are a validation error; don't recurse forever before validation reports it
+          if (!fragment || visitedFragments.has(name)) break;
+          const fragmentType = this.schema.getType(fragment.typeCondition.name.value);
+          if (fragmentType) {
+            total += this.selectionSetCost(
+              fragment.selectionSet,
+              fragmentType,
+              fragments,
+              variables,
+              new Set([...visitedFragments, name])
+            );
+          }
+          break;
+        }
+      }
+    }
+
+    return total;
+  }
+
+  private fieldCost(
+    node: FieldNode,
+    parentType: GraphQLNamedType,
+    fragments: Map<string, FragmentDefinitionNode>,
+    variables: Record<string, unknown>,
+    visitedFragments: Set<string>
+  ): number {
+    const field = this.getField(parentType, node.name.value);
+    if (!field) return 0;
+
+    const coordinate = `${parentType.name}.${field.name}`;
+    const directiveCost = this.directiveCosts.get(coordinate);
+    const namedType = getNamedType(field.type);
+    const composite = isCompositeType(namedType);
+
+    const baseCost =
+      this.options.fieldCosts?.[coordinate] ??
+      directiveCost?.value ??
+      (composite ? (this.options.defaultObjectCost ?? 1) : (this.options.defaultScalarCost ?? 0));
+
+    const childCost = node.selectionSet
+      ? this.selectionSetCost(node.selectionSet, namedType, fragments, variables, visitedFragments)
+      : 0;
+
+    const multiplierNames = directiveCost?.multipliers.length
+      ? directiveCost.multipliers
+      : (this.options.defaultMultipliers ?? []);
+
+    return (baseCost + childCost) * this.multiplier(field, node, variables, multiplierNames);
+  }
+
+  private multiplier(
+    field: GraphQLField<unknown, unknown>,
+    node: FieldNode,
+    variables: Record<string, unknown>,
+    names: readonly string[]
+  ): number {
+    if (names.length === 0 || field.args.length === 0) return 1;
+
+    let args: Record<string, unknown>;
+    try {
+      args = getArgumentValues(field, node, variables);
+    } catch {
+      // Invalid arguments fail validation; cost the field unscaled
+      return 1;
+    }
+
+    let multiplier = 1;
+    for (const name of names) {
+      const value = args[name];
+      if (Array.isArray(value)) {
+        multiplier *= Math.max(value.length, 1);
+      } else if (typeof value === "number" && value > 0) {
+        multiplier *= value;
+      }
+    }
+    return multiplier;
+  }
+
+  private getField(parentType: GraphQLNamedType, name: string): GraphQLField<unknown, unknown> | undefined {
+    // Unions only expose __typename, which is free
+    return isObjectType(parentType) || isInterfaceType(parentType) ? parentType.getFields()[name] : undefined;
+  }
+
+  private isIncluded(selection: { directives?: readonly unknown[] }, variables: Record<string, unknown>): boolean {
+    const node = selection as FieldNode;
+    if (!node.directives?.length) return true;
+
+    const skip = getDirectiveValues(GraphQLSkipDirective, node, variables);
+    if (skip?.if === true) return false;
+
+    const include = getDirectiveValues(GraphQLIncludeDirective, node, variables);
+    return include?.if !== false;
+  }
+}
+
+/**
+ * Result of charging a client's budget
+ */
+export interface BudgetCharge {
+  allowed: boolean;
+  /** Budget left after this charge (or before, when rejected) */
+  remaining: number;
+  /** Seconds until enough budget has refilled for this cost */
+  retryAfterSeconds: number;
+}
+
+interface BudgetBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Per-client cost budget that refills continuously (token bucket).
+ * Idle clients are pruned once the map grows past maxClients.
+ */
+export class CostBudget {
+  private buckets = new Map<string, BudgetBucket>();
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    private maxClients = 10000
+  ) {}
+
+  charge(clientKey: string, cost: number, now = Date.now()): BudgetCharge {
+    const bucket = this.refill(clientKey, now);
+
+    if (cost > bucket.tokens) {
+      const deficit = cost - bucket.tokens;
+      return {
+        allowed: false,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterSeconds: this.refillPerSecond > 0 ? Math.ceil(deficit / this.refillPerSecond) : Infinity,
+      };
+    }
+
+    bucket.tokens -= cost;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+  }
+
+  get capacityLimit(): number {
+    return this.capacity;
+  }
+
+  private refill(clientKey: string, now: number): BudgetBucket {
+    let bucket = this.buckets.get(clientKey);
+    if (!bucket) {
+      if (this.buckets.size >= this.maxClients) this.prune(now);
+      bucket = { tokens: this.capacity, updatedAt: now };
+      this.buckets.set(clientKey, bucket);
+      return bucket;
+    }
+
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + elapsedSeconds * this.refillPerSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    // A bucket that would be full again carries no state worth keeping
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.refillPerSecond >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export const QUERY_COST_EXCEEDED = "QUERY_COST_EXCEEDED";
+export const QUERY_BUDGET_EXHAUSTED = "QUERY_BUDGET_EXHAUSTED";
+
+/**
+ * True for cost rejections; they are structured client errors and must not be masked
+ */
+export function isQueryCostError(error: unknown): boolean {
+  const code = error instanceof GraphQLError ? error.extensions?.code : undefined;
+  return code === QUERY_COST_EXCEEDED || code === QUERY_BUDGET_EXHAUSTED;
+}
+
+export interface QueryCostPluginOptions {
+  calculator: QueryCostCalculator;
+  budget: CostBudget;
+  /** Largest cost a single operation may have, regardless of budget */
+  maxCost: number;
+  /** Budget key for the request; defaults to user id, then client IP */
+  getClientKey?: (context: { user?: { id: string }; clientIp?: string }) => string;
+}
+
+export interface QueryCostCharge {
+  cost: number;
+  remaining: number;
+}
+
+/**
+ * Cost an operation and charge it to the caller's budget.
+ * Throws a QUERY_COST_EXCEEDED / QUERY_BUDGET_EXHAUSTED GraphQLError when it may not run.
+ * Shared by the Yoga plugin and the WebSocket transport, so both draw on one budget.
+ */
+export function chargeQueryCost(
+  options: QueryCostPluginOptions,
+  document: DocumentNode,
+  operationName: string | null | undefined,
+  variables: Record<string, unknown> | null | undefined,
+  context: { user?: { id: string }; clientIp?: string }
+): QueryCostCharge {
+  const cost = options.calculator.calculate(document, operationName, variables);
+  const clientKey = (options.getClientKey ?? defaultClientKey)(context);
+
+  if (cost > options.maxCost) {
+    debug("Query rejected: cost exceeds maximum", {
+      cost,
+      maxCost: options.maxCost,
+      operation: operationName,
+    });
+    throw new GraphQLError(`Query cost ${cost} exceeds the maximum of ${options.maxCost}`, {
+      extensions: {
+        code: QUERY_COST_EXCEEDED,
+        cost: { requested: cost, maximum: options.maxCost },
+        http: { status: 400 },
+      },
+    });
+  }
+
+  const charge = options.budget.charge(clientKey, cost);
+  if (!charge.allowed) {
+    debug("Query rejected: cost budget exhausted", { cost, remaining: charge.remaining, clientKey });
+    throw new GraphQLError(`Query cost budget exhausted - retry in ${charge.retryAfterSeconds}s`, {
+      extensions: {
+        code: QUERY_BUDGET_EXHAUSTED,
+        cost: {
+          requested: cost,
+          remaining: charge.remaining,
+          budget: options.budget.capacityLimit,
+          retryAfterSeconds: charge.retryAfterSeconds,
+        },
+        http: { status: 429, headers: { "Retry-After": String(charge.retryAfterSeconds) } },
+      },
+    });
+  }
+
+  return { cost, remaining: charge.remaining };
+}
+
+function defaultClientKey(context: { user?: { id: string }; clientIp?: string }): string {
+  return context.user ? `user:${context.user.id}` : `ip:${context.clientIp ?? "unknown"}`;
+}
+
+/**
+ * Yoga plugin: rejects operations over maxCost or the client's remaining budget
+ * and reports the computed cost in result extensions.
+ * Register after the response cache so cache hits are free and cached results
+ * don't carry a stale cost.
+ */
+export function useQueryCost(options: QueryCostPluginOptions): Plugin {
+  return {
+    onExecute({ args, setResultAndStopExecution }) {
+      let charge: QueryCostCharge;
+      try {
+        charge = chargeQueryCost(
+          options,
+          args.document,
+          args.operationName,
+          args.variableValues,
+          args.contextValue as { user?: { id: string }; clientIp?: string }
+        );
+      } catch (error) {
+        if (!isQueryCostError(error)) throw error;
+        setResultAndStopExecution({ errors: [error as GraphQLError] });
+        return;
+      }
+
+      return {
+        onExecuteDone({ result, setResult }) {
+          // Streamed (incremental) results are passed through untouched
+          if (Symbol.asyncIterator in (result as object)) return;
+          const executionResult = result as { extensions?: Record<string, unknown> };
+          setResult({
+            ...executionResult,
+            extensions: {
+              ...executionResult.extensions,
+              cost: { requested: charge.cost, remaining: charge.remaining, budget: options.budget.capacityLimit },
+            },
+          } as typeof result);
+        },
+      };
+    },
+  };
+}
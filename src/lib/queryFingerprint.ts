@@ -74,12 +74,12 @@ export function createSubscriptionFingerprint(topic: string, filters: Record<str
 }
 
 /**
- * Create a fingerprint for persisted queries
+ * Create the id for a persisted query: SHA-256 hex of the exact query text,
+ * matching extensions.persistedQuery.sha256Hash in the APQ protocol.
+ * The text is not normalized - clients hash what they send.
  */
 export function createPersistedQueryId(query: string): string {
-  // Remove whitespace and normalize query for consistent hashing
-  const normalized = query.replace(/\s+/g, " ").trim();
-  return generateHashedKey(normalized);
+  return new Bun.CryptoHasher("sha256").update(query).digest("hex");
 }
 
 /**
@@ -0,0 +1,140 @@
+/* src/lib/rateLimit/algorithms.ts - Sliding-window and token-bucket rate limit algorithms */
+
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+/**
+ * A limit of `limit` requests per `windowMs`. For the token bucket, `limit`
+ * is the burst capacity and the bucket refills at limit/windowMs.
+ */
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Requests still allowed right now */
+  remaining: number;
+  /** Milliseconds until the limit fully resets (window end / bucket full) */
+  resetMs: number;
+  /** Milliseconds until a rejected request could succeed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Persisted algorithm state as three numbers, so every backend can store it
+ * the same way (memory tuple, SQLite columns, Redis hash fields):
+ * - sliding-window: [windowStart, count, previousCount]
+ * - token-bucket:   [tokens, updatedAt, 0]
+ */
+export type RateLimitState = [number, number, number];
+
+export interface RateLimitStep {
+  state: RateLimitState;
+  decision: RateLimitDecision;
+}
+
+/**
+ * Sliding window counter: the previous fixed window's count, weighted by how
+ * much of it still overlaps the sliding window, plus the current count.
+ * Smooths the burst a fixed window allows at its boundary with O(1) state.
+ */
+export function slidingWindow(rule: RateLimitRule, state: RateLimitState | undefined, now: number): RateLimitStep {
+  const { limit, windowMs } = rule;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previous = 0;
+  if (state?.[0] === windowStart) {
+    count = state[1];
+    previous = state[2];
+  } else if (state?.[0] === windowStart - windowMs) {
+    previous = state[1];
+  }
+
+  const elapsed = now - windowStart;
+  const estimated = previous * (1 - elapsed / windowMs) + count;
+  const resetMs = windowStart + windowMs - now;
+
+  if (estimated + 1 <= limit) {
+    return {
+      state: [windowStart, count + 1, previous],
+      decision: { allowed: true, limit, remaining: Math.floor(limit - estimated - 1), resetMs, retryAfterMs: 0 },
+    };
+  }
+
+  return {
+    state: [windowStart, count, previous],
+    decision: {
+      allowed: false,
+      limit,
+      remaining: 0,
+      resetMs,
+      retryAfterMs: slidingWindowRetryAfter(rule, elapsed, count, previous),
+    },
+  };
+}
+
+/**
+ * Time until the weighted count drops far enough to admit one more request
+ */
+function slidingWindowRetryAfter(rule: RateLimitRule, elapsed: number, count: number, previous: number): number {
+  const { limit, windowMs } = rule;
+
+  // Still room in this window once enough of the previous one slides out
+  if (count + 1 <= limit && previous > 0) {
+    const target = windowMs * (1 - (limit - count - 1) / previous);
+    return Math.max(1, Math.ceil(target - elapsed));
+  }
+
+  // Otherwise wait into the next window, where this window's count is the weighted one
+  const untilNextWindow = windowMs - elapsed;
+  const intoNextWindow = count > 0 ? Math.max(0, windowMs * (1 - (limit - 1) / count)) : 0;
+  return Math.max(1, Math.ceil(untilNextWindow + intoNextWindow));
+}
+
+/**
+ * Token bucket: `limit` tokens of burst, refilled continuously over windowMs
+ */
+export function tokenBucket(rule: RateLimitRule, state: RateLimitState | undefined, now: number): RateLimitStep {
+  const { limit, windowMs } = rule;
+  const ratePerMs = limit / windowMs;
+
+  let tokens = state ? Math.min(limit, state[0] + Math.max(0, now - state[1]) * ratePerMs) : limit;
+  let allowed = false;
+  let retryAfterMs = 0;
+
+  if (tokens >= 1) {
+    tokens -= 1;
+    allowed = true;
+  } else {
+    retryAfterMs = Math.ceil((1 - tokens) / ratePerMs);
+  }
+
+  return {
+    state: [tokens, now, 0],
+    decision: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / ratePerMs),
+      retryAfterMs,
+    },
+  };
+}
+
+/**
+ * Apply a rule to the stored state
+ */
+export function applyRateLimit(rule: RateLimitRule, state: RateLimitState | undefined, now: number): RateLimitStep {
+  return rule.algorithm === "token-bucket" ? tokenBucket(rule, state, now) : slidingWindow(rule, state, now);
+}
+
+/**
+ * How long state must be kept before it can no longer affect a decision
+ */
+export function stateTtlMs(rule: RateLimitRule): number {
+  return rule.windowMs * 2;
+}
@@ -0,0 +1,60 @@
+/* src/lib/rateLimit/bypassToken.ts - Signed rate limit bypass tokens */
+
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Header carrying a bypass token (load tests, trusted internal callers)
+ */
+export const RATE_LIMIT_BYPASS_HEADER = "x-ratelimit-bypass";
+
+function sign(payload: string, secret: string): string {
+  return new Bun.CryptoHasher("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Create a token of the form `<id>.<expiresAtSeconds>.<signature>`, where the
+ * signature is HMAC-SHA256 over `<id>.<expiresAtSeconds>`.
+ */
+export function signBypassToken(id: string, secret: string, expiresAt: Date): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new Error("Bypass token id may only contain letters, digits, '_' and '-'");
+  }
+  const payload = `${id}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Accepts tokens that are correctly signed, unexpired and whose id is on the
+ * allowlist - removing an id revokes every token issued for it.
+ */
+export class BypassTokenVerifier {
+  private allowedIds: ReadonlySet<string>;
+
+  constructor(
+    private secret: string,
+    allowedIds: readonly string[],
+    private now: () => number = Date.now
+  ) {
+    this.allowedIds = new Set(allowedIds);
+  }
+
+  /**
+   * Returns the token id when the token is valid, otherwise null
+   */
+  verify(token: string | null | undefined): string | null {
+    if (!token) return null;
+
+    const [id, expires, signature, ...rest] = token.split(".");
+    if (!id || !expires || !signature || rest.length > 0) return null;
+    if (!this.allowedIds.has(id)) return null;
+
+    const expected = Buffer.from(sign(`${id}.${expires}`, this.secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    const expiresAtMs = Number(expires) * 1000;
+    if (!Number.isFinite(expiresAtMs) || expiresAtMs <= this.now()) return null;
+
+    return id;
+  }
+}
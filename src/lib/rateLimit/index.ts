@@ -0,0 +1,74 @@
+/* src/lib/rateLimit/index.ts - Pluggable rate limiting */
+
+import type { RateLimitDecision, RateLimitRule } from "./algorithms";
+import { RespRateLimitStore } from "./respStore";
+import { SQLiteRateLimitStore } from "./sqliteStore";
+import { MemoryRateLimitStore, type RateLimitBackend, type RateLimitStore } from "./store";
+
+export type { RateLimitAlgorithm, RateLimitDecision, RateLimitRule } from "./algorithms";
+export { BypassTokenVerifier, RATE_LIMIT_BYPASS_HEADER, signBypassToken } from "./bypassToken";
+export { type RespClient, RespRateLimitStore } from "./respStore";
+export { SQLiteRateLimitStore } from "./sqliteStore";
+export { MemoryRateLimitStore, type RateLimitBackend, type RateLimitStore } from "./store";
+
+export interface RateLimitStoreOptions {
+  backend: RateLimitBackend;
+  /** SQLite file for the sqlite backend */
+  sqlitePath?: string;
+  /** redis:// or rediss:// URL for the resp backend */
+  respUrl?: string;
+}
+
+/**
+ * Parse "name=limit" entries from config into a name -> limit map
+ */
+export function parseOperationLimits(entries: readonly string[]): Map<string, number> {
+  const limits = new Map<string, number>();
+  for (const entry of entries) {
+    const [name, rawLimit] = entry.split("=").map((part) => part.trim());
+    const limit = Number(rawLimit);
+    if (name && Number.isInteger(limit) && limit > 0) {
+      limits.set(name, limit);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Create the configured store backend
+ */
+export function createRateLimitStore(options: RateLimitStoreOptions): RateLimitStore {
+  switch (options.backend) {
+    case "sqlite":
+      if (!options.sqlitePath) throw new Error("The sqlite rate limit backend requires a file path");
+      return new SQLiteRateLimitStore(options.sqlitePath);
+    case "resp":
+      if (!options.respUrl) throw new Error("The resp rate limit backend requires a server URL");
+      return new RespRateLimitStore(options.respUrl);
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+/**
+ * Applies a rule to namespaced keys in a store
+ */
+export class RateLimiter {
+  constructor(
+    readonly store: RateLimitStore,
+    readonly rule: RateLimitRule,
+    private keyPrefix = ""
+  ) {}
+
+  consume(key: string, rule: RateLimitRule = this.rule): Promise<RateLimitDecision> {
+    return this.store.consume(`${this.keyPrefix}${key}`, rule);
+  }
+
+  reset(key: string): Promise<void> {
+    return this.store.reset(`${this.keyPrefix}${key}`);
+  }
+
+  close(): Promise<void> {
+    return this.store.close();
+  }
+}
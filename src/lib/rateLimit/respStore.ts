@@ -0,0 +1,113 @@
+/* src/lib/rateLimit/respStore.ts - Redis-protocol (RESP) rate limit store */
+
+import { RedisClient } from "bun";
+import type { RateLimitDecision, RateLimitRule } from "./algorithms";
+import type { RateLimitStore } from "./store";
+
+/**
+ * The part of a RESP client the store needs; Bun's RedisClient satisfies it
+ */
+export interface RespClient {
+  send(command: string, args: string[]): Promise<unknown>;
+  close(): void;
+}
+
+/**
+ * Same algorithms as algorithms.ts, run server-side so the read-modify-write
+ * is atomic across replicas. Uses the server clock so replica clock skew
+ * doesn't shift windows. Returns [allowed, remaining, resetMs, retryAfterMs].
+ */
+const CONSUME_SCRIPT = `
+local key = KEYS[1]
+local algorithm = ARGV[1]
+local limit = tonumber(ARGV[2])
+local window = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local stored = redis.call('HMGET', key, 'a', 'b', 'c')
+local a, b, c = tonumber(stored[1]), tonumber(stored[2]), tonumber(stored[3])
+local allowed, remaining, reset, retry = 0, 0, 0, 0
+
+if algorithm == 'token-bucket' then
+  local rate = limit / window
+  local tokens = limit
+  if a and b then tokens = math.min(limit, a + math.max(0, now - b) * rate) end
+  if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+  else
+    retry = math.ceil((1 - tokens) / rate)
+  end
+  remaining = math.floor(tokens)
+  reset = math.ceil((limit - tokens) / rate)
+  redis.call('HSET', key, 'a', tostring(tokens), 'b', tostring(now), 'c', '0')
+else
+  local windowStart = math.floor(now / window) * window
+  local count, previous = 0, 0
+  if a == windowStart then
+    count, previous = b, c
+  elseif a == windowStart - window then
+    previous = b
+  end
+  local elapsed = now - windowStart
+  local estimated = previous * (1 - elapsed / window) + count
+  reset = windowStart + window - now
+  if estimated + 1 <= limit then
+    count = count + 1
+    allowed = 1
+    remaining = math.floor(limit - estimated - 1)
+  elseif count + 1 <= limit and previous > 0 then
+    retry = math.max(1, math.ceil(window * (1 - (limit - count - 1) / previous) - elapsed))
+  else
+    local into = 0
+    if count > 0 then into = math.max(0, window * (1 - (limit - 1) / count)) end
+    retry = math.max(1, math.ceil(window - elapsed + into))
+  end
+  redis.call('HSET', key, 'a', tostring(windowStart), 'b', tostring(count), 'c', tostring(previous))
+end
+
+redis.call('PEXPIRE', key, window * 2)
+return {allowed, remaining, reset, retry}
+`;
+
+const CONSUME_SCRIPT_SHA = new Bun.CryptoHasher("sha1").update(CONSUME_SCRIPT).digest("hex");
+
+/**
+ * Store backed by Redis or any RESP-compatible server (Valkey, KeyDB, Dragonfly).
+ * All replicas pointing at the same server share one limit.
+ */
+export class RespRateLimitStore implements RateLimitStore {
+  readonly backend = "resp";
+  private client: RespClient;
+
+  constructor(urlOrClient: string | RespClient) {
+    this.client = typeof urlOrClient === "string" ? new RedisClient(urlOrClient) : urlOrClient;
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const args = ["1", key, rule.algorithm, String(rule.limit), String(rule.windowMs)];
+
+    let reply: unknown;
+    try {
+      reply = await this.client.send("EVALSHA", [CONSUME_SCRIPT_SHA, ...args]);
+    } catch (error) {
+      // Script cache is empty after a server restart/failover - send the source once
+      if (!String(error instanceof Error ? error.message : error).includes("NOSCRIPT")) throw error;
+      reply = await this.client.send("EVAL", [CONSUME_SCRIPT, ...args]);
+    }
+
+    if (!Array.isArray(reply) || reply.length < 4) {
+      throw new Error("Unexpected rate limit script reply");
+    }
+    const [allowed, remaining, resetMs, retryAfterMs] = reply.map(Number);
+    return { allowed: allowed === 1, limit: rule.limit, remaining, resetMs, retryAfterMs };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.send("DEL", [key]);
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+}
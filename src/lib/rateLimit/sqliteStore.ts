@@ -0,0 +1,97 @@
+/* src/lib/rateLimit/sqliteStore.ts - File-backed SQLite rate limit store */
+
+import { Database, type Statement } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import {
+  applyRateLimit,
+  type RateLimitDecision,
+  type RateLimitRule,
+  type RateLimitState,
+  stateTtlMs,
+} from "./algorithms";
+import type { RateLimitStore } from "./store";
+
+interface StateRow {
+  a: number;
+  b: number;
+  c: number;
+  expires_at: number;
+}
+
+/**
+ * Rate limit state in a SQLite file. Replicas on the same host (or sharing a
+ * volume) share one limit: WAL mode allows concurrent readers, and each
+ * consume() runs in an IMMEDIATE transaction so writers serialize.
+ */
+export class SQLiteRateLimitStore implements RateLimitStore {
+  readonly backend = "sqlite";
+  private db: Database;
+  private selectStmt: Statement<StateRow, [string]>;
+  private upsertStmt: Statement<unknown, [string, number, number, number, number]>;
+  private deleteStmt: Statement<unknown, [string]>;
+  private consumeTx: (key: string, rule: RateLimitRule, now: number) => RateLimitDecision;
+  private cleanupTimer: Timer | null;
+
+  constructor(
+    path: string,
+    cleanupIntervalMs = 60000,
+    private now: () => number = Date.now
+  ) {
+    if (path !== ":memory:") mkdirSync(dirname(path), { recursive: true });
+
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA synchronous = NORMAL");
+    this.db.exec("PRAGMA busy_timeout = 5000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        key TEXT PRIMARY KEY,
+        a REAL NOT NULL,
+        b REAL NOT NULL,
+        c REAL NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_rate_limits_expires ON rate_limits(expires_at);
+    `);
+
+    this.selectStmt = this.db.prepare("SELECT a, b, c, expires_at FROM rate_limits WHERE key = ?");
+    this.upsertStmt = this.db.prepare(`
+      INSERT INTO rate_limits (key, a, b, c, expires_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET a = excluded.a, b = excluded.b, c = excluded.c, expires_at = excluded.expires_at
+    `);
+    this.deleteStmt = this.db.prepare("DELETE FROM rate_limits WHERE key = ?");
+
+    const transaction = this.db.transaction((key: string, rule: RateLimitRule, now: number) => {
+      const row = this.selectStmt.get(key);
+      const current: RateLimitState | undefined = row && row.expires_at > now ? [row.a, row.b, row.c] : undefined;
+      const { state, decision } = applyRateLimit(rule, current, now);
+      this.upsertStmt.run(key, state[0], state[1], state[2], now + stateTtlMs(rule));
+      return decision;
+    });
+    this.consumeTx = (key, rule, now) => transaction.immediate(key, rule, now);
+
+    this.cleanupTimer = setInterval(() => this.prune(), cleanupIntervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    return this.consumeTx(key, rule, this.now());
+  }
+
+  async reset(key: string): Promise<void> {
+    this.deleteStmt.run(key);
+  }
+
+  async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.db.close();
+  }
+
+  private prune(): void {
+    this.db.prepare("DELETE FROM rate_limits WHERE expires_at <= ?").run(this.now());
+  }
+}
@@ -0,0 +1,76 @@
+/* src/lib/rateLimit/store.ts - Rate limit store interface and in-memory backend */
+
+import {
+  applyRateLimit,
+  type RateLimitDecision,
+  type RateLimitRule,
+  type RateLimitState,
+  stateTtlMs,
+} from "./algorithms";
+
+export type RateLimitBackend = "memory" | "sqlite" | "resp";
+
+/**
+ * Storage for rate limit state. consume() must read, update and write the
+ * state for a key atomically - for shared backends that is what makes the
+ * limit hold across replicas.
+ */
+export interface RateLimitStore {
+  readonly backend: RateLimitBackend;
+  consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision>;
+  reset(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface MemoryEntry {
+  state: RateLimitState;
+  expiresAt: number;
+}
+
+/**
+ * Per-process store. Each replica enforces its own limit.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly backend = "memory";
+  private entries = new Map<string, MemoryEntry>();
+  private cleanupTimer: Timer | null;
+
+  constructor(
+    cleanupIntervalMs = 60000,
+    private now: () => number = Date.now
+  ) {
+    this.cleanupTimer = setInterval(() => this.prune(), cleanupIntervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    const { state, decision } = applyRateLimit(rule, entry && entry.expiresAt > now ? entry.state : undefined, now);
+    this.entries.set(key, { state, expiresAt: now + stateTtlMs(rule) });
+    return decision;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
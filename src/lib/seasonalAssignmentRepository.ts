@@ -0,0 +1,269 @@
+/* src/lib/seasonalAssignmentRepository.ts */
+
+/**
+ * Bulk edits of SeasonalAssignment documents.
+ *
+ * Each edit (division activation, sales organization codes, channels) runs
+ * over every targeted document in one multi-document transaction, so either
+ * all of them change or none do. A dry run computes the same per-document
+ * diff from a plain read without writing anything.
+ */
+
+import { type Collection, type TransactionAttemptContext, TransactionCommitAmbiguousError } from "couchbase";
+import {
+  CouchbaseRepository,
+  CouchbaseTransactionHandler,
+  connectionManager,
+  type TransactionOperationContext,
+} from "$lib/couchbase";
+import { log, warn } from "../telemetry/logger";
+import { DocumentIds } from "./couchbaseDocumentIds";
+
+/**
+ * Where seasonal assignment documents live (same scope as the assignment functions)
+ */
+export const ASSIGNMENTS_KEYSPACE = {
+  bucket: "default",
+  scope: "new_model",
+  collection: "seasonal_assignments",
+} as const;
+
+export interface AssignmentDivision {
+  name: string;
+  code: string;
+  isActive: boolean;
+}
+
+export interface SeasonalAssignmentDocument extends Record<string, unknown> {
+  styleSeasonCode: string;
+  companyCode: string;
+  divisions: AssignmentDivision[];
+  salesOrganizationCodes: string[];
+  channels: string[];
+  modifiedOn?: string;
+}
+
+export interface AssignmentKey {
+  styleSeasonCode: string;
+  companyCode: string;
+}
+
+/**
+ * One bulk edit, applied identically to every targeted document
+ */
+export type AssignmentChange =
+  | { kind: "divisions"; divisionCodes: string[]; isActive: boolean }
+  | { kind: "salesOrganizationCodes" | "channels"; add: string[]; remove: string[] };
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface DivisionDiff {
+  code: string;
+  from: boolean;
+  to: boolean;
+}
+
+export interface AssignmentDiff {
+  divisions: DivisionDiff[];
+  salesOrganizationCodes: ListDiff;
+  channels: ListDiff;
+  /** Requested division codes the assignment doesn't contain */
+  unknownDivisionCodes: string[];
+}
+
+/**
+ * UPDATED / UNCHANGED / NOT_FOUND after a commit; WOULD_UPDATE on a dry run;
+ * AMBIGUOUS when the commit outcome is unknown
+ */
+export type AssignmentChangeStatus = "UPDATED" | "UNCHANGED" | "NOT_FOUND" | "WOULD_UPDATE" | "AMBIGUOUS";
+
+export interface AssignmentChangeResult extends AssignmentKey, AssignmentDiff {
+  documentKey: string;
+  status: AssignmentChangeStatus;
+  /** Document after the change (or as it would be, on a dry run) */
+  assignment: SeasonalAssignmentDocument | null;
+}
+
+export interface BulkAssignmentResult {
+  dryRun: boolean;
+  /** null when the transaction outcome is ambiguous */
+  committed: boolean | null;
+  results: AssignmentChangeResult[];
+}
+
+export type BatchRunner = <T>(
+  operations: Array<(ctx: TransactionAttemptContext) => Promise<T>>,
+  context: TransactionOperationContext
+) => Promise<T[]>;
+
+function emptyDiff(): AssignmentDiff {
+  return {
+    divisions: [],
+    salesOrganizationCodes: { added: [], removed: [] },
+    channels: { added: [], removed: [] },
+    unknownDivisionCodes: [],
+  };
+}
+
+function hasChanges(diff: AssignmentDiff): boolean {
+  return (
+    diff.divisions.length > 0 ||
+    diff.salesOrganizationCodes.added.length + diff.salesOrganizationCodes.removed.length > 0 ||
+    diff.channels.added.length + diff.channels.removed.length > 0
+  );
+}
+
+function editList(current: string[], add: string[], remove: string[]): { next: string[]; diff: ListDiff } {
+  const removing = new Set(remove);
+  const kept = current.filter((value) => !removing.has(value));
+  const added = [...new Set(add)].filter((value) => !current.includes(value));
+  return {
+    next: [...kept, ...added],
+    diff: { added, removed: current.filter((value) => removing.has(value)) },
+  };
+}
+
+/**
+ * Apply a change to one document. Returns the next document and what changed;
+ * values already in the requested state are not reported.
+ */
+export function applyAssignmentChange(
+  document: SeasonalAssignmentDocument,
+  change: AssignmentChange
+): { next: SeasonalAssignmentDocument; diff: AssignmentDiff } {
+  const diff = emptyDiff();
+
+  if (change.kind === "divisions") {
+    const requested = new Set(change.divisionCodes);
+    const divisions = (document.divisions ?? []).map((division) => {
+      if (!requested.has(division.code) || division.isActive === change.isActive) return division;
+      diff.divisions.push({ code: division.code, from: division.isActive, to: change.isActive });
+      return { ...division, isActive: change.isActive };
+    });
+    const known = new Set((document.divisions ?? []).map((division) => division.code));
+    diff.unknownDivisionCodes = [...requested].filter((code) => !known.has(code));
+    return { next: { ...document, divisions }, diff };
+  }
+
+  const { next, diff: listDiff } = editList(document[change.kind] ?? [], change.add, change.remove);
+  diff[change.kind] = listDiff;
+  return { next: { ...document, [change.kind]: next }, diff };
+}
+
+export class SeasonalAssignmentRepository extends CouchbaseRepository<SeasonalAssignmentDocument> {
+  constructor(
+    collection: Collection,
+    private readonly runBatch: BatchRunner = (operations, context) =>
+      CouchbaseTransactionHandler.batchOperation(operations, context)
+  ) {
+    super(collection, "seasonalAssignment");
+  }
+
+  /**
+   * Apply the change to every assignment atomically, or only report the diff on a dry run.
+   * Missing documents are reported as NOT_FOUND and don't abort the others.
+   */
+  async applyBulk(
+    keys: readonly AssignmentKey[],
+    change: AssignmentChange,
+    options: { dryRun?: boolean; requestId?: string } = {}
+  ): Promise<BulkAssignmentResult> {
+    const targets = [
+      ...new Map(
+        keys.map((key) => [DocumentIds.seasonalAssignment(key.styleSeasonCode, key.companyCode), key])
+      ).entries(),
+    ];
+    const modifiedOn = new Date().toISOString();
+
+    const evaluate = (documentKey: string, key: AssignmentKey, current: SeasonalAssignmentDocument | null) => {
+      if (!current) {
+        return { documentKey, ...key, ...emptyDiff(), status: "NOT_FOUND" as const, assignment: null };
+      }
+      const { next, diff } = applyAssignmentChange(current, change);
+      const changed = hasChanges(diff);
+      const assignment = changed ? { ...next, modifiedOn } : current;
+      return {
+        documentKey,
+        ...key,
+        ...diff,
+        status: changed ? ("UPDATED" as const) : ("UNCHANGED" as const),
+        assignment,
+      };
+    };
+
+    if (options.dryRun) {
+      const results = await Promise.all(
+        targets.map(async ([documentKey, key]) => {
+          const result = evaluate(documentKey, key, await this.findById(documentKey));
+          return result.status === "UPDATED" ? { ...result, status: "WOULD_UPDATE" as const } : result;
+        })
+      );
+      return { dryRun: true, committed: false, results };
+    }
+
+    const context = CouchbaseTransactionHandler.createTransactionContext(
+      `bulk_assignment_${change.kind}`,
+      options.requestId,
+      ASSIGNMENTS_KEYSPACE.bucket,
+      ASSIGNMENTS_KEYSPACE.scope,
+      ASSIGNMENTS_KEYSPACE.collection
+    );
+
+    // Results of the latest attempt, kept for reporting if the commit turns out ambiguous
+    const attempt: AssignmentChangeResult[] = [];
+
+    try {
+      const results = await this.runBatch<AssignmentChangeResult>(
+        targets.map(([documentKey, key], index) => async (ctx) => {
+          const doc = await CouchbaseTransactionHandler.safeGet(ctx, this.collection, documentKey, context);
+          const result = evaluate(documentKey, key, (doc?.content as SeasonalAssignmentDocument) ?? null);
+          if (doc && result.status === "UPDATED") {
+            await CouchbaseTransactionHandler.safeReplace(ctx, doc, result.assignment, context);
+          }
+          attempt[index] = result;
+          return result;
+        }),
+        context
+      );
+
+      log("Bulk assignment change committed", {
+        requestId: options.requestId,
+        change: change.kind,
+        documents: results.length,
+        updated: results.filter((result) => result.status === "UPDATED").length,
+      });
+      return { dryRun: false, committed: true, results };
+    } catch (error) {
+      // executeTransaction has already recorded the ambiguous commit for investigation
+      if (error instanceof TransactionCommitAmbiguousError) {
+        warn("Bulk assignment change ambiguous", { requestId: options.requestId, change: change.kind });
+        const results = attempt.map((result) =>
+          result.status === "UPDATED" ? { ...result, status: "AMBIGUOUS" as const } : result
+        );
+        return { dryRun: false, committed: null, results };
+      }
+      throw error;
+    }
+  }
+}
+
+let repository: SeasonalAssignmentRepository | undefined;
+
+/**
+ * Shared repository on the seasonal assignments collection, created once Couchbase is connected
+ */
+export function getSeasonalAssignmentRepository(): SeasonalAssignmentRepository {
+  if (!repository) {
+    repository = new SeasonalAssignmentRepository(
+      connectionManager.getCollection(
+        ASSIGNMENTS_KEYSPACE.bucket,
+        ASSIGNMENTS_KEYSPACE.scope,
+        ASSIGNMENTS_KEYSPACE.collection
+      )
+    );
+  }
+  return repository;
+}
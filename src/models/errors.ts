@@ -71,6 +71,22 @@ export class DocumentNotFoundError extends DatabaseError {
   }
 }
 
+/**
+ * Optimistic concurrency conflicts - the document changed since the caller read it
+ */
+export class ConflictError extends AppError {
+  readonly statusCode = 409;
+  readonly code = "VERSION_CONFLICT";
+
+  constructor(documentId: string, expectedVersion: string, currentVersion?: string, cause?: Error) {
+    super(`Document '${documentId}' was modified: expected version ${expectedVersion}`, cause, {
+      documentId,
+      expectedVersion,
+      currentVersion,
+    });
+  }
+}
+
 /**
  * Input validation errors
  */
@@ -0,0 +1,139 @@
+/* src/server/handlers/admin.ts */
+
+import { timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { getSecurityConfig } from "../../config";
+import { invalidateCacheTags } from "../../graphql/cacheInvalidation";
+import { responseCache } from "../../graphql/responseCache";
+import { extractBearerToken } from "../../lib/auth";
+import { isCacheTag } from "../../lib/cacheTags";
+import { err, log, warn } from "../../telemetry";
+import type { RequestContext, RouteHandler } from "../types";
+
+// JSON response helper
+function jsonResponse(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+}
+
+function tokenMatches(presented: string, expected: string): boolean {
+  const a = Buffer.from(presented);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Admin endpoints need `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * Without a configured token they don't exist (404).
+ */
+export function withAdminAuth(handler: RouteHandler): (request: Request, context: RequestContext) => Promise<Response> {
+  return async (request, context) => {
+    const expected = getSecurityConfig().ADMIN_API_TOKEN;
+    if (!expected) {
+      return jsonResponse({ error: "Not Found" }, 404);
+    }
+
+    let presented: string | null = null;
+    try {
+      presented = extractBearerToken(request.headers.get("authorization"));
+    } catch {
+      // Non-Bearer scheme - same answer as a wrong token
+    }
+    if (!presented || !tokenMatches(presented, expected)) {
+      warn("Rejected admin request", { requestId: context.requestId, path: context.url.pathname });
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" },
+      });
+    }
+
+    return handler(request, context);
+  };
+}
+
+/**
+ * /admin/cache/responses - List (GET) or purge (DELETE) GraphQL response cache entries.
+ * `?operation=<name>` narrows both to one operation; purging everything needs `?all=true`.
+ */
+export const responseCacheAdminHandler: RouteHandler = async (request, context) => {
+  const operation = context.url.searchParams.get("operation") || undefined;
+
+  try {
+    if (request.method === "DELETE") {
+      if (!operation && context.url.searchParams.get("all") !== "true") {
+        return jsonResponse({ error: "Pass ?operation=<name>, or ?all=true to purge every entry" }, 400);
+      }
+      const removed = responseCache.purge(operation);
+      log("Response cache purged via admin API", {
+        requestId: context.requestId,
+        operation: operation ?? "*",
+        removed,
+      });
+      return jsonResponse({ operation: operation ?? null, removed });
+    }
+
+    const limit = Number(context.url.searchParams.get("limit") ?? 100);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return jsonResponse({ error: "limit must be an integer between 1 and 1000" }, 400);
+    }
+    const entries = responseCache.list(operation, limit);
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      operation: operation ?? null,
+      stats: responseCache.getStats(),
+      count: entries.length,
+      entries,
+    });
+  } catch (error) {
+    err("Response cache admin request failed", error, { requestId: context.requestId });
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+const InvalidateTagsBodySchema = z.strictObject({
+  tags: z
+    .array(z.string().refine(isCacheTag, "Tags look like division:<code>, season:<code>, brand:<code> or look:<key>"))
+    .min(1, "At least one tag is required")
+    .max(500, "At most 500 tags per request"),
+});
+
+/**
+ * /admin/cache/invalidate - Purge entries tagged with any of `{ "tags": [...] }`
+ * from every cache layer (run by ingestion jobs after loading PIM data)
+ */
+export const invalidateTagsAdminHandler: RouteHandler = async (request, context) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: "Request body must be JSON" }, 400);
+  }
+
+  const parsed = InvalidateTagsBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse(
+      {
+        error: "Invalid request body",
+        issues: parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      },
+      400
+    );
+  }
+
+  try {
+    const result = await invalidateCacheTags(parsed.data.tags);
+    log("Cache tags invalidated via admin API", { requestId: context.requestId, tags: result.tags.length });
+    // 503 lets the job retry; invalidating the same tags again is harmless
+    return jsonResponse(result, result.failed.length > 0 ? 503 : 200);
+  } catch (error) {
+    err("Cache tag invalidation request failed", error, { requestId: context.requestId });
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+export const adminHandlers = {
+  responseCache: withAdminAuth(responseCacheAdminHandler),
+  invalidateTags: withAdminAuth(invalidateTagsAdminHandler),
+};
@@ -1,22 +1,32 @@
 /* src/server/handlers/graphql.ts */
 
-import { makeExecutableSchema } from "@graphql-tools/schema";
 import { useResponseCache } from "@graphql-yoga/plugin-response-cache";
 import { trace } from "@opentelemetry/api";
 import depthLimit from "graphql-depth-limit";
 import { createYoga } from "graphql-yoga";
+import { authenticateRequest } from "$lib/auth";
+import { buildGraphQLCacheKey, operationNameFromKey, shouldCacheOperation } from "$lib/graphqlResponseCache";
+import {
+  createPersistedQueryStore,
+  isPersistedQueryError,
+  type PersistedQueryStore,
+  usePersistedQueries,
+} from "$lib/persistedQueries";
+import {
+  CostBudget,
+  isQueryCostError,
+  parseFieldCosts,
+  QueryCostCalculator,
+  type QueryCostPluginOptions,
+  useQueryCost,
+} from "$lib/queryCost";
 import { config } from "../../config";
 import { contextFactory } from "../../graphql/context";
-import resolvers from "../../graphql/resolvers";
-import typeDefs from "../../graphql/typeDefs";
+import { toClientAuthError, toClientWriteError } from "../../graphql/errors";
+import { responseCache } from "../../graphql/responseCache";
+import { schema } from "../../graphql/schema";
 import { debug, err, log, warn } from "../../telemetry";
 
-// Create executable schema from typeDefs and resolvers
-const schema = makeExecutableSchema({
-  typeDefs,
-  resolvers,
-});
-
 /**
  * Response Cache TTL Configuration (milliseconds)
  * Different TTLs for different data types based on update frequency
@@ -38,8 +48,44 @@ const CACHE_TTL = {
   imageDetails: 15 * 60 * 1000,
   // Document search - dynamic (2 minutes)
   searchDocuments: 2 * 60 * 1000,
+  // Full-text search - dynamic (2 minutes)
+  search: 2 * 60 * 1000,
 };
 
+/**
+ * Persisted query store, created on first request (manifest load is async).
+ * The WebSocket transport resolves through the same store.
+ */
+let persistedQueryStore: Promise<PersistedQueryStore> | undefined;
+
+export function getPersistedQueryStore(): Promise<PersistedQueryStore> {
+  if (!persistedQueryStore) {
+    persistedQueryStore = createPersistedQueryStore({
+      mode: config.security.PERSISTED_QUERIES_MODE,
+      manifestPath: config.security.PERSISTED_QUERIES_MANIFEST,
+      ttlMs: config.security.PERSISTED_QUERIES_TTL_MS,
+    });
+  }
+  return persistedQueryStore;
+}
+
+/**
+ * Static query cost limits - per-operation maximum plus a refilling budget per client.
+ * The WebSocket transport charges the same budget.
+ */
+export const queryCostOptions: QueryCostPluginOptions | undefined = config.security.QUERY_COST_ENABLED
+  ? {
+      calculator: new QueryCostCalculator(schema, {
+        fieldCosts: parseFieldCosts(config.security.QUERY_COST_FIELD_COSTS),
+        defaultMultipliers: config.security.QUERY_COST_MULTIPLIER_ARGUMENTS,
+      }),
+      budget: new CostBudget(config.security.QUERY_COST_BUDGET, config.security.QUERY_COST_REFILL_PER_SECOND),
+      maxCost: config.security.QUERY_COST_MAX_PER_QUERY,
+    }
+  : undefined;
+
+const queryCostPlugins = queryCostOptions ? [useQueryCost(queryCostOptions)] : [];
+
 /**
  * Create GraphQL Yoga instance with all plugins and configuration.
  * This instance works directly with Bun.serve() via yoga.fetch().
@@ -56,10 +102,23 @@ const yoga = createYoga({
   // But allow BAD_USER_INPUT errors through unmasked since they're expected
   maskedErrors: {
     maskError: (error, message) => {
+      // Authentication/authorization failures keep their message, code and HTTP status
+      const authError = toClientAuthError(error);
+      if (authError) {
+        return authError;
+      }
+      // Stale versions and missing documents from mutations are actionable by the client
+      const writeError = toClientWriteError(error);
+      if (writeError) {
+        return writeError;
+      }
       // Don't mask user input validation errors - they should be shown to clients
       if (error?.extensions?.code === "BAD_USER_INPUT" || error?.message?.includes("Input validation failed")) {
         return error;
       }
+      if (isPersistedQueryError(error) || isQueryCostError(error)) {
+        return error;
+      }
       // Mask other errors in production
       if (config.runtime.NODE_ENV === "production") {
         return new Error(message);
@@ -68,10 +127,20 @@ const yoga = createYoga({
     },
   },
   plugins: [
+    // Persisted queries - resolves hash-only requests before the response cache keys on the query text
+    usePersistedQueries(getPersistedQueryStore),
     // Response Cache Plugin with ETag support
     // Automatically sends ETag headers for cache validation
     // Clients can use If-None-Match for conditional requests (304 Not Modified)
     useResponseCache({
+      // Shared so resolvers can invalidate entities directly; the backend
+      // (memory, sqlite file, shared file) comes from YOGA_RESPONSE_CACHE_BACKEND
+      cache: responseCache,
+      // Keys start with the operation name so the admin API can list/purge per operation
+      buildResponseCacheKey: buildGraphQLCacheKey,
+      // Never store responses with errors, or introspection
+      shouldCacheResult: ({ cacheKey, result }) =>
+        !result.errors?.length && shouldCacheOperation(operationNameFromKey(cacheKey)),
       // Allow cache bypass via header for testing
       // Send "x-no-cache: true" or "Cache-Control: no-cache" to skip cache
       enabled: (request) => {
@@ -82,16 +151,12 @@ const yoga = createYoga({
         }
         return true;
       },
-      // Session-based caching: extract user identifier from auth header
-      // Returns null for global cache (unauthenticated requests)
-      session: (request) => {
-        const authHeader = request.headers.get("authorization");
-        if (authHeader) {
-          // Use auth token as session identifier for user-specific caching
-          return authHeader;
-        }
-        // Global cache for unauthenticated requests
-        return null;
+      // Session-based caching keyed by the verified token subject, so a refreshed
+      // token keeps hitting the same entries. Returns null for global cache
+      // (anonymous requests); an invalid token rejects the request before lookup.
+      session: async (request) => {
+        const user = await authenticateRequest(request);
+        return user ? user.id : null;
       },
       // Default TTL for all cached responses
       ttl: CACHE_TTL.default,
@@ -100,11 +165,13 @@ const yoga = createYoga({
       ttlPerSchemaCoordinate: {
         // Looks queries
         "Query.looks": CACHE_TTL.looks,
+        "Query.looksConnection": CACHE_TTL.looks,
         "Query.lookDetails": CACHE_TTL.lookDetails,
         "Query.looksSummary": CACHE_TTL.looksSummary,
         // Options queries
         "Query.optionsSummary": CACHE_TTL.optionsSummary,
         "Query.optionsProductView": CACHE_TTL.optionsProductView,
+        "Query.optionsProductViewConnection": CACHE_TTL.optionsProductView,
         // Assignment queries
         "Query.getAllSeasonalAssignments": CACHE_TTL.getAllSeasonalAssignments,
         "Query.getDivisionAssignment": CACHE_TTL.getDivisionAssignment,
@@ -112,6 +179,8 @@ const yoga = createYoga({
         "Query.imageDetails": CACHE_TTL.imageDetails,
         // Document search
         "Query.searchDocuments": CACHE_TTL.searchDocuments,
+        // Full-text search
+        "Query.search": CACHE_TTL.search,
         // Schema introspection types - long cache (1 hour)
         // These are used by GraphiQL and other dev tools
         __Schema: 60 * 60 * 1000,
@@ -121,11 +190,16 @@ const yoga = createYoga({
         __EnumValue: 60 * 60 * 1000,
         __Directive: 60 * 60 * 1000,
       },
+      // Entities are tracked by these fields; looks are keyed by documentKey
+      idFields: ["id", "documentKey"],
       // Invalidate cache automatically when mutations return affected entities
       invalidateViaMutation: true,
       // Include extensions in cached response for debugging
       includeExtensionMetadata: config.runtime.NODE_ENV === "development",
     }),
+    // Query cost - after the response cache so cache hits are not charged and the
+    // per-request cost in extensions is never stored in cached responses
+    ...queryCostPlugins,
     // Query size validation plugin
     {
       onParse({ params, addError }) {
@@ -191,6 +265,7 @@ const yoga = createYoga({
 
 // Log cache configuration on startup
 log("GraphQL Response Cache enabled", {
+  backend: responseCache.backend,
   defaultTTL: CACHE_TTL.default,
   etagSupport: true,
   sessionBasedCaching: true,
@@ -4,7 +4,7 @@ import { getGraphQLPerformanceStats, getRecentGraphQLPerformance } from "../../l
 import { getPerformanceHistory, getPerformanceMetrics, getPerformanceTrends } from "../../lib/performanceMonitor";
 import { getSystemHealth, getSystemHealthSummary } from "../../lib/systemHealth";
 import { getComprehensiveHealth, getLivenessCheck, getReadinessCheck } from "../../services/health";
-import { err, getTelemetryHealth } from "../../telemetry";
+import { err, getTailSamplingStats, getTelemetryHealth } from "../../telemetry";
 import { createHealthcheck } from "../../utils/bunUtils";
 import type { RouteHandler } from "../types";
 
@@ -190,6 +190,8 @@ export const cacheHealthHandler: RouteHandler = async (_request, _context) => {
   try {
     const { bunSQLiteCache } = await import("../../lib/bunSQLiteCache");
     const { defaultQueryCache } = await import("../../lib/queryCache");
+    const { responseCache } = await import("../../graphql/responseCache");
+    const { getEntityLoaderStats } = await import("../../lib/entityLoaders");
 
     const sqliteStats = bunSQLiteCache.getStats();
     const sqliteAnalytics = bunSQLiteCache.getAnalytics();
@@ -215,6 +217,8 @@ export const cacheHealthHandler: RouteHandler = async (_request, _context) => {
         totalMemoryMB: (sqliteStats.memoryUsage + mapCacheStats.memoryUsage) / (1024 * 1024),
         preferredCache: typeof Bun !== "undefined" ? "sqlite" : "map",
       },
+      responseCache: responseCache.getStats(),
+      entityLoaders: getEntityLoaderStats(),
     });
   } catch (error) {
     err("Cache metrics collection failed", error);
@@ -237,11 +241,14 @@ export const cacheHealthHandler: RouteHandler = async (_request, _context) => {
 export const telemetryDetailedHandler: RouteHandler = async (_request, _context) => {
   try {
     const { getBatchCoordinator } = await import("../../telemetry/coordinator/BatchCoordinator");
+    const { getTelemetrySpool } = await import("../../telemetry/spool/TelemetrySpool");
     const batchCoordinator = getBatchCoordinator();
+    const spool = getTelemetrySpool();
 
     const statistics = batchCoordinator.getStatistics();
     const bufferStatus = batchCoordinator.getBufferStatus();
     const telemetryHealth = getTelemetryHealth();
+    const tailSampling = getTailSamplingStats();
 
     return jsonResponse({
       timestamp: new Date().toISOString(),
@@ -272,6 +279,8 @@ export const telemetryDetailedHandler: RouteHandler = async (_request, _context)
               : 0,
         },
       },
+      spool: spool ? { enabled: true, ...spool.getStats() } : { enabled: false },
+      tailSampling: tailSampling ? { enabled: true, ...tailSampling } : { enabled: false },
       exporters: telemetryHealth,
       recommendations: generateTelemetryRecommendations(statistics, bufferStatus.memoryPressure),
     });
@@ -282,6 +291,8 @@ export const telemetryDetailedHandler: RouteHandler = async (_request, _context)
         timestamp: new Date().toISOString(),
         error: error instanceof Error ? error.message : String(error),
         batchCoordinator: { statistics: {}, buffers: {}, memoryPressure: { pressureLevel: "unknown" } },
+        spool: { enabled: false },
+        tailSampling: { enabled: false },
         exporters: {},
         recommendations: [],
       },
@@ -0,0 +1,32 @@
+/* src/server/handlers/metrics.ts */
+
+import { err, getPrometheusReader } from "../../telemetry";
+import { negotiatePrometheusFormat, PROMETHEUS_CONTENT_TYPES } from "../../telemetry/exporters/PrometheusMetricReader";
+import type { RequestContext } from "../types";
+
+function textResponse(body: string, status: number, contentType = "text/plain; charset=utf-8"): Response {
+  return new Response(body, {
+    status,
+    headers: { "Content-Type": contentType, "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * /metrics - Prometheus scrape endpoint. Serves OpenMetrics (with exemplars)
+ * to scrapers that accept it and the classic text format to everyone else.
+ */
+export async function metricsHandler(request: Request, context: RequestContext): Promise<Response> {
+  const reader = getPrometheusReader();
+  if (!reader) {
+    return textResponse("Prometheus metrics are disabled\n", 404);
+  }
+
+  const format = negotiatePrometheusFormat(request.headers.get("accept"));
+  try {
+    const body = await reader.render(format);
+    return textResponse(body, 200, PROMETHEUS_CONTENT_TYPES[format]);
+  } catch (error) {
+    err("Prometheus scrape failed", error, { requestId: context.requestId });
+    return textResponse(`Metrics collection failed: ${error instanceof Error ? error.message : String(error)}\n`, 503);
+  }
+}
@@ -0,0 +1,127 @@
+/* src/server/middleware/graphqlOperation.ts */
+
+import { getOperationAST, Kind, parse, type SelectionSetNode } from "graphql";
+
+export interface GraphQLOperationInfo {
+  operationName?: string;
+  query?: string;
+  variables?: Record<string, unknown>;
+}
+
+// Parsed once per request - tracing and rate limiting both need it
+const operationCache = new WeakMap<Request, Promise<GraphQLOperationInfo | null>>();
+
+/**
+ * Extract operation name from GraphQL query string
+ * Handles: query OpName { }, mutation OpName { }, subscription OpName { }
+ * Also handles: query OpName($var: Type) { }
+ */
+export function extractOperationNameFromQuery(query: string): string | undefined {
+  if (!query) return undefined;
+
+  // Match: query/mutation/subscription followed by optional operation name
+  // Patterns: "query OpName {", "query OpName(", "query {"
+  const operationMatch = query.match(/^\s*(?:query|mutation|subscription)\s+([A-Za-z_][A-Za-z0-9_]*)\s*[({]/);
+
+  if (operationMatch?.[1]) {
+    return operationMatch[1];
+  }
+
+  // Check for anonymous query with field name (e.g., "{ looks(...) }")
+  // Extract the first field name as a fallback
+  const fieldMatch = query.match(/^\s*(?:query|mutation|subscription)?\s*\{\s*([A-Za-z_][A-Za-z0-9_]*)/);
+  if (fieldMatch?.[1]) {
+    return fieldMatch[1];
+  }
+
+  return undefined;
+}
+
+async function parseGraphQLOperation(request: Request): Promise<GraphQLOperationInfo | null> {
+  if (request.method === "GET") {
+    const params = new URL(request.url).searchParams;
+    const query = params.get("query") ?? undefined;
+    if (!query && !params.has("operationName")) return null;
+    return { operationName: params.get("operationName") || extractOperationNameFromQuery(query ?? ""), query };
+  }
+
+  if (request.method !== "POST") return null;
+
+  try {
+    const clonedRequest = request.clone();
+    const text = await clonedRequest.text();
+    if (!text) return null;
+
+    const parsed = JSON.parse(text);
+    // Batched requests are identified by their first operation
+    const body = Array.isArray(parsed) ? parsed[0] : parsed;
+    if (body && typeof body === "object") {
+      // Use explicit operationName if provided, otherwise extract from query
+      const operationName = body.operationName || extractOperationNameFromQuery(body.query);
+
+      return {
+        operationName,
+        query: body.query,
+        variables: body.variables,
+      };
+    }
+  } catch {
+    // Ignore parsing errors
+  }
+  return null;
+}
+
+/**
+ * Extract GraphQL operation name from the request body (POST) or query string (GET)
+ */
+export function extractGraphQLOperation(request: Request): Promise<GraphQLOperationInfo | null> {
+  let operation = operationCache.get(request);
+  if (!operation) {
+    operation = parseGraphQLOperation(request);
+    operationCache.set(request, operation);
+  }
+  return operation;
+}
+
+/**
+ * Top-level field names of the selected operation, following fragments.
+ * Operation names are chosen by the client; root fields say what actually runs.
+ * Returns an empty list for unparseable queries (Yoga rejects those anyway).
+ */
+export function extractRootFieldNames(query: string | undefined, operationName?: string): string[] {
+  if (!query) return [];
+
+  try {
+    const document = parse(query, { noLocation: true });
+    const operation = getOperationAST(document, operationName);
+    if (!operation) return [];
+
+    const fragments = new Map<string, SelectionSetNode>();
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments.set(definition.name.value, definition.selectionSet);
+      }
+    }
+
+    const names = new Set<string>();
+    const visited = new Set<string>();
+    const collect = (selectionSet: SelectionSetNode) => {
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          names.add(selection.name.value);
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          collect(selection.selectionSet);
+        } else if (!visited.has(selection.name.value)) {
+          visited.add(selection.name.value);
+          const fragment = fragments.get(selection.name.value);
+          if (fragment) collect(fragment);
+        }
+      }
+    };
+    collect(operation.selectionSet);
+
+    return [...names];
+  } catch {
+    return [];
+  }
+}
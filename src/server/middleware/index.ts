@@ -67,6 +67,6 @@ export function withRequestId(
 
 export { corsMiddleware } from "./cors";
 export { loggingMiddleware } from "./logging";
-export { cleanupRateLimitStore, rateLimitMiddleware } from "./rateLimit";
+export { cleanupRateLimitStore, createRateLimitMiddleware, rateLimitMiddleware } from "./rateLimit";
 export { securityMiddleware } from "./security";
 export { tracingMiddleware } from "./tracing";
@@ -1,119 +1,295 @@
 /* src/server/middleware/rateLimit.ts */
 
-import { err, warn } from "../../telemetry";
+import { getSecurityConfig, type SecurityConfig } from "$config";
+import { authenticateRequest } from "$lib/auth";
+import {
+  BypassTokenVerifier,
+  createRateLimitStore,
+  parseOperationLimits,
+  RATE_LIMIT_BYPASS_HEADER,
+  type RateLimitDecision,
+  RateLimiter,
+  type RateLimitRule,
+} from "$lib/rateLimit";
+import { err, log, warn } from "../../telemetry";
 import type { Middleware, RequestContext } from "../types";
 import { StaticResponses } from "../types";
+import { extractGraphQLOperation, extractRootFieldNames } from "./graphqlOperation";
 
-const RATE_LIMIT = 500;
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const CLEANUP_INTERVAL = 60 * 1000; // 1 minute
-const CLEANUP_THRESHOLD = 5 * 60 * 1000; // 5 minutes
+type RateLimitKeyPart = SecurityConfig["RATE_LIMIT_KEY_BY"][number];
 
-// Rate limit store: key -> { count, timestamp }
-const rateLimitStore = new Map<string, { count: number; timestamp: number }>();
+export interface RateLimitOptions {
+  limiter: RateLimiter;
+  bypass?: BypassTokenVerifier | null;
+  keyBy: readonly RateLimitKeyPart[];
+  apiKeyHeader: string;
+  /** Extra limits per GraphQL operation or root field name, on top of the base rule */
+  operationLimits?: ReadonlyMap<string, number>;
+  failOpen: boolean;
+}
 
-// Start cleanup interval
-let cleanupIntervalId: Timer | null = null;
+interface AppliedLimit {
+  rule: RateLimitRule;
+  decision: RateLimitDecision;
+}
 
-function startCleanup(): void {
-  if (cleanupIntervalId) return;
+// Created on first request, once config is loaded
+let runtime: RateLimitOptions | null = null;
 
-  cleanupIntervalId = setInterval(() => {
-    const now = Date.now();
-    for (const [key, data] of rateLimitStore.entries()) {
-      if (now - data.timestamp > CLEANUP_THRESHOLD) {
-        rateLimitStore.delete(key);
-      }
-    }
-  }, CLEANUP_INTERVAL);
-}
+function getRuntime(): RateLimitOptions | null {
+  const security = getSecurityConfig();
+  if (!security.RATE_LIMIT_ENABLED) return null;
 
-// Start cleanup on module load
-startCleanup();
+  if (!runtime) {
+    const store = createRateLimitStore({
+      backend: security.RATE_LIMIT_BACKEND,
+      sqlitePath: security.RATE_LIMIT_SQLITE_PATH,
+      respUrl: security.RATE_LIMIT_REDIS_URL,
+    });
+
+    runtime = {
+      limiter: new RateLimiter(
+        store,
+        {
+          algorithm: security.RATE_LIMIT_ALGORITHM,
+          limit: security.RATE_LIMIT_MAX_REQUESTS,
+          windowMs: security.RATE_LIMIT_WINDOW_MS,
+        },
+        security.RATE_LIMIT_KEY_PREFIX
+      ),
+      bypass: security.RATE_LIMIT_BYPASS_SECRET
+        ? new BypassTokenVerifier(security.RATE_LIMIT_BYPASS_SECRET, security.RATE_LIMIT_BYPASS_TOKEN_IDS)
+        : null,
+      keyBy: security.RATE_LIMIT_KEY_BY,
+      apiKeyHeader: security.RATE_LIMIT_API_KEY_HEADER,
+      operationLimits: parseOperationLimits(security.RATE_LIMIT_OPERATION_LIMITS),
+      failOpen: security.RATE_LIMIT_FAIL_OPEN,
+    };
+
+    log("Rate limiting configured", {
+      backend: store.backend,
+      algorithm: security.RATE_LIMIT_ALGORITHM,
+      limit: security.RATE_LIMIT_MAX_REQUESTS,
+      windowMs: security.RATE_LIMIT_WINDOW_MS,
+      keyBy: security.RATE_LIMIT_KEY_BY,
+      operationLimits: security.RATE_LIMIT_OPERATION_LIMITS,
+      bypassTokens: security.RATE_LIMIT_BYPASS_TOKEN_IDS.length,
+    });
+  }
+  return runtime;
+}
 
 /**
- * Get rate limit key from request (IP + path combination)
+ * Identify the caller by an API key without keeping the key itself in the store
  */
-function getRateLimitKey(_request: Request, context: RequestContext): string {
-  return `${context.clientIp}:${context.url.pathname}`;
+function hashApiKey(apiKey: string): string {
+  return new Bun.CryptoHasher("sha256").update(apiKey).digest("hex").slice(0, 32);
 }
 
 /**
- * Check if request should be rate limited.
- * Returns true if rate limit exceeded.
+ * Build the rate limit key from the configured parts.
+ * Callers without a user or API key fall back to their IP for that part,
+ * so anonymous clients never share a single bucket.
  */
-function checkRateLimit(request: Request, context: RequestContext): boolean {
-  // Bypass for K6 test agent
-  const userAgent = request.headers.get("user-agent");
-  if (userAgent === "K6TestAgent/1.0") {
-    return false;
+async function getRateLimitKey(
+  request: Request,
+  context: RequestContext,
+  { keyBy, apiKeyHeader }: RateLimitOptions
+): Promise<string> {
+  const parts: string[] = [];
+
+  for (const part of keyBy) {
+    switch (part) {
+      case "ip":
+        parts.push(`ip:${context.clientIp}`);
+        break;
+      case "path":
+        parts.push(`path:${context.url.pathname}`);
+        break;
+      case "user": {
+        // An invalid token is rejected by the GraphQL layer; count it against the IP here
+        const user = await authenticateRequest(request).catch(() => undefined);
+        parts.push(user ? `user:${user.id}` : `ip:${context.clientIp}`);
+        break;
+      }
+      case "apiKey": {
+        const apiKey = request.headers.get(apiKeyHeader);
+        parts.push(apiKey ? `key:${hashApiKey(apiKey)}` : `ip:${context.clientIp}`);
+        break;
+      }
+      case "operation": {
+        const operation = context.url.pathname === "/graphql" ? await extractGraphQLOperation(request) : null;
+        parts.push(`op:${operation?.operationName ?? "-"}`);
+        break;
+      }
+    }
   }
 
-  const rateLimitKey = getRateLimitKey(request, context);
-  const now = Date.now();
-  const clientData = rateLimitStore.get(rateLimitKey) || {
-    count: 0,
-    timestamp: now,
-  };
+  // ["ip", "user"] for an anonymous caller would otherwise repeat the IP
+  return [...new Set(parts)].join("|");
+}
+
+/**
+ * Names with their own limit that this GraphQL request hits: the operation
+ * name and the root fields it selects, so renaming an operation can't dodge
+ * the limit on e.g. getImageUrlCheck.
+ */
+async function getLimitedOperations(
+  request: Request,
+  context: RequestContext,
+  operationLimits: ReadonlyMap<string, number>
+): Promise<string[]> {
+  if (operationLimits.size === 0 || context.url.pathname !== "/graphql") return [];
 
-  // Reset window if expired
-  if (now - clientData.timestamp > RATE_LIMIT_WINDOW) {
-    clientData.count = 1;
-    clientData.timestamp = now;
-  } else {
-    clientData.count++;
+  const operation = await extractGraphQLOperation(request);
+  if (!operation) return [];
+
+  const names = new Set([
+    ...(operation.operationName ? [operation.operationName] : []),
+    ...extractRootFieldNames(operation.query, operation.operationName),
+  ]);
+  return [...names].filter((name) => operationLimits.has(name));
+}
+
+/**
+ * Check the base limit, then any per-operation limits.
+ * Returns every limit applied, or null when the request is exempt or the store failed open.
+ */
+async function checkRateLimit(
+  request: Request,
+  context: RequestContext,
+  options: RateLimitOptions
+): Promise<AppliedLimit[] | null> {
+  if (options.bypass?.verify(request.headers.get(RATE_LIMIT_BYPASS_HEADER))) {
+    return null;
   }
 
-  rateLimitStore.set(rateLimitKey, clientData);
+  const rateLimitKey = await getRateLimitKey(request, context, options);
+  const applied: AppliedLimit[] = [];
 
-  const isRateLimited = clientData.count > RATE_LIMIT;
+  try {
+    const base = options.limiter.rule;
+    applied.push({ rule: base, decision: await options.limiter.consume(rateLimitKey) });
 
+    // A request already over the base limit doesn't spend its operation budgets
+    if (applied[0].decision.allowed && options.operationLimits) {
+      for (const name of await getLimitedOperations(request, context, options.operationLimits)) {
+        const rule = { ...base, limit: options.operationLimits.get(name)! };
+        applied.push({ rule, decision: await options.limiter.consume(`${rateLimitKey}|limit:${name}`, rule) });
+      }
+    }
+  } catch (error) {
+    err("Rate limit store unavailable", error, { backend: options.limiter.store.backend });
+    if (options.failOpen) return null;
+    throw error;
+  }
+
+  const denied = applied.filter(({ decision }) => !decision.allowed);
   // Log rate limiting events for security monitoring
-  if (isRateLimited) {
+  if (denied.length > 0) {
     warn("Rate limit exceeded - request blocked", {
       clientIp: context.clientIp,
-      userAgent: userAgent?.substring(0, 100),
-      requestCount: clientData.count,
+      userAgent: request.headers.get("user-agent")?.substring(0, 100),
       rateLimitKey,
+      limits: denied.map(({ rule }) => rule.limit),
+      retryAfterMs: Math.max(...denied.map(({ decision }) => decision.retryAfterMs)),
       url: context.url.pathname,
       method: request.method,
     });
   }
 
-  return isRateLimited;
+  return applied;
 }
 
 /**
- * Rate limiting middleware.
- * Returns 429 Too Many Requests if limit exceeded.
+ * IETF RateLimit headers for the limit closest to being hit (or the one that
+ * rejected the request), plus Retry-After on rejection.
  */
-export const rateLimitMiddleware: Middleware = async (
-  request: Request,
-  context: RequestContext,
-  next: () => Promise<Response>
-) => {
-  if (checkRateLimit(request, context)) {
-    // Log blocking event
-    err("Rate limit exceeded - blocking request", undefined, {
-      clientIp: context.clientIp,
-      method: request.method,
-      route: context.url.pathname,
-      requestId: context.requestId,
-    });
+function getRateLimitHeaders(applied: AppliedLimit[]): Record<string, string> {
+  const denied = applied.filter(({ decision }) => !decision.allowed);
+  const binding = denied.length
+    ? denied.reduce((a, b) => (b.decision.retryAfterMs > a.decision.retryAfterMs ? b : a))
+    : applied.reduce((a, b) => (b.decision.remaining < a.decision.remaining ? b : a));
+
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(binding.decision.limit),
+    "RateLimit-Remaining": String(binding.decision.remaining),
+    "RateLimit-Reset": String(Math.ceil(binding.decision.resetMs / 1000)),
+    "RateLimit-Policy": applied.map(({ rule }) => `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`).join(", "),
+  };
+  if (!binding.decision.allowed) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil(binding.decision.retryAfterMs / 1000)));
+  }
+  return headers;
+}
 
-    return StaticResponses.TOO_MANY_REQUESTS;
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const newHeaders = new Headers(response.headers);
+  for (const [key, value] of Object.entries(headers)) {
+    newHeaders.set(key, value);
   }
 
-  return next();
-};
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: newHeaders,
+  });
+}
+
+/**
+ * Rate limiting middleware for the given options (null disables limiting).
+ * Adds RateLimit-* headers to every response and returns 429 with
+ * Retry-After when a limit is exceeded.
+ */
+export function createRateLimitMiddleware(getOptions: () => RateLimitOptions | null): Middleware {
+  return async (request: Request, context: RequestContext, next: () => Promise<Response>) => {
+    const options = getOptions();
+    if (!options) {
+      return next();
+    }
+
+    let applied: AppliedLimit[] | null;
+    try {
+      applied = await checkRateLimit(request, context, options);
+    } catch {
+      // Store is down and RATE_LIMIT_FAIL_OPEN is false
+      return StaticResponses.SERVICE_UNAVAILABLE.clone();
+    }
+
+    if (!applied) {
+      return next();
+    }
+
+    const headers = getRateLimitHeaders(applied);
+    if (headers["Retry-After"]) {
+      // Log blocking event
+      err("Rate limit exceeded - blocking request", undefined, {
+        clientIp: context.clientIp,
+        method: request.method,
+        route: context.url.pathname,
+        requestId: context.requestId,
+      });
+
+      return withHeaders(StaticResponses.TOO_MANY_REQUESTS.clone(), headers);
+    }
+
+    return withHeaders(await next(), headers);
+  };
+}
+
+/**
+ * Rate limiting middleware configured from the security config.
+ * Returns 429 Too Many Requests if limit exceeded.
+ */
+export const rateLimitMiddleware: Middleware = createRateLimitMiddleware(getRuntime);
 
 /**
- * Cleanup rate limit store (for testing/graceful shutdown)
+ * Close the rate limit store (for testing/graceful shutdown)
  */
-export function cleanupRateLimitStore(): void {
-  if (cleanupIntervalId) {
-    clearInterval(cleanupIntervalId);
-    cleanupIntervalId = null;
+export async function cleanupRateLimitStore(): Promise<void> {
+  if (runtime) {
+    const { limiter } = runtime;
+    runtime = null;
+    await limiter.close();
   }
-  rateLimitStore.clear();
 }
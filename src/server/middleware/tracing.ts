@@ -3,6 +3,7 @@
 import { SpanStatusCode, trace } from "@opentelemetry/api";
 import { err } from "../../telemetry";
 import type { Middleware, RequestContext } from "../types";
+import { extractGraphQLOperation } from "./graphqlOperation";
 
 const tracer = trace.getTracer("bun-server");
 
@@ -24,64 +25,6 @@ function getSpanName(request: Request, context: RequestContext): string {
   }
 }
 
-/**
- * Extract operation name from GraphQL query string
- * Handles: query OpName { }, mutation OpName { }, subscription OpName { }
- * Also handles: query OpName($var: Type) { }
- */
-function extractOperationNameFromQuery(query: string): string | undefined {
-  if (!query) return undefined;
-
-  // Match: query/mutation/subscription followed by optional operation name
-  // Patterns: "query OpName {", "query OpName(", "query {"
-  const operationMatch = query.match(/^\s*(?:query|mutation|subscription)\s+([A-Za-z_][A-Za-z0-9_]*)\s*[({]/);
-
-  if (operationMatch?.[1]) {
-    return operationMatch[1];
-  }
-
-  // Check for anonymous query with field name (e.g., "{ looks(...) }")
-  // Extract the first field name as a fallback
-  const fieldMatch = query.match(/^\s*(?:query|mutation|subscription)?\s*\{\s*([A-Za-z_][A-Za-z0-9_]*)/);
-  if (fieldMatch?.[1]) {
-    return fieldMatch[1];
-  }
-
-  return undefined;
-}
-
-/**
- * Extract GraphQL operation name from request body
- */
-async function extractGraphQLOperation(request: Request): Promise<{
-  operationName?: string;
-  query?: string;
-  variables?: Record<string, unknown>;
-} | null> {
-  if (request.method !== "POST") return null;
-
-  try {
-    const clonedRequest = request.clone();
-    const text = await clonedRequest.text();
-    if (!text) return null;
-
-    const body = JSON.parse(text);
-    if (body && typeof body === "object") {
-      // Use explicit operationName if provided, otherwise extract from query
-      const operationName = body.operationName || extractOperationNameFromQuery(body.query);
-
-      return {
-        operationName,
-        query: body.query,
-        variables: body.variables,
-      };
-    }
-  } catch {
-    // Ignore parsing errors
-  }
-  return null;
-}
-
 /**
  * OpenTelemetry tracing middleware.
  * Wraps handlers with trace spans and records attributes.
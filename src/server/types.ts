@@ -34,6 +34,9 @@ export interface WebSocketData {
   requestId: string;
   clientIp: string;
   connectedAt: number;
+  userAgent?: string;
+  // Negotiated Sec-WebSocket-Protocol (graphql-transport-ws)
+  protocol?: string;
 }
 
 // Pre-created static responses for zero-allocation
@@ -53,6 +56,11 @@ export const StaticResponses = {
     headers: { "Content-Type": "application/json" },
   }),
 
+  SERVICE_UNAVAILABLE: new Response(JSON.stringify({ error: "Service Unavailable" }), {
+    status: 503,
+    headers: { "Content-Type": "application/json" },
+  }),
+
   INTERNAL_ERROR: new Response(JSON.stringify({ error: "Internal Server Error" }), {
     status: 500,
     headers: { "Content-Type": "application/json" },
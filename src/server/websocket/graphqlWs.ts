@@ -0,0 +1,453 @@
+/* src/server/websocket/graphqlWs.ts - graphql-transport-ws protocol */
+
+import {
+  type DocumentNode,
+  type ExecutionResult,
+  GraphQLError,
+  type GraphQLFormattedError,
+  type GraphQLSchema,
+  getOperationAST,
+  parse,
+  specifiedRules,
+  subscribe,
+  type ValidationRule,
+  validate,
+} from "graphql";
+import { type PersistedQueryStore, resolvePersistedQuery } from "$lib/persistedQueries";
+import { chargeQueryCost, isQueryCostError, type QueryCostPluginOptions } from "$lib/queryCost";
+import type { GraphQLContext } from "../../graphql/context";
+import { debug, err } from "../../telemetry";
+
+/**
+ * Sub-protocol name negotiated on upgrade (graphql-ws library, not the legacy subscriptions-transport-ws)
+ */
+export const GRAPHQL_TRANSPORT_WS_PROTOCOL = "graphql-transport-ws";
+
+/**
+ * Close codes defined by the graphql-transport-ws protocol
+ */
+export const CloseCode = {
+  InternalServerError: 4500,
+  BadRequest: 4400,
+  Unauthorized: 4401,
+  Forbidden: 4403,
+  SubprotocolNotAcceptable: 4406,
+  ConnectionInitialisationTimeout: 4408,
+  SubscriberAlreadyExists: 4409,
+  TooManyInitialisationRequests: 4429,
+} as const;
+
+export const MessageType = {
+  ConnectionInit: "connection_init",
+  ConnectionAck: "connection_ack",
+  Ping: "ping",
+  Pong: "pong",
+  Subscribe: "subscribe",
+  Next: "next",
+  Error: "error",
+  Complete: "complete",
+} as const;
+
+interface SubscribePayload {
+  /** Omitted when the operation is sent by persisted query hash */
+  query?: string;
+  operationName?: string | null;
+  variables?: Record<string, unknown> | null;
+  extensions?: Record<string, unknown> | null;
+}
+
+type ClientMessage =
+  | { type: "connection_init"; payload?: Record<string, unknown> | null }
+  | { type: "ping"; payload?: Record<string, unknown> | null }
+  | { type: "pong"; payload?: Record<string, unknown> | null }
+  | { type: "subscribe"; id: string; payload: SubscribePayload }
+  | { type: "complete"; id: string };
+
+/**
+ * Minimal socket surface the protocol needs (implemented by Bun's ServerWebSocket)
+ */
+export interface ProtocolSocket {
+  send(data: string): unknown;
+  close(code?: number, reason?: string): unknown;
+}
+
+export interface GraphQLWsOptions {
+  schema: GraphQLSchema;
+  /** Build the resolver context for each operation */
+  context: (connectionParams: Record<string, unknown> | undefined) => GraphQLContext | Promise<GraphQLContext>;
+  /** Called on connection_init; throw to reject the connection with 4403 Forbidden */
+  onConnect?: (connectionParams: Record<string, unknown> | undefined) => void | Promise<void>;
+  /** Time allowed between socket open and connection_init (ms) */
+  connectionInitWaitTimeout?: number;
+  /** Extra validation rules applied on top of the GraphQL spec rules */
+  validationRules?: ValidationRule[];
+  /** Format errors sent in error/next frames (e.g. masking in production) */
+  formatError?: (error: GraphQLError) => GraphQLFormattedError;
+  /** Persisted query store; hash-only operations are looked up and the allowlist enforced, as over HTTP */
+  persistedQueries?: () => Promise<PersistedQueryStore>;
+  /** Cost limits; each operation is charged to the caller's budget before it runs, as over HTTP */
+  queryCost?: QueryCostPluginOptions;
+}
+
+/**
+ * Placeholder stored while a subscribe message is being set up, so a duplicate id
+ * arriving during parse/execute is still rejected.
+ */
+const RESERVED = Symbol("reserved");
+
+type OperationHandle = AsyncIterator<ExecutionResult> | typeof RESERVED;
+
+/**
+ * One graphql-transport-ws connection: handshake, keep-alive, and the lifecycle
+ * of every operation multiplexed over the socket.
+ */
+export class GraphQLWsConnection {
+  private initReceived = false;
+  private acknowledged = false;
+  private closed = false;
+  private connectionParams?: Record<string, unknown>;
+  private initTimer?: Timer;
+  private operations = new Map<string, OperationHandle>();
+
+  constructor(
+    private socket: ProtocolSocket,
+    private options: GraphQLWsOptions,
+    private connectionId: string
+  ) {}
+
+  /**
+   * Start the connection_init timeout; call when the socket opens
+   */
+  start(): void {
+    const timeout = this.options.connectionInitWaitTimeout ?? 3000;
+    this.initTimer = setTimeout(() => {
+      if (!this.acknowledged) {
+        this.close(CloseCode.ConnectionInitialisationTimeout, "Connection initialisation timeout");
+      }
+    }, timeout);
+  }
+
+  get isAcknowledged(): boolean {
+    return this.acknowledged;
+  }
+
+  get activeOperationCount(): number {
+    return this.operations.size;
+  }
+
+  /**
+   * Handle a raw frame from the client
+   */
+  async handleMessage(raw: string): Promise<void> {
+    if (this.closed) return;
+
+    const message = parseClientMessage(raw);
+    if (!message) {
+      this.close(CloseCode.BadRequest, "Invalid message received");
+      return;
+    }
+
+    switch (message.type) {
+      case MessageType.ConnectionInit:
+        await this.handleConnectionInit(message.payload ?? undefined);
+        return;
+      case MessageType.Ping:
+        this.send({ type: MessageType.Pong });
+        return;
+      case MessageType.Pong:
+        return;
+      case MessageType.Subscribe:
+        await this.handleSubscribe(message.id, message.payload);
+        return;
+      case MessageType.Complete:
+        await this.completeOperation(message.id);
+        return;
+    }
+  }
+
+  /**
+   * Release the init timer and stop every running operation
+   */
+  async dispose(): Promise<void> {
+    this.closed = true;
+    if (this.initTimer) {
+      clearTimeout(this.initTimer);
+      this.initTimer = undefined;
+    }
+
+    const handles = [...this.operations.values()];
+    this.operations.clear();
+    await Promise.allSettled(handles.map((handle) => (handle !== RESERVED ? handle.return?.() : undefined)));
+  }
+
+  private async handleConnectionInit(payload: Record<string, unknown> | undefined): Promise<void> {
+    if (this.initReceived) {
+      this.close(CloseCode.TooManyInitialisationRequests, "Too many initialisation requests");
+      return;
+    }
+    this.initReceived = true;
+
+    try {
+      await this.options.onConnect?.(payload);
+    } catch (error) {
+      debug("WebSocket connection rejected", {
+        connectionId: this.connectionId,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      this.close(CloseCode.Forbidden, "Forbidden");
+      return;
+    }
+
+    if (this.closed) return;
+
+    if (this.initTimer) {
+      clearTimeout(this.initTimer);
+      this.initTimer = undefined;
+    }
+    this.connectionParams = payload;
+    this.acknowledged = true;
+    this.send({ type: MessageType.ConnectionAck });
+  }
+
+  private async handleSubscribe(id: string, payload: SubscribePayload): Promise<void> {
+    if (!this.acknowledged) {
+      this.close(CloseCode.Unauthorized, "Unauthorized");
+      return;
+    }
+
+    if (this.operations.has(id)) {
+      this.close(CloseCode.SubscriberAlreadyExists, `Subscriber for ${id} already exists`);
+      return;
+    }
+    this.operations.set(id, RESERVED);
+
+    try {
+      let query: string | undefined;
+      try {
+        query = this.options.persistedQueries
+          ? await resolvePersistedQuery(this.options.persistedQueries, {
+              query: payload.query,
+              extensions: payload.extensions ?? undefined,
+            })
+          : payload.query;
+      } catch (error) {
+        // Not found / not allowed are answers to the client; anything else is a server failure
+        if (!(error instanceof GraphQLError)) throw error;
+        this.sendErrors(id, [error]);
+        return;
+      }
+      if (!query) {
+        this.sendErrors(id, [new GraphQLError("Must provide query string.")]);
+        return;
+      }
+
+      let document: DocumentNode;
+      try {
+        document = parse(query);
+      } catch (error) {
+        this.sendErrors(id, [error instanceof GraphQLError ? error : new GraphQLError(String(error))]);
+        return;
+      }
+
+      const validationErrors = validate(this.options.schema, document, [
+        ...specifiedRules,
+        ...(this.options.validationRules ?? []),
+      ]);
+      if (validationErrors.length > 0) {
+        this.sendErrors(id, validationErrors);
+        return;
+      }
+
+      const operation = getOperationAST(document, payload.operationName ?? undefined);
+      if (!operation) {
+        this.sendErrors(id, [new GraphQLError("Unable to identify operation")]);
+        return;
+      }
+      // Queries and mutations go over HTTP, where the per-operation rate limits apply
+      if (operation.operation !== "subscription") {
+        this.sendErrors(id, [
+          new GraphQLError(
+            `Only subscriptions are accepted over WebSocket; send ${operation.operation}s to /graphql.`,
+            {
+              extensions: { code: "BAD_REQUEST" },
+            }
+          ),
+        ]);
+        return;
+      }
+
+      const contextValue = await this.options.context(this.connectionParams);
+
+      if (this.options.queryCost) {
+        try {
+          chargeQueryCost(this.options.queryCost, document, payload.operationName, payload.variables, contextValue);
+        } catch (error) {
+          if (!isQueryCostError(error)) throw error;
+          this.sendErrors(id, [error as GraphQLError]);
+          return;
+        }
+      }
+
+      const args = {
+        schema: this.options.schema,
+        document,
+        operationName: payload.operationName ?? undefined,
+        variableValues: payload.variables ?? undefined,
+        contextValue,
+      };
+
+      debug("WebSocket operation started", {
+        connectionId: this.connectionId,
+        id,
+        operationName: payload.operationName || operation.name?.value,
+        requestId: contextValue.requestId,
+      });
+
+      const result = await subscribe(args);
+      if (!isAsyncIterable(result)) {
+        // Subscription setup failed (e.g. argument validation) - errors go out as an error frame
+        this.sendErrors(id, result.errors ?? [new GraphQLError("Subscription failed")]);
+        return;
+      }
+
+      const iterator = result[Symbol.asyncIterator]();
+
+      // Client may have completed the operation while subscribe() was pending
+      if (this.operations.get(id) !== RESERVED) {
+        await iterator.return?.();
+        return;
+      }
+      this.operations.set(id, iterator);
+
+      await this.pump(id, iterator);
+    } catch (error) {
+      err("WebSocket operation failed", error, {
+        connectionId: this.connectionId,
+        id,
+      });
+      if (this.operations.has(id)) {
+        this.sendErrors(id, [error instanceof GraphQLError ? error : new GraphQLError("Internal server error")]);
+      }
+    } finally {
+      if (this.operations.get(id) === RESERVED) {
+        this.operations.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Forward subscription results until the source ends or the client completes
+   */
+  private async pump(id: string, iterator: AsyncIterator<ExecutionResult>): Promise<void> {
+    try {
+      while (true) {
+        const { value, done } = await iterator.next();
+        if (done || this.operations.get(id) !== iterator) break;
+        this.send({ id, type: MessageType.Next, payload: this.formatResult(value) });
+      }
+
+      if (this.operations.get(id) === iterator) {
+        this.operations.delete(id);
+        this.send({ id, type: MessageType.Complete });
+      }
+    } catch (error) {
+      // A failing source ends only this subscription, not the connection
+      if (this.operations.get(id) === iterator) {
+        this.operations.delete(id);
+        this.sendErrors(id, [error instanceof GraphQLError ? error : new GraphQLError("Subscription source failed")]);
+      }
+      err("WebSocket subscription source failed", error, {
+        connectionId: this.connectionId,
+        id,
+      });
+    }
+  }
+
+  private async completeOperation(id: string): Promise<void> {
+    const handle = this.operations.get(id);
+    if (!handle) return;
+
+    this.operations.delete(id);
+    if (handle !== RESERVED) {
+      await handle.return?.();
+    }
+
+    debug("WebSocket operation completed by client", {
+      connectionId: this.connectionId,
+      id,
+    });
+  }
+
+  private formatResult(result: ExecutionResult): Record<string, unknown> {
+    const formatted: Record<string, unknown> = { data: result.data ?? null };
+    if (result.errors?.length) {
+      formatted.errors = result.errors.map((error) => this.formatError(error));
+    }
+    return formatted;
+  }
+
+  private formatError(error: GraphQLError): GraphQLFormattedError {
+    return this.options.formatError ? this.options.formatError(error) : error.toJSON();
+  }
+
+  private sendErrors(id: string, errors: readonly GraphQLError[]): void {
+    this.operations.delete(id);
+    this.send({ id, type: MessageType.Error, payload: errors.map((error) => this.formatError(error)) });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.closed) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private close(code: number, reason: string): void {
+    if (this.closed) return;
+    this.socket.close(code, reason);
+    void this.dispose();
+  }
+}
+
+/**
+ * Parse and shape-check a client frame; returns null for anything the protocol does not allow
+ */
+function parseClientMessage(raw: string): ClientMessage | null {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!message || typeof message !== "object" || typeof message.type !== "string") {
+    return null;
+  }
+
+  const hasObjectPayload = (value: unknown) => value === undefined || value === null || typeof value === "object";
+
+  switch (message.type) {
+    case MessageType.ConnectionInit:
+    case MessageType.Ping:
+    case MessageType.Pong:
+      return hasObjectPayload(message.payload) ? message : null;
+    case MessageType.Subscribe:
+      return typeof message.id === "string" &&
+        message.id.length > 0 &&
+        message.payload &&
+        (typeof message.payload.query === "string" ||
+          (message.payload.query === undefined && isObject(message.payload.extensions)))
+        ? message
+        : null;
+    case MessageType.Complete:
+      return typeof message.id === "string" && message.id.length > 0 ? message : null;
+    default:
+      return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return typeof (value as AsyncIterable<T>)?.[Symbol.asyncIterator] === "function";
+}
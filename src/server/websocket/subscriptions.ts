@@ -1,12 +1,32 @@
 /* src/server/websocket/subscriptions.ts */
 
-import type { ServerWebSocket } from "bun";
+import type { Server, ServerWebSocket } from "bun";
+import depthLimit from "graphql-depth-limit";
+import { type AuthenticatedUser, authenticateAuthorization } from "$lib/auth";
+import { isPersistedQueryError } from "$lib/persistedQueries";
+import { isQueryCostError } from "$lib/queryCost";
+import { config } from "../../config";
+import { createWebSocketContext } from "../../graphql/context";
+import { toClientAuthError } from "../../graphql/errors";
+import { schema } from "../../graphql/schema";
 import { debug, err } from "../../telemetry";
+import { getPersistedQueryStore, queryCostOptions } from "../handlers/graphql";
 import { activeConnections } from "../middleware/logging";
-import type { WebSocketData } from "../types";
+import { StaticResponses, type WebSocketData } from "../types";
+import { CloseCode, GRAPHQL_TRANSPORT_WS_PROTOCOL, GraphQLWsConnection } from "./graphqlWs";
 
 /**
- * WebSocket handlers for GraphQL subscriptions.
+ * Error codes whose message is meant for the client, even in production
+ */
+const CLIENT_ERROR_CODES = new Set(["BAD_USER_INPUT", "BAD_REQUEST"]);
+
+/**
+ * Protocol state per open socket
+ */
+const connections = new WeakMap<ServerWebSocket<WebSocketData>, GraphQLWsConnection>();
+
+/**
+ * WebSocket handlers for GraphQL subscriptions (graphql-transport-ws).
  * These are passed directly to Bun.serve() websocket option.
  */
 export const websocketHandlers = {
@@ -14,36 +34,17 @@ export const websocketHandlers = {
    * Handle incoming WebSocket message
    */
   message(ws: ServerWebSocket<WebSocketData>, message: string | Buffer) {
-    try {
-      const data = JSON.parse(message.toString());
-
-      // Handle GraphQL over WebSocket protocol
-      if (data.type === "connection_init") {
-        ws.send(JSON.stringify({ type: "connection_ack" }));
-      } else if (data.type === "start") {
-        // GraphQL subscription started
-        debug("GraphQL subscription started", {
-          id: data.id,
-          operationType: "subscription",
-          requestId: ws.data.requestId,
-        });
-      } else if (data.type === "stop") {
-        // GraphQL subscription stopped
-        debug("GraphQL subscription stopped", {
-          id: data.id,
-          operationType: "subscription",
-          requestId: ws.data.requestId,
-        });
-      }
-    } catch (error) {
-      err("WebSocket message handling error", error);
-      ws.send(
-        JSON.stringify({
-          type: "error",
-          payload: { message: "Invalid message format" },
-        })
-      );
+    const connection = connections.get(ws);
+    if (!connection) {
+      ws.close(CloseCode.InternalServerError, "Connection not initialised");
+      return;
     }
+
+    connection.handleMessage(message.toString()).catch((error) => {
+      err("WebSocket message handling error", error, {
+        requestId: ws.data.requestId,
+      });
+    });
   },
 
   /**
@@ -54,7 +55,41 @@ export const websocketHandlers = {
     debug("WebSocket connection opened", {
       requestId: ws.data.requestId,
       clientIp: ws.data.clientIp,
+      protocol: ws.data.protocol,
     });
+
+    if (ws.data.protocol && ws.data.protocol !== GRAPHQL_TRANSPORT_WS_PROTOCOL) {
+      ws.close(CloseCode.SubprotocolNotAcceptable, "Subprotocol not acceptable");
+      return;
+    }
+
+    // Browsers cannot set headers on WebSocket upgrades, so the token arrives in connection_init
+    let user: AuthenticatedUser | undefined;
+
+    const connection = new GraphQLWsConnection(
+      ws,
+      {
+        schema,
+        onConnect: async (params) => {
+          user = await authenticateAuthorization(getConnectionAuthorization(params));
+        },
+        context: () => createWebSocketContext({ clientIp: ws.data.clientIp, userAgent: ws.data.userAgent, user }),
+        validationRules: [depthLimit(10)],
+        persistedQueries: getPersistedQueryStore,
+        queryCost: queryCostOptions,
+        formatError: (error) => {
+          const authError = toClientAuthError(error);
+          if (authError) return authError.toJSON();
+          if (isPersistedQueryError(error) || isQueryCostError(error)) return error.toJSON();
+          return config.runtime.NODE_ENV === "production" && !CLIENT_ERROR_CODES.has(String(error.extensions?.code))
+            ? { message: "Unexpected error.", locations: error.locations, path: error.path }
+            : error.toJSON();
+        },
+      },
+      ws.data.requestId
+    );
+    connections.set(ws, connection);
+    connection.start();
   },
 
   /**
@@ -62,10 +97,19 @@ export const websocketHandlers = {
    */
   close(ws: ServerWebSocket<WebSocketData>, code: number, reason: string) {
     activeConnections.add(-1);
+
+    const connection = connections.get(ws);
+    const activeOperations = connection?.activeOperationCount ?? 0;
+    connections.delete(ws);
+    connection?.dispose().catch((error) => {
+      err("WebSocket subscription cleanup error", error, { requestId: ws.data.requestId });
+    });
+
     debug("WebSocket connection closed", {
       requestId: ws.data.requestId,
       code,
       reason,
+      activeOperations,
       connectionDuration: Date.now() - ws.data.connectedAt,
     });
   },
@@ -81,6 +125,19 @@ export const websocketHandlers = {
   },
 };
 
+/**
+ * Read the Authorization value from connection_init params.
+ * Accepts { authorization }, { Authorization } or { headers: { Authorization } }.
+ */
+function getConnectionAuthorization(params: Record<string, unknown> | undefined): string | undefined {
+  if (!params) return undefined;
+
+  const headers =
+    params.headers && typeof params.headers === "object" ? (params.headers as Record<string, unknown>) : {};
+  const value = params.authorization ?? params.Authorization ?? headers.authorization ?? headers.Authorization;
+  return typeof value === "string" ? value : undefined;
+}
+
 /**
  * Check if request should be upgraded to WebSocket
  */
@@ -90,3 +147,44 @@ export function shouldUpgradeWebSocket(request: Request): boolean {
 
   return upgrade?.toLowerCase() === "websocket" && url.pathname === "/graphql";
 }
+
+/**
+ * Upgrade a GraphQL WebSocket handshake. Runs inside the "/graphql" GET route,
+ * which Bun matches before its fetch fallback. Returns undefined once upgraded.
+ */
+export function upgradeWebSocket(
+  request: Request,
+  server: Server<WebSocketData>,
+  context: { requestId: string; clientIp: string }
+): Response | undefined {
+  const protocol = negotiateSubprotocol(request);
+  const data: WebSocketData = {
+    requestId: context.requestId,
+    clientIp: context.clientIp,
+    connectedAt: Date.now(),
+    userAgent: request.headers.get("user-agent") ?? undefined,
+    protocol,
+  };
+
+  const upgraded = server.upgrade(request, {
+    data,
+    headers: protocol ? { "Sec-WebSocket-Protocol": protocol } : undefined,
+  });
+  return upgraded ? undefined : StaticResponses.WS_UPGRADE_FAILED;
+}
+
+/**
+ * Pick the sub-protocol to echo back on upgrade.
+ * Returns the first offered protocol when graphql-transport-ws is not among them,
+ * so the connection can be closed with 4406 once open.
+ */
+export function negotiateSubprotocol(request: Request): string | undefined {
+  const offered = request.headers
+    .get("sec-websocket-protocol")
+    ?.split(",")
+    .map((protocol) => protocol.trim())
+    .filter(Boolean);
+
+  if (!offered?.length) return undefined;
+  return offered.includes(GRAPHQL_TRANSPORT_WS_PROTOCOL) ? GRAPHQL_TRANSPORT_WS_PROTOCOL : offered[0];
+}
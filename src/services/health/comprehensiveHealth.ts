@@ -2,6 +2,7 @@
 // Comprehensive health check orchestrator - matches reference format exactly
 
 import config from "$config";
+import { cacheWarmer } from "$lib/cacheWarmup";
 import { err } from "../../telemetry";
 import { cacheHealthService } from "./cacheHealth";
 import { couchbaseHealthService } from "./couchbaseHealth";
@@ -114,6 +115,7 @@ export class ComprehensiveHealthService {
       couchbase: { ready: false },
       cache: { ready: false },
       telemetry: { ready: false },
+      cacheWarmup: { ready: false, state: "disabled", completed: 0, total: 0 },
     };
 
     try {
@@ -153,8 +155,17 @@ export class ComprehensiveHealthService {
       };
     }
 
-    // Overall ready if Couchbase is ready (primary dependency)
-    const ready = checks.couchbase.ready;
+    // Boot-time cache warm-up holds readiness until it finishes or times out
+    const warmup = cacheWarmer.getStatus();
+    checks.cacheWarmup = {
+      ready: cacheWarmer.isReady(),
+      state: warmup.state,
+      completed: warmup.succeeded + warmup.failed,
+      total: warmup.total,
+    };
+
+    // Overall ready if Couchbase is ready (primary dependency) and warm-up is done
+    const ready = checks.couchbase.ready && checks.cacheWarmup.ready;
 
     return {
       ready,
@@ -1,6 +1,8 @@
 /* src/services/health/types.ts */
 // Health check types matching reference pattern EXACTLY
 
+import type { CacheWarmupState } from "$lib/cacheWarmup";
+
 // ============================================================================
 // Core Health Status Types
 // ============================================================================
@@ -117,6 +119,7 @@ export interface ReadinessCheckResponse {
     couchbase: { ready: boolean; latency?: string; error?: string };
     cache: { ready: boolean; error?: string };
     telemetry: { ready: boolean; error?: string };
+    cacheWarmup: { ready: boolean; state: CacheWarmupState; completed: number; total: number };
   };
   requestId: string;
 }
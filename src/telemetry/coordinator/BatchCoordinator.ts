@@ -1,35 +1,73 @@
-import type { LogRecord } from "@opentelemetry/api-logs";
-import type { MetricData } from "@opentelemetry/sdk-metrics";
-import type { SpanData } from "@opentelemetry/sdk-trace-base";
+import { ExportResultCode, type ExportResult as OTLPExportResult } from "@opentelemetry/core";
+import type { ReadableLogRecord } from "@opentelemetry/sdk-logs";
+import type { ResourceMetrics } from "@opentelemetry/sdk-metrics";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
 import config from "$config";
 import { getErrorMessage } from "$utils/errorUtils";
-import { log } from "../winston-logger";
+import { BunLogExporter } from "../exporters/BunLogExporter";
+import { BunMetricExporter } from "../exporters/BunMetricExporter";
+import { BunTraceExporter } from "../exporters/BunTraceExporter";
+import { closeTelemetrySpool, getTelemetrySpool, SpooledExportError } from "../spool/TelemetrySpool";
+import {
+  canExecuteSignal,
+  recordSignalFailure,
+  recordSignalSuccess,
+  type TelemetrySignal,
+} from "../telemetry-circuit-breaker";
+import { log, warn } from "../winston-logger";
 
 // Batch data types for coordinated exports
 interface TelemetryBatch {
-  traces: SpanData[];
-  metrics: MetricData[];
-  logs: LogRecord[];
+  traces: ReadableSpan[];
+  metrics: ResourceMetrics[];
+  logs: ReadableLogRecord[];
   timestamp: number;
   batchId: string;
 }
 
+/**
+ * The exporters each signal's share of a batch is sent through
+ */
+export interface BatchCoordinatorExporters {
+  traces: BunTraceExporter;
+  metrics: BunMetricExporter;
+  logs: BunLogExporter;
+}
+
+interface SignalExporter<T> {
+  export(items: T[], resultCallback: (result: OTLPExportResult) => void): Promise<void>;
+  spoolItems(items: T[]): boolean;
+}
+
 interface BatchCoordinatorConfig {
   batchInterval: number;
   maxBatchSize: number;
   exportTimeout: number;
-  maxRetries: number;
+  maxRetries: number; // Flushes a failed signal's items are retried in before they are dropped
   retryBackoff: number;
   maxMemoryMB: number;
   memoryPressureThreshold: number; // Percentage (0-1) of heap usage to trigger emergency flush
   emergencyFlushThreshold: number; // Percentage (0-1) of max memory to trigger data dropping
 }
 
+interface SignalExportResult {
+  signal: TelemetrySignal;
+  success: boolean;
+  // False when the signal's circuit breaker was open and nothing was sent
+  attempted: boolean;
+  // The batch went to the disk spool, which now owns its retry
+  spooled: boolean;
+  exportedCount: number;
+  duration: number;
+  error?: string;
+}
+
 interface ExportResult {
   success: boolean;
   exportedCount: number;
   duration: number;
   error?: string;
+  signals: SignalExportResult[];
 }
 
 interface ExportStatistics {
@@ -43,6 +81,8 @@ interface ExportStatistics {
   lastExportTime: number;
   emergencyFlushCount: number;
   dataDropCount: number;
+  requeuedCount: number; // Items put back for retry after a failed or skipped export
+  spooledCount: number; // Items handed to the disk spool instead
   currentMemoryUsageMB: number;
   maxMemorySeenMB: number;
 }
@@ -56,13 +96,17 @@ interface MemoryPressureInfo {
 }
 
 export class TelemetryBatchCoordinator {
-  private traceBuffer: SpanData[] = [];
-  private metricBuffer: MetricData[] = [];
-  private logBuffer: LogRecord[] = [];
+  private traceBuffer: ReadableSpan[] = [];
+  private metricBuffer: ResourceMetrics[] = [];
+  private logBuffer: ReadableLogRecord[] = [];
+
+  // Consecutive failed exports per signal; reset by a successful export
+  private retryAttempts: Record<TelemetrySignal, number> = { traces: 0, metrics: 0, logs: 0 };
 
   private batchTimer: Timer | null = null;
   private memoryCheckTimer: Timer | null = null;
   private isExporting = false;
+  private currentExport: Promise<void> | null = null;
   private isShutdown = false;
 
   // Memory management tracking
@@ -82,13 +126,18 @@ export class TelemetryBatchCoordinator {
     lastExportTime: 0,
     emergencyFlushCount: 0,
     dataDropCount: 0,
+    requeuedCount: 0,
+    spooledCount: 0,
     currentMemoryUsageMB: 0,
     maxMemorySeenMB: 0,
   };
 
   private readonly config: BatchCoordinatorConfig;
 
-  constructor(config?: Partial<BatchCoordinatorConfig>) {
+  constructor(
+    private readonly exporters: BatchCoordinatorExporters,
+    config?: Partial<BatchCoordinatorConfig>
+  ) {
     this.config = {
       batchInterval: config?.batchInterval || 5000, // 5 seconds
       maxBatchSize: config?.maxBatchSize || 1000,
@@ -116,7 +165,7 @@ export class TelemetryBatchCoordinator {
   }
 
   // Add telemetry data to buffers with memory management
-  addSpans(spans: SpanData[]): void {
+  addSpans(spans: ReadableSpan[]): void {
     if (this.isShutdown || spans.length === 0) return;
 
     const spanSize = this.estimateSpanArraySize(spans);
@@ -145,7 +194,7 @@ export class TelemetryBatchCoordinator {
     }
   }
 
-  addMetrics(metrics: MetricData[]): void {
+  addMetrics(metrics: ResourceMetrics[]): void {
     if (this.isShutdown || metrics.length === 0) return;
 
     const metricsSize = this.estimateMetricArraySize(metrics);
@@ -173,7 +222,7 @@ export class TelemetryBatchCoordinator {
     }
   }
 
-  addLogs(logs: LogRecord[]): void {
+  addLogs(logs: ReadableLogRecord[]): void {
     if (this.isShutdown || logs.length === 0) return;
 
     const logsSize = this.estimateLogArraySize(logs);
@@ -204,7 +253,19 @@ export class TelemetryBatchCoordinator {
   // Coordinated batch flush
   async flushBatch(): Promise<void> {
     if (this.isExporting || this.isShutdown) return;
+    await this.runExport();
+  }
 
+  private async runExport(): Promise<void> {
+    this.currentExport = this.exportBuffers();
+    try {
+      await this.currentExport;
+    } finally {
+      this.currentExport = null;
+    }
+  }
+
+  private async exportBuffers(): Promise<void> {
     // Check if we have data to export
     const hasData = this.traceBuffer.length > 0 || this.metricBuffer.length > 0 || this.logBuffer.length > 0;
 
@@ -247,6 +308,18 @@ export class TelemetryBatchCoordinator {
       const exportResult = await this.executeCoordinatedExport(batch);
       const duration = Date.now() - startTime;
 
+      // A failed signal's items go back to the front of its buffer for the next flush
+      for (const result of exportResult.signals) {
+        if (result.success) {
+          this.retryAttempts[result.signal] = 0;
+        } else if (result.spooled) {
+          this.retryAttempts[result.signal] = 0;
+          this.statistics.spooledCount += batch[result.signal].length;
+        } else {
+          this.requeue(result.signal, batch[result.signal], result.attempted);
+        }
+      }
+
       // Update statistics
       this.updateStatistics(exportResult, duration);
 
@@ -259,148 +332,170 @@ export class TelemetryBatchCoordinator {
       const duration = Date.now() - startTime;
       console.error(`Batch ${batchId} export error:`, error);
 
-      this.updateStatistics({ success: false, exportedCount: 0, duration, error: getErrorMessage(error) }, duration);
+      this.updateStatistics(
+        { success: false, exportedCount: 0, duration, error: getErrorMessage(error), signals: [] },
+        duration
+      );
     } finally {
       this.isExporting = false;
     }
   }
 
   private async executeCoordinatedExport(batch: TelemetryBatch): Promise<ExportResult> {
-    const exports: Promise<ExportResult>[] = [];
-    let totalExported = 0;
+    const exports: Promise<SignalExportResult>[] = [];
 
-    try {
-      // Export traces if available
-      if (batch.traces.length > 0) {
-        exports.push(this.exportTraces(batch.traces, batch.batchId));
-      }
-
-      // Export metrics if available
-      if (batch.metrics.length > 0) {
-        exports.push(this.exportMetrics(batch.metrics, batch.batchId));
-      }
-
-      // Export logs if available
-      if (batch.logs.length > 0) {
-        exports.push(this.exportLogs(batch.logs, batch.batchId));
-      }
+    // Export traces if available
+    if (batch.traces.length > 0) {
+      exports.push(this.exportSignal("traces", this.exporters.traces, batch.traces, batch.batchId));
+    }
 
-      // Execute all exports in parallel with shared timeout
-      const results = await Promise.race([Promise.allSettled(exports), this.timeout(this.config.exportTimeout)]);
+    // Export metrics if available
+    if (batch.metrics.length > 0) {
+      exports.push(this.exportSignal("metrics", this.exporters.metrics, batch.metrics, batch.batchId));
+    }
 
-      if (results === "timeout") {
-        throw new Error(`Batch export timeout after ${this.config.exportTimeout}ms`);
-      }
+    // Export logs if available
+    if (batch.logs.length > 0) {
+      exports.push(this.exportSignal("logs", this.exporters.logs, batch.logs, batch.batchId));
+    }
 
-      // Process results
-      let allSuccessful = true;
-      const errors: string[] = [];
-
-      (results as PromiseSettledResult<ExportResult>[]).forEach((result, _index) => {
-        if (result.status === "fulfilled") {
-          if (result.value.success) {
-            totalExported += result.value.exportedCount;
-          } else {
-            allSuccessful = false;
-            errors.push(result.value.error || "Unknown export error");
-          }
-        } else {
-          allSuccessful = false;
-          errors.push(result.reason?.message || "Export rejected");
-        }
-      });
+    // Signals export in parallel; each one settles on its own within the export timeout
+    const signals = await Promise.all(exports);
+    const errors = signals.flatMap((result) => (result.error ? [`${result.signal}: ${result.error}`] : []));
 
-      return {
-        success: allSuccessful,
-        exportedCount: totalExported,
-        duration: Date.now() - batch.timestamp,
-        error: errors.length > 0 ? errors.join("; ") : undefined,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        exportedCount: totalExported,
-        duration: Date.now() - batch.timestamp,
-        error: error instanceof Error ? error.message : String(error),
-      };
-    }
+    return {
+      success: signals.every((result) => result.success),
+      exportedCount: signals.reduce((sum, result) => sum + result.exportedCount, 0),
+      duration: Date.now() - batch.timestamp,
+      error: errors.length > 0 ? errors.join("; ") : undefined,
+      signals,
+    };
   }
 
-  private async exportTraces(spans: SpanData[], batchId: string): Promise<ExportResult> {
+  /**
+   * Send one signal's items through its exporter, guarded by the signal's
+   * circuit breaker. Never rejects; failures are reported in the result.
+   */
+  private async exportSignal<T>(
+    signal: TelemetrySignal,
+    exporter: SignalExporter<T>,
+    items: T[],
+    batchId: string
+  ): Promise<SignalExportResult> {
     const startTime = Date.now();
 
-    try {
-      // Simulate trace export - in real implementation, this would use actual OTLP exporters
-      console.debug(`Exporting ${spans.length} traces for batch ${batchId}`);
-
-      // For now, we'll simulate successful export
-      // In real implementation: await this.traceExporter.export(spans);
-
-      return {
-        success: true,
-        exportedCount: spans.length,
-        duration: Date.now() - startTime,
-      };
-    } catch (error) {
+    if (!canExecuteSignal(signal)) {
+      // Keep the batch on disk rather than in memory while the circuit stays open
+      const spooled = exporter.spoolItems(items);
       return {
+        signal,
         success: false,
+        attempted: false,
+        spooled,
         exportedCount: 0,
-        duration: Date.now() - startTime,
-        error: error instanceof Error ? error.message : String(error),
+        duration: 0,
+        error: spooled ? "circuit breaker is open; batch spooled" : "circuit breaker is open",
       };
     }
-  }
 
-  private async exportMetrics(metrics: MetricData[], batchId: string): Promise<ExportResult> {
-    const startTime = Date.now();
+    if (process.env.DEBUG_OTEL_EXPORTERS === "true") {
+      console.debug(`Exporting ${items.length} ${signal} for batch ${batchId}`);
+    }
 
     try {
-      console.debug(`Exporting ${metrics.length} metrics for batch ${batchId}`);
-
-      // Simulate metric export
-      // In real implementation: await this.metricExporter.export(metrics);
+      const result = await this.withTimeout(
+        new Promise<OTLPExportResult>((resolve) => {
+          exporter.export(items, resolve).catch((error) => {
+            resolve({ code: ExportResultCode.FAILED, error });
+          });
+        }),
+        this.config.exportTimeout
+      );
+
+      if (result === "timeout") {
+        throw new Error(`export timeout after ${this.config.exportTimeout}ms`);
+      }
+      if (result.code !== ExportResultCode.SUCCESS) {
+        throw result.error ?? new Error("export failed");
+      }
 
+      recordSignalSuccess(signal);
       return {
+        signal,
         success: true,
-        exportedCount: metrics.length,
+        attempted: true,
+        spooled: false,
+        exportedCount: items.length,
         duration: Date.now() - startTime,
       };
     } catch (error) {
+      recordSignalFailure(signal);
       return {
+        signal,
         success: false,
+        attempted: true,
+        spooled: error instanceof SpooledExportError,
         exportedCount: 0,
         duration: Date.now() - startTime,
-        error: error instanceof Error ? error.message : String(error),
+        error: getErrorMessage(error),
       };
     }
   }
 
-  private async exportLogs(logs: LogRecord[], batchId: string): Promise<ExportResult> {
-    const startTime = Date.now();
+  /**
+   * Put a failed signal's items back at the front of its buffer.
+   * Items that have failed maxRetries exports in a row are dropped; a skipped
+   * export (circuit open) doesn't count as an attempt.
+   */
+  private requeue(signal: TelemetrySignal, items: unknown[], attempted: boolean): void {
+    if (items.length === 0) return;
 
-    try {
-      console.debug(`Exporting ${logs.length} logs for batch ${batchId}`);
+    if (attempted) {
+      this.retryAttempts[signal]++;
+    }
 
-      // Simulate log export
-      // In real implementation: await this.logExporter.export(logs);
+    if (this.retryAttempts[signal] > this.config.maxRetries) {
+      this.retryAttempts[signal] = 0;
+      this.statistics.dataDropCount += items.length;
+      warn("Telemetry batch dropped after repeated export failures", {
+        component: "batch-coordinator",
+        signal,
+        droppedItems: items.length,
+        maxRetries: this.config.maxRetries,
+      });
+      return;
+    }
 
-      return {
-        success: true,
-        exportedCount: logs.length,
-        duration: Date.now() - startTime,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        exportedCount: 0,
-        duration: Date.now() - startTime,
-        error: error instanceof Error ? error.message : String(error),
-      };
+    switch (signal) {
+      case "traces":
+        this.traceBuffer.unshift(...(items as ReadableSpan[]));
+        this.currentMemoryUsage += this.estimateSpanArraySize(items as ReadableSpan[]);
+        break;
+      case "metrics":
+        this.metricBuffer.unshift(...(items as ResourceMetrics[]));
+        this.currentMemoryUsage += this.estimateMetricArraySize(items as ResourceMetrics[]);
+        break;
+      case "logs":
+        this.logBuffer.unshift(...(items as ReadableLogRecord[]));
+        this.currentMemoryUsage += this.estimateLogArraySize(items as ReadableLogRecord[]);
+        break;
     }
+    this.statistics.requeuedCount += items.length;
+    this.updateMemoryStats();
   }
 
-  private timeout(ms: number): Promise<"timeout"> {
-    return new Promise((resolve) => setTimeout(() => resolve("timeout"), ms));
+  private async withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | "timeout"> {
+    let timer: Timer | undefined;
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<"timeout">((resolve) => {
+          timer = setTimeout(() => resolve("timeout"), ms);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private generateBatchId(): string {
@@ -413,11 +508,18 @@ export class TelemetryBatchCoordinator {
 
     if (result.success) {
       this.statistics.successfulBatches++;
-      this.statistics.totalSpansExported += result.exportedCount;
     } else {
       this.statistics.failedBatches++;
     }
 
+    // Signals that succeeded count even when another signal of the batch failed
+    for (const signal of result.signals) {
+      if (!signal.success) continue;
+      if (signal.signal === "traces") this.statistics.totalSpansExported += signal.exportedCount;
+      if (signal.signal === "metrics") this.statistics.totalMetricsExported += signal.exportedCount;
+      if (signal.signal === "logs") this.statistics.totalLogsExported += signal.exportedCount;
+    }
+
     // Update average duration
     const totalDuration = this.statistics.averageExportDuration * (this.statistics.totalBatches - 1) + duration;
     this.statistics.averageExportDuration = totalDuration / this.statistics.totalBatches;
@@ -432,6 +534,7 @@ export class TelemetryBatchCoordinator {
     traces: number;
     metrics: number;
     logs: number;
+    retryAttempts: Record<TelemetrySignal, number>;
     memoryUsageMB: number;
     memoryPressure: MemoryPressureInfo;
   } {
@@ -439,6 +542,7 @@ export class TelemetryBatchCoordinator {
       traces: this.traceBuffer.length,
       metrics: this.metricBuffer.length,
       logs: this.logBuffer.length,
+      retryAttempts: { ...this.retryAttempts },
       memoryUsageMB: this.currentMemoryUsage / (1024 * 1024),
       memoryPressure: this.checkMemoryPressure(),
     };
@@ -446,6 +550,10 @@ export class TelemetryBatchCoordinator {
 
   async forceFlush(): Promise<void> {
     console.debug("Force flushing telemetry batch coordinator");
+    // Let an export already in flight finish so this flush sees what it requeued
+    if (this.currentExport) {
+      await this.currentExport;
+    }
     await this.flushBatch();
   }
 
@@ -463,10 +571,11 @@ export class TelemetryBatchCoordinator {
       this.memoryCheckTimer = null;
     }
 
-    // Final flush before shutdown
-    if (!this.isExporting) {
-      await this.flushBatch();
+    // Final flush before shutdown; flushBatch() refuses once isShutdown is set
+    if (this.currentExport) {
+      await this.currentExport;
     }
+    await this.runExport();
 
     log("Telemetry batch coordinator shutdown complete", {
       component: "batch-coordinator",
@@ -674,7 +783,7 @@ export class TelemetryBatchCoordinator {
   /**
    * Estimate memory usage of span array
    */
-  private estimateSpanArraySize(spans: SpanData[]): number {
+  private estimateSpanArraySize(spans: ReadableSpan[]): number {
     if (spans.length === 0) return 0;
 
     // Rough estimation: each span ~2KB on average
@@ -684,7 +793,7 @@ export class TelemetryBatchCoordinator {
   /**
    * Estimate memory usage of metric array
    */
-  private estimateMetricArraySize(metrics: MetricData[]): number {
+  private estimateMetricArraySize(metrics: ResourceMetrics[]): number {
     if (metrics.length === 0) return 0;
 
     // Rough estimation: each metric ~1KB on average
@@ -694,7 +803,7 @@ export class TelemetryBatchCoordinator {
   /**
    * Estimate memory usage of log array
    */
-  private estimateLogArraySize(logs: LogRecord[]): number {
+  private estimateLogArraySize(logs: ReadableLogRecord[]): number {
     if (logs.length === 0) return 0;
 
     // Rough estimation: each log entry ~512B on average
@@ -707,11 +816,25 @@ let batchCoordinator: TelemetryBatchCoordinator | null = null;
 
 export function getBatchCoordinator(): TelemetryBatchCoordinator {
   if (!batchCoordinator) {
-    batchCoordinator = new TelemetryBatchCoordinator({
-      batchInterval: config.telemetry.SUMMARY_LOG_INTERVAL / 60, // More frequent than summary logs
-      maxBatchSize: config.telemetry.BATCH_SIZE,
-      exportTimeout: config.telemetry.EXPORT_TIMEOUT_MS,
-    });
+    const telemetry = config.telemetry;
+    const exporterConfig = {
+      protocol: telemetry.EXPORT_PROTOCOL,
+      compression: telemetry.EXPORT_COMPRESSION,
+      timeoutMillis: telemetry.EXPORT_TIMEOUT_MS,
+      spool: getTelemetrySpool() ?? undefined,
+    };
+    batchCoordinator = new TelemetryBatchCoordinator(
+      {
+        traces: new BunTraceExporter({ url: telemetry.TRACES_ENDPOINT, ...exporterConfig }),
+        metrics: new BunMetricExporter({ url: telemetry.METRICS_ENDPOINT, ...exporterConfig }),
+        logs: new BunLogExporter({ url: telemetry.LOGS_ENDPOINT, ...exporterConfig }),
+      },
+      {
+        batchInterval: telemetry.SUMMARY_LOG_INTERVAL / 60, // More frequent than summary logs
+        maxBatchSize: telemetry.BATCH_SIZE,
+        exportTimeout: telemetry.EXPORT_TIMEOUT_MS,
+      }
+    );
   }
   return batchCoordinator;
 }
@@ -721,4 +844,5 @@ export async function shutdownBatchCoordinator(): Promise<void> {
     await batchCoordinator.shutdown();
     batchCoordinator = null;
   }
+  closeTelemetrySpool();
 }
@@ -2,7 +2,9 @@
 
 import type { ExportResult } from "@opentelemetry/core";
 import { hrTimeToMicroseconds } from "@opentelemetry/core";
+import { ProtobufLogsSerializer } from "@opentelemetry/otlp-transformer";
 import type { LogRecordExporter, ReadableLogRecord } from "@opentelemetry/sdk-logs";
+import { SpooledExportError } from "../spool/TelemetrySpool";
 import { BunOTLPExporter, type BunOTLPExporterConfig } from "./BunOTLPExporter";
 
 /**
@@ -30,15 +32,16 @@ export class BunLogExporter extends BunOTLPExporter<ReadableLogRecord> implement
     // Check circuit breaker state
     if (this.isCircuitBreakerOpen()) {
       console.warn("Log export circuit breaker is OPEN - rejecting export");
+      const error = new Error("Circuit breaker is open due to repeated failures");
       resultCallback({
         code: 1, // ExportResultCode.FAILED
-        error: new Error("Circuit breaker is open due to repeated failures"),
+        error: this.spoolItems(logs) ? new SpooledExportError("logs", error) : error,
       });
       return;
     }
 
     // Apply advanced log filtering and deduplication
-    const filteredLogs = this.applyAdvancedFiltering(logs);
+    const { filteredLogs, logHashes } = this.applyAdvancedFiltering(logs);
 
     // Delegate to base class with circuit breaker monitoring
     const originalCallback = resultCallback;
@@ -48,6 +51,12 @@ export class BunLogExporter extends BunOTLPExporter<ReadableLogRecord> implement
         // Reset circuit breaker on success
         this.circuitBreakerFailureCount = 0;
         this.circuitBreakerLastFailureTime = 0;
+
+        // Only delivered logs count as seen, so a retried batch isn't deduplicated away
+        const now = Date.now();
+        for (const logHash of logHashes) {
+          this.recentLogHashes.set(logHash, now);
+        }
       } else {
         // Increment failure count
         this.circuitBreakerFailureCount++;
@@ -91,9 +100,13 @@ export class BunLogExporter extends BunOTLPExporter<ReadableLogRecord> implement
   /**
    * Apply advanced log filtering including deduplication and aggregation
    */
-  private applyAdvancedFiltering(logs: ReadableLogRecord[]): ReadableLogRecord[] {
+  private applyAdvancedFiltering(logs: ReadableLogRecord[]): {
+    filteredLogs: ReadableLogRecord[];
+    logHashes: Set<string>;
+  } {
     const now = Date.now();
     const filtered: ReadableLogRecord[] = [];
+    const logHashes = new Set<string>();
 
     // Clean old hashes periodically
     this.cleanOldHashes(now);
@@ -110,9 +123,9 @@ export class BunLogExporter extends BunOTLPExporter<ReadableLogRecord> implement
       const logHash = this.createLogHash(log);
       const lastSeen = this.recentLogHashes.get(logHash);
 
-      if (!lastSeen || now - lastSeen > this.deduplicationWindow) {
+      if (!logHashes.has(logHash) && (!lastSeen || now - lastSeen > this.deduplicationWindow)) {
         // First occurrence or outside deduplication window
-        this.recentLogHashes.set(logHash, now);
+        logHashes.add(logHash);
         filtered.push(log);
       } else {
         // Skip duplicate within time window (intelligent aggregation)
@@ -120,7 +133,7 @@ export class BunLogExporter extends BunOTLPExporter<ReadableLogRecord> implement
       }
     }
 
-    return filtered;
+    return { filteredLogs: filtered, logHashes };
   }
 
   private cleanOldHashes(now: number): void {
@@ -149,6 +162,13 @@ export class BunLogExporter extends BunOTLPExporter<ReadableLogRecord> implement
     return hash.toString();
   }
 
+  /**
+   * Serialize logs to an OTLP protobuf ExportLogsServiceRequest
+   */
+  protected serializeProtobuf(logs: ReadableLogRecord[]): Uint8Array {
+    return ProtobufLogsSerializer.serializeRequest(logs) ?? new Uint8Array();
+  }
+
   /**
    * Serialize logs to OTLP JSON format
    */
@@ -1,6 +1,7 @@
 // Bun-optimized OTLP Metric Exporter
 
 import { hrTimeToMicroseconds } from "@opentelemetry/core";
+import { ProtobufMetricsSerializer } from "@opentelemetry/otlp-transformer";
 import type { PushMetricExporter, ResourceMetrics } from "@opentelemetry/sdk-metrics";
 import { BunOTLPExporter, type BunOTLPExporterConfig } from "./BunOTLPExporter";
 
@@ -13,6 +14,16 @@ export class BunMetricExporter extends BunOTLPExporter<ResourceMetrics> implemen
     super("metrics", config);
   }
 
+  /**
+   * Serialize metrics to an OTLP protobuf ExportMetricsServiceRequest.
+   * The serializer takes one ResourceMetrics at a time; concatenated
+   * protobuf messages decode as one with their resourceMetrics appended.
+   */
+  protected serializeProtobuf(resourceMetrics: ResourceMetrics[]): Uint8Array {
+    const parts = resourceMetrics.map((item) => ProtobufMetricsSerializer.serializeRequest(item) ?? new Uint8Array());
+    return Buffer.concat(parts);
+  }
+
   /**
    * Serialize metrics to OTLP JSON format
    */
@@ -1,10 +1,19 @@
 // Base OTLP Exporter for Bun runtime with native fetch API
 import { type ExportResult, ExportResultCode } from "@opentelemetry/core";
 import { telemetryHealthMonitor } from "../health/telemetryHealth";
+import { SpooledExportError, type TelemetrySpool } from "../spool/TelemetrySpool";
 import { log, warn } from "../winston-logger";
+import {
+  createOTLPTransport,
+  type OTLPCompression,
+  type OTLPExportProtocol,
+  type OTLPTransport,
+} from "./OTLPTransport";
 
 export interface BunOTLPExporterConfig {
   url: string;
+  protocol?: OTLPExportProtocol; // Defaults to http/json
+  compression?: OTLPCompression; // Request body compression, defaults to none
   headers?: Record<string, string>;
   timeoutMillis?: number;
   concurrencyLimit?: number;
@@ -14,6 +23,8 @@ export interface BunOTLPExporterConfig {
     maxDelayMs: number;
     backoffMultiplier: number;
   };
+  // Failed batches are kept here and replayed once an export succeeds again
+  spool?: TelemetrySpool;
 }
 
 export interface ExportAttempt {
@@ -23,11 +34,12 @@ export interface ExportAttempt {
 }
 
 export abstract class BunOTLPExporter<T> {
-  private readonly url: string;
-  private readonly headers: Record<string, string>;
+  private readonly transport: OTLPTransport;
   private readonly timeoutMs: number;
   private readonly concurrencyLimit: number;
   private readonly retryConfig: Required<BunOTLPExporterConfig["retryConfig"]>;
+  private readonly spool?: TelemetrySpool;
+  private replayInFlight: Promise<number> | null = null;
 
   private activeRequests = 0;
   private totalExports = 0;
@@ -38,12 +50,12 @@ export abstract class BunOTLPExporter<T> {
     private readonly exporterType: "traces" | "metrics" | "logs",
     config: BunOTLPExporterConfig
   ) {
-    this.url = config.url;
-    this.headers = {
-      "Content-Type": "application/json",
-      "User-Agent": "CapellaQL-BunExporter/2.0",
-      ...config.headers,
-    };
+    this.transport = createOTLPTransport(exporterType, {
+      url: config.url,
+      protocol: config.protocol ?? "http/json",
+      compression: config.compression ?? "none",
+      headers: config.headers ?? {},
+    });
     this.timeoutMs = config.timeoutMillis || 10000; // Reduced to 10 seconds for faster failure detection
     this.concurrencyLimit = config.concurrencyLimit || 10;
     this.retryConfig = {
@@ -53,6 +65,7 @@ export abstract class BunOTLPExporter<T> {
       backoffMultiplier: 2,
       ...config.retryConfig,
     };
+    this.spool = config.spool;
   }
 
   /**
@@ -78,15 +91,26 @@ export abstract class BunOTLPExporter<T> {
     this.activeRequests++;
 
     try {
-      const payload = this.serializePayload(items);
+      const payload = this.encodePayload(items);
       const result = await this.exportWithRetry(payload);
 
       if (result.code === ExportResultCode.SUCCESS) {
         this.successfulExports++;
         telemetryHealthMonitor.recordExporterSuccess(this.exporterType);
+        // The endpoint is back; drain anything spooled during the outage
+        if (this.spool?.hasPending(this.exporterType)) {
+          void this.replaySpool();
+        }
       } else {
         this.failedExports++;
         telemetryHealthMonitor.recordExporterFailure(this.exporterType, result.error);
+        if (this.spool?.append(this.exporterType, payload, this.transport.encoding)) {
+          resultCallback({
+            code: ExportResultCode.FAILED,
+            error: new SpooledExportError(this.exporterType, result.error),
+          });
+          return;
+        }
       }
 
       resultCallback(result);
@@ -102,10 +126,48 @@ export abstract class BunOTLPExporter<T> {
     }
   }
 
+  /**
+   * Write items straight to the spool without sending them, e.g. while the
+   * signal's circuit is open. Returns false if there's no spool or it
+   * couldn't take the batch.
+   */
+  spoolItems(items: T[]): boolean {
+    if (!this.spool || items.length === 0) return false;
+    return this.spool.append(this.exporterType, this.encodePayload(items), this.transport.encoding);
+  }
+
+  /**
+   * Replay spooled batches for this signal. A replay already running is
+   * shared rather than started twice.
+   */
+  replaySpool(): Promise<number> {
+    if (!this.spool) return Promise.resolve(0);
+    if (!this.replayInFlight) {
+      const spool = this.spool;
+      this.replayInFlight = spool
+        .replay(this.exporterType, async (payload, encoding) => {
+          // Spooled under another protocol; the bytes can't be re-encoded
+          if (encoding !== this.transport.encoding) {
+            warn(`Discarding spooled ${this.exporterType} batch encoded as ${encoding}`, {
+              component: "otlp-exporter",
+              exporterType: this.exporterType,
+              encoding: this.transport.encoding,
+            });
+            return;
+          }
+          await this.performRequest(payload);
+        })
+        .finally(() => {
+          this.replayInFlight = null;
+        });
+    }
+    return this.replayInFlight;
+  }
+
   /**
    * Export with retry logic and exponential backoff
    */
-  private async exportWithRetry(payload: string): Promise<ExportResult> {
+  private async exportWithRetry(payload: Uint8Array): Promise<ExportResult> {
     const attempts: ExportAttempt[] = [];
 
     for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
@@ -161,56 +223,17 @@ export abstract class BunOTLPExporter<T> {
   }
 
   /**
-   * Perform the actual HTTP request using Bun's fetch API
+   * Send one encoded request through the configured transport
    */
-  private async performRequest(payload: string): Promise<ExportResult> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
-
-    try {
-      const response = await fetch(this.url, {
-        method: "POST",
-        headers: this.headers,
-        body: payload,
-        signal: controller.signal,
-        // Bun-specific options for better performance
-        keepalive: true,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error");
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
-
-      // Read response to ensure request completion
-      const responseText = await response.text();
-
-      // Check for error messages in response body
-      try {
-        const responseData = JSON.parse(responseText);
-        if (responseData.message?.includes("timed out")) {
-          console.warn(`${this.exporterType} export: Server reported timeout but request completed`);
-          // Don't treat this as an error since we got a response
-        }
-      } catch {
-        // Response is not JSON, which is fine
-      }
-
-      return { code: ExportResultCode.SUCCESS };
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error) {
-        if (error.name === "AbortError") {
-          throw new Error(`Request timed out after ${this.timeoutMs}ms`);
-        }
-        throw error;
-      }
+  private async performRequest(payload: Uint8Array): Promise<ExportResult> {
+    await this.transport.send(payload, this.timeoutMs);
+    return { code: ExportResultCode.SUCCESS };
+  }
 
-      throw new Error(String(error));
-    }
+  private encodePayload(items: T[]): Uint8Array {
+    return this.transport.encoding === "protobuf"
+      ? this.serializeProtobuf(items)
+      : new TextEncoder().encode(this.serializePayload(items));
   }
 
   /**
@@ -218,6 +241,11 @@ export abstract class BunOTLPExporter<T> {
    */
   protected abstract serializePayload(items: T[]): string;
 
+  /**
+   * Serialize items to an OTLP protobuf Export*ServiceRequest
+   */
+  protected abstract serializeProtobuf(items: T[]): Uint8Array;
+
   /**
    * Get export statistics
    */
@@ -227,6 +255,8 @@ export abstract class BunOTLPExporter<T> {
       successfulExports: this.successfulExports,
       failedExports: this.failedExports,
       activeRequests: this.activeRequests,
+      replaying: this.replayInFlight !== null,
+      encoding: this.transport.encoding,
       successRate: this.totalExports > 0 ? this.successfulExports / this.totalExports : 1,
     };
   }
@@ -258,6 +288,8 @@ export abstract class BunOTLPExporter<T> {
       });
     }
 
+    this.transport.close();
+
     log(`${this.exporterType} exporter shutdown complete`, {
       component: "otlp-exporter",
       exporterType: this.exporterType,
@@ -1,7 +1,9 @@
 // Custom span processor for Bun that uses our BunTraceExporter directly
 import type { Context } from "@opentelemetry/api";
-import type { ReadableSpan, Span, SpanProcessor } from "@opentelemetry/sdk-trace-base";
+import type { ReadableSpan, Span, SpanExporter, SpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { type ExportStatsTracker, wrapSpanExporter } from "../export-stats-tracker";
 import { type BunOTLPExporterConfig, BunTraceExporter } from "./BunTraceExporter";
+import { TailSampler, type TailSamplingConfig } from "./TailSampler";
 
 /**
  * Custom span processor that ensures our Bun trace exporter is used
@@ -9,9 +11,12 @@ import { type BunOTLPExporterConfig, BunTraceExporter } from "./BunTraceExporter
  */
 export class BunSpanProcessor implements SpanProcessor {
   private readonly exporter: BunTraceExporter;
+  // The exporter batches go through; counts them in exportStats when given
+  private readonly spanExporter: SpanExporter;
   private readonly maxBatchSize: number;
   private readonly scheduledDelayMillis: number;
   private readonly maxQueueSize: number;
+  private readonly tailSampler: TailSampler | null;
 
   private spans: ReadableSpan[] = [];
   private timer: Timer | null = null;
@@ -22,14 +27,23 @@ export class BunSpanProcessor implements SpanProcessor {
       maxBatchSize?: number;
       scheduledDelayMillis?: number;
       maxQueueSize?: number;
+      // Buffer spans per trace and keep or drop whole traces once they complete
+      tailSampling?: TailSamplingConfig;
+      // Record export attempts, successes and failures like the SDK exporters do
+      exportStats?: ExportStatsTracker;
     }
   ) {
     this.exporter = new BunTraceExporter(config);
+    this.spanExporter = config.exportStats ? wrapSpanExporter(this.exporter, config.exportStats) : this.exporter;
     this.maxBatchSize = config.maxBatchSize || 2048;
     this.scheduledDelayMillis = config.scheduledDelayMillis || 5000;
     this.maxQueueSize = config.maxQueueSize || 10000;
+    this.tailSampler = config.tailSampling
+      ? new TailSampler(config.tailSampling, (spans) => this.enqueue(spans))
+      : null;
 
     this.startTimer();
+    this.tailSampler?.start();
     if (process.env.DEBUG_OTEL_EXPORTERS === "true") {
       console.debug("BunSpanProcessor initialized with custom Bun trace exporter");
     }
@@ -42,22 +56,15 @@ export class BunSpanProcessor implements SpanProcessor {
   onEnd(span: ReadableSpan): void {
     if (this.isShutdown) return;
 
-    // Add to batch
-    this.spans.push(span);
-
-    // Check if we need to flush immediately
-    if (this.spans.length >= this.maxBatchSize) {
-      this.flush();
-    } else if (this.spans.length >= this.maxQueueSize) {
-      // Drop oldest spans if queue is full (log in development only)
-      if (process.env.DEBUG_OTEL_EXPORTERS === "true") {
-        console.debug(`Span queue full (${this.maxQueueSize}), dropping oldest spans`);
-      }
-      this.spans = this.spans.slice(-this.maxBatchSize);
+    if (this.tailSampler) {
+      this.tailSampler.add(span);
+    } else {
+      this.enqueue([span]);
     }
   }
 
   async forceFlush(): Promise<void> {
+    this.tailSampler?.sweep();
     return this.flush();
   }
 
@@ -69,6 +76,12 @@ export class BunSpanProcessor implements SpanProcessor {
       this.timer = null;
     }
 
+    // Traces still waiting for their root are decided with what they have
+    if (this.tailSampler) {
+      this.tailSampler.stop();
+      this.tailSampler.decideAll();
+    }
+
     // Final flush
     await this.flush();
     await this.exporter.shutdown();
@@ -78,6 +91,25 @@ export class BunSpanProcessor implements SpanProcessor {
     }
   }
 
+  /**
+   * Add finished spans to the export batch
+   */
+  private enqueue(spans: ReadableSpan[]): void {
+    // Add to batch
+    this.spans.push(...spans);
+
+    // Check if we need to flush immediately
+    if (this.spans.length >= this.maxBatchSize) {
+      this.flush();
+    } else if (this.spans.length >= this.maxQueueSize) {
+      // Drop oldest spans if queue is full (log in development only)
+      if (process.env.DEBUG_OTEL_EXPORTERS === "true") {
+        console.debug(`Span queue full (${this.maxQueueSize}), dropping oldest spans`);
+      }
+      this.spans = this.spans.slice(-this.maxBatchSize);
+    }
+  }
+
   /**
    * Start the periodic flush timer
    */
@@ -97,7 +129,7 @@ export class BunSpanProcessor implements SpanProcessor {
    * Flush current batch of spans
    */
   private async flush(): Promise<void> {
-    if (this.spans.length === 0 || this.isShutdown) {
+    if (this.spans.length === 0) {
       return;
     }
 
@@ -109,7 +141,7 @@ export class BunSpanProcessor implements SpanProcessor {
 
     try {
       await new Promise<void>((resolve, reject) => {
-        this.exporter.export(spansToExport, (result) => {
+        this.spanExporter.export(spansToExport, (result) => {
           if (result.code === 0) {
             // ExportResultCode.SUCCESS
             resolve();
@@ -134,6 +166,7 @@ export class BunSpanProcessor implements SpanProcessor {
       maxBatchSize: this.maxBatchSize,
       scheduledDelayMs: this.scheduledDelayMillis,
       exporterStats: this.exporter.getStats(),
+      tailSampling: this.tailSampler?.getStats() ?? null,
     };
   }
 
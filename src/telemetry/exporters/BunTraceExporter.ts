@@ -1,6 +1,7 @@
 // Bun-optimized OTLP Trace Exporter
 
 import { hrTimeToMicroseconds } from "@opentelemetry/core";
+import { ProtobufTraceSerializer } from "@opentelemetry/otlp-transformer";
 import type { ReadableSpan, SpanExporter } from "@opentelemetry/sdk-trace-base";
 import { BunOTLPExporter, type BunOTLPExporterConfig } from "./BunOTLPExporter";
 
@@ -13,6 +14,13 @@ export class BunTraceExporter extends BunOTLPExporter<ReadableSpan> implements S
     super("traces", config);
   }
 
+  /**
+   * Serialize spans to an OTLP protobuf ExportTraceServiceRequest
+   */
+  protected serializeProtobuf(spans: ReadableSpan[]): Uint8Array {
+    return ProtobufTraceSerializer.serializeRequest(spans) ?? new Uint8Array();
+  }
+
   /**
    * Serialize spans to OTLP JSON format
    */
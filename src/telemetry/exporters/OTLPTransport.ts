@@ -0,0 +1,155 @@
+// OTLP transports for the Bun exporters: HTTP (JSON or protobuf bodies) and gRPC
+
+import * as grpc from "@grpc/grpc-js";
+
+export type OTLPExportProtocol = "http/json" | "http/protobuf" | "grpc";
+export type OTLPCompression = "none" | "gzip";
+export type OTLPPayloadEncoding = "json" | "protobuf";
+export type OTLPSignal = "traces" | "metrics" | "logs";
+
+export interface OTLPTransportConfig {
+  url: string;
+  protocol: OTLPExportProtocol;
+  compression: OTLPCompression;
+  headers: Record<string, string>;
+}
+
+/**
+ * Delivers one encoded export request; throws when the collector doesn't accept it
+ */
+export interface OTLPTransport {
+  readonly encoding: OTLPPayloadEncoding;
+  send(payload: Uint8Array, timeoutMs: number): Promise<void>;
+  close(): void;
+}
+
+// Unary Export methods of the OTLP collector services
+const GRPC_EXPORT_PATHS: Record<OTLPSignal, string> = {
+  traces: "/opentelemetry.proto.collector.trace.v1.TraceService/Export",
+  metrics: "/opentelemetry.proto.collector.metrics.v1.MetricsService/Export",
+  logs: "/opentelemetry.proto.collector.logs.v1.LogsService/Export",
+};
+
+const DEFAULT_GRPC_PORT = "4317";
+
+class HttpTransport implements OTLPTransport {
+  readonly encoding: OTLPPayloadEncoding;
+  private readonly headers: Record<string, string>;
+
+  constructor(
+    private readonly signal: OTLPSignal,
+    private readonly config: OTLPTransportConfig
+  ) {
+    this.encoding = config.protocol === "http/protobuf" ? "protobuf" : "json";
+    this.headers = {
+      "Content-Type": this.encoding === "protobuf" ? "application/x-protobuf" : "application/json",
+      "User-Agent": "CapellaQL-BunExporter/2.0",
+      ...(config.compression === "gzip" ? { "Content-Encoding": "gzip" } : {}),
+      ...config.headers,
+    };
+  }
+
+  async send(payload: Uint8Array, timeoutMs: number): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // fetch and gzipSync only take ArrayBuffer-backed views
+    const body = new Uint8Array(payload);
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: "POST",
+        headers: this.headers,
+        body: this.config.compression === "gzip" ? Bun.gzipSync(body) : body,
+        signal: controller.signal,
+        // Bun-specific options for better performance
+        keepalive: true,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "Unknown error");
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+
+      // Read response to ensure request completion
+      const responseText = await response.text();
+
+      // Check for error messages in response body
+      if (this.encoding === "json") {
+        try {
+          const responseData = JSON.parse(responseText);
+          if (responseData.message?.includes("timed out")) {
+            console.warn(`${this.signal} export: Server reported timeout but request completed`);
+            // Don't treat this as an error since we got a response
+          }
+        } catch {
+          // Response is not JSON, which is fine
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Request timed out after ${timeoutMs}ms`);
+      }
+      throw error instanceof Error ? error : new Error(String(error));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  close(): void {}
+}
+
+class GrpcTransport implements OTLPTransport {
+  readonly encoding: OTLPPayloadEncoding = "protobuf";
+  private readonly client: grpc.Client;
+  private readonly metadata = new grpc.Metadata();
+
+  constructor(
+    private readonly signal: OTLPSignal,
+    config: OTLPTransportConfig
+  ) {
+    // Only host and port matter; OTLP/gRPC ignores the URL path
+    const url = new URL(config.url);
+    const address = `${url.hostname}:${url.port || DEFAULT_GRPC_PORT}`;
+    const credentials = url.protocol === "https:" ? grpc.credentials.createSsl() : grpc.credentials.createInsecure();
+
+    this.client = new grpc.Client(address, credentials, {
+      "grpc.primary_user_agent": "CapellaQL-BunExporter/2.0",
+      ...(config.compression === "gzip"
+        ? { "grpc.default_compression_algorithm": grpc.compressionAlgorithms.gzip }
+        : {}),
+    });
+    for (const [key, value] of Object.entries(config.headers)) {
+      this.metadata.set(key.toLowerCase(), value);
+    }
+  }
+
+  send(payload: Uint8Array, timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.client.makeUnaryRequest(
+        GRPC_EXPORT_PATHS[this.signal],
+        (request: Uint8Array) => Buffer.from(request),
+        (response: Buffer) => response,
+        payload,
+        this.metadata,
+        { deadline: Date.now() + timeoutMs },
+        (error) => {
+          if (!error) {
+            resolve();
+          } else if (error.code === grpc.status.DEADLINE_EXCEEDED) {
+            reject(new Error(`Request timed out after ${timeoutMs}ms`));
+          } else {
+            reject(new Error(`gRPC ${grpc.status[error.code] ?? error.code}: ${error.details || error.message}`));
+          }
+        }
+      );
+    });
+  }
+
+  close(): void {
+    this.client.close();
+  }
+}
+
+export function createOTLPTransport(signal: OTLPSignal, config: OTLPTransportConfig): OTLPTransport {
+  return config.protocol === "grpc" ? new GrpcTransport(signal, config) : new HttpTransport(signal, config);
+}
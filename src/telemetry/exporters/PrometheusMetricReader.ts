@@ -0,0 +1,308 @@
+/* src/telemetry/exporters/PrometheusMetricReader.ts */
+
+/**
+ * Pull-based reader behind the /metrics endpoint. It sits next to the OTLP
+ * push reader on the same MeterProvider and renders a cumulative collection
+ * on every scrape, in the Prometheus text format or, when the scraper asks
+ * for it, OpenMetrics with trace-id exemplars.
+ */
+
+import type { Attributes } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import {
+  DataPointType,
+  type HistogramMetricData,
+  type MetricData,
+  MetricReader,
+  type ResourceMetrics,
+} from "@opentelemetry/sdk-metrics";
+import type { metricsCardinalityManager } from "$lib/metricsCardinalityManager";
+import type { Exemplar, ExemplarStore } from "../metrics/exemplars";
+import { warn } from "../winston-logger";
+
+export type PrometheusFormat = "prometheus" | "openmetrics";
+
+export const PROMETHEUS_CONTENT_TYPES: Record<PrometheusFormat, string> = {
+  prometheus: "text/plain; version=0.0.4; charset=utf-8",
+  openmetrics: "application/openmetrics-text; version=1.0.0; charset=utf-8",
+};
+
+const COLLECT_TIMEOUT_MS = 5000;
+
+type HistogramValue = HistogramMetricData["dataPoints"][number]["value"];
+type FamilyType = "counter" | "gauge" | "histogram";
+type CardinalityManager = typeof metricsCardinalityManager;
+
+interface Series {
+  labels: Record<string, string>;
+  value: number;
+  endTimeMs: number;
+  histogram?: { boundaries: number[]; counts: number[]; sum: number; count: number };
+  exemplar?: Exemplar;
+}
+
+interface Family {
+  name: string; // Without the _total suffix for counters
+  type: FamilyType;
+  help: string;
+  series: Map<string, Series>;
+}
+
+/**
+ * Pick the exposition format from a scrape's Accept header
+ */
+export function negotiatePrometheusFormat(accept: string | null): PrometheusFormat {
+  return accept?.includes("application/openmetrics-text") ? "openmetrics" : "prometheus";
+}
+
+export class PrometheusMetricReader extends MetricReader {
+  constructor(private readonly exemplars?: ExemplarStore) {
+    super();
+  }
+
+  protected async onForceFlush(): Promise<void> {}
+
+  protected async onShutdown(): Promise<void> {
+    this.exemplars?.clear();
+  }
+
+  async render(format: PrometheusFormat): Promise<string> {
+    const { resourceMetrics, errors } = await this.collect({ timeoutMillis: COLLECT_TIMEOUT_MS });
+    if (errors.length > 0) {
+      warn("Prometheus scrape collected metrics with errors", {
+        component: "prometheus-reader",
+        errors: errors.map((error) => String(error)),
+      });
+    }
+    // Loaded on scrape: the manager's logger sits on an import path that reaches this module
+    const { metricsCardinalityManager } = await import("../../lib/metricsCardinalityManager");
+    return serializePrometheus(resourceMetrics, format, metricsCardinalityManager, this.exemplars);
+  }
+}
+
+/**
+ * Render a cumulative collection. Series are relabelled through the
+ * cardinality manager first, so a metric over its limit shows up as one
+ * fallback series instead of an unbounded set.
+ */
+export function serializePrometheus(
+  resourceMetrics: ResourceMetrics,
+  format: PrometheusFormat,
+  cardinality: CardinalityManager,
+  exemplars?: ExemplarStore
+): string {
+  const families = new Map<string, Family>();
+
+  for (const { metrics } of resourceMetrics.scopeMetrics) {
+    for (const metric of metrics) {
+      addMetric(families, metric, cardinality, exemplars);
+    }
+  }
+
+  const openMetrics = format === "openmetrics";
+  const lines: string[] = [];
+  for (const family of families.values()) {
+    // Prometheus 0.0.4 names counter families after their samples; OpenMetrics drops the suffix
+    const familyName = family.type === "counter" && !openMetrics ? `${family.name}_total` : family.name;
+    if (family.help) lines.push(`# HELP ${familyName} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${familyName} ${family.type}`);
+
+    for (const series of family.series.values()) {
+      const exemplar = openMetrics ? series.exemplar : undefined;
+      if (family.type === "histogram" && series.histogram) {
+        lines.push(...histogramLines(family.name, series, exemplar));
+      } else if (family.type === "counter") {
+        lines.push(sampleLine(`${family.name}_total`, series.labels, series.value, exemplar));
+      } else {
+        lines.push(sampleLine(family.name, series.labels, series.value));
+      }
+    }
+  }
+
+  if (openMetrics) lines.push("# EOF");
+  return `${lines.join("\n")}\n`;
+}
+
+function addMetric(
+  families: Map<string, Family>,
+  metric: MetricData,
+  cardinality: CardinalityManager,
+  exemplars?: ExemplarStore
+): void {
+  const type = familyType(metric);
+  if (!type) return;
+
+  const metricName = metric.descriptor.name;
+  let name = sanitizeMetricName(metricName);
+  if (type === "counter") name = name.replace(/_total$/, "");
+
+  let family = families.get(name);
+  if (!family) {
+    family = { name, type, help: metric.descriptor.description, series: new Map() };
+    families.set(name, family);
+  } else if (family.type !== type) {
+    warn("Skipping metric whose Prometheus name clashes with another type", {
+      component: "prometheus-reader",
+      metric: metricName,
+      type,
+      existingType: family.type,
+    });
+    return;
+  }
+
+  for (const point of metric.dataPoints) {
+    const labels = cardinalityLimitedLabels(cardinality, metricName, point.attributes);
+    const key = labelKey(labels);
+    const endTimeMs = hrTimeToMilliseconds(point.endTime);
+    const exemplar = exemplars?.get(metricName, point.attributes);
+    const existing = family.series.get(key);
+
+    let series: Series;
+    if (metric.dataPointType === DataPointType.HISTOGRAM) {
+      const value = point.value as HistogramValue;
+      const histogram = {
+        boundaries: value.buckets.boundaries,
+        counts: value.buckets.counts,
+        sum: value.sum ?? 0,
+        count: value.count,
+      };
+      series = { labels, value: value.count, endTimeMs, histogram };
+      if (existing?.histogram) series.histogram = mergeHistograms(existing.histogram, histogram);
+    } else {
+      const value = point.value as number;
+      series = { labels, value, endTimeMs };
+      if (existing) {
+        // Sums add up; a gauge keeps whichever point is newer
+        if (metric.dataPointType === DataPointType.SUM) {
+          series.value += existing.value;
+        } else if (existing.endTimeMs > endTimeMs) {
+          series.value = existing.value;
+        }
+      }
+    }
+    series.endTimeMs = Math.max(endTimeMs, existing?.endTimeMs ?? 0);
+    series.exemplar = newerExemplar(existing?.exemplar, exemplar);
+    family.series.set(key, series);
+  }
+}
+
+function familyType(metric: MetricData): FamilyType | null {
+  switch (metric.dataPointType) {
+    case DataPointType.SUM:
+      return metric.isMonotonic ? "counter" : "gauge";
+    case DataPointType.GAUGE:
+      return "gauge";
+    case DataPointType.HISTOGRAM:
+      return "histogram";
+    default:
+      // Exponential histograms have no classic text representation
+      return null;
+  }
+}
+
+function cardinalityLimitedLabels(
+  cardinality: CardinalityManager,
+  metricName: string,
+  attributes: Attributes
+): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) labels[key] = String(value);
+  }
+  const result = cardinality.checkCardinality(metricName, labels);
+  return result.sanitizedLabels ?? labels;
+}
+
+function mergeHistograms(a: NonNullable<Series["histogram"]>, b: NonNullable<Series["histogram"]>) {
+  if (a.boundaries.length !== b.boundaries.length || a.boundaries.some((bound, i) => bound !== b.boundaries[i])) {
+    return b.count >= a.count ? b : a;
+  }
+  return {
+    boundaries: a.boundaries,
+    counts: a.counts.map((count, i) => count + (b.counts[i] ?? 0)),
+    sum: a.sum + b.sum,
+    count: a.count + b.count,
+  };
+}
+
+function newerExemplar(a?: Exemplar, b?: Exemplar): Exemplar | undefined {
+  if (!a || !b) return a ?? b;
+  return b.timestamp >= a.timestamp ? b : a;
+}
+
+function histogramLines(name: string, series: Series, exemplar?: Exemplar): string[] {
+  const { boundaries, counts, sum, count } = series.histogram!;
+  // The exemplar goes on the bucket its value falls into
+  const exemplarBucket = exemplar ? boundaries.findIndex((bound) => exemplar.value <= bound) : -1;
+
+  const lines: string[] = [];
+  let cumulative = 0;
+  boundaries.forEach((bound, i) => {
+    cumulative += counts[i] ?? 0;
+    lines.push(
+      sampleLine(
+        `${name}_bucket`,
+        { ...series.labels, le: formatValue(bound) },
+        cumulative,
+        i === exemplarBucket ? exemplar : undefined
+      )
+    );
+  });
+  lines.push(
+    sampleLine(
+      `${name}_bucket`,
+      { ...series.labels, le: "+Inf" },
+      count,
+      exemplar && exemplarBucket === -1 ? exemplar : undefined
+    )
+  );
+  lines.push(sampleLine(`${name}_sum`, series.labels, sum));
+  lines.push(sampleLine(`${name}_count`, series.labels, count));
+  return lines;
+}
+
+function sampleLine(name: string, labels: Record<string, string>, value: number, exemplar?: Exemplar): string {
+  let line = `${name}${formatLabels(labels)} ${formatValue(value)}`;
+  if (exemplar) {
+    const exemplarLabels = formatLabels({ trace_id: exemplar.traceId, span_id: exemplar.spanId });
+    line += ` # ${exemplarLabels} ${formatValue(exemplar.value)} ${(exemplar.timestamp / 1000).toFixed(3)}`;
+  }
+  return line;
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${sanitizeLabelName(key)}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function labelKey(labels: Record<string, string>): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join("|");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+  return String(value);
+}
+
+function sanitizeMetricName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, "_");
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function sanitizeLabelName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, "_");
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
@@ -0,0 +1,261 @@
+/* src/telemetry/exporters/TailSampler.ts */
+
+/**
+ * Tail-based sampling for BunSpanProcessor. Finished spans are held per trace
+ * until the trace's local root ends (or decisionWaitMs passes), and the whole
+ * trace is then kept or dropped. Policies, first match wins: any error span,
+ * a span slower than its endpoint's SlaMonitor p95 threshold, a listed
+ * operation name, then a probabilistic share of whatever is left.
+ */
+
+import { type Attributes, type Counter, metrics, type ObservableGauge, SpanStatusCode } from "@opentelemetry/api";
+import { hrTimeToMilliseconds } from "@opentelemetry/core";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { getSlaMonitor } from "../sla-monitor";
+
+export interface TailSamplingConfig {
+  decisionWaitMs: number; // Longest a trace waits for its root span
+  maxTraces: number; // Traces buffered at once
+  maxSpansPerTrace: number;
+  operationNames: string[]; // Span names or graphql.operation.name values that are always kept
+  probability: number; // Share of the remaining traces kept, 0..1
+}
+
+export type TailSamplingPolicy = "error" | "latency" | "operation" | "probabilistic";
+export type TailSamplingDropReason = "probabilistic" | "buffer_full";
+
+export interface TailSamplingStats {
+  bufferedTraces: number;
+  bufferedSpans: number;
+  maxTraces: number;
+  sampled: Record<TailSamplingPolicy, number>;
+  dropped: Record<TailSamplingDropReason, number>;
+  droppedSpans: number; // Over maxSpansPerTrace
+}
+
+interface TailSamplingInstruments {
+  sampled: Counter;
+  dropped: Counter;
+  droppedSpans: Counter;
+  buffered: ObservableGauge;
+}
+
+interface BufferedTrace {
+  spans: ReadableSpan[];
+  firstSeen: number;
+  // Policy inputs are tracked per span, so spans dropped over the per-trace cap still count
+  hasError: boolean;
+  slowSpan: boolean;
+  matchedOperation: boolean;
+}
+
+// Where a span's endpoint may be recorded, in the order SlaMonitor thresholds are looked up
+const ENDPOINT_ATTRIBUTES = ["http.route", "url.path", "http.target", "graphql.operation.name"];
+
+export class TailSampler {
+  private readonly traces = new Map<string, BufferedTrace>();
+  // Recent decisions, so spans that end after their trace was decided follow it
+  private readonly decisions = new Map<string, boolean>();
+  private readonly operationNames: Set<string>;
+  private sweepTimer: Timer | null = null;
+  private bufferedSpans = 0;
+
+  private readonly sampled: Record<TailSamplingPolicy, number> = {
+    error: 0,
+    latency: 0,
+    operation: 0,
+    probabilistic: 0,
+  };
+  private readonly dropped: Record<TailSamplingDropReason, number> = { probabilistic: 0, buffer_full: 0 };
+  private droppedSpans = 0;
+
+  private instruments: TailSamplingInstruments | null = null;
+  private readonly observeBuffered = (result: { observe(value: number): void }) => {
+    result.observe(this.traces.size);
+  };
+
+  constructor(
+    private readonly config: TailSamplingConfig,
+    private readonly onSampled: (spans: ReadableSpan[]) => void
+  ) {
+    this.operationNames = new Set(config.operationNames);
+  }
+
+  start(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), Math.min(1000, this.config.decisionWaitMs / 2));
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.instruments?.buffered.removeCallback(this.observeBuffered);
+  }
+
+  add(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+    const instruments = this.getInstruments();
+
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      if (decision) this.onSampled([span]);
+      return;
+    }
+
+    let trace = this.traces.get(traceId);
+    if (!trace) {
+      if (this.traces.size >= this.config.maxTraces) this.evictOldest();
+      trace = { spans: [], firstSeen: Date.now(), hasError: false, slowSpan: false, matchedOperation: false };
+      this.traces.set(traceId, trace);
+    }
+
+    trace.hasError ||= span.status.code === SpanStatusCode.ERROR;
+    trace.slowSpan ||= this.exceedsSla(span);
+    trace.matchedOperation ||= this.matchesOperation(span);
+
+    if (trace.spans.length < this.config.maxSpansPerTrace) {
+      trace.spans.push(span);
+      this.bufferedSpans++;
+    } else {
+      this.droppedSpans++;
+      instruments.droppedSpans.add(1);
+    }
+
+    // Decide once the local root ends; children that end later follow the decision
+    if (!span.parentSpanContext || span.parentSpanContext.isRemote) {
+      this.decide(traceId, trace, false);
+    }
+  }
+
+  /**
+   * Decide traces that have waited longer than decisionWaitMs for their root
+   */
+  sweep(now = Date.now()): void {
+    for (const [traceId, trace] of this.traces) {
+      // Map order is arrival order, so the first trace still within its wait ends the sweep
+      if (now - trace.firstSeen < this.config.decisionWaitMs) break;
+      this.decide(traceId, trace, false);
+    }
+  }
+
+  /**
+   * Decide every buffered trace now, e.g. on shutdown
+   */
+  decideAll(): void {
+    for (const [traceId, trace] of this.traces) {
+      this.decide(traceId, trace, false);
+    }
+  }
+
+  getStats(): TailSamplingStats {
+    return {
+      bufferedTraces: this.traces.size,
+      bufferedSpans: this.bufferedSpans,
+      maxTraces: this.config.maxTraces,
+      sampled: { ...this.sampled },
+      dropped: { ...this.dropped },
+      droppedSpans: this.droppedSpans,
+    };
+  }
+
+  /**
+   * Make room by deciding the oldest trace early. Error, latency and operation
+   * policies still apply; it is dropped rather than sampled probabilistically.
+   */
+  private evictOldest(): void {
+    const oldest = this.traces.entries().next().value;
+    if (oldest) this.decide(oldest[0], oldest[1], true);
+  }
+
+  private decide(traceId: string, trace: BufferedTrace, evicted: boolean): void {
+    this.traces.delete(traceId);
+    this.bufferedSpans -= trace.spans.length;
+
+    const policy = this.matchPolicy(trace, evicted);
+    this.remember(traceId, policy !== null);
+
+    if (policy) {
+      this.sampled[policy]++;
+      this.getInstruments().sampled.add(1, { policy });
+      this.onSampled(trace.spans);
+    } else {
+      const reason: TailSamplingDropReason = evicted ? "buffer_full" : "probabilistic";
+      this.dropped[reason]++;
+      this.getInstruments().dropped.add(1, { reason });
+    }
+  }
+
+  /**
+   * Created on first span rather than in the constructor: the sampler is built
+   * before the meter provider is registered, and instruments taken from the
+   * no-op provider stay no-ops
+   */
+  private getInstruments(): TailSamplingInstruments {
+    if (!this.instruments) {
+      const meter = metrics.getMeter("capellaql-tail-sampling", "1.0.0");
+      this.instruments = {
+        sampled: meter.createCounter("tail_sampling_traces_sampled_total", {
+          description: "Traces kept by tail sampling, by policy",
+          unit: "1",
+        }),
+        dropped: meter.createCounter("tail_sampling_traces_dropped_total", {
+          description: "Traces dropped by tail sampling, by reason",
+          unit: "1",
+        }),
+        droppedSpans: meter.createCounter("tail_sampling_spans_dropped_total", {
+          description: "Spans dropped for exceeding the per-trace buffer limit",
+          unit: "1",
+        }),
+        buffered: meter.createObservableGauge("tail_sampling_buffered_traces", {
+          description: "Traces waiting for a tail sampling decision",
+          unit: "1",
+        }),
+      };
+      this.instruments.buffered.addCallback(this.observeBuffered);
+    }
+    return this.instruments;
+  }
+
+  private matchPolicy(trace: BufferedTrace, evicted: boolean): TailSamplingPolicy | null {
+    if (trace.hasError) return "error";
+    if (trace.slowSpan) return "latency";
+    if (trace.matchedOperation) return "operation";
+    if (!evicted && Math.random() < this.config.probability) return "probabilistic";
+    return null;
+  }
+
+  private remember(traceId: string, keep: boolean): void {
+    this.decisions.set(traceId, keep);
+    if (this.decisions.size > this.config.maxTraces) {
+      const oldest = this.decisions.keys().next().value;
+      if (oldest !== undefined) this.decisions.delete(oldest);
+    }
+  }
+
+  private exceedsSla(span: ReadableSpan): boolean {
+    const monitor = getSlaMonitor();
+    for (const endpoint of spanEndpoints(span)) {
+      const threshold = monitor.getThreshold(endpoint);
+      if (threshold) return hrTimeToMilliseconds(span.duration) > threshold.p95;
+    }
+    return false;
+  }
+
+  private matchesOperation(span: ReadableSpan): boolean {
+    if (this.operationNames.size === 0) return false;
+    const operation = span.attributes["graphql.operation.name"];
+    return this.operationNames.has(span.name) || (typeof operation === "string" && this.operationNames.has(operation));
+  }
+}
+
+function spanEndpoints(span: ReadableSpan): string[] {
+  const attributes: Attributes = span.attributes;
+  const endpoints = ENDPOINT_ATTRIBUTES.flatMap((key) => {
+    const value = attributes[key];
+    return typeof value === "string" ? [value.split("?")[0]] : [];
+  });
+  endpoints.push(span.name);
+  return endpoints;
+}
@@ -41,7 +41,13 @@ export {
   telemetryHealthMonitor,
 } from "./health/telemetryHealth";
 // Main telemetry exports and initialization
-export { getTelemetrySDK, initializeTelemetry, shutdownTelemetry } from "./instrumentation";
+export {
+  getPrometheusReader,
+  getTailSamplingStats,
+  getTelemetrySDK,
+  initializeTelemetry,
+  shutdownTelemetry,
+} from "./instrumentation";
 // Lifecycle logging
 export {
   flushShutdownMessages,
@@ -2,27 +2,34 @@
 // Implementation follows migrate/telemetry/instrumentation.ts EXACTLY
 
 import os from "node:os";
-import { DiagConsoleLogger, DiagLogLevel, diag } from "@opentelemetry/api";
+import { DiagConsoleLogger, DiagLogLevel, diag, metrics } from "@opentelemetry/api";
 import { logs } from "@opentelemetry/api-logs";
 import { getNodeAutoInstrumentations } from "@opentelemetry/auto-instrumentations-node";
 import type { ExportResult } from "@opentelemetry/core";
 import { CompositePropagator, W3CBaggagePropagator, W3CTraceContextPropagator } from "@opentelemetry/core";
+import { OTLPLogExporter as OTLPGrpcLogExporter } from "@opentelemetry/exporter-logs-otlp-grpc";
 import { OTLPLogExporter } from "@opentelemetry/exporter-logs-otlp-http";
+import { OTLPLogExporter as OTLPProtoLogExporter } from "@opentelemetry/exporter-logs-otlp-proto";
+import { OTLPMetricExporter as OTLPGrpcMetricExporter } from "@opentelemetry/exporter-metrics-otlp-grpc";
 import { OTLPMetricExporter } from "@opentelemetry/exporter-metrics-otlp-http";
+import { OTLPMetricExporter as OTLPProtoMetricExporter } from "@opentelemetry/exporter-metrics-otlp-proto";
+import { OTLPTraceExporter as OTLPGrpcTraceExporter } from "@opentelemetry/exporter-trace-otlp-grpc";
 import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { OTLPTraceExporter as OTLPProtoTraceExporter } from "@opentelemetry/exporter-trace-otlp-proto";
 import { HostMetrics } from "@opentelemetry/host-metrics";
 import { DataloaderInstrumentation } from "@opentelemetry/instrumentation-dataloader";
 import { GraphQLInstrumentation } from "@opentelemetry/instrumentation-graphql";
 import { RedisInstrumentation } from "@opentelemetry/instrumentation-redis-4";
 import { resourceFromAttributes } from "@opentelemetry/resources";
-import { BatchLogRecordProcessor, LoggerProvider } from "@opentelemetry/sdk-logs";
+import { BatchLogRecordProcessor, LoggerProvider, type LogRecordExporter } from "@opentelemetry/sdk-logs";
 import {
+  type MetricReader,
   PeriodicExportingMetricReader,
   type PushMetricExporter,
   type ResourceMetrics,
 } from "@opentelemetry/sdk-metrics";
 import { NodeSDK } from "@opentelemetry/sdk-node";
-import { BatchSpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { BatchSpanProcessor, type SpanExporter, type SpanProcessor } from "@opentelemetry/sdk-trace-base";
 import {
   ATTR_SERVICE_NAME,
   ATTR_SERVICE_VERSION,
@@ -43,7 +50,12 @@ import {
   wrapMetricExporter,
   wrapSpanExporter,
 } from "./export-stats-tracker";
+import { BunSpanProcessor } from "./exporters/BunSpanProcessor";
+import { PrometheusMetricReader } from "./exporters/PrometheusMetricReader";
+import type { TailSamplingStats } from "./exporters/TailSampler";
 import { markTelemetryInitialized } from "./health/telemetryHealth";
+import { ExemplarMeterProvider, ExemplarStore } from "./metrics/exemplars";
+import { getTelemetrySpool } from "./spool/TelemetrySpool";
 import { log, warn, winstonTelemetryLogger } from "./winston-logger";
 
 // ============================================================================
@@ -61,6 +73,9 @@ let loggerProvider: LoggerProvider | undefined;
 let hostMetrics: HostMetrics | undefined;
 let metricExporter: PushMetricExporter | undefined;
 let metricReader: MetricReaderLike | undefined;
+let meterProvider: ExemplarMeterProvider | undefined;
+let prometheusReader: PrometheusMetricReader | undefined;
+let tailSamplingProcessor: BunSpanProcessor | undefined;
 let config: TelemetryConfig;
 
 // Use globalThis to persist initialization state across hot-reloads
@@ -138,30 +153,24 @@ export async function initializeTelemetry(): Promise<void> {
 
     // Create OTLP exporters with tracking wrappers
     // Per migrate/telemetry/instrumentation.ts lines 103-120
-    const baseOtlpTraceExporter = new OTLPTraceExporter({
-      url: config.TRACES_ENDPOINT,
-      timeoutMillis: config.EXPORT_TIMEOUT_MS,
-    });
-    const trackingTraceExporter = wrapSpanExporter(baseOtlpTraceExporter, traceExportStats);
+    const baseOtlpExporters = createOtlpExporters(config);
+    const trackingTraceExporter = wrapSpanExporter(baseOtlpExporters.trace, traceExportStats);
 
-    const baseOtlpMetricExporter = new OTLPMetricExporter({
-      url: config.METRICS_ENDPOINT,
-      timeoutMillis: config.EXPORT_TIMEOUT_MS,
-    });
-    const trackingMetricExporter = wrapMetricExporter(baseOtlpMetricExporter, metricExportStats);
+    const trackingMetricExporter = wrapMetricExporter(baseOtlpExporters.metric, metricExportStats);
     metricExporter = trackingMetricExporter;
 
-    const baseOtlpLogExporter = new OTLPLogExporter({
-      url: config.LOGS_ENDPOINT,
-      timeoutMillis: config.EXPORT_TIMEOUT_MS,
-    });
-    const trackingLogExporter = wrapLogRecordExporter(baseOtlpLogExporter, logExportStats);
+    const trackingLogExporter = wrapLogRecordExporter(baseOtlpExporters.log, logExportStats);
 
     // Create processors per migrate/telemetry/instrumentation.ts lines 122-139
-    const traceProcessor = new BatchSpanProcessor(trackingTraceExporter, {
-      maxExportBatchSize: 10,
-      scheduledDelayMillis: 1000,
-    });
+    tailSamplingProcessor = config.TAIL_SAMPLING_ENABLED
+      ? createTailSamplingProcessor(config, traceExportStats)
+      : undefined;
+    const traceProcessor: SpanProcessor =
+      tailSamplingProcessor ??
+      new BatchSpanProcessor(trackingTraceExporter, {
+        maxExportBatchSize: 10,
+        scheduledDelayMillis: 1000,
+      });
 
     if (!metricExporter) {
       throw new Error("metricExporter must be initialized before creating PeriodicExportingMetricReader");
@@ -173,6 +182,15 @@ export async function initializeTelemetry(): Promise<void> {
     });
     metricReader = periodicReader;
 
+    // /metrics scrapes pull from their own reader on the same provider as the OTLP push;
+    // exemplars are only captured when there is an endpoint to show them
+    const metricReaders: MetricReader[] = [periodicReader];
+    const exemplarStore = config.PROMETHEUS_ENABLED ? new ExemplarStore() : undefined;
+    if (config.PROMETHEUS_ENABLED) {
+      prometheusReader = new PrometheusMetricReader(exemplarStore);
+      metricReaders.push(prometheusReader);
+    }
+
     const logProcessor = new BatchLogRecordProcessor(trackingLogExporter);
 
     // OTel SDK 0.212.0 breaking change: LoggerProvider must be explicitly registered
@@ -237,13 +255,18 @@ export async function initializeTelemetry(): Promise<void> {
       dataloaderInstrumentation,
     ];
 
+    // The MeterProvider is ours rather than NodeSDK's so its instruments can capture exemplars
+    meterProvider = new ExemplarMeterProvider({ resource, readers: metricReaders }, exemplarStore);
+    metrics.setGlobalMeterProvider(meterProvider);
+
     // Initialize NodeSDK per migrate/telemetry/instrumentation.ts lines 201-208
     sdk = new NodeSDK({
       resource,
       autoDetectResources: false,
       textMapPropagator: propagator,
       spanProcessors: [traceProcessor],
-      metricReaders: [periodicReader],
+      // MeterProvider is managed separately and registered globally above
+      metricReaders: [],
       // LoggerProvider is managed separately and registered globally above
       instrumentations: [instrumentations],
     });
@@ -251,6 +274,11 @@ export async function initializeTelemetry(): Promise<void> {
     // Start the SDK
     sdk.start();
 
+    // Instrumentations took their meters before the provider was registered
+    for (const instrumentation of instrumentations) {
+      instrumentation.setMeterProvider(meterProvider);
+    }
+
     // Start host metrics collection
     hostMetrics = new HostMetrics({});
     hostMetrics.start();
@@ -284,6 +312,70 @@ export async function initializeTelemetry(): Promise<void> {
   }
 }
 
+type OtlpCompression = NonNullable<ConstructorParameters<typeof OTLPTraceExporter>[0]>["compression"];
+
+/**
+ * SDK exporters in the same OTLP protocol and compression as the Bun
+ * exporters, so both can point at the same endpoints
+ */
+function createOtlpExporters(config: TelemetryConfig): {
+  trace: SpanExporter;
+  metric: PushMetricExporter;
+  log: LogRecordExporter;
+} {
+  const options = (url: string) => ({
+    url,
+    timeoutMillis: config.EXPORT_TIMEOUT_MS,
+    compression: config.EXPORT_COMPRESSION as OtlpCompression,
+  });
+
+  switch (config.EXPORT_PROTOCOL) {
+    case "grpc":
+      return {
+        trace: new OTLPGrpcTraceExporter(options(config.TRACES_ENDPOINT)),
+        metric: new OTLPGrpcMetricExporter(options(config.METRICS_ENDPOINT)),
+        log: new OTLPGrpcLogExporter(options(config.LOGS_ENDPOINT)),
+      };
+    case "http/protobuf":
+      return {
+        trace: new OTLPProtoTraceExporter(options(config.TRACES_ENDPOINT)),
+        metric: new OTLPProtoMetricExporter(options(config.METRICS_ENDPOINT)),
+        log: new OTLPProtoLogExporter(options(config.LOGS_ENDPOINT)),
+      };
+    default:
+      return {
+        trace: new OTLPTraceExporter(options(config.TRACES_ENDPOINT)),
+        metric: new OTLPMetricExporter(options(config.METRICS_ENDPOINT)),
+        log: new OTLPLogExporter(options(config.LOGS_ENDPOINT)),
+      };
+  }
+}
+
+/**
+ * Tail sampling needs whole traces before deciding, which BatchSpanProcessor
+ * can't do; BunSpanProcessor buffers them and exports through BunTraceExporter,
+ * reporting to the same trace export stats as the SDK exporter.
+ */
+function createTailSamplingProcessor(config: TelemetryConfig, exportStats: ExportStatsTracker): BunSpanProcessor {
+  return new BunSpanProcessor({
+    url: config.TRACES_ENDPOINT,
+    protocol: config.EXPORT_PROTOCOL,
+    compression: config.EXPORT_COMPRESSION,
+    timeoutMillis: config.EXPORT_TIMEOUT_MS,
+    spool: getTelemetrySpool() ?? undefined,
+    maxBatchSize: config.BATCH_SIZE,
+    scheduledDelayMillis: 1000,
+    exportStats,
+    tailSampling: {
+      decisionWaitMs: config.TAIL_SAMPLING_DECISION_WAIT_MS,
+      maxTraces: config.TAIL_SAMPLING_MAX_TRACES,
+      maxSpansPerTrace: config.TAIL_SAMPLING_MAX_SPANS_PER_TRACE,
+      operationNames: config.TAIL_SAMPLING_OPERATIONS,
+      probability: config.TAIL_SAMPLING_PROBABILITY,
+    },
+  });
+}
+
 function createResource(config: TelemetryConfig) {
   const attributes = {
     [ATTR_SERVICE_NAME]: config.SERVICE_NAME,
@@ -343,10 +435,25 @@ export async function shutdownTelemetry(): Promise<void> {
     }
   }
 
+  if (meterProvider) {
+    try {
+      await meterProvider.shutdown();
+      meterProvider = undefined;
+      prometheusReader = undefined;
+    } catch (error) {
+      // Only warn if not "already shutdown" error
+      const message = error instanceof Error ? error.message : String(error);
+      if (!message.includes("shutdown may only be called once")) {
+        console.warn("Error shutting down MeterProvider:", error);
+      }
+    }
+  }
+
   if (sdk) {
     try {
       await sdk.shutdown();
       sdk = undefined;
+      tailSamplingProcessor = undefined;
       resetInitialized();
     } catch (error) {
       // Only warn if not "already shutdown" error
@@ -417,6 +524,20 @@ export async function triggerImmediateMetricsExport(): Promise<void> {
   }
 }
 
+/**
+ * Reader behind /metrics; undefined when OpenTelemetry or PROMETHEUS_ENABLED is off
+ */
+export function getPrometheusReader(): PrometheusMetricReader | undefined {
+  return prometheusReader;
+}
+
+/**
+ * Tail sampling counters and buffer usage; null when TAIL_SAMPLING_ENABLED is off
+ */
+export function getTailSamplingStats(): TailSamplingStats | null {
+  return tailSamplingProcessor?.getStats().tailSampling ?? null;
+}
+
 export function getTelemetrySDK(): NodeSDK | undefined {
   return sdk;
 }
@@ -0,0 +1,192 @@
+/* src/telemetry/metrics/exemplars.ts */
+
+/**
+ * Exemplars for the Prometheus endpoint. The OpenTelemetry JS SDK aggregates
+ * measurements without keeping exemplars, so ExemplarMeterProvider wraps the
+ * synchronous instruments it hands out and remembers, per series, the latest
+ * measurement taken inside a sampled span.
+ */
+
+import {
+  type Attributes,
+  type BatchObservableCallback,
+  type Context,
+  type Counter,
+  context as contextApi,
+  type Gauge,
+  type Histogram,
+  type Meter,
+  type MeterOptions,
+  type MetricOptions,
+  type Observable,
+  type ObservableCounter,
+  type ObservableGauge,
+  type ObservableUpDownCounter,
+  TraceFlags,
+  trace,
+  type UpDownCounter,
+} from "@opentelemetry/api";
+import { MeterProvider, type MeterProviderOptions } from "@opentelemetry/sdk-metrics";
+
+export interface Exemplar {
+  traceId: string;
+  spanId: string;
+  value: number;
+  timestamp: number; // Epoch ms
+}
+
+const DEFAULT_MAX_SERIES = 10000;
+
+/**
+ * Identifies a series by instrument name and attribute set, independent of attribute order
+ */
+export function seriesKey(name: string, attributes: Attributes = {}): string {
+  const labels = Object.keys(attributes)
+    .filter((key) => attributes[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${String(attributes[key])}`);
+  return `${name}{${labels.join(",")}}`;
+}
+
+export class ExemplarStore {
+  private readonly exemplars = new Map<string, Exemplar>();
+  private evicted = 0;
+
+  constructor(private readonly maxSeries = DEFAULT_MAX_SERIES) {}
+
+  /**
+   * Keep a measurement as its series' exemplar if it was taken in a sampled span
+   */
+  offer(name: string, value: number, attributes?: Attributes, context: Context = contextApi.active()): void {
+    const spanContext = trace.getSpanContext(context);
+    if (!spanContext || (spanContext.traceFlags & TraceFlags.SAMPLED) === 0) return;
+
+    // Re-inserting moves the series to the back, so eviction drops the least recently recorded one
+    const key = seriesKey(name, attributes);
+    this.exemplars.delete(key);
+    this.exemplars.set(key, {
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      value,
+      timestamp: Date.now(),
+    });
+
+    if (this.exemplars.size > this.maxSeries) {
+      const oldest = this.exemplars.keys().next().value;
+      if (oldest !== undefined) this.exemplars.delete(oldest);
+      this.evicted++;
+    }
+  }
+
+  get(name: string, attributes?: Attributes): Exemplar | undefined {
+    return this.exemplars.get(seriesKey(name, attributes));
+  }
+
+  getStats() {
+    return { series: this.exemplars.size, maxSeries: this.maxSeries, evicted: this.evicted };
+  }
+
+  clear(): void {
+    this.exemplars.clear();
+  }
+}
+
+/**
+ * Meter whose synchronous instruments report each measurement to an ExemplarStore
+ * before recording it; asynchronous instruments have no span context and pass through.
+ */
+class ExemplarMeter implements Meter {
+  constructor(
+    private readonly meter: Meter,
+    private readonly store: ExemplarStore
+  ) {}
+
+  createCounter<A extends Attributes = Attributes>(name: string, options?: MetricOptions): Counter<A> {
+    const counter = this.meter.createCounter<A>(name, options);
+    return {
+      add: (value, attributes, context) => {
+        this.store.offer(name, value, attributes, context);
+        counter.add(value, attributes, context);
+      },
+    };
+  }
+
+  createUpDownCounter<A extends Attributes = Attributes>(name: string, options?: MetricOptions): UpDownCounter<A> {
+    const counter = this.meter.createUpDownCounter<A>(name, options);
+    return {
+      add: (value, attributes, context) => {
+        this.store.offer(name, value, attributes, context);
+        counter.add(value, attributes, context);
+      },
+    };
+  }
+
+  createHistogram<A extends Attributes = Attributes>(name: string, options?: MetricOptions): Histogram<A> {
+    const histogram = this.meter.createHistogram<A>(name, options);
+    return {
+      record: (value, attributes, context) => {
+        this.store.offer(name, value, attributes, context);
+        histogram.record(value, attributes, context);
+      },
+    };
+  }
+
+  createGauge<A extends Attributes = Attributes>(name: string, options?: MetricOptions): Gauge<A> {
+    const gauge = this.meter.createGauge<A>(name, options);
+    return {
+      record: (value, attributes, context) => {
+        this.store.offer(name, value, attributes, context);
+        gauge.record(value, attributes, context);
+      },
+    };
+  }
+
+  createObservableGauge<A extends Attributes = Attributes>(name: string, options?: MetricOptions): ObservableGauge<A> {
+    return this.meter.createObservableGauge<A>(name, options);
+  }
+
+  createObservableCounter<A extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions
+  ): ObservableCounter<A> {
+    return this.meter.createObservableCounter<A>(name, options);
+  }
+
+  createObservableUpDownCounter<A extends Attributes = Attributes>(
+    name: string,
+    options?: MetricOptions
+  ): ObservableUpDownCounter<A> {
+    return this.meter.createObservableUpDownCounter<A>(name, options);
+  }
+
+  addBatchObservableCallback<A extends Attributes = Attributes>(
+    callback: BatchObservableCallback<A>,
+    observables: Observable<A>[]
+  ): void {
+    this.meter.addBatchObservableCallback(callback, observables);
+  }
+
+  removeBatchObservableCallback<A extends Attributes = Attributes>(
+    callback: BatchObservableCallback<A>,
+    observables: Observable<A>[]
+  ): void {
+    this.meter.removeBatchObservableCallback(callback, observables);
+  }
+}
+
+/**
+ * MeterProvider that hands out exemplar-capturing meters; without a store it behaves like its base class
+ */
+export class ExemplarMeterProvider extends MeterProvider {
+  constructor(
+    options: MeterProviderOptions,
+    readonly exemplars?: ExemplarStore
+  ) {
+    super(options);
+  }
+
+  override getMeter(name: string, version?: string, options?: MeterOptions): Meter {
+    const meter = super.getMeter(name, version, options);
+    return this.exemplars ? new ExemplarMeter(meter, this.exemplars) : meter;
+  }
+}
@@ -445,6 +445,13 @@ class SlaMonitor {
     return buffer.calculatePercentiles();
   }
 
+  /**
+   * Get the SLA threshold configured for an endpoint.
+   */
+  public getThreshold(endpoint: string): SlaThreshold | undefined {
+    return this.thresholdMap.get(endpoint);
+  }
+
   /**
    * Get recent violations.
    */
@@ -0,0 +1,296 @@
+/* src/telemetry/spool/TelemetrySpool.ts */
+
+/**
+ * Disk-backed spool for OTLP payloads the collector couldn't take.
+ * Batches are appended per signal while the endpoint is down (or its
+ * circuit is open) and replayed oldest-first, at a bounded rate, once
+ * an export to that endpoint succeeds again.
+ */
+
+import { Database, type Statement } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import config from "$config";
+import { getErrorMessage } from "$utils/errorUtils";
+import type { OTLPPayloadEncoding } from "../exporters/OTLPTransport";
+import type { TelemetrySignal } from "../telemetry-circuit-breaker";
+import { log, warn } from "../winston-logger";
+
+export interface TelemetrySpoolConfig {
+  path: string; // ":memory:" keeps the spool in-process
+  maxBytes: number;
+  maxAgeMs: number;
+  replayBytesPerSecond: number;
+}
+
+export interface SpoolSignalDepth {
+  entries: number;
+  bytes: number;
+  oldestAgeMs: number | null;
+}
+
+export interface TelemetrySpoolStats extends SpoolSignalDepth {
+  path: string;
+  maxBytes: number;
+  maxAgeMs: number;
+  signals: Record<TelemetrySignal, SpoolSignalDepth>;
+  spooled: number;
+  replayed: number;
+  evicted: number; // Removed to stay under maxBytes
+  expired: number; // Removed after maxAgeMs
+  rejected: number; // Single batches larger than maxBytes
+  replaying: TelemetrySignal[];
+}
+
+/**
+ * Handed to an export's result callback when its batch went to the spool:
+ * the export failed, but the data isn't lost and mustn't be retried elsewhere.
+ */
+export class SpooledExportError extends Error {
+  constructor(
+    readonly signal: TelemetrySignal,
+    cause?: unknown
+  ) {
+    super(`${signal} export failed; batch spooled for replay${cause ? `: ${getErrorMessage(cause)}` : ""}`);
+    this.name = "SpooledExportError";
+  }
+}
+
+interface SpoolRow {
+  id: number;
+  payload: Uint8Array;
+  encoding: OTLPPayloadEncoding;
+  bytes: number;
+}
+
+const SIGNALS: TelemetrySignal[] = ["traces", "metrics", "logs"];
+
+export class TelemetrySpool {
+  private db: Database | null;
+  private readonly insertStmt: Statement;
+  private readonly peekStmt: Statement;
+  private readonly deleteStmt: Statement;
+  private readonly expireStmt: Statement;
+  private readonly totalBytesStmt: Statement;
+  private readonly evictStmt: Statement;
+  private readonly depthStmt: Statement;
+
+  private readonly replaying = new Set<TelemetrySignal>();
+  private readonly counters = { spooled: 0, replayed: 0, evicted: 0, expired: 0, rejected: 0 };
+
+  constructor(private readonly config: TelemetrySpoolConfig) {
+    const persistent = config.path !== ":memory:";
+    if (persistent) mkdirSync(dirname(config.path), { recursive: true });
+
+    this.db = new Database(config.path, { create: true });
+    if (persistent) {
+      this.db.exec("PRAGMA journal_mode = WAL");
+      this.db.exec("PRAGMA synchronous = NORMAL");
+      this.db.exec("PRAGMA busy_timeout = 5000");
+    }
+
+    // AUTOINCREMENT keeps ids monotonic, so id order is append order even after deletes
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS spool (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        signal TEXT NOT NULL,
+        payload BLOB NOT NULL,
+        encoding TEXT NOT NULL,
+        bytes INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_spool_signal ON spool(signal, id);
+      CREATE INDEX IF NOT EXISTS idx_spool_created ON spool(created_at);
+    `);
+
+    this.insertStmt = this.db.query(
+      "INSERT INTO spool (signal, payload, encoding, bytes, created_at) VALUES (?, ?, ?, ?, ?)"
+    );
+    this.peekStmt = this.db.query(
+      "SELECT id, payload, encoding, bytes FROM spool WHERE signal = ? ORDER BY id LIMIT 1"
+    );
+    this.deleteStmt = this.db.query("DELETE FROM spool WHERE id = ?");
+    this.expireStmt = this.db.query("DELETE FROM spool WHERE created_at <= ?");
+    this.totalBytesStmt = this.db.query("SELECT COALESCE(SUM(bytes), 0) as total FROM spool");
+    // Oldest rows whose removal brings the spool down by at least ? bytes
+    this.evictStmt = this.db.query(`
+      DELETE FROM spool WHERE id IN (
+        SELECT id FROM (SELECT id, SUM(bytes) OVER (ORDER BY id) - bytes AS before FROM spool) WHERE before < ?
+      )
+    `);
+    this.depthStmt = this.db.query(
+      "SELECT signal, COUNT(*) as entries, SUM(bytes) as bytes, MIN(created_at) as oldest FROM spool GROUP BY signal"
+    );
+
+    this.expire(Date.now());
+    const restored = this.getStats();
+    if (restored.entries > 0) {
+      log("Telemetry spool restored pending batches", {
+        component: "telemetry-spool",
+        path: config.path,
+        entries: restored.entries,
+        bytes: restored.bytes,
+      });
+    }
+  }
+
+  /**
+   * Append one encoded export request. Returns false if it can't be kept.
+   */
+  append(signal: TelemetrySignal, payload: Uint8Array, encoding: OTLPPayloadEncoding): boolean {
+    if (!this.db) return false;
+
+    const bytes = payload.byteLength;
+    if (bytes > this.config.maxBytes) {
+      this.counters.rejected++;
+      warn("Telemetry batch too large for spool", {
+        component: "telemetry-spool",
+        signal,
+        bytes,
+        maxBytes: this.config.maxBytes,
+      });
+      return false;
+    }
+
+    const now = Date.now();
+    this.insertStmt.run(signal, payload, encoding, bytes, now);
+    this.counters.spooled++;
+    this.enforceCaps(now);
+    return true;
+  }
+
+  hasPending(signal: TelemetrySignal): boolean {
+    return this.db !== null && this.peekStmt.get(signal) !== null;
+  }
+
+  /**
+   * Send a signal's spooled batches oldest-first until the spool is empty or
+   * a send fails. Throughput is held to replayBytesPerSecond. Returns the
+   * number of batches delivered; concurrent calls for the same signal return 0.
+   */
+  async replay(
+    signal: TelemetrySignal,
+    send: (payload: Uint8Array, encoding: OTLPPayloadEncoding) => Promise<void>
+  ): Promise<number> {
+    if (this.replaying.has(signal)) return 0;
+    this.replaying.add(signal);
+
+    let replayed = 0;
+    try {
+      while (this.db) {
+        this.expire(Date.now());
+        const entry = this.peekStmt.get(signal) as SpoolRow | null;
+        if (!entry) break;
+
+        const startTime = Date.now();
+        try {
+          await send(entry.payload, entry.encoding);
+        } catch (error) {
+          warn("Telemetry spool replay paused", {
+            component: "telemetry-spool",
+            signal,
+            replayed,
+            error: getErrorMessage(error),
+          });
+          break;
+        }
+        if (!this.db) break;
+
+        this.deleteStmt.run(entry.id);
+        replayed++;
+        this.counters.replayed++;
+
+        const budgetMs = (entry.bytes / this.config.replayBytesPerSecond) * 1000;
+        const waitMs = budgetMs - (Date.now() - startTime);
+        if (waitMs > 0) await Bun.sleep(waitMs);
+      }
+    } finally {
+      this.replaying.delete(signal);
+    }
+
+    if (replayed > 0) {
+      log("Telemetry spool replayed batches", { component: "telemetry-spool", signal, replayed });
+    }
+    return replayed;
+  }
+
+  getStats(): TelemetrySpoolStats {
+    const now = Date.now();
+    const empty = (): SpoolSignalDepth => ({ entries: 0, bytes: 0, oldestAgeMs: null });
+    const signals = Object.fromEntries(SIGNALS.map((signal) => [signal, empty()])) as Record<
+      TelemetrySignal,
+      SpoolSignalDepth
+    >;
+
+    const rows = (this.db ? this.depthStmt.all() : []) as Array<{
+      signal: TelemetrySignal;
+      entries: number;
+      bytes: number;
+      oldest: number;
+    }>;
+    for (const row of rows) {
+      signals[row.signal] = { entries: row.entries, bytes: row.bytes, oldestAgeMs: now - row.oldest };
+    }
+
+    const depths = Object.values(signals);
+    const ages = depths.flatMap((depth) => (depth.oldestAgeMs === null ? [] : [depth.oldestAgeMs]));
+    return {
+      path: this.config.path,
+      maxBytes: this.config.maxBytes,
+      maxAgeMs: this.config.maxAgeMs,
+      entries: depths.reduce((sum, depth) => sum + depth.entries, 0),
+      bytes: depths.reduce((sum, depth) => sum + depth.bytes, 0),
+      oldestAgeMs: ages.length > 0 ? Math.max(...ages) : null,
+      signals,
+      ...this.counters,
+      replaying: [...this.replaying],
+    };
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private expire(now: number): void {
+    if (!this.db) return;
+    this.counters.expired += this.expireStmt.run(now - this.config.maxAgeMs).changes;
+  }
+
+  private enforceCaps(now: number): void {
+    this.expire(now);
+
+    const { total } = this.totalBytesStmt.get() as { total: number };
+    if (total <= this.config.maxBytes) return;
+
+    const evicted = this.evictStmt.run(total - this.config.maxBytes).changes;
+    this.counters.evicted += evicted;
+    warn("Telemetry spool full, evicted oldest batches", {
+      component: "telemetry-spool",
+      evicted,
+      maxBytes: this.config.maxBytes,
+    });
+  }
+}
+
+let telemetrySpool: TelemetrySpool | null = null;
+
+/**
+ * The process-wide spool, or null when SPOOL_ENABLED is off
+ */
+export function getTelemetrySpool(): TelemetrySpool | null {
+  if (!telemetrySpool && config.telemetry.SPOOL_ENABLED) {
+    telemetrySpool = new TelemetrySpool({
+      path: config.telemetry.SPOOL_PATH,
+      maxBytes: config.telemetry.SPOOL_MAX_BYTES,
+      maxAgeMs: config.telemetry.SPOOL_MAX_AGE_MS,
+      replayBytesPerSecond: config.telemetry.SPOOL_REPLAY_BYTES_PER_SECOND,
+    });
+  }
+  return telemetrySpool;
+}
+
+export function closeTelemetrySpool(): void {
+  telemetrySpool?.close();
+  telemetrySpool = null;
+}
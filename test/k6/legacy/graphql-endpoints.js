@@ -76,6 +76,7 @@ const seasons = ["C51", "C52"];
 const commonHeaders = {
   "Content-Type": "application/json",
   "User-Agent": "K6TestAgent/1.0",
+  ...(__ENV.RATE_LIMIT_BYPASS_TOKEN ? { "X-RateLimit-Bypass": __ENV.RATE_LIMIT_BYPASS_TOKEN } : {}),
 };
 
 export const options = {
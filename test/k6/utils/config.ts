@@ -63,9 +63,13 @@ export const performanceThresholds: PerformanceThresholds = {
   },
 };
 
-export const commonHeaders = {
+// Signed token from `bun run generate:rate-limit-token` - skips the server's rate limiter
+const rateLimitBypassToken = __ENV.RATE_LIMIT_BYPASS_TOKEN;
+
+export const commonHeaders: Record<string, string> = {
   "Content-Type": "application/json",
   "User-Agent": getConfig().userAgent,
+  ...(rateLimitBypassToken ? { "X-RateLimit-Bypass": rateLimitBypassToken } : {}),
 };
 
 export const commonParams = {
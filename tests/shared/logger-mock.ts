@@ -0,0 +1,17 @@
+/* tests/shared/logger-mock.ts - Silent telemetry logger for unit tests */
+
+import { mock } from "bun:test";
+
+/**
+ * Stand-ins for the log functions the telemetry loggers export
+ */
+export const loggerMock = () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+});
+
+// Importing this module (before the code under test) silences the Winston logger
+mock.module("../../src/telemetry/winston-logger", loggerMock);
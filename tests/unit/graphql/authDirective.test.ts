@@ -0,0 +1,159 @@
+/* tests/unit/graphql/authDirective.test.ts - @auth Directive Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { graphql } from "graphql";
+import { applyAuthDirective, authDirectiveTypeDefs } from "../../../src/graphql/directives/auth";
+
+const assignments = [
+  {
+    styleSeasonCode: "C52",
+    divisions: [
+      { code: "01", name: "Menswear" },
+      { code: "02", name: "Womenswear" },
+    ],
+  },
+  { styleSeasonCode: "C52", divisions: [{ code: "03", name: "Kids" }] },
+];
+
+const buildSchema = (enabled = true) =>
+  applyAuthDirective(
+    makeExecutableSchema({
+      typeDefs: [
+        authDirectiveTypeDefs,
+        /* GraphQL */ `
+          type Division {
+            code: String!
+          }
+          type Assignment {
+            styleSeasonCode: String!
+            divisions: [Division!]!
+          }
+          type Look {
+            divisionCode: String
+            brand: String
+          }
+          type Query {
+            ping: String @auth
+            open: String
+            looks(brand: String, division: String): [Look] @auth(requires: [DIVISION, BRAND])
+            urlCheck(divisions: [String!]!): [String!]! @auth(requires: [DIVISION])
+            assignments: [Assignment!]! @auth(requires: [DIVISION])
+            lookDetails(key: String!): Look @auth(requires: [DIVISION])
+          }
+        `,
+      ],
+      resolvers: {
+        Query: {
+          ping: () => "pong",
+          open: () => "open",
+          looks: (_: unknown, args: { brand?: string; division?: string }) => [
+            { divisionCode: args.division, brand: args.brand },
+          ],
+          urlCheck: (_: unknown, args: { divisions: string[] }) => args.divisions,
+          assignments: () => assignments,
+          lookDetails: (_: unknown, args: { key: string }) => ({ divisionCode: args.key, brand: "TH" }),
+        },
+      },
+    }),
+    { enabled, claimNames: { divisions: "divisions", brands: "brands" } }
+  );
+
+const schema = buildSchema();
+
+const run = (source: string, claims?: Record<string, unknown>, target = schema) =>
+  graphql({
+    schema: target,
+    source,
+    contextValue: {
+      requestId: "test",
+      dataLoader: {} as any,
+      user: claims ? { id: "user-1", claims: { sub: "user-1", ...claims } } : undefined,
+    },
+  });
+
+const member = { divisions: ["01"], brands: ["TH"] };
+
+describe("@auth directive", () => {
+  describe("Authentication", () => {
+    test("rejects anonymous callers on protected fields", async () => {
+      const result = await run("{ ping }");
+      expect(result.errors?.[0].originalError?.name).toBe("AuthenticationError");
+    });
+
+    test("leaves unannotated fields open", async () => {
+      const result = await run("{ open }");
+      expect(result.data).toEqual({ open: "open" });
+    });
+
+    test("is a no-op when authentication is disabled", async () => {
+      const result = await run('{ looks(division: "99", brand: "XX") { divisionCode } }', undefined, buildSchema(false));
+      expect(result.errors).toBeUndefined();
+    });
+  });
+
+  describe("Argument checks", () => {
+    test("allows owned division and brand", async () => {
+      const result = await run('{ looks(division: "01", brand: "TH") { divisionCode brand } }', member);
+      expect(result.data).toEqual({ looks: [{ divisionCode: "01", brand: "TH" }] });
+    });
+
+    test("denies a foreign division with AuthorizationError", async () => {
+      const result = await run('{ looks(division: "02", brand: "TH") { divisionCode } }', member);
+      expect(result.errors?.[0].originalError?.name).toBe("AuthorizationError");
+      expect(result.errors?.[0].message).toContain("division 02");
+    });
+
+    test("denies a foreign brand", async () => {
+      const result = await run('{ looks(division: "01", brand: "CK") { divisionCode } }', member);
+      expect(result.errors?.[0].message).toContain("brand CK");
+    });
+
+    test("requires restricted callers to name a division when the field accepts one", async () => {
+      const result = await run('{ looks(brand: "TH") { divisionCode } }', member);
+      expect(result.errors?.[0].originalError?.name).toBe("AuthorizationError");
+    });
+
+    test("checks every entry of list arguments", async () => {
+      const result = await run('{ urlCheck(divisions: ["01", "03"]) }', member);
+      expect(result.errors?.[0].message).toContain("division 03");
+    });
+
+    test("wildcard claims grant every code", async () => {
+      const result = await run('{ looks(division: "42", brand: "ANY") { divisionCode } }', {
+        divisions: "*",
+        brands: "*",
+      });
+      expect(result.errors).toBeUndefined();
+    });
+
+    test("accepts space separated claim strings", async () => {
+      const result = await run('{ urlCheck(divisions: ["01", "02"]) }', { divisions: "01 02" });
+      expect(result.data).toEqual({ urlCheck: ["01", "02"] });
+    });
+  });
+
+  describe("Result filtering", () => {
+    test("narrows list results to visible divisions", async () => {
+      const result = await run("{ assignments { divisions { code } } }", member);
+      expect(result.data).toEqual({ assignments: [{ divisions: [{ code: "01" }] }] });
+    });
+
+    test("denies single results outside the caller's divisions", async () => {
+      const allowed = await run('{ lookDetails(key: "01") { divisionCode } }', member);
+      const denied = await run('{ lookDetails(key: "02") { divisionCode } }', member);
+
+      expect(allowed.data).toEqual({ lookDetails: { divisionCode: "01" } });
+      expect(denied.errors?.[0].originalError?.name).toBe("AuthorizationError");
+    });
+  });
+});
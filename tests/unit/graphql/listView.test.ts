@@ -0,0 +1,123 @@
+/* tests/unit/graphql/listView.test.ts - List Filter and OrderBy Unit Tests */
+
+import { describe, expect, test } from "bun:test";
+import {
+  applyListView,
+  hasListView,
+  type ListViewFields,
+  selectFromFunction,
+  toN1qlListView,
+} from "../../../src/graphql/listView";
+import { LooksArgsSchema, OptionsProductViewArgsSchema } from "../../../src/graphql/validation/schemas";
+
+const fields: ListViewFields = {
+  filters: {
+    title: { path: "title", kind: "string" },
+    lookType: { path: "lookType", kind: "int" },
+    isDeleted: { path: "isDeleted", kind: "boolean" },
+  },
+  orderBy: { TITLE: "title", POSITION: "position" },
+  key: "documentKey",
+};
+
+const looks = [
+  { documentKey: "look::3", title: "Summer Denim", lookType: 1, position: 2 },
+  { documentKey: "look::1", title: "Spring Tailoring", lookType: 2, position: 1, isDeleted: false },
+  { documentKey: "look::2", title: "summer knits", lookType: 1, isDeleted: true },
+  { documentKey: "look::4", lookType: 3, position: 2 },
+];
+
+describe("toN1qlListView", () => {
+  test("builds parameterized predicates and a total order", () => {
+    const view = toN1qlListView("look", fields, {
+      filter: { title: { contains: "Summer", startsWith: "S" }, lookType: { in: [1, 2] }, isDeleted: false },
+      orderBy: [{ field: "POSITION", direction: "DESC" }, { field: "TITLE" }],
+    });
+
+    expect(view.where).toBe(
+      "CONTAINS(LOWER(look.`title`), $lv0) AND POSITION(look.`title`, $lv1) = 0 AND look.`lookType` IN $lv2 AND IFMISSINGORNULL(look.`isDeleted`, FALSE) = $lv3"
+    );
+    expect(view.parameters).toEqual({ lv0: "summer", lv1: "S", lv2: [1, 2], lv3: false });
+    expect(view.orderBy).toBe("look.`position` DESC, look.`title` ASC, look.`documentKey` ASC");
+    expect(selectFromFunction("get_looks($brand)", "look", view)).toStartWith(
+      "SELECT RAW look FROM get_looks($brand) AS look WHERE CONTAINS"
+    );
+  });
+
+  test("skips unknown fields and empty conditions", () => {
+    const view = toN1qlListView("look", fields, { filter: { title: null, color: { eq: "red" } }, orderBy: [] });
+    expect(view).toEqual({ where: "", orderBy: "", parameters: {} });
+    expect(selectFromFunction("get_looks()", "look", view)).toBe("SELECT RAW look FROM get_looks() AS look");
+    expect(hasListView({ filter: { title: null }, orderBy: [] })).toBe(false);
+    expect(hasListView({ orderBy: [{ field: "TITLE" }] })).toBe(true);
+  });
+});
+
+describe("applyListView", () => {
+  const keys = (rows: Array<{ documentKey: string }>) => rows.map((row) => row.documentKey);
+
+  test("filters with the same semantics as the N1QL predicates", () => {
+    expect(keys(applyListView(looks, fields, { filter: { title: { contains: "SUMMER" } } }))).toEqual([
+      "look::3",
+      "look::2",
+    ]);
+    expect(keys(applyListView(looks, fields, { filter: { title: { startsWith: "S" } } }))).toEqual([
+      "look::3",
+      "look::1",
+    ]);
+    expect(keys(applyListView(looks, fields, { filter: { isDeleted: false, lookType: { eq: 1 } } }))).toEqual([
+      "look::3",
+    ]);
+  });
+
+  test("sorts missing values first ascending and last descending, breaking ties by key", () => {
+    expect(keys(applyListView(looks, fields, { orderBy: [{ field: "TITLE" }] }))).toEqual([
+      "look::4",
+      "look::1",
+      "look::3",
+      "look::2",
+    ]);
+    expect(keys(applyListView(looks, fields, { orderBy: [{ field: "POSITION", direction: "DESC" }] }))).toEqual([
+      "look::3",
+      "look::4",
+      "look::1",
+      "look::2",
+    ]);
+  });
+
+  test("leaves the cached rows untouched", () => {
+    const rows = [...looks];
+    applyListView(rows, fields, { orderBy: [{ field: "TITLE" }] });
+    expect(rows).toEqual(looks);
+  });
+});
+
+describe("list view argument schemas", () => {
+  test("accept typed filters and orderBy", () => {
+    expect(
+      LooksArgsSchema.safeParse({
+        season: "SS26",
+        filter: { trend: { in: ["Denim"] }, lookType: { eq: 1 }, isDeleted: false },
+        orderBy: [{ field: "POSITION", direction: "DESC" }],
+      }).success
+    ).toBe(true);
+    expect(
+      OptionsProductViewArgsSchema.safeParse({
+        BrandCode: "TH",
+        SalesOrganizationCode: "1000",
+        StyleSeasonCode: "SS26",
+        DivisionCode: "01",
+        ActiveOption: true,
+        SalesChannels: ["SELLIN"],
+        filter: { isSoldOut: false, isNew: true, optionCode: { startsWith: "MW0" } },
+        orderBy: [{ field: "OPTION_CODE" }],
+      }).success
+    ).toBe(true);
+  });
+
+  test("reject unknown fields, empty contains and long orderBy lists", () => {
+    expect(LooksArgsSchema.safeParse({ filter: { color: { eq: "red" } } }).success).toBe(false);
+    expect(LooksArgsSchema.safeParse({ filter: { title: { contains: "" } } }).success).toBe(false);
+    expect(LooksArgsSchema.safeParse({ orderBy: Array(4).fill({ field: "TITLE" }) }).success).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+/* tests/unit/graphql/pagination.test.ts - Relay Connection Unit Tests */
+
+import { describe, expect, test } from "bun:test";
+import { connectionFromArray, decodeCursor, encodeCursor } from "../../../src/graphql/pagination";
+
+interface Item {
+  documentKey: string;
+}
+
+const items: Item[] = Array.from({ length: 10 }, (_, i) => ({ documentKey: `look::${i}` }));
+const getKey = (item: Item) => item.documentKey;
+
+function thrownBy(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the call to throw");
+}
+
+describe("Relay pagination", () => {
+  describe("Cursor encoding", () => {
+    test("round-trips key and offset", () => {
+      const cursor = encodeCursor("look::3", 3);
+      expect(decodeCursor(cursor)).toEqual({ key: "look::3", offset: 3 });
+    });
+
+    test("rejects malformed cursors as user input errors", () => {
+      const garbage = Buffer.from("garbage").toString("base64url");
+      expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid cursor");
+      expect(() => decodeCursor(garbage)).toThrow("Invalid cursor");
+
+      const error = thrownBy(() => decodeCursor(garbage));
+      expect(error).toMatchObject({ extensions: { code: "BAD_USER_INPUT" } });
+    });
+  });
+
+  describe("Forward paging", () => {
+    test("first returns the leading page", () => {
+      const connection = connectionFromArray(items, { first: 3 }, getKey);
+
+      expect(connection.totalCount).toBe(10);
+      expect(connection.edges.map((e) => e.node.documentKey)).toEqual(["look::0", "look::1", "look::2"]);
+      expect(connection.pageInfo.hasNextPage).toBe(true);
+      expect(connection.pageInfo.hasPreviousPage).toBe(false);
+    });
+
+    test("after continues from the end cursor", () => {
+      const page1 = connectionFromArray(items, { first: 4 }, getKey);
+      const page2 = connectionFromArray(items, { first: 4, after: page1.pageInfo.endCursor! }, getKey);
+      const page3 = connectionFromArray(items, { first: 4, after: page2.pageInfo.endCursor! }, getKey);
+
+      expect(page2.edges.map((e) => e.node.documentKey)).toEqual(["look::4", "look::5", "look::6", "look::7"]);
+      expect(page3.edges.map((e) => e.node.documentKey)).toEqual(["look::8", "look::9"]);
+      expect(page3.pageInfo.hasNextPage).toBe(false);
+      expect(page3.pageInfo.hasPreviousPage).toBe(true);
+    });
+
+    test("null arguments are treated as absent", () => {
+      const connection = connectionFromArray(items, { first: null, after: null, last: null, before: null }, getKey);
+      expect(connection.edges).toHaveLength(10);
+    });
+  });
+
+  describe("Backward paging", () => {
+    test("last returns the trailing page", () => {
+      const connection = connectionFromArray(items, { last: 2 }, getKey);
+
+      expect(connection.edges.map((e) => e.node.documentKey)).toEqual(["look::8", "look::9"]);
+      expect(connection.pageInfo.hasNextPage).toBe(false);
+      expect(connection.pageInfo.hasPreviousPage).toBe(true);
+    });
+
+    test("before with last pages towards the start", () => {
+      const tail = connectionFromArray(items, { last: 3 }, getKey);
+      const previous = connectionFromArray(items, { last: 3, before: tail.pageInfo.startCursor! }, getKey);
+
+      expect(previous.edges.map((e) => e.node.documentKey)).toEqual(["look::4", "look::5", "look::6"]);
+      expect(previous.pageInfo.hasNextPage).toBe(true);
+    });
+  });
+
+  describe("Cursor stability", () => {
+    test("cursors follow the node key when the list shifts", () => {
+      const page1 = connectionFromArray(items, { first: 2 }, getKey);
+      const shifted = [{ documentKey: "look::new" }, ...items];
+
+      const page2 = connectionFromArray(shifted, { first: 2, after: page1.pageInfo.endCursor! }, getKey);
+      expect(page2.edges.map((e) => e.node.documentKey)).toEqual(["look::2", "look::3"]);
+    });
+
+    test("falls back to the offset when the key is gone", () => {
+      const page1 = connectionFromArray(items, { first: 2 }, getKey);
+      const reduced = items.filter((item) => item.documentKey !== "look::1");
+
+      const page2 = connectionFromArray(reduced, { first: 2, after: page1.pageInfo.endCursor! }, getKey);
+      expect(page2.edges.map((e) => e.node.documentKey)).toEqual(["look::3", "look::4"]);
+    });
+
+    test("empty lists produce an empty connection", () => {
+      const connection = connectionFromArray([], { first: 5 }, getKey);
+
+      expect(connection.edges).toEqual([]);
+      expect(connection.totalCount).toBe(0);
+      expect(connection.pageInfo.startCursor).toBeNull();
+      expect(connection.pageInfo.endCursor).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/* tests/unit/graphql/relationships.test.ts - Relationship Field Resolver Unit Tests */
+
+import { afterEach, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import type { GraphQLContext } from "../../../src/graphql/context";
+import relationships from "../../../src/graphql/resolvers/relationships";
+import { applyResultScope } from "../../../src/lib/auth/policy";
+import { bunSQLiteCache } from "../../../src/lib/bunSQLiteCache";
+import { DocumentIds } from "../../../src/lib/couchbaseDocumentIds";
+import { createEntityLoaders, type EntitySources, type StyleKey } from "../../../src/lib/entityLoaders";
+import type { SeasonalAssignmentDocument } from "../../../src/lib/seasonalAssignmentRepository";
+
+const optionDocuments = [
+  { divisionCode: "01", styleSeasonCode: "SS26", styleNumber: "S1" },
+  { divisionCode: "01", styleSeasonCode: "SS26", styleNumber: "S2" },
+];
+
+const images: Record<string, Record<string, unknown>> = {
+  S1: { imageKey: "img-S1", frontUrl: "https://cdn/S1.jpg" },
+};
+
+const documents: Record<string, Record<string, unknown>> = {
+  [DocumentIds.seasonalAssignment("SS26", "C1")]: {
+    styleSeasonCode: "SS26",
+    companyCode: "C1",
+    name: "Company One",
+    divisions: [
+      { code: "01", name: "Menswear", isActive: true },
+      { code: "02", name: "Womenswear", isActive: false },
+    ],
+  },
+};
+
+/**
+ * Loaders over in-memory documents; `fetches` records the keys of every Couchbase call
+ */
+function createContext() {
+  const fetches: unknown[][] = [];
+  const sources: EntitySources = {
+    getMulti: async (_keyspace, ids) => {
+      fetches.push(ids);
+      return new Map(ids.filter((id) => documents[id]).map((id) => [id, documents[id]]));
+    },
+    getVersions: async () => new Map(),
+    query: async (statement, parameters) => {
+      fetches.push(parameters.styles as unknown[]);
+      if (statement.includes("getImageDetails")) {
+        return [(parameters.styles as StyleKey[]).map((style) => images[style.styleCode] ?? null)];
+      }
+      const styles = (parameters.styles as string[][]).map((style) => style.join("|"));
+      return optionDocuments.filter((option) =>
+        styles.includes([option.divisionCode, option.styleSeasonCode, option.styleNumber].join("|"))
+      );
+    },
+  };
+  const context = { requestId: "test", dataLoader: {} as any, loaders: createEntityLoaders(sources) } as GraphQLContext;
+  return { context, fetches };
+}
+
+describe("relationship fields", () => {
+  afterEach(async () => {
+    // Let the fire-and-forget entity cache writes land before clearing them
+    await Bun.sleep(10);
+    await bunSQLiteCache.clear();
+  });
+
+  test("Look.relatedOptions loads the options of every look in one batch", async () => {
+    const { context, fetches } = createContext();
+    const looks = [
+      { documentKey: "look::1", divisionCode: "01", styleSeasonCode: "SS26", relatedStyles: ["S1", "missing"] },
+      { documentKey: "look::2", divisionCode: "01", styleSeasonCode: "SS26", relatedStyles: ["S2", null] },
+    ];
+
+    const options = await Promise.all(looks.map((look) => relationships.Look.relatedOptions(look, {}, context)));
+
+    expect(options).toEqual([[optionDocuments[0]], [optionDocuments[1]]]);
+    expect(fetches).toHaveLength(1);
+    expect(fetches[0]).toHaveLength(3);
+  });
+
+  test("Look.relatedOptions is empty without a season or related styles", async () => {
+    const { context, fetches } = createContext();
+    expect(await relationships.Look.relatedOptions({ divisionCode: "01", relatedStyles: ["S1"] }, {}, context)).toEqual(
+      []
+    );
+    expect(fetches).toHaveLength(0);
+  });
+
+  test("OptionProductView.imageDetails resolves the option's image", async () => {
+    const { context } = createContext();
+    const image = await relationships.OptionProductView.imageDetails(
+      { divisionCode: "01", styleSeasonCode: "SS26", styleCode: "S1" },
+      {},
+      context
+    );
+    expect(image).toMatchObject({ imageKey: "img-S1" });
+    expect(relationships.OptionProductView.imageDetails({ divisionCode: "01" }, {}, context)).toBeNull();
+  });
+
+  test("SeasonalAssignment.divisionsDetail returns one divisional assignment per division", async () => {
+    const { context } = createContext();
+    const details = await relationships.SeasonalAssignment.divisionsDetail(
+      {
+        styleSeasonCode: "SS26",
+        companyCode: "C1",
+        // A stale copy; the details come from the current document
+        divisions: [
+          { code: "01", name: "Menswear", isActive: true },
+          { code: "02", name: "Womenswear", isActive: true },
+        ],
+      },
+      {},
+      context
+    );
+
+    expect(details.map((detail) => [detail.division.code, detail.companyCode])).toEqual([
+      ["01", "C1"],
+      ["02", "C1"],
+    ]);
+    expect(details[1]).toMatchObject({ name: "Company One", division: { isActive: false } });
+    expect(details[0]).not.toHaveProperty("divisions");
+  });
+
+  test("SeasonalAssignment.divisionsDetail stays within the divisions @auth left on the parent", async () => {
+    const { context } = createContext();
+    const [parent] = applyResultScope(
+      [documents[DocumentIds.seasonalAssignment("SS26", "C1")] as SeasonalAssignmentDocument],
+      ["DIVISION"],
+      { divisions: new Set(["01"]), brands: "*" },
+      "getAllSeasonalAssignments"
+    );
+
+    const details = await relationships.SeasonalAssignment.divisionsDetail(parent, {}, context);
+
+    expect(details.map((detail) => detail.division.code)).toEqual(["01"]);
+  });
+});
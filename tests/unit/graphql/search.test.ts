@@ -0,0 +1,125 @@
+/* tests/unit/graphql/search.test.ts - Search Query Resolver Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import type { GraphQLContext } from "../../../src/graphql/context";
+import { encodeCursor } from "../../../src/graphql/pagination";
+import { createSearchResolvers } from "../../../src/graphql/resolvers/search";
+import { InMemorySearchBackend, SearchExecutor } from "../../../src/lib/couchbase";
+
+function createSearch() {
+  const backend = new InMemorySearchBackend()
+    .index("looks_search", {
+      "look::1": { title: "Summer Denim", trend: "Denim", divisionCode: "01", gender: "Women" },
+      "look::2": { title: "Denim on denim", trend: "Denim", divisionCode: "02", gender: "Men" },
+      "look::3": { title: "Summer knits", trend: "Knitwear", divisionCode: "01", gender: "Women" },
+    })
+    .index("options_search", {
+      "option::01::SS26::S1": {
+        description: "Slim denim jacket",
+        divisionCode: "01",
+        styleSeasonCode: "SS26",
+        styleNumber: "S1",
+        merchandisingHierarchy: { gender: "Men" },
+      },
+    });
+  const resolvers = createSearchResolvers(new SearchExecutor(backend));
+  const context = { requestId: "test" } as GraphQLContext;
+  const search = (args: Record<string, unknown>) => resolvers.Query.search({}, args, context);
+  return { backend, resolvers, search };
+}
+
+describe("search query", () => {
+  test("merges looks and options by score with highlights and facets", async () => {
+    const { search } = createSearch();
+    const result = await search({ text: "denim" });
+
+    expect(result.totalCount).toBe(3);
+    expect(result.edges.map((edge: any) => [edge.node.type, edge.node.id])).toEqual([
+      ["LOOK", "look::2"],
+      ["LOOK", "look::1"],
+      ["OPTION", "option::01::SS26::S1"],
+    ]);
+    expect(result.edges[2].node.highlights).toEqual([
+      { field: "description", fragments: ["Slim <mark>denim</mark> jacket"] },
+    ]);
+    expect(result.facets.find((facet: any) => facet.field === "GENDER")).toEqual({
+      field: "GENDER",
+      total: 3,
+      missing: 0,
+      other: 0,
+      terms: [
+        { term: "Men", count: 2 },
+        { term: "Women", count: 1 },
+      ],
+    });
+    expect(result.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: false });
+  });
+
+  test("pages with first/after and applies filters to every index", async () => {
+    const { search, backend } = createSearch();
+    const firstPage = await search({ text: "denim summer", types: ["LOOK"], filters: { divisions: ["01"] }, first: 1 });
+
+    expect(firstPage.totalCount).toBe(2);
+    expect(firstPage.pageInfo.hasNextPage).toBe(true);
+    expect(backend.requests[0].spec).toMatchObject({
+      limit: 1,
+      skip: 0,
+      filters: { divisionCode: ["01"], trend: [], gender: [] },
+    });
+
+    const secondPage = await search({
+      text: "denim summer",
+      types: ["LOOK"],
+      filters: { divisions: ["01"] },
+      first: 1,
+      after: firstPage.pageInfo.endCursor,
+    });
+    expect(backend.requests[1].spec).toMatchObject({ limit: 1, skip: 1 });
+    expect(secondPage.edges[0].node.id).not.toBe(firstPage.edges[0].node.id);
+    expect(secondPage.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+  });
+
+  test("rejects empty text and pages past the result window", async () => {
+    const { search } = createSearch();
+    await expect(search({ text: "  " })).rejects.toThrow("Input validation failed");
+    await expect(search({ text: "denim", after: "bad" })).rejects.toThrow("Invalid cursor");
+    await expect(search({ text: "denim", first: 100, after: encodeCursor("look::1", 950) })).rejects.toThrow(
+      "limited to the first 1000 hits"
+    );
+  });
+
+  test("SearchHit resolves the look or option through the entity loaders", async () => {
+    const { resolvers } = createSearch();
+    const looks = { load: mock(async (id: string) => ({ documentKey: id })) };
+    const options = { load: mock(async (key: unknown) => key) };
+    const context = { loaders: { looks, options } } as unknown as GraphQLContext;
+    const optionHit = {
+      id: "option::01::SS26::S1",
+      type: "OPTION" as const,
+      score: 1,
+      divisionCode: "01",
+      highlights: [],
+      fields: { divisionCode: "01", styleSeasonCode: "SS26", styleNumber: "S1" },
+    };
+
+    expect(await resolvers.SearchHit.look({ ...optionHit, id: "look::1", type: "LOOK" }, {}, context)).toMatchObject({
+      documentKey: "look::1",
+    });
+    expect(await resolvers.SearchHit.option(optionHit, {}, context)).toEqual({
+      divisionCode: "01",
+      styleSeasonCode: "SS26",
+      styleCode: "S1",
+    });
+    expect(resolvers.SearchHit.look(optionHit, {}, context)).toBeNull();
+  });
+});
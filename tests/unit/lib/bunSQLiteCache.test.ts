@@ -0,0 +1,266 @@
+/* tests/unit/lib/bunSQLiteCache.test.ts - BunSQLiteCache Unit Tests */
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BunSQLiteCache, type BunSQLiteCacheConfig } from "../../../src/lib/bunSQLiteCache";
+
+const createCache = (overrides: Partial<BunSQLiteCacheConfig> = {}) =>
+  new BunSQLiteCache({
+    maxMemoryMB: 10,
+    defaultTtlMs: 60000,
+    cleanupIntervalMs: 60000,
+    maxEntries: 100,
+    compressionThreshold: 1024,
+    ...overrides,
+  });
+
+describe("BunSQLiteCache.getOrSet", () => {
+  let cache: BunSQLiteCache;
+
+  afterEach(() => cache.destroy());
+
+  test("concurrent misses share a single fetch", async () => {
+    cache = createCache();
+    const { promise: gate, resolve } = Promise.withResolvers<void>();
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      await gate;
+      return { looks: calls };
+    };
+
+    const pending = [cache.getOrSet("looks", fetcher), cache.getOrSet("looks", fetcher), cache.getOrSet("looks", fetcher)];
+    await Bun.sleep(0);
+    expect(cache.getStats().inFlight).toBe(1);
+    resolve();
+
+    expect(await Promise.all(pending)).toEqual([{ looks: 1 }, { looks: 1 }, { looks: 1 }]);
+    expect(calls).toBe(1);
+    expect(cache.getStats()).toMatchObject({ coalesced: 2, inFlight: 0 });
+    expect(await cache.getOrSet("looks", fetcher)).toEqual({ looks: 1 });
+    expect(cache.getStats().hits).toBe(1);
+  });
+
+  test("serves the expired value while one background refresh runs", async () => {
+    cache = createCache({ staleWhileRevalidateMs: 60000 });
+    await cache.set("looks", "v1", 5);
+    await Bun.sleep(10);
+
+    const { promise: gate, resolve } = Promise.withResolvers<void>();
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      await gate;
+      return "v2";
+    };
+
+    expect(await cache.getOrSet("looks", fetcher)).toBe("v1");
+    expect(await cache.getOrSet("looks", fetcher)).toBe("v1");
+    expect(calls).toBe(1);
+
+    resolve();
+    await Bun.sleep(0);
+    expect(await cache.getOrSet("looks", fetcher)).toBe("v2");
+    expect(cache.getStats()).toMatchObject({ staleHits: 2, backgroundRefreshes: 1, refreshFailures: 0 });
+  });
+
+  test("fetches synchronously once the stale window has passed", async () => {
+    cache = createCache({ staleWhileRevalidateMs: 5, staleIfErrorMs: 60000 });
+    await cache.set("looks", "v1", 5);
+    await Bun.sleep(15);
+
+    expect(await cache.getOrSet("looks", async () => "v2")).toBe("v2");
+    expect(cache.getStats().staleHits).toBe(0);
+  });
+
+  test("serves stale data on fetch errors only when serveStaleOnError accepts them", async () => {
+    let circuitOpen = false;
+    cache = createCache({ staleIfErrorMs: 60000, serveStaleOnError: () => circuitOpen });
+    await cache.set("looks", "v1", 5);
+    await Bun.sleep(10);
+
+    const failing = async (): Promise<string> => {
+      throw new Error("Circuit breaker is OPEN");
+    };
+
+    await expect(cache.getOrSet("looks", failing)).rejects.toThrow("Circuit breaker is OPEN");
+
+    circuitOpen = true;
+    expect(await cache.getOrSet("looks", failing)).toBe("v1");
+    expect(cache.getStats().staleIfErrorHits).toBe(1);
+
+    await cache.delete("looks");
+    await expect(cache.getOrSet("looks", failing)).rejects.toThrow("Circuit breaker is OPEN");
+  });
+});
+
+describe("BunSQLiteCache eviction policies", () => {
+  let cache: BunSQLiteCache;
+
+  afterEach(() => cache.destroy());
+
+  // Distinct last_accessed timestamps keep the expected order deterministic
+  const fill = async (keys: string[], costMs: Record<string, number> = {}) => {
+    for (const key of keys) {
+      await cache.set(key, key, undefined, undefined, costMs[key]);
+      await Bun.sleep(2);
+    }
+  };
+
+  test("lru evicts the least recently read entry", async () => {
+    cache = createCache({ maxEntries: 4, evictionPolicy: "lru" });
+    await fill(["a", "b", "c", "d"]);
+    await cache.get("a");
+    await cache.set("e", "e");
+
+    expect(await cache.has("a")).toBe(true);
+    expect(await cache.has("b")).toBe(false);
+    expect(cache.getStats().evictionsByPolicy).toMatchObject({ lru: 1, lfu: 0 });
+  });
+
+  test("lfu evicts the least read entry", async () => {
+    cache = createCache({ maxEntries: 4, evictionPolicy: "lfu" });
+    await fill(["a", "b", "c", "d"]);
+    for (const key of ["a", "b", "c", "a"]) await cache.get(key);
+    await cache.set("e", "e");
+
+    expect(await cache.has("d")).toBe(false);
+    expect(await cache.has("a")).toBe(true);
+    expect(cache.getStats()).toMatchObject({ evictionPolicy: "lfu", evictionsByPolicy: { lfu: 1 } });
+  });
+
+  test("greedy-dual keeps expensive entries over older cheap ones", async () => {
+    cache = createCache({ maxEntries: 4, evictionPolicy: "greedy-dual" });
+    await fill(["imageUrlCheck", "lookDetails:1", "lookDetails:2", "lookDetails:3"], { imageUrlCheck: 800 });
+    await cache.set("lookDetails:4", "lookDetails:4", undefined, undefined, 2);
+
+    expect(await cache.has("imageUrlCheck")).toBe(true);
+    expect(await cache.has("lookDetails:1")).toBe(false);
+    expect(cache.getStats().evictionsByPolicy).toMatchObject({ "greedy-dual": 1 });
+  });
+
+  test("getOrSet records the fetcher duration as the entry cost", async () => {
+    cache = createCache();
+    await cache.getOrSet("imageUrlCheck", async () => {
+      await Bun.sleep(20);
+      return [];
+    });
+
+    const row = (cache as any).db.query("SELECT cost FROM cache WHERE key = ?").get("imageUrlCheck");
+    expect(row.cost).toBeGreaterThanOrEqual(15);
+  });
+
+  test("tinylfu only admits keys requested more often than the victim", async () => {
+    cache = createCache({ maxEntries: 2, evictionPolicy: "tinylfu" });
+    await fill(["a", "b"]);
+    for (let i = 0; i < 3; i++) {
+      await cache.get("a");
+      await cache.get("b");
+    }
+
+    await cache.get("c");
+    await cache.set("c", "c");
+    expect(await cache.has("c")).toBe(false);
+    expect(cache.getStats().admissionsRejected).toBe(1);
+
+    for (let i = 0; i < 4; i++) await cache.get("c");
+    await cache.set("c", "c");
+    expect(await cache.has("c")).toBe(true);
+    expect(cache.getStats().evictionsByPolicy).toMatchObject({ tinylfu: 1 });
+  });
+});
+
+describe("BunSQLiteCache compression", () => {
+  let cache: BunSQLiteCache;
+
+  afterEach(() => cache.destroy());
+
+  const options = Array.from({ length: 200 }, (_, i) => ({
+    styleCode: `S${i}`,
+    divisionCode: "01",
+    description: "Regular fit cotton shirt",
+  }));
+
+  test.each(["zstd", "gzip"] as const)("stores large values compressed with %s", async (codec) => {
+    cache = createCache({ compressionCodec: codec });
+    await cache.set("options:01", options);
+    await cache.set("small", { a: 1 });
+
+    expect(await cache.get<typeof options>("options:01")).toEqual(options);
+    expect(await cache.get<{ a: number }>("small")).toEqual({ a: 1 });
+
+    const row = (cache as any).db.query("SELECT codec, size, raw_size FROM cache WHERE key = ?").get("options:01");
+    expect(row.codec).toBe(codec);
+    expect(row.raw_size).toBe(new TextEncoder().encode(JSON.stringify(options)).byteLength);
+    expect(row.size).toBeLessThan(row.raw_size / 4);
+
+    const stats = cache.getStats();
+    expect(stats.compressedEntries).toBe(1);
+    expect(stats.memoryUsage).toBe(row.size + 7);
+    expect(stats.compressionRatio).toBeGreaterThan(4);
+  });
+
+  test("keeps values uncompressed below the threshold or with compression off", async () => {
+    cache = createCache({ compressionCodec: "none" });
+    await cache.set("options:01", options);
+
+    expect(await cache.get<typeof options>("options:01")).toEqual(options);
+    expect(cache.getStats()).toMatchObject({ compressedEntries: 0, compressionRatio: 1 });
+  });
+});
+
+describe("BunSQLiteCache file backend", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sqlite-cache-"));
+    path = join(dir, "nested", "cache.sqlite");
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("keeps entries and their tags across restarts", async () => {
+    const first = createCache({ path });
+    await first.set("looks:TH:SS26:01", [{ title: "Spring" }], undefined, ["division:01"]);
+    first.destroy();
+
+    const second = createCache({ path });
+    expect(await second.get<Array<{ title: string }>>("looks:TH:SS26:01")).toEqual([{ title: "Spring" }]);
+    expect(second.getStats().size).toBe(1);
+    expect(await second.invalidateTags(["division:01"])).toBe(1);
+    second.destroy();
+  });
+
+  test("prunes expired entries and trims to the limits on startup", async () => {
+    const first = createCache({ path, maxEntries: 100 });
+    await first.set("expired", "gone", 1);
+    for (let i = 0; i < 5; i++) {
+      await first.set(`look:${i}`, `value ${i}`);
+      await Bun.sleep(2);
+    }
+    await first.get("look:0");
+    first.destroy();
+    await Bun.sleep(5);
+
+    const second = createCache({ path, maxEntries: 3 });
+    expect(await second.has("expired")).toBe(false);
+    expect(second.getStats().size).toBe(3);
+    // Least recently used entries go first; reading look:0 kept it
+    expect(await second.has("look:0")).toBe(true);
+    expect(await second.has("look:1")).toBe(false);
+    second.destroy();
+  });
+});
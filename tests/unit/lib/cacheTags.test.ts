@@ -0,0 +1,123 @@
+/* tests/unit/lib/cacheTags.test.ts - Cache Tag Unit Tests */
+
+import { afterEach, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { invalidateCacheTags } from "../../../src/graphql/cacheInvalidation";
+import { responseCache } from "../../../src/graphql/responseCache";
+import { BunSQLiteCache, bunSQLiteCache } from "../../../src/lib/bunSQLiteCache";
+import { CacheTags, collectArgumentCacheTags, collectCacheTags, isCacheTag } from "../../../src/lib/cacheTags";
+import { defaultQueryCache } from "../../../src/lib/queryCache";
+
+describe("collectCacheTags", () => {
+  test("collects divisions, seasons and brands from arguments and documents", () => {
+    const tags = collectCacheTags({
+      brand: "TH",
+      divisions: ["01", "02"],
+      looks: [{ documentKey: "look_1", divisionCode: "01", styleSeasonCode: "SS26", title: "Spring" }],
+      options: { edges: [{ node: { brandCode: "CK", divisionCode: "03" } }] },
+    });
+    expect(tags.sort()).toEqual(["brand:CK", "brand:TH", "division:01", "division:02", "division:03", "season:SS26"]);
+  });
+
+  test("ignores empty and non-string values and stops at maxTags", () => {
+    expect(collectCacheTags({ division: "", season: 26, brand: null })).toEqual([]);
+    expect(collectCacheTags({ divisions: ["01", "02", "03"] }, 2)).toHaveLength(2);
+  });
+
+  test("tags the executed operation's literal and variable arguments", () => {
+    const document = `
+      query Summary($season: String!, $d: String!) {
+        optionsSummary(SalesOrganizationCode: "1000", StyleSeasonCode: $season, DivisionCode: "01", ActiveOption: true, SalesChannels: [SELLIN]) { total }
+        looksSummary(brand: "TH", season: $season, division: $d) { total }
+        ...Extra
+      }
+      query Other { looks(divisionCode: "99") { title } }
+      fragment Extra on Query { optionsProductView(BrandCode: "CK", SalesOrganizationCode: "1000", StyleSeasonCode: "FW26", DivisionCode: "01", ActiveOption: true, SalesChannels: [SELLIN]) { optionCode } }
+    `;
+    const tags = collectArgumentCacheTags(document, { season: "SS26", d: "02" }, "Summary");
+    expect(tags.sort()).toEqual(["brand:CK", "brand:TH", "division:01", "division:02", "season:FW26", "season:SS26"]);
+    // The parsed arguments are remembered per document; variables are read on every call
+    expect(collectArgumentCacheTags(document, { season: "SS27", d: "03" }, "Summary")).toContain("division:03");
+    expect(collectArgumentCacheTags("{ looks(", {})).toEqual([]);
+  });
+
+  test("validates tag format", () => {
+    expect(isCacheTag(CacheTags.look("look_1"))).toBe(true);
+    expect(isCacheTag("division:01")).toBe(true);
+    expect(isCacheTag("option:01")).toBe(false);
+    expect(isCacheTag("division:01,02")).toBe(false);
+    expect(isCacheTag("division:")).toBe(false);
+  });
+});
+
+describe("BunSQLiteCache.invalidateTags", () => {
+  const cache = new BunSQLiteCache({
+    maxMemoryMB: 10,
+    defaultTtlMs: 60000,
+    cleanupIntervalMs: 60000,
+    maxEntries: 100,
+    compressionThreshold: 1024,
+  });
+
+  afterEach(() => cache.clear());
+
+  test("removes only entries carrying the tags", async () => {
+    await cache.set("entity:look:look_1", { title: "Spring" }, undefined, ["look:look_1", "division:01"]);
+    await cache.set("entity:look:look_2", { title: "Summer" }, undefined, ["look:look_2", "division:01"]);
+    await cache.set("options:02", [], undefined, ["division:02"]);
+
+    expect(await cache.invalidateTags(["look:look_1"])).toBe(1);
+    expect(await cache.get("entity:look:look_1")).toBeNull();
+    expect(await cache.get("entity:look:look_2")).not.toBeNull();
+
+    expect(await cache.invalidateTags(["division:01", "division:02"])).toBe(2);
+    expect(await cache.has("options:02")).toBe(false);
+  });
+
+  test("overwriting or deleting an entry drops its previous tags", async () => {
+    await cache.set("key", "v1", undefined, ["division:01"]);
+    await cache.set("key", "v2", undefined, ["division:02"]);
+    expect(await cache.invalidateTags(["division:01"])).toBe(0);
+
+    await cache.delete("key");
+    await cache.set("key", "v3");
+    expect(await cache.invalidateTags(["division:02"])).toBe(0);
+    expect(await cache.get<string>("key")).toBe("v3");
+  });
+});
+
+describe("invalidateCacheTags", () => {
+  test("purges the tags from every cache layer", async () => {
+    defaultQueryCache.set("looks:01", [], undefined, ["division:01"]);
+    await bunSQLiteCache.set("gql:looks:01", [], undefined, ["division:01"]);
+    responseCache.set(
+      "Looks|hash|division:01",
+      { data: { looks: [] } },
+      [{ typename: "Query" }],
+      60000
+    );
+    responseCache.set(
+      "LookDetails|hash",
+      { data: { lookDetails: { documentKey: "look_9", divisionCode: "02" } } },
+      [{ typename: "LookDetails", id: "look_9" }],
+      60000
+    );
+
+    const result = await invalidateCacheTags(["division:01", "look:look_9", "division:01"]);
+    expect(result).toEqual({
+      tags: ["division:01", "look:look_9"],
+      removed: { queryCache: 1, sqliteCache: 1, responseCache: 2 },
+      failed: [],
+    });
+    expect(responseCache.get("Looks|hash|division:01")).toBeUndefined();
+  });
+});
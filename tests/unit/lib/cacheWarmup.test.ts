@@ -0,0 +1,94 @@
+/* tests/unit/lib/cacheWarmup.test.ts - Cache Warm-up Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { CacheWarmer, type CacheWarmupOperation, parseCacheWarmupOperations } from "../../../src/lib/cacheWarmup";
+
+const looksSummary = "query LooksSummary($division: String) { looksSummary(season: \"SS26\", division: $division) { totalLooks } }";
+
+describe("parseCacheWarmupOperations", () => {
+  test("replays an operation once per variables entry", () => {
+    const operations = parseCacheWarmupOperations([
+      { query: looksSummary, operationName: "LooksSummary", variables: [{ division: "01" }, { division: "02" }] },
+      { query: "{ __typename }" },
+    ]);
+    expect(operations).toEqual([
+      { query: looksSummary, operationName: "LooksSummary", variables: { division: "01" } },
+      { query: looksSummary, operationName: "LooksSummary", variables: { division: "02" } },
+      { query: "{ __typename }", operationName: undefined, variables: undefined },
+    ]);
+  });
+
+  test("rejects malformed files", () => {
+    expect(() => parseCacheWarmupOperations({ query: looksSummary })).toThrow("JSON array");
+    expect(() => parseCacheWarmupOperations([{ query: "" }])).toThrow("operation 0 has no query");
+    expect(() => parseCacheWarmupOperations([{ query: looksSummary, variables: ["01"] }])).toThrow(
+      "operation 0 has invalid variables"
+    );
+  });
+});
+
+describe("CacheWarmer", () => {
+  const operations: CacheWarmupOperation[] = ["01", "02", "03", "04", "05"].map((division) => ({
+    query: looksSummary,
+    operationName: "LooksSummary",
+    variables: { division },
+  }));
+
+  test("is not ready while the run is in progress", async () => {
+    const warmer = new CacheWarmer();
+    expect(warmer.isReady()).toBe(true);
+
+    const { promise: gate, resolve } = Promise.withResolvers<void>();
+    let running = 0;
+    let maxRunning = 0;
+    const run = warmer.run(
+      operations,
+      async ({ variables }) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await gate;
+        running--;
+        if (variables?.division === "03") throw new Error("Couchbase unavailable");
+      },
+      { concurrency: 2, timeoutMs: 10000 }
+    );
+
+    expect(warmer.isReady()).toBe(false);
+    expect(warmer.getStatus()).toMatchObject({ state: "running", total: 5 });
+    resolve();
+
+    const status = await run;
+    expect(maxRunning).toBe(2);
+    expect(warmer.isReady()).toBe(true);
+    expect(status).toMatchObject({
+      state: "complete",
+      succeeded: 4,
+      failed: 1,
+      errors: [{ operationName: "LooksSummary", message: "Couchbase unavailable" }],
+    });
+  });
+
+  test("reports ready once the timeout passes", async () => {
+    const warmer = new CacheWarmer();
+    const status = await warmer.run(operations, () => new Promise(() => {}), { concurrency: 1, timeoutMs: 10 });
+    expect(status.state).toBe("timed-out");
+    expect(warmer.isReady()).toBe(true);
+  });
+
+  test("records a warm-up that could not start", () => {
+    const warmer = new CacheWarmer();
+    warmer.fail(new Error("ENOENT: warmup.json"));
+    expect(warmer.isReady()).toBe(true);
+    expect(warmer.getStatus()).toMatchObject({ state: "failed", errors: [{ message: "ENOENT: warmup.json" }] });
+  });
+});
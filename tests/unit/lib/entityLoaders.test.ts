@@ -0,0 +1,191 @@
+/* tests/unit/lib/entityLoaders.test.ts - Entity Loader Unit Tests */
+
+import { afterEach, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { bunSQLiteCache, SQLiteCacheKeys } from "../../../src/lib/bunSQLiteCache";
+import { DocumentIds } from "../../../src/lib/couchbaseDocumentIds";
+import {
+  createEntityLoaders,
+  type EntitySources,
+  getEntityLoaderStats,
+  resetEntityLoaderStats,
+  type StyleKey,
+} from "../../../src/lib/entityLoaders";
+
+interface Fixtures {
+  /** KV documents by id */
+  documents?: Record<string, Record<string, unknown>>;
+  /** getImageDetails results by style code */
+  images?: Record<string, Record<string, unknown>>;
+  /** Option documents the option query can match */
+  options?: Record<string, unknown>[];
+  /** Current CAS by document id */
+  versions?: Record<string, string>;
+}
+
+/**
+ * In-memory stand-in for Couchbase that records every KV read and query
+ */
+function createSources({ documents = {}, images = {}, options = [], versions = {} }: Fixtures) {
+  const calls: Array<{ collection: string; ids: string[] }> = [];
+  const versionCalls: Array<{ collection: string; ids: string[] }> = [];
+  const queries: Array<{ statement: string; parameters: Record<string, unknown> }> = [];
+  const sources: EntitySources = {
+    getMulti: async (keyspace, ids) => {
+      calls.push({ collection: keyspace.collection, ids });
+      return new Map(ids.filter((id) => documents[id]).map((id) => [id, documents[id]]));
+    },
+    getVersions: async (keyspace, ids) => {
+      versionCalls.push({ collection: keyspace.collection, ids });
+      return new Map(ids.filter((id) => versions[id]).map((id) => [id, versions[id]]));
+    },
+    query: async (statement, parameters) => {
+      queries.push({ statement, parameters });
+      if (statement.includes("getImageDetails")) {
+        return [(parameters.styles as StyleKey[]).map((style) => images[style.styleCode] ?? null)];
+      }
+      const styles = (parameters.styles as string[][]).map((style) => style.join("|"));
+      return options.filter((option) =>
+        styles.includes([option.divisionCode, option.styleSeasonCode, option.styleNumber].join("|"))
+      );
+    },
+  };
+  return { sources, calls, versionCalls, queries };
+}
+
+describe("createEntityLoaders", () => {
+  afterEach(async () => {
+    // Let the fire-and-forget entity cache writes land before clearing them
+    await Bun.sleep(10);
+    await bunSQLiteCache.clear();
+    resetEntityLoaderStats();
+  });
+
+  test("batches the looks requested in one tick into a single read by document key", async () => {
+    const { sources, calls } = createSources({
+      documents: {
+        "look::1": { divisionCode: "01", title: "Spring" },
+        "look_2": { divisionCode: "01", title: "Summer" },
+      },
+    });
+    const loaders = createEntityLoaders(sources);
+
+    const looks = await Promise.all([
+      loaders.looks.load("look::1"),
+      loaders.looks.load("look_2"),
+      loaders.looks.load("look::missing"),
+      loaders.looks.load("look::1"),
+    ]);
+
+    // Keys are used verbatim, as LookRepository does
+    expect(calls).toEqual([{ collection: "looks", ids: ["look::1", "look_2", "look::missing"] }]);
+    expect(looks.map((look) => look?.title ?? null)).toEqual(["Spring", "Summer", null, "Spring"]);
+    expect(looks[1]?.documentKey).toBe("look_2");
+    expect(getEntityLoaderStats().looks).toEqual({
+      hits: 0,
+      misses: 3,
+      notFound: 1,
+      batches: 1,
+      averageBatchSize: 3,
+      maxBatchSize: 3,
+    });
+  });
+
+  test("serves cached entities without fetching and caches what it fetched", async () => {
+    await bunSQLiteCache.set(SQLiteCacheKeys.entityImage("01", "SS26", "S1"), { imageKey: "cached" });
+    const { sources, queries } = createSources({
+      images: { S2: { imageKey: "img-S2", frontUrl: "https://cdn/S2.jpg" } },
+    });
+
+    const images = await Promise.all([
+      createEntityLoaders(sources).images.load({ divisionCode: "01", styleSeasonCode: "SS26", styleCode: "S1" }),
+      createEntityLoaders(sources).images.load({ divisionCode: "01", styleSeasonCode: "SS26", styleCode: "S2" }),
+    ]);
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].parameters).toEqual({ styles: [{ divisionCode: "01", styleSeasonCode: "SS26", styleCode: "S2" }] });
+    expect(images).toEqual([{ imageKey: "cached" }, { imageKey: "img-S2", frontUrl: "https://cdn/S2.jpg" }]);
+
+    // Entities are written back in the background
+    await Bun.sleep(10);
+    const next = await createEntityLoaders(sources).images.load({
+      divisionCode: "01",
+      styleSeasonCode: "SS26",
+      styleCode: "S2",
+    });
+    expect(next?.frontUrl).toBe("https://cdn/S2.jpg");
+    expect(queries).toHaveLength(1);
+    expect(getEntityLoaderStats().images).toMatchObject({ hits: 2, misses: 1, batches: 3 });
+  });
+
+  test("resolves every image of a batch through one getImageDetails statement", async () => {
+    const { sources, queries } = createSources({
+      images: { S1: { imageKey: "img-S1" }, S3: { imageKey: "img-S3" } },
+    });
+    const loaders = createEntityLoaders(sources);
+
+    const images = await Promise.all(
+      ["S1", "S2", "S3"].map((styleCode) => loaders.images.load({ divisionCode: "01", styleSeasonCode: "SS26", styleCode }))
+    );
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].statement).toContain("`default`.`_default`.getImageDetails(");
+    expect(images).toEqual([{ imageKey: "img-S1" }, null, { imageKey: "img-S3" }]);
+  });
+
+  test("reads assignments by their DocumentIds key and options by division, season and style", async () => {
+    const assignmentId = DocumentIds.seasonalAssignment("SS26", "C1");
+    const { sources, calls, queries } = createSources({
+      documents: { [assignmentId]: { styleSeasonCode: "SS26", companyCode: "C1", divisions: [] } },
+      options: [
+        { styleNumber: "S1", divisionCode: "01", styleSeasonCode: "FW26" },
+        { styleNumber: "S1", divisionCode: "01", styleSeasonCode: "SS26" },
+      ],
+    });
+    const loaders = createEntityLoaders(sources);
+
+    const [assignment, option] = await Promise.all([
+      loaders.assignments.load({ styleSeasonCode: "SS26", companyCode: "C1" }),
+      loaders.options.load({ divisionCode: "01", styleSeasonCode: "SS26", styleCode: "S1" }),
+    ]);
+
+    expect(assignment?.companyCode).toBe("C1");
+    expect(option).toEqual({ styleNumber: "S1", divisionCode: "01", styleSeasonCode: "SS26" });
+    expect(calls).toEqual([{ collection: "seasonal_assignments", ids: [assignmentId] }]);
+    expect(queries[0].parameters).toEqual({ styles: [["01", "SS26", "S1"]] });
+  });
+
+  test("reads the versions of a list of looks in one batch, live on every request", async () => {
+    const versions = { "look::1": "1700000000001", "look::2": "1700000000002" };
+    const { sources, versionCalls } = createSources({ versions });
+
+    const first = createEntityLoaders(sources);
+    expect(
+      await Promise.all(["look::1", "look::2", "look::missing"].map((key) => first.lookVersions.load(key)))
+    ).toEqual(["1700000000001", "1700000000002", null]);
+    expect(versionCalls).toEqual([{ collection: "looks", ids: ["look::1", "look::2", "look::missing"] }]);
+
+    versions["look::1"] = "1700000000003";
+    expect(await createEntityLoaders(sources).lookVersions.load("look::1")).toBe("1700000000003");
+    expect(versionCalls).toHaveLength(2);
+  });
+
+  test("rejects every key of a batch when the fetch fails", async () => {
+    const failing = async () => {
+      throw new Error("Circuit breaker is OPEN");
+    };
+    const loaders = createEntityLoaders({ getMulti: failing, getVersions: failing, query: failing });
+
+    const results = await Promise.allSettled([loaders.looks.load("look::1"), loaders.looks.load("look::2")]);
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+  });
+});
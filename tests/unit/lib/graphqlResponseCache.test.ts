@@ -0,0 +1,147 @@
+/* tests/unit/lib/graphqlResponseCache.test.ts - SQLite GraphQL Response Cache Unit Tests */
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildGraphQLCacheKey,
+  operationNameFromKey,
+  SQLiteGraphQLCache,
+} from "../../../src/lib/graphqlResponseCache";
+
+const lookResult = (title: string) => ({ data: { looks: [{ documentKey: "look_1", title }] } });
+const lookEntities = [{ typename: "Look", id: "look_1" }, { typename: "Query" }];
+
+describe("SQLiteGraphQLCache", () => {
+  let now = 1_000_000;
+  let cache: SQLiteGraphQLCache;
+
+  beforeEach(() => {
+    cache = new SQLiteGraphQLCache({ backend: "memory", now: () => now });
+  });
+
+  afterEach(() => cache.close());
+
+  test("stores responses until their TTL passes", () => {
+    cache.set("Looks|a", lookResult("Spring"), lookEntities, 1000);
+    expect(cache.get("Looks|a")).toEqual(lookResult("Spring"));
+
+    now += 1001;
+    expect(cache.get("Looks|a")).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ backend: "memory", entries: 0, hits: 1, misses: 1 });
+  });
+
+  test("invalidates responses by typename + id or by typename alone", () => {
+    cache.set("Looks|a", lookResult("Spring"), lookEntities, 60000);
+    cache.set("Looks|b", { data: { looks: [] } }, [{ typename: "Look", id: "look_2" }], 60000);
+    cache.set("Options|c", { data: { options: [] } }, [{ typename: "Option", id: "o_1" }], 60000);
+
+    cache.invalidate([{ typename: "Look", id: "look_1" }]);
+    expect(cache.get("Looks|a")).toBeUndefined();
+    expect(cache.get("Looks|b")).toBeDefined();
+
+    cache.invalidate([{ typename: "Look" }]);
+    expect(cache.get("Looks|b")).toBeUndefined();
+    expect(cache.get("Options|c")).toBeDefined();
+  });
+
+  test("lists and purges entries by operation name", () => {
+    cache.set("Looks|a", lookResult("Spring"), lookEntities, 60000);
+    cache.set("Looks|b", lookResult("Summer"), lookEntities, 60000);
+    cache.set("Options|c", { data: { options: [] } }, [], 60000);
+
+    const looks = cache.list("Looks");
+    expect(looks.map((entry) => entry.id).sort()).toEqual(["Looks|a", "Looks|b"]);
+    expect(looks[0].entities).toEqual(["Look", "Look:look_1", "Query"]);
+
+    expect(cache.purge("Looks")).toBe(2);
+    expect(cache.list().map((entry) => entry.operationName)).toEqual(["Options"]);
+  });
+
+  test("drops the oldest entries beyond maxEntries on cleanup", () => {
+    const bounded = new SQLiteGraphQLCache({ backend: "memory", maxEntries: 1, cleanupIntervalMs: 10, now: () => now });
+    bounded.set("Looks|a", lookResult("Spring"), [], 60000);
+    now += 1;
+    bounded.set("Looks|b", lookResult("Summer"), [], 60000);
+    (bounded as any).prune();
+    expect(bounded.list().map((entry) => entry.id)).toEqual(["Looks|b"]);
+    bounded.close();
+  });
+});
+
+describe("SQLiteGraphQLCache file backends", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "gql-cache-"));
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("sqlite backend keeps entries across restarts", () => {
+    const path = join(dir, "cache.sqlite");
+    const first = new SQLiteGraphQLCache({ backend: "sqlite", path });
+    first.set("Looks|a", lookResult("Spring"), lookEntities, 60000);
+    first.close();
+
+    const second = new SQLiteGraphQLCache({ backend: "sqlite", path });
+    expect(second.get("Looks|a")).toEqual(lookResult("Spring"));
+    second.close();
+  });
+
+  test("shared backend sees entries and invalidations from other workers", () => {
+    const path = join(dir, "shared.sqlite");
+    const workerA = new SQLiteGraphQLCache({ backend: "shared", path });
+    const workerB = new SQLiteGraphQLCache({ backend: "shared", path });
+
+    workerA.set("Looks|a", lookResult("Spring"), lookEntities, 60000);
+    expect(workerB.get("Looks|a")).toEqual(lookResult("Spring"));
+
+    workerB.invalidate([{ typename: "Look", id: "look_1" }]);
+    expect(workerA.get("Looks|a")).toBeUndefined();
+
+    workerA.close();
+    workerB.close();
+  });
+});
+
+describe("buildGraphQLCacheKey", () => {
+  test("prefixes the hash with the operation name", async () => {
+    const params = {
+      documentString: "query Looks($d: String) { looks(divisionCode: $d) { title } }",
+      variableValues: { d: "01" },
+      sessionId: null,
+      context: {},
+      request: new Request("http://localhost/graphql"),
+    };
+    const key = await buildGraphQLCacheKey(params);
+    expect(operationNameFromKey(key)).toBe("Looks");
+    expect(await buildGraphQLCacheKey({ ...params, sessionId: "user-1" })).not.toBe(key);
+    expect(operationNameFromKey(await buildGraphQLCacheKey({ ...params, documentString: "{ looks { title } }" }))).toBe(
+      "anonymous"
+    );
+  });
+
+  test("carries the tags of literal and variable arguments", async () => {
+    const key = await buildGraphQLCacheKey({
+      documentString:
+        'query Summary($d: String!) { optionsSummary(SalesOrganizationCode: "1000", StyleSeasonCode: "SS26", DivisionCode: $d, ActiveOption: true, SalesChannels: [SELLIN]) { total } }',
+      variableValues: { d: "01" },
+      sessionId: null,
+      context: {},
+      request: new Request("http://localhost/graphql"),
+    });
+    expect(key.split("|")[2].split(",").sort()).toEqual(["division:01", "season:SS26"]);
+  });
+});
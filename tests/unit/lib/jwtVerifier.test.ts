@@ -0,0 +1,192 @@
+/* tests/unit/lib/jwtVerifier.test.ts - JWT/JWKS Verification Unit Tests */
+
+import { afterAll, beforeAll, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JwksKeyStore } from "../../../src/lib/auth/jwks";
+import { extractBearerToken, JwtVerifier } from "../../../src/lib/auth/jwtVerifier";
+import { AuthenticationError } from "../../../src/models/errors";
+
+const ISSUER = "https://issuer.example.com/";
+const AUDIENCE = "capellaql";
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const now = () => Math.floor(Date.now() / 1000);
+
+interface SigningKey {
+  kid: string;
+  alg: string;
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+}
+
+async function createRsaKey(kid: string): Promise<SigningKey> {
+  const pair = await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"]
+  );
+  return { kid, alg: "RS256", privateKey: pair.privateKey, publicJwk: await crypto.subtle.exportKey("jwk", pair.publicKey) };
+}
+
+async function createEcKey(kid: string): Promise<SigningKey> {
+  const pair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  return { kid, alg: "ES256", privateKey: pair.privateKey, publicJwk: await crypto.subtle.exportKey("jwk", pair.publicKey) };
+}
+
+async function sign(key: SigningKey, claims: Record<string, unknown>, header: Record<string, unknown> = {}) {
+  const signingInput = `${encode({ alg: key.alg, kid: key.kid, typ: "JWT", ...header })}.${encode(claims)}`;
+  const params = key.alg === "ES256" ? { name: "ECDSA", hash: "SHA-256" } : { name: "RSASSA-PKCS1-v1_5" };
+  const signature = await crypto.subtle.sign(params, key.privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+const validClaims = (overrides: Record<string, unknown> = {}) => ({
+  sub: "user-123",
+  iss: ISSUER,
+  aud: AUDIENCE,
+  exp: now() + 300,
+  iat: now(),
+  divisions: ["01", "02"],
+  ...overrides,
+});
+
+describe("JwtVerifier", () => {
+  let dir: string;
+  let jwksPath: string;
+  let rsaKey: SigningKey;
+  let ecKey: SigningKey;
+  let verifier: JwtVerifier;
+
+  const writeJwks = (keys: SigningKey[]) => {
+    writeFileSync(
+      jwksPath,
+      JSON.stringify({ keys: keys.map((key) => ({ ...key.publicJwk, kid: key.kid, alg: key.alg, use: "sig" })) })
+    );
+  };
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    jwksPath = join(dir, "jwks.json");
+    rsaKey = await createRsaKey("rsa-1");
+    ecKey = await createEcKey("ec-1");
+    writeJwks([rsaKey, ecKey]);
+
+    verifier = new JwtVerifier({
+      keyStore: new JwksKeyStore({ file: jwksPath, cacheTtlMs: 60000, refreshCooldownMs: 0 }),
+      issuer: ISSUER,
+      audience: [AUDIENCE],
+      algorithms: ["RS256", "ES256"],
+      clockToleranceSeconds: 5,
+    });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("Signature verification", () => {
+    test("accepts RS256 tokens and returns the claims", async () => {
+      const claims = await verifier.verify(await sign(rsaKey, validClaims()));
+      expect(claims.sub).toBe("user-123");
+      expect(claims.divisions).toEqual(["01", "02"]);
+    });
+
+    test("accepts ES256 tokens", async () => {
+      const claims = await verifier.verify(await sign(ecKey, validClaims({ sub: "user-ec" })));
+      expect(claims.sub).toBe("user-ec");
+    });
+
+    test("rejects tampered payloads", async () => {
+      const [header, , signature] = (await sign(rsaKey, validClaims())).split(".");
+      const forged = `${header}.${encode(validClaims({ sub: "admin" }))}.${signature}`;
+      await expect(verifier.verify(forged)).rejects.toThrow("Invalid token signature");
+    });
+
+    test("rejects algorithms outside the allowlist", async () => {
+      const token = `${encode({ alg: "none" })}.${encode(validClaims())}.sig`;
+      await expect(verifier.verify(token)).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    test("rejects malformed tokens", async () => {
+      await expect(verifier.verify("not-a-jwt")).rejects.toThrow("Malformed token");
+    });
+  });
+
+  describe("Claim checks", () => {
+    test("rejects expired tokens", async () => {
+      const token = await sign(rsaKey, validClaims({ exp: now() - 60 }));
+      await expect(verifier.verify(token)).rejects.toThrow("Token expired");
+    });
+
+    test("allows expiry within the clock tolerance", async () => {
+      const token = await sign(rsaKey, validClaims({ exp: now() - 2 }));
+      expect((await verifier.verify(token)).sub).toBe("user-123");
+    });
+
+    test("rejects tokens that are not yet valid", async () => {
+      const token = await sign(rsaKey, validClaims({ nbf: now() + 120 }));
+      await expect(verifier.verify(token)).rejects.toThrow("Token not yet valid");
+    });
+
+    test("rejects the wrong issuer", async () => {
+      const token = await sign(rsaKey, validClaims({ iss: "https://evil.example.com/" }));
+      await expect(verifier.verify(token)).rejects.toThrow("Token issuer not accepted");
+    });
+
+    test("accepts any matching audience from an array", async () => {
+      const token = await sign(rsaKey, validClaims({ aud: ["other", AUDIENCE] }));
+      expect((await verifier.verify(token)).sub).toBe("user-123");
+    });
+
+    test("rejects the wrong audience", async () => {
+      const token = await sign(rsaKey, validClaims({ aud: "other" }));
+      await expect(verifier.verify(token)).rejects.toThrow("Token audience not accepted");
+    });
+  });
+
+  describe("Key caching", () => {
+    test("picks up rotated keys for an unknown kid", async () => {
+      const rotated = await createRsaKey("rsa-2");
+      writeJwks([rsaKey, ecKey, rotated]);
+
+      const claims = await verifier.verify(await sign(rotated, validClaims({ sub: "rotated" })));
+      expect(claims.sub).toBe("rotated");
+    });
+
+    test("rejects tokens signed by an unknown key", async () => {
+      const stranger = await createRsaKey("unknown");
+      await expect(verifier.verify(await sign(stranger, validClaims()))).rejects.toThrow("No matching signing key");
+    });
+
+    test("coalesces concurrent refreshes into one load", async () => {
+      const store = new JwksKeyStore({ file: jwksPath, cacheTtlMs: 60000 });
+      await Promise.all([store.refresh(), store.refresh(), store.getKey("rsa-1", "RS256")]);
+      expect(store.size).toBe(3);
+    });
+  });
+});
+
+describe("extractBearerToken", () => {
+  test("returns null without a header", () => {
+    expect(extractBearerToken(null)).toBeNull();
+  });
+
+  test("extracts the token case-insensitively", () => {
+    expect(extractBearerToken("bearer abc.def.ghi")).toBe("abc.def.ghi");
+  });
+
+  test("rejects other schemes", () => {
+    expect(() => extractBearerToken("Basic dXNlcjpwYXNz")).toThrow(AuthenticationError);
+  });
+});
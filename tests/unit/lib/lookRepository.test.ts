@@ -0,0 +1,158 @@
+/* tests/unit/lib/lookRepository.test.ts - Look Repository Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { CasMismatchError, DocumentNotFoundError as KeyNotFoundError, type MutateInSpec } from "couchbase";
+import { LookRepository, type TransactionRunner } from "../../../src/lib/lookRepository";
+import { ConflictError, DocumentNotFoundError } from "../../../src/models/errors";
+
+const cas = (value: number) => ({ toString: () => String(value) });
+
+/**
+ * Minimal in-memory collection: documents with an integer CAS bumped on every write
+ */
+function createCollection(docs: Record<string, Record<string, unknown>>) {
+  const store = new Map(Object.entries(docs).map(([key, content]) => [key, { content, cas: 1 }]));
+
+  const collection = {
+    store,
+    async get(key: string) {
+      const doc = store.get(key);
+      if (!doc) throw new KeyNotFoundError();
+      return { content: structuredClone(doc.content), cas: cas(doc.cas) };
+    },
+    async mutateIn(key: string, specs: MutateInSpec[], options: { cas?: string }) {
+      const doc = store.get(key);
+      if (!doc) throw new KeyNotFoundError();
+      if (options.cas && options.cas !== String(doc.cas)) throw new CasMismatchError();
+      for (const spec of specs) {
+        doc.content[spec._path] = JSON.parse(spec._data);
+      }
+      doc.cas++;
+      return { cas: cas(doc.cas) };
+    },
+  };
+  return collection;
+}
+
+/**
+ * Transaction stand-in: stages replaces and applies them only if the logic succeeds,
+ * wrapping failures the way the SDK does
+ */
+function createTransactionRunner(collection: ReturnType<typeof createCollection>): TransactionRunner {
+  return async (logic) => {
+    const staged = new Map<string, Record<string, unknown>>();
+    const ctx = {
+      get: (_: unknown, key: string) => collection.get(key).then((doc) => ({ ...doc, id: key })),
+      replace: async (doc: { id: string }, content: Record<string, unknown>) => {
+        staged.set(doc.id, content);
+        return doc;
+      },
+    };
+    try {
+      const result = await logic(ctx as any);
+      for (const [key, content] of staged) {
+        const doc = collection.store.get(key)!;
+        doc.content = content;
+        doc.cas++;
+      }
+      return result;
+    } catch (cause) {
+      throw Object.assign(new Error("transaction failed"), { cause });
+    }
+  };
+}
+
+const looks = () => ({
+  "look::1": { divisionCode: "01", title: "Spring", position: 0 },
+  "look::2": { divisionCode: "01", title: "Summer", position: 1 },
+  "look::3": { divisionCode: "02", title: "Other division", position: 0 },
+});
+
+describe("LookRepository.updateVersioned", () => {
+  test("applies updates at the expected version and returns the new one", async () => {
+    const collection = createCollection(looks());
+    const repository = new LookRepository(collection as any);
+
+    const updated = await repository.updateVersioned("look::1", "01", "1", { title: "Spring 2026", tag: "hero" });
+    expect(updated.version).toBe("2");
+    expect(updated.look).toMatchObject({ documentKey: "look::1", title: "Spring 2026", tag: "hero", position: 0 });
+    expect(collection.store.get("look::1")?.content.title).toBe("Spring 2026");
+  });
+
+  test("rejects a stale version with the current one", async () => {
+    const repository = new LookRepository(createCollection(looks()) as any);
+    await repository.updateVersioned("look::1", "01", "1", { title: "First" });
+
+    const error = await repository.updateVersioned("look::1", "01", "1", { title: "Second" }).catch((e) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.context).toMatchObject({ documentId: "look::1", expectedVersion: "1", currentVersion: "2" });
+  });
+
+  test("maps a CAS mismatch on write to a conflict", async () => {
+    const collection = createCollection(looks());
+    const repository = new LookRepository(collection as any);
+    // Another writer lands between the read and the write
+    const mutateIn = collection.mutateIn;
+    collection.mutateIn = async (key, specs, options) => {
+      collection.store.get(key)!.cas = 5;
+      return mutateIn(key, specs, options);
+    };
+
+    const error = await repository.updateVersioned("look::1", "01", "1", { isDeleted: true }).catch((e) => e);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.context.currentVersion).toBe("5");
+  });
+
+  test("treats missing looks and looks in another division as not found", async () => {
+    const repository = new LookRepository(createCollection(looks()) as any);
+    await expect(repository.updateVersioned("look::9", "01", "1", { title: "x" })).rejects.toBeInstanceOf(
+      DocumentNotFoundError
+    );
+    await expect(repository.updateVersioned("look::3", "01", "1", { title: "x" })).rejects.toBeInstanceOf(
+      DocumentNotFoundError
+    );
+  });
+});
+
+describe("LookRepository.reorder", () => {
+  test("moves every look and returns the committed versions", async () => {
+    const collection = createCollection(looks());
+    const repository = new LookRepository(collection as any, createTransactionRunner(collection));
+
+    const reordered = await repository.reorder("01", [
+      { documentKey: "look::1", expectedVersion: "1", position: 1 },
+      { documentKey: "look::2", expectedVersion: "1", position: 0 },
+    ]);
+    expect(reordered.map(({ look, version }) => [look.documentKey, look.position, version])).toEqual([
+      ["look::1", 1, "2"],
+      ["look::2", 0, "2"],
+    ]);
+  });
+
+  test("rolls back every move when one look is stale", async () => {
+    const collection = createCollection(looks());
+    collection.store.get("look::2")!.cas = 3;
+    const repository = new LookRepository(collection as any, createTransactionRunner(collection));
+
+    const error = await repository
+      .reorder("01", [
+        { documentKey: "look::1", expectedVersion: "1", position: 1 },
+        { documentKey: "look::2", expectedVersion: "1", position: 0 },
+      ])
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.context).toMatchObject({ documentId: "look::2", currentVersion: "3" });
+    expect(collection.store.get("look::1")).toMatchObject({ cas: 1, content: { position: 0 } });
+  });
+});
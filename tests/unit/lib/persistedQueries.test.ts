@@ -0,0 +1,120 @@
+/* tests/unit/lib/persistedQueries.test.ts - Persisted Query Unit Tests */
+
+import { afterAll, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { BunSQLiteCache } from "../../../src/lib/bunSQLiteCache";
+import {
+  isPersistedQueryError,
+  parsePersistedQueryManifest,
+  PersistedQueryStore,
+} from "../../../src/lib/persistedQueries";
+import { createPersistedQueryId } from "../../../src/lib/queryFingerprint";
+
+const query = "query Ping { __typename }";
+const hash = createPersistedQueryId(query);
+const persisted = (sha256Hash: string) => ({ persistedQuery: { version: 1, sha256Hash } });
+
+const cache = new BunSQLiteCache({
+  maxMemoryMB: 5,
+  defaultTtlMs: 60000,
+  cleanupIntervalMs: 60000,
+  maxEntries: 100,
+  compressionThreshold: 1024,
+});
+
+afterAll(() => {
+  cache.destroy();
+});
+
+describe("Persisted queries", () => {
+  test("ids are the SHA-256 hex of the query text", () => {
+    expect(hash).toBe(new Bun.CryptoHasher("sha256").update(query).digest("hex"));
+  });
+
+  describe("APQ mode", () => {
+    const store = new PersistedQueryStore({ mode: "apq", ttlMs: 60000, cache });
+
+    test("passes plain queries through", async () => {
+      expect(await store.resolve({ query: "{ other }" })).toBe("{ other }");
+    });
+
+    test("unknown hashes ask the client for the query text", async () => {
+      const unknown = createPersistedQueryId("query Unknown { __typename }");
+      try {
+        await store.resolve({ extensions: persisted(unknown) });
+        throw new Error("expected PersistedQueryNotFound");
+      } catch (error: any) {
+        expect(error.message).toBe("PersistedQueryNotFound");
+        expect(error.extensions.code).toBe("PERSISTED_QUERY_NOT_FOUND");
+        expect(isPersistedQueryError(error)).toBe(true);
+      }
+    });
+
+    test("registers query text and serves later hash-only requests", async () => {
+      expect(await store.resolve({ query, extensions: persisted(hash) })).toBe(query);
+      expect(await store.resolve({ extensions: persisted(hash) })).toBe(query);
+    });
+
+    test("rejects a hash that does not match the text", async () => {
+      await expect(store.resolve({ query: "{ other }", extensions: persisted(hash) })).rejects.toThrow(
+        "provided sha does not match query"
+      );
+    });
+
+    test("rejects unsupported protocol versions", async () => {
+      await expect(
+        store.resolve({ extensions: { persistedQuery: { version: 2, sha256Hash: hash } } })
+      ).rejects.toThrow("Unsupported persisted query version");
+    });
+  });
+
+  describe("Allowlist mode", () => {
+    const manifest = parsePersistedQueryManifest({
+      format: "apollo-persisted-query-manifest",
+      version: 1,
+      operations: [{ id: hash, name: "Ping", type: "query", body: query }],
+    });
+    const store = new PersistedQueryStore({ mode: "allowlist", manifest, ttlMs: 60000, cache });
+
+    test("runs manifest operations by hash", async () => {
+      expect(await store.resolve({ extensions: persisted(hash) })).toBe(query);
+    });
+
+    test("accepts the full text of a manifest operation", async () => {
+      expect(await store.resolve({ query })).toBe(query);
+    });
+
+    test("rejects arbitrary queries", async () => {
+      await expect(store.resolve({ query: "{ looks { documentKey } }" })).rejects.toThrow(
+        "Operation is not in the persisted query allowlist"
+      );
+    });
+
+    test("does not register new hashes", async () => {
+      const other = "query Other { __typename }";
+      await expect(store.resolve({ query: other, extensions: persisted(createPersistedQueryId(other)) })).rejects.toThrow(
+        "allowlist"
+      );
+    });
+  });
+
+  describe("Manifest parsing", () => {
+    test("rejects entries whose id does not match the body", () => {
+      expect(() =>
+        parsePersistedQueryManifest({
+          format: "apollo-persisted-query-manifest",
+          version: 1,
+          operations: [{ id: hash, name: "Tampered", type: "query", body: "{ looks { documentKey } }" }],
+        })
+      ).toThrow("Manifest id does not match body");
+    });
+  });
+});
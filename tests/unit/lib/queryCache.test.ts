@@ -308,6 +308,38 @@ describe("QueryCache", () => {
     });
   });
 
+  describe("Tag Invalidation", () => {
+    test("invalidateTags removes entries carrying any of the tags", () => {
+      cache.set("looks:01", ["look_1"], undefined, ["division:01", "season:SS26"]);
+      cache.set("looks:02", ["look_2"], undefined, ["division:02", "season:SS26"]);
+      cache.set("options:02", ["option_1"], undefined, ["division:02", "season:FW26"]);
+      cache.set("untagged", "value");
+
+      expect(cache.invalidateTags(["division:01", "season:FW26"])).toBe(2);
+      expect(cache.has("looks:01")).toBe(false);
+      expect(cache.has("options:02")).toBe(false);
+      expect(cache.has("looks:02")).toBe(true);
+      expect(cache.has("untagged")).toBe(true);
+    });
+
+    test("getOrSet can derive tags from the fetched data", async () => {
+      await cache.getOrSet("looks", async () => [{ documentKey: "look_1" }], undefined, (looks) =>
+        looks.map((look) => `look:${look.documentKey}`)
+      );
+
+      expect(cache.invalidateTags(["look:look_1"])).toBe(1);
+      expect(cache.has("looks")).toBe(false);
+    });
+
+    test("overwriting an entry replaces its tags", () => {
+      cache.set("key", "v1", undefined, ["division:01"]);
+      cache.set("key", "v2", undefined, ["division:02"]);
+
+      expect(cache.invalidateTags(["division:01"])).toBe(0);
+      expect(cache.invalidateTags(["division:02"])).toBe(1);
+    });
+  });
+
   describe("Static createKey Method", () => {
     test("creates consistent keys regardless of parameter order", () => {
       const key1 = QueryCache.createKey("operation", { a: 1, b: 2, c: 3 });
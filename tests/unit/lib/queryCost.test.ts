@@ -0,0 +1,154 @@
+/* tests/unit/lib/queryCost.test.ts - Query Cost Analysis Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import { execute, parse } from "graphql";
+import { costDirectiveTypeDefs } from "../../../src/graphql/directives/cost";
+import {
+  CostBudget,
+  isQueryCostError,
+  parseFieldCosts,
+  QueryCostCalculator,
+  useQueryCost,
+} from "../../../src/lib/queryCost";
+
+const schema = makeExecutableSchema({
+  typeDefs: [
+    costDirectiveTypeDefs,
+    /* GraphQL */ `
+      type Item {
+        id: String
+        children(first: Int): [Item]
+      }
+      type Query {
+        item: Item
+        search(keys: [String!]!, collections: [String!]!): [Item] @cost(value: 5, multipliers: ["keys", "collections"])
+        urlCheck(divisions: [String!]!): [String] @cost(value: 10, multipliers: ["divisions"])
+        items(first: Int): [Item]
+      }
+    `,
+  ],
+});
+
+const calculator = new QueryCostCalculator(schema, { defaultMultipliers: ["first"] });
+const cost = (query: string, variables?: Record<string, unknown>) => calculator.calculate(parse(query), null, variables);
+
+describe("QueryCostCalculator", () => {
+  test("charges object fields 1 and scalars 0 by default", () => {
+    expect(cost("{ item { id } }")).toBe(1);
+    expect(cost("{ item { id children { id } } }")).toBe(2);
+  });
+
+  test("uses @cost values and scales by list multiplier arguments", () => {
+    expect(cost('{ search(keys: ["a", "b", "c"], collections: ["x", "y"]) { id } }')).toBe(30);
+    expect(cost('{ urlCheck(divisions: ["01", "02"]) }')).toBe(20);
+  });
+
+  test("multiplies nested selections by numeric multiplier arguments", () => {
+    // items(first: 10) { children(first: 5) } = 10 * (1 + 5 * 1)
+    expect(cost("{ items(first: 10) { children(first: 5) { id } } }")).toBe(60);
+  });
+
+  test("reads multipliers from variables", () => {
+    const query = "query Q($keys: [String!]!) { search(keys: $keys, collections: [\"c\"]) { id } }";
+    expect(cost(query, { keys: ["1", "2", "3", "4"] })).toBe(20);
+  });
+
+  test("follows fragments and honours @skip/@include", () => {
+    const query = `
+      query Q($skip: Boolean!) {
+        ...Root
+        item @skip(if: $skip) { id }
+      }
+      fragment Root on Query { item { id } }
+    `;
+    expect(cost(query, { skip: true })).toBe(1);
+    expect(cost(query, { skip: false })).toBe(2);
+  });
+
+  test("config overrides take precedence over @cost", () => {
+    const overridden = new QueryCostCalculator(schema, { fieldCosts: parseFieldCosts(["Query.urlCheck=1"]) });
+    expect(overridden.calculate(parse('{ urlCheck(divisions: ["01", "02"]) }'))).toBe(2);
+  });
+
+  test("parseFieldCosts skips malformed entries", () => {
+    expect(parseFieldCosts(["Query.item=3", "bogus", "Query.items=-1"])).toEqual({ "Query.item": 3 });
+  });
+});
+
+describe("CostBudget", () => {
+  test("charges and refills over time", () => {
+    const budget = new CostBudget(100, 10);
+    expect(budget.charge("client", 80, 0)).toEqual({ allowed: true, remaining: 20, retryAfterSeconds: 0 });
+
+    const rejected = budget.charge("client", 50, 0);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterSeconds).toBe(3);
+
+    expect(budget.charge("client", 50, 3000).allowed).toBe(true);
+  });
+
+  test("keeps separate budgets per client", () => {
+    const budget = new CostBudget(10, 1);
+    expect(budget.charge("a", 10, 0).allowed).toBe(true);
+    expect(budget.charge("b", 10, 0).allowed).toBe(true);
+    expect(budget.charge("a", 1, 0).allowed).toBe(false);
+  });
+});
+
+describe("useQueryCost", () => {
+  const runExecute = (plugin: ReturnType<typeof useQueryCost>, query: string, contextValue: object) => {
+    let stopped: any;
+    const hooks = (plugin.onExecute as any)({
+      args: { schema, document: parse(query), contextValue, variableValues: {} },
+      setResultAndStopExecution: (result: unknown) => {
+        stopped = result;
+      },
+    });
+    return { stopped, hooks };
+  };
+
+  test("rejects operations above the per-query maximum", () => {
+    const plugin = useQueryCost({ calculator, budget: new CostBudget(1000, 1), maxCost: 10 });
+    const { stopped } = runExecute(plugin, '{ urlCheck(divisions: ["01", "02"]) }', { clientIp: "1.1.1.1" });
+
+    const error = stopped.errors[0];
+    expect(error.extensions.code).toBe("QUERY_COST_EXCEEDED");
+    expect(error.extensions.cost).toEqual({ requested: 20, maximum: 10 });
+    expect(isQueryCostError(error)).toBe(true);
+  });
+
+  test("rejects once the client budget is exhausted", () => {
+    const plugin = useQueryCost({ calculator, budget: new CostBudget(15, 1), maxCost: 15 });
+    const query = '{ urlCheck(divisions: ["01"]) }';
+    expect(runExecute(plugin, query, { user: { id: "u1" } }).stopped).toBeUndefined();
+
+    const error = runExecute(plugin, query, { user: { id: "u1" } }).stopped.errors[0];
+    expect(error.extensions.code).toBe("QUERY_BUDGET_EXHAUSTED");
+    expect(error.extensions.http.status).toBe(429);
+    expect(error.extensions.http.headers["Retry-After"]).toBe("5");
+  });
+
+  test("adds the computed cost to result extensions", async () => {
+    const plugin = useQueryCost({ calculator, budget: new CostBudget(100, 1), maxCost: 50 });
+    const { hooks } = runExecute(plugin, "{ item { id } }", { clientIp: "2.2.2.2" });
+
+    let result: any = await execute({ schema, document: parse("{ item { id } }") });
+    hooks.onExecuteDone({
+      result,
+      setResult: (next: unknown) => {
+        result = next;
+      },
+    });
+    expect(result.extensions.cost).toEqual({ requested: 1, remaining: 99, budget: 100 });
+  });
+});
@@ -0,0 +1,165 @@
+/* tests/unit/lib/rateLimit.test.ts - Rate Limiter Unit Tests */
+
+import { afterAll, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  BypassTokenVerifier,
+  MemoryRateLimitStore,
+  type RateLimitRule,
+  type RateLimitStore,
+  RespRateLimitStore,
+  SQLiteRateLimitStore,
+  signBypassToken,
+} from "../../../src/lib/rateLimit";
+import { slidingWindow, tokenBucket } from "../../../src/lib/rateLimit/algorithms";
+
+const slidingRule: RateLimitRule = { algorithm: "sliding-window", limit: 10, windowMs: 1000 };
+const bucketRule: RateLimitRule = { algorithm: "token-bucket", limit: 10, windowMs: 1000 };
+
+describe("Rate limit algorithms", () => {
+  test("sliding window allows the limit then rejects", () => {
+    let state: ReturnType<typeof slidingWindow>["state"] | undefined;
+    for (let i = 0; i < 10; i++) {
+      const step = slidingWindow(slidingRule, state, 5000);
+      expect(step.decision.allowed).toBe(true);
+      expect(step.decision.remaining).toBe(9 - i);
+      state = step.state;
+    }
+
+    const rejected = slidingWindow(slidingRule, state, 5000);
+    expect(rejected.decision.allowed).toBe(false);
+    expect(rejected.decision.resetMs).toBe(1000);
+    expect(rejected.decision.retryAfterMs).toBeGreaterThan(1000);
+  });
+
+  test("sliding window weights the previous window", () => {
+    // 10 requests at the start of one window, then 25% into the next: 10 * 0.75 = 7.5 still counted
+    const step = slidingWindow(slidingRule, [5000, 10, 0], 6250);
+    expect(step.decision.allowed).toBe(true);
+    expect(step.decision.remaining).toBe(1);
+
+    const rejected = slidingWindow(slidingRule, [6000, 2, 10], 6250);
+    expect(rejected.decision.allowed).toBe(false);
+    // 10 * (1 - t/1000) + 2 + 1 <= 10 once t >= 300ms, i.e. ~50ms from now
+    expect(rejected.decision.retryAfterMs).toBeGreaterThanOrEqual(50);
+    expect(rejected.decision.retryAfterMs).toBeLessThanOrEqual(51);
+  });
+
+  test("token bucket bursts to capacity and refills continuously", () => {
+    let state = tokenBucket(bucketRule, undefined, 0).state;
+    for (let i = 1; i < 10; i++) state = tokenBucket(bucketRule, state, 0).state;
+
+    const rejected = tokenBucket(bucketRule, state, 0);
+    expect(rejected.decision.allowed).toBe(false);
+    expect(rejected.decision.retryAfterMs).toBe(100);
+
+    const refilled = tokenBucket(bucketRule, state, 250);
+    expect(refilled.decision.allowed).toBe(true);
+    expect(refilled.decision.remaining).toBe(1);
+  });
+});
+
+describe("Rate limit stores", () => {
+  const directory = mkdtempSync(join(tmpdir(), "ratelimit-"));
+  let now = 10000;
+  const clock = () => now;
+
+  const stores: RateLimitStore[] = [
+    new MemoryRateLimitStore(60000, clock),
+    new SQLiteRateLimitStore(join(directory, "limits.sqlite"), 60000, clock),
+  ];
+
+  afterAll(async () => {
+    for (const store of stores) await store.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  for (const store of stores) {
+    test(`${store.backend} store enforces limits per key`, async () => {
+      now = 10000;
+      for (let i = 0; i < 10; i++) {
+        expect((await store.consume("a", slidingRule)).allowed).toBe(true);
+      }
+      expect((await store.consume("a", slidingRule)).allowed).toBe(false);
+      expect((await store.consume("b", slidingRule)).allowed).toBe(true);
+
+      await store.reset("a");
+      expect((await store.consume("a", slidingRule)).remaining).toBe(9);
+    });
+
+    test(`${store.backend} store expires stale state`, async () => {
+      now = 20000;
+      for (let i = 0; i < 10; i++) await store.consume("c", bucketRule);
+      expect((await store.consume("c", bucketRule)).allowed).toBe(false);
+
+      now += 5000;
+      expect((await store.consume("c", bucketRule)).remaining).toBe(9);
+    });
+  }
+
+  test("sqlite store shares state between connections to the same file", async () => {
+    const path = join(directory, "shared.sqlite");
+    const first = new SQLiteRateLimitStore(path, 60000, clock);
+    const second = new SQLiteRateLimitStore(path, 60000, clock);
+    now = 30000;
+
+    for (let i = 0; i < 5; i++) await first.consume("shared", slidingRule);
+    expect((await second.consume("shared", slidingRule)).remaining).toBe(4);
+
+    await first.close();
+    await second.close();
+  });
+
+  test("resp store runs the script with EVALSHA and falls back to EVAL", async () => {
+    const calls: Array<[string, string[]]> = [];
+    const client = {
+      send: mock(async (command: string, args: string[]) => {
+        calls.push([command, args]);
+        if (command === "EVALSHA") throw new Error("NOSCRIPT No matching script");
+        return [1, 7, 400, 0];
+      }),
+      close: mock(() => {}),
+    };
+
+    const store = new RespRateLimitStore(client);
+    const decision = await store.consume("key", slidingRule);
+
+    expect(decision).toEqual({ allowed: true, limit: 10, remaining: 7, resetMs: 400, retryAfterMs: 0 });
+    expect(calls.map(([command]) => command)).toEqual(["EVALSHA", "EVAL"]);
+    expect(calls[1][1].slice(1)).toEqual(["1", "key", "sliding-window", "10", "1000"]);
+
+    await store.close();
+    expect(client.close).toHaveBeenCalled();
+  });
+});
+
+describe("Bypass tokens", () => {
+  const secret = "0123456789abcdef0123456789abcdef";
+  const verifier = new BypassTokenVerifier(secret, ["k6"], () => 1_000_000);
+  const expiresAt = new Date(2_000_000);
+
+  test("accepts signed, unexpired, allowlisted tokens", () => {
+    expect(verifier.verify(signBypassToken("k6", secret, expiresAt))).toBe("k6");
+  });
+
+  test("rejects tampered, expired, unknown or unsigned tokens", () => {
+    const token = signBypassToken("k6", secret, expiresAt);
+    expect(verifier.verify(token.replace("k6.", "k7."))).toBeNull();
+    expect(verifier.verify(signBypassToken("k6", "another-secret-of-sufficient-length", expiresAt))).toBeNull();
+    expect(verifier.verify(signBypassToken("k6", secret, new Date(500_000)))).toBeNull();
+    expect(verifier.verify(signBypassToken("other", secret, expiresAt))).toBeNull();
+    expect(verifier.verify("K6TestAgent/1.0")).toBeNull();
+    expect(verifier.verify(undefined)).toBeNull();
+  });
+});
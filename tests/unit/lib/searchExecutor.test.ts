@@ -0,0 +1,99 @@
+/* tests/unit/lib/searchExecutor.test.ts - Search Executor Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import {
+  CircuitBreaker,
+  CircuitBreakerOpenError,
+  couchbaseMetrics,
+  InMemorySearchBackend,
+  SearchExecutor,
+} from "../../../src/lib/couchbase";
+
+const target = { index: "looks_search", bucket: "default", scope: "media_assets" };
+
+function createBackend() {
+  return new InMemorySearchBackend().index("looks_search", {
+    "look::1": { title: "Summer Denim", trend: "Denim", divisionCode: "01", gender: "Women" },
+    "look::2": { title: "Denim on denim", trend: "Denim", divisionCode: "02", gender: "Men" },
+    "look::3": { title: "Spring Tailoring", trend: "Tailoring", divisionCode: "01" },
+    "look::4": { title: "Summer knits", trend: "Knitwear", divisionCode: "01", gender: "Women" },
+  });
+}
+
+describe("InMemorySearchBackend", () => {
+  test("ranks matches by score and highlights the matched terms", async () => {
+    const response = await createBackend().search(target, {
+      text: "denim",
+      highlightFields: ["title"],
+      fields: ["divisionCode"],
+      limit: 10,
+    });
+
+    expect(response.hits.map((hit) => hit.id)).toEqual(["look::2", "look::1"]);
+    expect(response.hits[0].fragments).toEqual({ title: ["<mark>Denim</mark> on <mark>denim</mark>"] });
+    expect(response.hits[1].fields).toEqual({ divisionCode: "01" });
+    expect(response.totalHits).toBe(2);
+    expect(response.maxScore).toBe(response.hits[0].score);
+  });
+
+  test("filters by exact values and counts facets over every match", async () => {
+    const response = await createBackend().search(target, {
+      text: "summer denim tailoring",
+      filters: { divisionCode: ["01"] },
+      facets: { TREND: { field: "trend", size: 1 }, GENDER: { field: "gender", size: 10 } },
+      limit: 1,
+      skip: 1,
+    });
+
+    expect(response.totalHits).toBe(3);
+    expect(response.hits).toHaveLength(1);
+    expect(response.facets.TREND).toEqual({
+      field: "trend",
+      total: 3,
+      missing: 0,
+      other: 2,
+      terms: [{ term: "Denim", count: 1 }],
+    });
+    expect(response.facets.GENDER).toMatchObject({ total: 2, missing: 1, terms: [{ term: "Women", count: 2 }] });
+  });
+});
+
+describe("SearchExecutor", () => {
+  test("records search metrics for each request", async () => {
+    const executor = new SearchExecutor(createBackend());
+    const before = couchbaseMetrics.getQueryTypeBreakdown().search?.count ?? 0;
+
+    await executor.search(target, { text: "knits", limit: 5, requestId: "req-1" });
+
+    expect(couchbaseMetrics.getQueryTypeBreakdown().search.count).toBe(before + 1);
+  });
+
+  test("opens the circuit after repeated Search service failures", async () => {
+    const backend = createBackend();
+    backend.failure = new Error("service unavailable");
+    const executor = new SearchExecutor(
+      backend,
+      new CircuitBreaker({ failureThreshold: 2, successThreshold: 1, timeout: 60000 })
+    );
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expect(executor.search(target, { text: "denim", limit: 5 })).rejects.toThrow("service unavailable");
+    }
+    await expect(executor.search(target, { text: "denim", limit: 5 })).rejects.toBeInstanceOf(
+      CircuitBreakerOpenError
+    );
+
+    expect(backend.requests).toHaveLength(2);
+    expect(executor.getCircuitBreakerStats().state).toBe("open");
+  });
+});
@@ -0,0 +1,141 @@
+/* tests/unit/lib/seasonalAssignmentRepository.test.ts - Seasonal Assignment Bulk Edit Unit Tests */
+
+import { describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+mock.module("../../../src/telemetry/logger", () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+}));
+
+import { DocumentNotFoundError as KeyNotFoundError, TransactionCommitAmbiguousError } from "couchbase";
+import { DocumentIds } from "../../../src/lib/couchbaseDocumentIds";
+import {
+  applyAssignmentChange,
+  type BatchRunner,
+  type SeasonalAssignmentDocument,
+  SeasonalAssignmentRepository,
+} from "../../../src/lib/seasonalAssignmentRepository";
+
+const assignment = (companyCode: string): SeasonalAssignmentDocument => ({
+  styleSeasonCode: "SS26",
+  companyCode,
+  divisions: [
+    { name: "Footwear", code: "01", isActive: true },
+    { name: "Apparel", code: "02", isActive: false },
+  ],
+  salesOrganizationCodes: ["1000"],
+  channels: ["SELLIN"],
+});
+
+function createCollection(companies: string[]) {
+  const store = new Map(
+    companies.map((company) => [DocumentIds.seasonalAssignment("SS26", company), assignment(company)])
+  );
+  return {
+    store,
+    async get(key: string) {
+      const content = store.get(key);
+      if (!content) throw new KeyNotFoundError();
+      return { content: structuredClone(content), cas: { toString: () => "1" } };
+    },
+  };
+}
+
+/**
+ * Transaction stand-in running each operation against staged replaces,
+ * applied only when every operation succeeds (optionally reporting an ambiguous commit)
+ */
+function createBatchRunner(collection: ReturnType<typeof createCollection>, ambiguous = false): BatchRunner {
+  return async (operations) => {
+    const staged = new Map<string, SeasonalAssignmentDocument>();
+    const ctx = {
+      get: (_: unknown, key: string) => collection.get(key).then((doc) => ({ ...doc, id: key })),
+      replace: async (doc: { id: string }, content: SeasonalAssignmentDocument) => {
+        staged.set(doc.id, content);
+        return doc;
+      },
+    };
+    const results = [];
+    for (const operation of operations) {
+      results.push(await operation(ctx as any));
+    }
+    if (ambiguous) throw new TransactionCommitAmbiguousError();
+    for (const [key, content] of staged) collection.store.set(key, content);
+    return results;
+  };
+}
+
+describe("applyAssignmentChange", () => {
+  test("toggles requested divisions and reports unknown codes", () => {
+    const { next, diff } = applyAssignmentChange(assignment("C1"), {
+      kind: "divisions",
+      divisionCodes: ["01", "02", "99"],
+      isActive: true,
+    });
+    expect(next.divisions.map((division) => division.isActive)).toEqual([true, true]);
+    expect(diff.divisions).toEqual([{ code: "02", from: false, to: true }]);
+    expect(diff.unknownDivisionCodes).toEqual(["99"]);
+  });
+
+  test("adds and removes list values, ignoring ones already in place", () => {
+    const { next, diff } = applyAssignmentChange(assignment("C1"), {
+      kind: "salesOrganizationCodes",
+      add: ["1000", "2000"],
+      remove: ["3000"],
+    });
+    expect(next.salesOrganizationCodes).toEqual(["1000", "2000"]);
+    expect(diff.salesOrganizationCodes).toEqual({ added: ["2000"], removed: [] });
+
+    const channels = applyAssignmentChange(assignment("C1"), { kind: "channels", add: ["B2B"], remove: ["SELLIN"] });
+    expect(channels.next.channels).toEqual(["B2B"]);
+    expect(channels.diff.channels).toEqual({ added: ["B2B"], removed: ["SELLIN"] });
+  });
+});
+
+describe("SeasonalAssignmentRepository.applyBulk", () => {
+  const keys = [
+    { styleSeasonCode: "SS26", companyCode: "C1" },
+    { styleSeasonCode: "SS26", companyCode: "C2" },
+    { styleSeasonCode: "SS26", companyCode: "C9" },
+  ];
+  const activate = { kind: "divisions" as const, divisionCodes: ["02"], isActive: true };
+
+  test("dry run reports the diff per document without writing", async () => {
+    const collection = createCollection(["C1", "C2"]);
+    const runBatch = mock(createBatchRunner(collection));
+    const repository = new SeasonalAssignmentRepository(collection as any, runBatch as BatchRunner);
+
+    const result = await repository.applyBulk(keys, activate, { dryRun: true });
+    expect(result).toMatchObject({ dryRun: true, committed: false });
+    expect(result.results.map((entry) => entry.status)).toEqual(["WOULD_UPDATE", "WOULD_UPDATE", "NOT_FOUND"]);
+    expect(result.results[0].assignment?.divisions[1].isActive).toBe(true);
+    expect(runBatch).not.toHaveBeenCalled();
+    expect(collection.store.get(DocumentIds.seasonalAssignment("SS26", "C1"))?.divisions[1].isActive).toBe(false);
+  });
+
+  test("commits every change in one batch and reports per document", async () => {
+    const collection = createCollection(["C1", "C2"]);
+    const repository = new SeasonalAssignmentRepository(collection as any, createBatchRunner(collection));
+
+    const result = await repository.applyBulk(keys, activate);
+    expect(result).toMatchObject({ dryRun: false, committed: true });
+    expect(result.results.map((entry) => entry.status)).toEqual(["UPDATED", "UPDATED", "NOT_FOUND"]);
+    expect(collection.store.get(DocumentIds.seasonalAssignment("SS26", "C2"))?.divisions[1].isActive).toBe(true);
+
+    const again = await repository.applyBulk(keys.slice(0, 1), activate);
+    expect(again.results[0].status).toBe("UNCHANGED");
+  });
+
+  test("reports an ambiguous commit instead of failing", async () => {
+    const collection = createCollection(["C1"]);
+    const repository = new SeasonalAssignmentRepository(collection as any, createBatchRunner(collection, true));
+
+    const result = await repository.applyBulk(keys.slice(0, 1), activate);
+    expect(result.committed).toBeNull();
+    expect(result.results[0].status).toBe("AMBIGUOUS");
+  });
+});
@@ -0,0 +1,365 @@
+/* tests/unit/server/graphqlWs.test.ts - graphql-transport-ws Protocol Unit Tests */
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+const telemetryMock = () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+});
+mock.module("../../../src/telemetry", telemetryMock);
+mock.module("../../../src/telemetry/logger", telemetryMock);
+
+import { makeExecutableSchema } from "@graphql-tools/schema";
+import documentChanges from "../../../src/graphql/resolvers/documentChanges";
+import { publishDocumentChange } from "../../../src/lib/documentChangeSource";
+import { PersistedQueryStore } from "../../../src/lib/persistedQueries";
+import { CostBudget, QueryCostCalculator } from "../../../src/lib/queryCost";
+import { createPersistedQueryId } from "../../../src/lib/queryFingerprint";
+import { CloseCode, GraphQLWsConnection } from "../../../src/server/websocket/graphqlWs";
+
+const schema = makeExecutableSchema({
+  typeDefs: /* GraphQL */ `
+    type Query {
+      hello: String
+    }
+    type LookChangeEvent {
+      documentKey: String!
+      divisionCode: String!
+      changeType: String!
+    }
+    type OptionChangeEvent {
+      optionCode: String!
+      styleSeasonCode: String!
+      divisionCode: String!
+    }
+    type Subscription {
+      lookChanged(divisionCode: String!): LookChangeEvent!
+      optionChanged(styleSeasonCode: String!, divisionCode: String!): OptionChangeEvent!
+    }
+  `,
+  resolvers: {
+    Query: { hello: () => "world" },
+    ...documentChanges,
+  },
+});
+
+class FakeSocket {
+  sent: any[] = [];
+  closedWith?: { code?: number; reason?: string };
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code?: number, reason?: string) {
+    this.closedWith = { code, reason };
+  }
+
+  ofType(type: string) {
+    return this.sent.filter((message) => message.type === type);
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("GraphQLWsConnection", () => {
+  let socket: FakeSocket;
+  let connection: GraphQLWsConnection;
+
+  beforeEach(() => {
+    socket = new FakeSocket();
+    connection = new GraphQLWsConnection(
+      socket,
+      {
+        schema,
+        context: () => ({ requestId: "test", dataLoader: {} as any, loaders: {} as any }),
+        connectionInitWaitTimeout: 50,
+      },
+      "conn-1"
+    );
+    connection.start();
+  });
+
+  afterEach(async () => {
+    await connection.dispose();
+  });
+
+  const init = async () => {
+    await connection.handleMessage(JSON.stringify({ type: "connection_init" }));
+  };
+
+  describe("Handshake", () => {
+    test("acknowledges connection_init", async () => {
+      await init();
+      expect(socket.sent).toEqual([{ type: "connection_ack" }]);
+      expect(connection.isAcknowledged).toBe(true);
+    });
+
+    test("closes with 4408 when init never arrives", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(socket.closedWith?.code).toBe(CloseCode.ConnectionInitialisationTimeout);
+    });
+
+    test("closes with 4429 on a second connection_init", async () => {
+      await init();
+      await init();
+      expect(socket.closedWith?.code).toBe(CloseCode.TooManyInitialisationRequests);
+    });
+
+    test("closes with 4401 when subscribing before ack", async () => {
+      await connection.handleMessage(JSON.stringify({ id: "1", type: "subscribe", payload: { query: "{ hello }" } }));
+      expect(socket.closedWith?.code).toBe(CloseCode.Unauthorized);
+    });
+
+    test("closes with 4403 when onConnect rejects", async () => {
+      const rejecting = new GraphQLWsConnection(
+        socket,
+        {
+          schema,
+          context: () => ({ requestId: "test", dataLoader: {} as any, loaders: {} as any }),
+          onConnect: () => {
+            throw new Error("bad token");
+          },
+        },
+        "conn-2"
+      );
+      await rejecting.handleMessage(JSON.stringify({ type: "connection_init" }));
+      expect(socket.closedWith?.code).toBe(CloseCode.Forbidden);
+      await rejecting.dispose();
+    });
+
+    test("closes with 4400 on invalid frames", async () => {
+      await connection.handleMessage("not json");
+      expect(socket.closedWith?.code).toBe(CloseCode.BadRequest);
+    });
+  });
+
+  describe("Keep-alive", () => {
+    test("answers ping with pong", async () => {
+      await connection.handleMessage(JSON.stringify({ type: "ping" }));
+      expect(socket.ofType("pong")).toHaveLength(1);
+    });
+  });
+
+  describe("Operations", () => {
+    test("refuses queries and mutations with an error frame", async () => {
+      await init();
+      await connection.handleMessage(JSON.stringify({ id: "q1", type: "subscribe", payload: { query: "{ hello }" } }));
+
+      const errors = socket.ofType("error");
+      expect(errors.map((message) => message.id)).toEqual(["q1"]);
+      expect(errors[0].payload[0].extensions.code).toBe("BAD_REQUEST");
+      expect(socket.ofType("next")).toHaveLength(0);
+      expect(socket.closedWith).toBeUndefined();
+    });
+
+    test("validation failures produce an error frame for that id only", async () => {
+      await init();
+      await connection.handleMessage(
+        JSON.stringify({ id: "bad", type: "subscribe", payload: { query: "{ doesNotExist }" } })
+      );
+
+      const errors = socket.ofType("error");
+      expect(errors).toHaveLength(1);
+      expect(errors[0].id).toBe("bad");
+      expect(socket.closedWith).toBeUndefined();
+    });
+
+    test("delivers lookChanged events for the subscribed division", async () => {
+      await init();
+      void connection.handleMessage(
+        JSON.stringify({
+          id: "s1",
+          type: "subscribe",
+          payload: { query: 'subscription { lookChanged(divisionCode: "01") { documentKey changeType } }' },
+        })
+      );
+      await flush();
+
+      publishDocumentChange("look", {
+        documentKey: "look::other",
+        divisionCode: "02",
+        changeType: "UPSERT",
+        changedAt: new Date().toISOString(),
+      });
+      publishDocumentChange("look", {
+        documentKey: "look::1",
+        divisionCode: "01",
+        changeType: "UPSERT",
+        changedAt: new Date().toISOString(),
+      });
+      await flush();
+
+      expect(socket.ofType("next")).toEqual([
+        { id: "s1", type: "next", payload: { data: { lookChanged: { documentKey: "look::1", changeType: "UPSERT" } } } },
+      ]);
+      expect(connection.activeOperationCount).toBe(1);
+    });
+
+    test("client complete stops delivery", async () => {
+      await init();
+      void connection.handleMessage(
+        JSON.stringify({
+          id: "s2",
+          type: "subscribe",
+          payload: {
+            query: 'subscription { optionChanged(styleSeasonCode: "C52", divisionCode: "01") { optionCode } }',
+          },
+        })
+      );
+      await flush();
+
+      await connection.handleMessage(JSON.stringify({ id: "s2", type: "complete" }));
+      publishDocumentChange("option", {
+        optionCode: "OPT1",
+        styleSeasonCode: "C52",
+        divisionCode: "01",
+        changeType: "UPSERT",
+        changedAt: new Date().toISOString(),
+      });
+      await flush();
+
+      expect(socket.ofType("next")).toHaveLength(0);
+      expect(connection.activeOperationCount).toBe(0);
+    });
+
+    test("closes with 4409 on duplicate subscription ids", async () => {
+      await init();
+      const subscribeMessage = JSON.stringify({
+        id: "dup",
+        type: "subscribe",
+        payload: { query: 'subscription { lookChanged(divisionCode: "01") { documentKey } }' },
+      });
+      void connection.handleMessage(subscribeMessage);
+      await flush();
+      await connection.handleMessage(subscribeMessage);
+
+      expect(socket.closedWith?.code).toBe(CloseCode.SubscriberAlreadyExists);
+    });
+
+    test("argument validation errors are sent as an error frame", async () => {
+      await init();
+      await connection.handleMessage(
+        JSON.stringify({
+          id: "s3",
+          type: "subscribe",
+          payload: { query: 'subscription { lookChanged(divisionCode: "") { documentKey } }' },
+        })
+      );
+
+      const errors = socket.ofType("error");
+      expect(errors).toHaveLength(1);
+      expect(errors[0].payload[0].message).toContain("Input validation failed");
+    });
+  });
+
+  describe("Persisted queries", () => {
+    const trusted = 'subscription Looks { lookChanged(divisionCode: "01") { documentKey } }';
+    const trustedHash = createPersistedQueryId(trusted);
+
+    beforeEach(async () => {
+      await connection.dispose();
+      const store = new PersistedQueryStore({ mode: "allowlist", manifest: new Map([[trustedHash, trusted]]), ttlMs: 1000 });
+      connection = new GraphQLWsConnection(
+        socket,
+        {
+          schema,
+          context: () => ({ requestId: "test", dataLoader: {} as any, loaders: {} as any }),
+          persistedQueries: async () => store,
+        },
+        "conn-3"
+      );
+      await init();
+    });
+
+    test("runs allowlisted operations sent by hash only", async () => {
+      void connection.handleMessage(
+        JSON.stringify({
+          id: "p1",
+          type: "subscribe",
+          payload: { extensions: { persistedQuery: { version: 1, sha256Hash: trustedHash } } },
+        })
+      );
+      await flush();
+      publishDocumentChange("look", {
+        documentKey: "look::1",
+        divisionCode: "01",
+        changeType: "UPSERT",
+        changedAt: new Date().toISOString(),
+      });
+      await flush();
+
+      expect(socket.ofType("next")).toEqual([
+        { id: "p1", type: "next", payload: { data: { lookChanged: { documentKey: "look::1" } } } },
+      ]);
+    });
+
+    test("rejects operations outside the allowlist with an error frame", async () => {
+      await connection.handleMessage(
+        JSON.stringify({
+          id: "p2",
+          type: "subscribe",
+          payload: { query: 'subscription { lookChanged(divisionCode: "02") { documentKey } }' },
+        })
+      );
+
+      const errors = socket.ofType("error");
+      expect(errors).toHaveLength(1);
+      expect(errors[0].id).toBe("p2");
+      expect(errors[0].payload[0].extensions.code).toBe("PERSISTED_QUERY_NOT_ALLOWED");
+      expect(socket.ofType("next")).toHaveLength(0);
+      expect(socket.closedWith).toBeUndefined();
+    });
+  });
+
+  describe("Query cost", () => {
+    beforeEach(async () => {
+      await connection.dispose();
+      connection = new GraphQLWsConnection(
+        socket,
+        {
+          schema,
+          context: () => ({ requestId: "test", dataLoader: {} as any, loaders: {} as any, clientIp: "10.0.0.1" }),
+          queryCost: {
+            calculator: new QueryCostCalculator(schema, { fieldCosts: { "Subscription.optionChanged": 3, "Subscription.lookChanged": 20 } }),
+            budget: new CostBudget(5, 0),
+            maxCost: 10,
+          },
+        },
+        "conn-4"
+      );
+      await init();
+    });
+
+    test("rejects operations over the maximum cost before subscribing", async () => {
+      await connection.handleMessage(
+        JSON.stringify({
+          id: "c1",
+          type: "subscribe",
+          payload: { query: 'subscription { lookChanged(divisionCode: "01") { documentKey } }' },
+        })
+      );
+
+      const errors = socket.ofType("error");
+      expect(errors).toHaveLength(1);
+      expect(errors[0].payload[0].extensions.code).toBe("QUERY_COST_EXCEEDED");
+      expect(connection.activeOperationCount).toBe(0);
+    });
+
+    test("charges each operation to the caller's budget", async () => {
+      const query = 'subscription { optionChanged(styleSeasonCode: "C52", divisionCode: "01") { optionCode } }';
+      void connection.handleMessage(JSON.stringify({ id: "c2", type: "subscribe", payload: { query } }));
+      await flush();
+      await connection.handleMessage(JSON.stringify({ id: "c3", type: "subscribe", payload: { query } }));
+
+      expect(connection.activeOperationCount).toBe(1);
+      const errors = socket.ofType("error");
+      expect(errors.map((message) => message.id)).toEqual(["c3"]);
+      expect(errors[0].payload[0].extensions.code).toBe("QUERY_BUDGET_EXHAUSTED");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/* tests/unit/server/rateLimitMiddleware.test.ts - Rate Limit Middleware Unit Tests */
+
+import { afterAll, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+const telemetryMock = () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+});
+mock.module("../../../src/telemetry", telemetryMock);
+mock.module("../../../src/telemetry/logger", telemetryMock);
+
+import { BypassTokenVerifier, MemoryRateLimitStore, RateLimiter, signBypassToken } from "../../../src/lib/rateLimit";
+import { extractRootFieldNames } from "../../../src/server/middleware/graphqlOperation";
+import { createRateLimitMiddleware } from "../../../src/server/middleware/rateLimit";
+import type { RequestContext } from "../../../src/server/types";
+
+const secret = "0123456789abcdef0123456789abcdef";
+const store = new MemoryRateLimitStore();
+
+const middleware = createRateLimitMiddleware(() => ({
+  limiter: new RateLimiter(store, { algorithm: "sliding-window", limit: 3, windowMs: 60000 }),
+  bypass: new BypassTokenVerifier(secret, ["k6"]),
+  keyBy: ["ip"],
+  apiKeyHeader: "x-api-key",
+  operationLimits: new Map([["getImageUrlCheck", 1]]),
+  failOpen: true,
+}));
+
+const context = (clientIp: string): RequestContext => ({
+  requestId: "req",
+  startTime: Date.now(),
+  clientIp,
+  url: new URL("http://localhost/graphql"),
+  headers: new Headers(),
+  method: "POST",
+});
+
+const graphql = (query: string, headers: Record<string, string> = {}, operationName?: string) =>
+  new Request("http://localhost/graphql", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ query, operationName }),
+  });
+
+const next = async () => new Response("ok");
+
+afterAll(async () => {
+  await store.close();
+});
+
+describe("Rate limit middleware", () => {
+  test("adds RateLimit headers to allowed responses", async () => {
+    const response = await middleware(graphql("{ looks { documentKey } }"), context("10.0.0.1"), next);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Limit")).toBe("3");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("2");
+    expect(Number(response.headers.get("RateLimit-Reset"))).toBeGreaterThan(0);
+    expect(response.headers.get("RateLimit-Policy")).toBe("3;w=60");
+    expect(response.headers.get("Retry-After")).toBeNull();
+  });
+
+  test("returns 429 with Retry-After once the limit is exceeded", async () => {
+    for (let i = 0; i < 3; i++) await middleware(graphql("{ a }"), context("10.0.0.2"), next);
+    const response = await middleware(graphql("{ a }"), context("10.0.0.2"), next);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThanOrEqual(1);
+  });
+
+  test("applies per-operation limits by root field, whatever the operation is called", async () => {
+    const first = await middleware(
+      graphql("query Cheap { getImageUrlCheck(divisions: [\"01\"], season: \"C51\") { url } }", {}, "Cheap"),
+      context("10.0.0.3"),
+      next
+    );
+    expect(first.status).toBe(200);
+    expect(first.headers.get("RateLimit-Limit")).toBe("1");
+    expect(first.headers.get("RateLimit-Policy")).toBe("3;w=60, 1;w=60");
+
+    const second = await middleware(
+      graphql("query Other { getImageUrlCheck(divisions: [\"02\"], season: \"C51\") { url } }", {}, "Other"),
+      context("10.0.0.3"),
+      next
+    );
+    expect(second.status).toBe(429);
+    expect(second.headers.get("RateLimit-Limit")).toBe("1");
+
+    // Other operations still have base budget left
+    const other = await middleware(graphql("{ lookDetails(lookDocKey: \"x\") { title } }"), context("10.0.0.3"), next);
+    expect(other.status).toBe(200);
+  });
+
+  test("skips limiting for valid bypass tokens only", async () => {
+    const token = signBypassToken("k6", secret, new Date(Date.now() + 60000));
+    for (let i = 0; i < 5; i++) {
+      const response = await middleware(graphql("{ a }", { "X-RateLimit-Bypass": token }), context("10.0.0.4"), next);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("RateLimit-Limit")).toBeNull();
+    }
+
+    for (let i = 0; i < 3; i++) {
+      await middleware(graphql("{ a }", { "User-Agent": "K6TestAgent/1.0" }), context("10.0.0.5"), next);
+    }
+    const response = await middleware(graphql("{ a }", { "User-Agent": "K6TestAgent/1.0" }), context("10.0.0.5"), next);
+    expect(response.status).toBe(429);
+  });
+});
+
+describe("extractRootFieldNames", () => {
+  test("collects root fields through fragments", () => {
+    const query = `
+      query Q { ...Root ... on Query { lookDetails(lookDocKey: "x") { title } } }
+      fragment Root on Query { getImageUrlCheck(divisions: [], season: "C51") { url } }
+    `;
+    expect(extractRootFieldNames(query, "Q").sort()).toEqual(["getImageUrlCheck", "lookDetails"]);
+  });
+
+  test("returns nothing for unparseable queries", () => {
+    expect(extractRootFieldNames("{ broken")).toEqual([]);
+  });
+});
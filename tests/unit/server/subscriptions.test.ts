@@ -0,0 +1,79 @@
+/* tests/unit/server/subscriptions.test.ts - GraphQL WebSocket Upgrade Unit Tests */
+
+import { afterAll, beforeAll, describe, expect, mock, test } from "bun:test";
+
+// Mock telemetry logger
+const telemetryMock = () => ({
+  log: mock(() => {}),
+  err: mock(() => {}),
+  error: mock(() => {}),
+  debug: mock(() => {}),
+  warn: mock(() => {}),
+});
+mock.module("../../../src/telemetry", telemetryMock);
+mock.module("../../../src/telemetry/logger", telemetryMock);
+
+import type { Server } from "bun";
+import type { WebSocketData } from "../../../src/server/types";
+import {
+  shouldUpgradeWebSocket,
+  upgradeWebSocket,
+  websocketHandlers,
+} from "../../../src/server/websocket/subscriptions";
+
+let server: Server<WebSocketData>;
+
+beforeAll(() => {
+  // Same shape as the server's "/graphql" route: Bun matches the GET before any fetch fallback
+  server = Bun.serve({
+    port: 0,
+    routes: {
+      "/graphql": {
+        GET: (request, server) => {
+          if (shouldUpgradeWebSocket(request)) {
+            return upgradeWebSocket(request, server, { requestId: "ws-test", clientIp: "127.0.0.1" });
+          }
+          return new Response("graphql over http");
+        },
+      },
+    },
+    fetch: () => new Response("Not Found", { status: 404 }),
+    websocket: websocketHandlers,
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+/**
+ * The next message the socket receives, parsed
+ */
+function nextMessage(socket: WebSocket): Promise<any> {
+  return new Promise((resolve, reject) => {
+    socket.addEventListener("message", (event) => resolve(JSON.parse(String(event.data))), { once: true });
+    socket.addEventListener("close", (event) => reject(new Error(`closed with ${event.code}`)), { once: true });
+  });
+}
+
+describe("GraphQL WebSocket upgrade", () => {
+  test("upgrades a graphql-transport-ws handshake on the /graphql GET route", async () => {
+    const socket = new WebSocket(`ws://localhost:${server.port}/graphql`, "graphql-transport-ws");
+    await new Promise((resolve, reject) => {
+      socket.addEventListener("open", resolve, { once: true });
+      socket.addEventListener("error", reject, { once: true });
+    });
+    expect(socket.protocol).toBe("graphql-transport-ws");
+
+    const ack = nextMessage(socket);
+    socket.send(JSON.stringify({ type: "connection_init" }));
+    expect(await ack).toEqual({ type: "connection_ack" });
+
+    socket.close();
+  });
+
+  test("still serves plain GET requests", async () => {
+    const response = await fetch(`http://localhost:${server.port}/graphql`);
+    expect(await response.text()).toBe("graphql over http");
+  });
+});
@@ -0,0 +1,251 @@
+/* tests/unit/telemetry/batchCoordinator.test.ts - Telemetry Batch Coordinator Unit Tests */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import "../../shared/logger-mock";
+
+import type { ReadableLogRecord } from "@opentelemetry/sdk-logs";
+import type { ResourceMetrics } from "@opentelemetry/sdk-metrics";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { TelemetryBatchCoordinator } from "../../../src/telemetry/coordinator/BatchCoordinator";
+import { BunLogExporter } from "../../../src/telemetry/exporters/BunLogExporter";
+import { BunMetricExporter } from "../../../src/telemetry/exporters/BunMetricExporter";
+import { BunTraceExporter } from "../../../src/telemetry/exporters/BunTraceExporter";
+import { CircuitBreakerState } from "../../../src/telemetry/health/CircuitBreaker";
+import { TelemetrySpool } from "../../../src/telemetry/spool/TelemetrySpool";
+import {
+  getSignalStats,
+  recordSignalFailure,
+  resetAllCircuitBreakers,
+} from "../../../src/telemetry/telemetry-circuit-breaker";
+
+/**
+ * Stand-in OTLP collector: records each request body per path and answers
+ * with the status configured for that path.
+ */
+function startCollector() {
+  const received: Record<string, unknown[]> = { "/v1/traces": [], "/v1/metrics": [], "/v1/logs": [] };
+  const status: Record<string, number> = {};
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const path = new URL(request.url).pathname;
+      const code = status[path] ?? 200;
+      if (code === 200) {
+        received[path]?.push(await request.json());
+      }
+      return new Response(code === 200 ? "{}" : "unavailable", { status: code });
+    },
+  });
+  return { server, received, status, url: (path: string) => `http://localhost:${server.port}${path}` };
+}
+
+const resource = { attributes: { "service.name": "capellaql-test" } };
+
+const span = (name: string) =>
+  ({
+    name,
+    kind: 0,
+    spanContext: () => ({ traceId: "a".repeat(32), spanId: "b".repeat(16), traceFlags: 1 }),
+    startTime: [1700000000, 0],
+    endTime: [1700000001, 0],
+    status: { code: 0 },
+    attributes: {},
+    events: [],
+    links: [],
+    resource,
+    instrumentationLibrary: { name: "test" },
+  }) as unknown as ReadableSpan;
+
+const metrics = () =>
+  ({
+    resource,
+    scopeMetrics: [{ scope: { name: "test" }, metrics: [] }],
+  }) as unknown as ResourceMetrics;
+
+const logRecord = (body: string) =>
+  ({
+    body,
+    severityNumber: 9,
+    hrTime: [1700000000, 0],
+    attributes: {},
+    resource,
+    instrumentationScope: { name: "test" },
+  }) as unknown as ReadableLogRecord;
+
+const createExporters = (collector: ReturnType<typeof startCollector>, spool?: TelemetrySpool) => {
+  const exporterConfig = (path: string) => ({
+    url: collector.url(path),
+    timeoutMillis: 2000,
+    retryConfig: { maxRetries: 0, initialDelayMs: 1, maxDelayMs: 1, backoffMultiplier: 1 },
+    spool,
+  });
+  return {
+    traces: new BunTraceExporter(exporterConfig("/v1/traces")),
+    metrics: new BunMetricExporter(exporterConfig("/v1/metrics")),
+    logs: new BunLogExporter(exporterConfig("/v1/logs")),
+  };
+};
+
+describe("TelemetryBatchCoordinator", () => {
+  let collector: ReturnType<typeof startCollector>;
+  let coordinator: TelemetryBatchCoordinator;
+
+  beforeEach(() => {
+    resetAllCircuitBreakers();
+    collector = startCollector();
+    coordinator = new TelemetryBatchCoordinator(createExporters(collector), {
+      batchInterval: 60000,
+      exportTimeout: 5000,
+      maxRetries: 2,
+    });
+  });
+
+  afterEach(async () => {
+    await coordinator.shutdown();
+    collector.server.stop(true);
+    resetAllCircuitBreakers();
+  });
+
+  test("exports each signal to its OTLP endpoint", async () => {
+    coordinator.addSpans([span("query looks")]);
+    coordinator.addMetrics([metrics()]);
+    coordinator.addLogs([logRecord("looks loaded")]);
+
+    await coordinator.forceFlush();
+
+    expect(collector.received["/v1/traces"]).toHaveLength(1);
+    expect(collector.received["/v1/metrics"]).toHaveLength(1);
+    expect(collector.received["/v1/logs"]).toHaveLength(1);
+    expect(JSON.stringify(collector.received["/v1/traces"][0])).toContain("query looks");
+
+    const stats = coordinator.getStatistics();
+    expect(stats.totalSpansExported).toBe(1);
+    expect(stats.totalMetricsExported).toBe(1);
+    expect(stats.totalLogsExported).toBe(1);
+    expect(coordinator.getBufferStatus()).toMatchObject({ traces: 0, metrics: 0, logs: 0 });
+  });
+
+  test("keeps a failed signal's batch and retries it on the next flush", async () => {
+    collector.status["/v1/logs"] = 503;
+    coordinator.addSpans([span("query looks")]);
+    coordinator.addLogs([logRecord("looks loaded")]);
+
+    await coordinator.forceFlush();
+
+    expect(collector.received["/v1/traces"]).toHaveLength(1);
+    expect(coordinator.getBufferStatus()).toMatchObject({ traces: 0, logs: 1, retryAttempts: { logs: 1 } });
+    expect(getSignalStats("logs").failures).toBe(1);
+
+    collector.status["/v1/logs"] = 200;
+    await coordinator.forceFlush();
+
+    // Only the logs are sent again, and the retried record isn't deduplicated away
+    expect(collector.received["/v1/traces"]).toHaveLength(1);
+    expect(collector.received["/v1/logs"]).toHaveLength(1);
+    expect(JSON.stringify(collector.received["/v1/logs"][0])).toContain("looks loaded");
+    expect(coordinator.getBufferStatus()).toMatchObject({ logs: 0, retryAttempts: { logs: 0 } });
+    expect(coordinator.getStatistics().requeuedCount).toBe(1);
+  });
+
+  test("skips a signal whose circuit is open and keeps its batch", async () => {
+    for (let i = 0; i < 5; i++) {
+      recordSignalFailure("metrics");
+    }
+    expect(getSignalStats("metrics").state).toBe(CircuitBreakerState.OPEN);
+
+    coordinator.addSpans([span("query looks")]);
+    coordinator.addMetrics([metrics()]);
+
+    for (let i = 0; i < 4; i++) {
+      await coordinator.forceFlush();
+    }
+
+    expect(collector.received["/v1/traces"]).toHaveLength(1);
+    expect(collector.received["/v1/metrics"]).toHaveLength(0);
+    // Skipped exports don't count against the batch's retries
+    expect(coordinator.getBufferStatus()).toMatchObject({ metrics: 1, retryAttempts: { metrics: 0 } });
+    expect(coordinator.getStatistics().dataDropCount).toBe(0);
+  });
+
+  test("drops a batch once it has failed more than maxRetries times", async () => {
+    collector.status["/v1/traces"] = 500;
+    coordinator.addSpans([span("query looks"), span("query options")]);
+
+    for (let i = 0; i < 3; i++) {
+      await coordinator.forceFlush();
+    }
+
+    expect(coordinator.getBufferStatus().traces).toBe(0);
+    const stats = coordinator.getStatistics();
+    expect(stats.dataDropCount).toBe(2);
+    expect(stats.failedBatches).toBe(3);
+    expect(stats.totalSpansExported).toBe(0);
+    expect(getSignalStats("traces").failures).toBe(3);
+  });
+});
+
+describe("TelemetryBatchCoordinator with a spool", () => {
+  let collector: ReturnType<typeof startCollector>;
+  let spool: TelemetrySpool;
+  let exporters: ReturnType<typeof createExporters>;
+  let coordinator: TelemetryBatchCoordinator;
+
+  beforeEach(() => {
+    resetAllCircuitBreakers();
+    collector = startCollector();
+    spool = new TelemetrySpool({
+      path: ":memory:",
+      maxBytes: 1048576,
+      maxAgeMs: 60000,
+      replayBytesPerSecond: 1048576,
+    });
+    exporters = createExporters(collector, spool);
+    coordinator = new TelemetryBatchCoordinator(exporters, { batchInterval: 60000, exportTimeout: 5000 });
+  });
+
+  afterEach(async () => {
+    await coordinator.shutdown();
+    collector.server.stop(true);
+    spool.close();
+    resetAllCircuitBreakers();
+  });
+
+  test("spools a failed batch and replays it once the collector recovers", async () => {
+    collector.status["/v1/traces"] = 503;
+    coordinator.addSpans([span("query looks")]);
+    await coordinator.forceFlush();
+
+    // Handed to the spool rather than kept in memory, but still a breaker failure
+    expect(coordinator.getBufferStatus().traces).toBe(0);
+    expect(coordinator.getStatistics().spooledCount).toBe(1);
+    expect(getSignalStats("traces").failures).toBe(1);
+    expect(spool.getStats().signals.traces.entries).toBe(1);
+
+    collector.status["/v1/traces"] = 200;
+    coordinator.addSpans([span("query options")]);
+    await coordinator.forceFlush();
+    await exporters.traces.replaySpool();
+
+    const bodies = collector.received["/v1/traces"].map((body) => JSON.stringify(body));
+    expect(bodies).toHaveLength(2);
+    expect(bodies[0]).toContain("query options");
+    expect(bodies[1]).toContain("query looks");
+    expect(spool.getStats()).toMatchObject({ entries: 0, replayed: 1 });
+  });
+
+  test("spools batches while the signal's circuit is open", async () => {
+    for (let i = 0; i < 5; i++) {
+      recordSignalFailure("logs");
+    }
+    coordinator.addLogs([logRecord("looks loaded")]);
+    await coordinator.forceFlush();
+
+    expect(collector.received["/v1/logs"]).toHaveLength(0);
+    expect(coordinator.getBufferStatus().logs).toBe(0);
+    expect(spool.getStats().signals.logs.entries).toBe(1);
+
+    await exporters.logs.replaySpool();
+    expect(collector.received["/v1/logs"]).toHaveLength(1);
+    expect(spool.hasPending("logs")).toBe(false);
+  });
+});
@@ -0,0 +1,230 @@
+/* tests/unit/telemetry/otlpTransport.test.ts - OTLP Protobuf and gRPC Transport Unit Tests */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import "../../shared/logger-mock";
+
+import * as grpc from "@grpc/grpc-js";
+import type { ExportResult } from "@opentelemetry/core";
+import otlpRoot from "@opentelemetry/otlp-transformer/build/src/generated/root";
+import { InMemoryLogRecordExporter, LoggerProvider, SimpleLogRecordProcessor } from "@opentelemetry/sdk-logs";
+import { MeterProvider, MetricReader, type ResourceMetrics } from "@opentelemetry/sdk-metrics";
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base";
+import type { BunOTLPExporterConfig } from "../../../src/telemetry/exporters/BunOTLPExporter";
+import { BunLogExporter } from "../../../src/telemetry/exporters/BunLogExporter";
+import { BunMetricExporter } from "../../../src/telemetry/exporters/BunMetricExporter";
+import { BunTraceExporter } from "../../../src/telemetry/exporters/BunTraceExporter";
+
+// Request messages of the OTLP collector services, for decoding what the stubs receive
+const collectorProto = (otlpRoot as any).opentelemetry.proto.collector;
+const REQUESTS = {
+  traces: collectorProto.trace.v1.ExportTraceServiceRequest,
+  metrics: collectorProto.metrics.v1.ExportMetricsServiceRequest,
+  logs: collectorProto.logs.v1.ExportLogsServiceRequest,
+};
+type Signal = keyof typeof REQUESTS;
+
+const decode = (signal: Signal, body: Uint8Array) => REQUESTS[signal].toObject(REQUESTS[signal].decode(body));
+
+// Real SDK output, so the protobuf serializers see complete spans, metrics and logs
+const spanExporter = new InMemorySpanExporter();
+const tracerProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(spanExporter)] });
+
+class CollectingReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+const metricReader = new CollectingReader();
+const meterProvider = new MeterProvider({ readers: [metricReader] });
+
+const logExporter = new InMemoryLogRecordExporter();
+const loggerProvider = new LoggerProvider({ processors: [new SimpleLogRecordProcessor(logExporter)] });
+
+tracerProvider.getTracer("otlp-test").startSpan("query looks").end();
+meterProvider.getMeter("otlp-test").createCounter("looks_requested_total").add(3);
+loggerProvider.getLogger("otlp-test").emit({ body: "looks loaded", severityNumber: 9 });
+
+const spans = spanExporter.getFinishedSpans();
+const logRecords = logExporter.getFinishedLogRecords();
+let resourceMetrics: ResourceMetrics;
+
+const exportWith = <T>(exporter: { export(items: T[], cb: (result: ExportResult) => void): Promise<void> }, items: T[]) =>
+  new Promise<ExportResult>((resolve) => {
+    exporter.export(items, resolve);
+  });
+
+const noRetry: Pick<BunOTLPExporterConfig, "retryConfig" | "timeoutMillis"> = {
+  timeoutMillis: 3000,
+  retryConfig: { maxRetries: 0, initialDelayMs: 1, maxDelayMs: 1, backoffMultiplier: 1 },
+};
+
+beforeAll(async () => {
+  ({ resourceMetrics } = await metricReader.collect());
+});
+
+describe("http/protobuf", () => {
+  const received: Array<{ path: string; contentType: string | null; encoding: string | null; body: Uint8Array }> = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    // Decoding stub: gunzips the body when marked, otherwise takes it as-is
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const raw = new Uint8Array(await request.arrayBuffer());
+        const encoding = request.headers.get("content-encoding");
+        received.push({
+          path: new URL(request.url).pathname,
+          contentType: request.headers.get("content-type"),
+          encoding,
+          body: encoding === "gzip" ? Bun.gunzipSync(raw) : raw,
+        });
+        return new Response(new Uint8Array(), { headers: { "Content-Type": "application/x-protobuf" } });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const config = (path: string): BunOTLPExporterConfig => ({
+    url: `http://localhost:${server.port}${path}`,
+    protocol: "http/protobuf",
+    compression: "gzip",
+    ...noRetry,
+  });
+
+  test("round-trips gzipped spans, metrics and logs", async () => {
+    received.length = 0;
+    const results = [
+      await exportWith(new BunTraceExporter(config("/v1/traces")), spans),
+      await exportWith(new BunMetricExporter(config("/v1/metrics")), [resourceMetrics, resourceMetrics]),
+      await exportWith(new BunLogExporter(config("/v1/logs")), logRecords),
+    ];
+
+    expect(results.map((result) => result.code)).toEqual([0, 0, 0]);
+    expect(received.map(({ contentType, encoding }) => [contentType, encoding])).toEqual([
+      ["application/x-protobuf", "gzip"],
+      ["application/x-protobuf", "gzip"],
+      ["application/x-protobuf", "gzip"],
+    ]);
+
+    const traces = decode("traces", received[0].body);
+    expect(traces.resourceSpans[0].scopeSpans[0].spans[0].name).toBe("query looks");
+
+    // Two ResourceMetrics become one request with both
+    const metrics = decode("metrics", received[1].body);
+    expect(metrics.resourceMetrics).toHaveLength(2);
+    expect(metrics.resourceMetrics[0].scopeMetrics[0].metrics[0].name).toBe("looks_requested_total");
+
+    const logs = decode("logs", received[2].body);
+    expect(logs.resourceLogs[0].scopeLogs[0].logRecords[0].body.stringValue).toBe("looks loaded");
+  });
+
+  test("sends uncompressed protobuf when compression is off", async () => {
+    received.length = 0;
+    const result = await exportWith(new BunTraceExporter({ ...config("/v1/traces"), compression: "none" }), spans);
+
+    expect(result.code).toBe(0);
+    expect(received[0].encoding).toBeNull();
+    expect(decode("traces", received[0].body).resourceSpans).toHaveLength(1);
+  });
+});
+
+describe("grpc", () => {
+  const received: Array<{ signal: Signal; body: Uint8Array; tenant: string[] }> = [];
+  let failWith: grpc.status | null = null;
+  let server: grpc.Server;
+  let port: number;
+
+  const SERVICES: Record<Signal, string> = {
+    traces: "/opentelemetry.proto.collector.trace.v1.TraceService/Export",
+    metrics: "/opentelemetry.proto.collector.metrics.v1.MetricsService/Export",
+    logs: "/opentelemetry.proto.collector.logs.v1.LogsService/Export",
+  };
+
+  beforeAll(async () => {
+    // Decoding stub: raw-bytes unary Export handlers for the three collector services
+    server = new grpc.Server();
+    const identity = (bytes: Buffer) => bytes;
+    for (const [signal, path] of Object.entries(SERVICES) as Array<[Signal, string]>) {
+      const definition = {
+        Export: {
+          path,
+          requestStream: false,
+          responseStream: false,
+          requestSerialize: identity,
+          requestDeserialize: identity,
+          responseSerialize: identity,
+          responseDeserialize: identity,
+        },
+      } as grpc.ServiceDefinition;
+      server.addService(definition, {
+        Export: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+          if (failWith !== null) {
+            callback({ code: failWith, details: "collector unavailable" });
+            return;
+          }
+          received.push({ signal, body: call.request, tenant: call.metadata.get("x-tenant") as string[] });
+          callback(null, Buffer.alloc(0));
+        },
+      });
+    }
+    port = await new Promise((resolve, reject) => {
+      server.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (error, boundPort) =>
+        error ? reject(error) : resolve(boundPort)
+      );
+    });
+  });
+
+  afterAll(() => {
+    server.forceShutdown();
+  });
+
+  const config = (): BunOTLPExporterConfig => ({
+    // The path is ignored for gRPC
+    url: `http://127.0.0.1:${port}/v1/ignored`,
+    protocol: "grpc",
+    compression: "gzip",
+    headers: { "X-Tenant": "capellaql" },
+    ...noRetry,
+  });
+
+  test("round-trips spans, metrics and logs through the collector services", async () => {
+    received.length = 0;
+    const exporters = [new BunTraceExporter(config()), new BunMetricExporter(config()), new BunLogExporter(config())];
+    try {
+      const results = [
+        await exportWith(exporters[0] as BunTraceExporter, spans),
+        await exportWith(exporters[1] as BunMetricExporter, [resourceMetrics]),
+        await exportWith(exporters[2] as BunLogExporter, logRecords),
+      ];
+      expect(results.map((result) => result.code)).toEqual([0, 0, 0]);
+    } finally {
+      await Promise.all(exporters.map((exporter) => exporter.shutdown()));
+    }
+
+    expect(received.map(({ signal }) => signal)).toEqual(["traces", "metrics", "logs"]);
+    expect(received[0].tenant).toEqual(["capellaql"]);
+    expect(decode("traces", received[0].body).resourceSpans[0].scopeSpans[0].spans[0].name).toBe("query looks");
+    expect(decode("metrics", received[1].body).resourceMetrics[0].scopeMetrics[0].metrics[0].name).toBe(
+      "looks_requested_total"
+    );
+    expect(decode("logs", received[2].body).resourceLogs[0].scopeLogs[0].logRecords[0].body.stringValue).toBe(
+      "looks loaded"
+    );
+  });
+
+  test("reports the gRPC status of a rejected export", async () => {
+    failWith = grpc.status.UNAVAILABLE;
+    const exporter = new BunTraceExporter(config());
+    try {
+      const result = await exportWith(exporter, spans);
+      expect(result.code).toBe(1);
+      expect(result.error?.message).toContain("gRPC UNAVAILABLE: collector unavailable");
+    } finally {
+      failWith = null;
+      await exporter.shutdown();
+    }
+  });
+});
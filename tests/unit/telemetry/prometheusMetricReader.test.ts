@@ -0,0 +1,128 @@
+/* tests/unit/telemetry/prometheusMetricReader.test.ts - Prometheus Metric Reader Unit Tests */
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { loggerMock } from "../../shared/logger-mock";
+
+mock.module("../../../src/telemetry/logger", loggerMock);
+
+import { context, TraceFlags, trace } from "@opentelemetry/api";
+import { metricsCardinalityManager } from "../../../src/lib/metricsCardinalityManager";
+import {
+  negotiatePrometheusFormat,
+  PrometheusMetricReader,
+} from "../../../src/telemetry/exporters/PrometheusMetricReader";
+import { ExemplarMeterProvider, ExemplarStore } from "../../../src/telemetry/metrics/exemplars";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+const inSpan = (sampled = true) =>
+  trace.setSpanContext(context.active(), {
+    traceId: TRACE_ID,
+    spanId: SPAN_ID,
+    traceFlags: sampled ? TraceFlags.SAMPLED : TraceFlags.NONE,
+  });
+
+let reader: PrometheusMetricReader;
+let provider: ExemplarMeterProvider;
+
+beforeEach(() => {
+  const exemplars = new ExemplarStore();
+  reader = new PrometheusMetricReader(exemplars);
+  provider = new ExemplarMeterProvider({ readers: [reader] }, exemplars);
+});
+
+afterEach(async () => {
+  await provider.shutdown();
+  metricsCardinalityManager.resetCardinality();
+});
+
+describe("PrometheusMetricReader", () => {
+  test("renders counters, gauges and cumulative histogram buckets in the text format", async () => {
+    const meter = provider.getMeter("prometheus-test");
+    const requests = meter.createCounter("http_requests_total", { description: "Total number of HTTP requests" });
+    requests.add(2, { method: "GET", route: "/graphql", status_code: "200" });
+    requests.add(1, { method: "GET", route: "/graphql", status_code: "200" });
+    meter.createUpDownCounter("http_active_requests").add(3);
+    const duration = meter.createHistogram("graphql_resolver_duration_ms", { advice: { explicitBucketBoundaries: [10, 100] } });
+    for (const value of [5, 50, 500]) duration.record(value, { operation: "looks", field: "title", status: "ok" });
+
+    const body = await reader.render("prometheus");
+
+    expect(body).toContain("# HELP http_requests_total Total number of HTTP requests\n");
+    expect(body).toContain("# TYPE http_requests_total counter\n");
+    expect(body).toContain('http_requests_total{method="GET",route="/graphql",status_code="200"} 3\n');
+    expect(body).toContain("# TYPE http_active_requests gauge\nhttp_active_requests 3\n");
+    expect(body).toContain("# TYPE graphql_resolver_duration_ms histogram\n");
+    expect(body).toContain('graphql_resolver_duration_ms_bucket{operation="looks",field="title",status="ok",le="10"} 1\n');
+    expect(body).toContain('graphql_resolver_duration_ms_bucket{operation="looks",field="title",status="ok",le="100"} 2\n');
+    expect(body).toContain(
+      'graphql_resolver_duration_ms_bucket{operation="looks",field="title",status="ok",le="+Inf"} 3\n'
+    );
+    expect(body).toContain('graphql_resolver_duration_ms_sum{operation="looks",field="title",status="ok"} 555\n');
+    expect(body).toContain('graphql_resolver_duration_ms_count{operation="looks",field="title",status="ok"} 3\n');
+    expect(body).not.toContain("# EOF");
+  });
+
+  test("adds trace-id exemplars in OpenMetrics only, for measurements in sampled spans", async () => {
+    const meter = provider.getMeter("prometheus-test");
+    const violations = meter.createCounter("sla_violations_total");
+    violations.add(1, { operation: "looks" }, inSpan());
+    violations.add(1, { operation: "options" }, inSpan(false));
+    const duration = meter.createHistogram("graphql_resolver_duration_ms", { advice: { explicitBucketBoundaries: [10, 100] } });
+    duration.record(50, { operation: "looks", field: "title", status: "ok" }, inSpan());
+
+    const body = await reader.render("openmetrics");
+    const exemplar = `# {trace_id="${TRACE_ID}",span_id="${SPAN_ID}"}`;
+
+    expect(body).toContain("# TYPE sla_violations counter\n");
+    expect(body).toMatch(new RegExp(`sla_violations_total\\{operation="looks"\\} 1 ${escape(exemplar)} 1 \\d+\\.\\d{3}\\n`));
+    expect(body).toContain('sla_violations_total{operation="options"} 1\n');
+    expect(body).toContain(`le="100"} 1 ${exemplar} 50 `);
+    expect(body).toContain('le="10"} 0\n');
+    expect(body.endsWith("# EOF\n")).toBe(true);
+
+    expect(await reader.render("prometheus")).not.toContain("trace_id");
+  });
+
+  test("relabels series through the cardinality manager and folds overflow into the fallback series", async () => {
+    metricsCardinalityManager.setCardinalityLimit("looks_served_total", { maxCardinality: 2, labelKeys: ["route"] });
+    const served = provider.getMeter("prometheus-test").createCounter("looks_served_total");
+    for (const route of ["/a", "/b", "/c", "/d"]) {
+      served.add(1, { route, request_id: `req-${route}` });
+    }
+
+    const body = await reader.render("prometheus");
+    const samples = body.split("\n").filter((line) => line.startsWith("looks_served_total{"));
+
+    expect(samples).toEqual([
+      'looks_served_total{route="/a"} 1',
+      'looks_served_total{route="/b"} 1',
+      'looks_served_total{status="cardinality_limited",metric="looks_served_total",reason="high_cardinality"} 2',
+    ]);
+  });
+
+  test("negotiates OpenMetrics from the Accept header", () => {
+    expect(negotiatePrometheusFormat("application/openmetrics-text;version=1.0.0,text/plain;q=0.5")).toBe("openmetrics");
+    expect(negotiatePrometheusFormat("text/plain;version=0.0.4")).toBe("prometheus");
+    expect(negotiatePrometheusFormat(null)).toBe("prometheus");
+  });
+});
+
+describe("ExemplarStore", () => {
+  test("keeps one exemplar per series and evicts the least recently recorded beyond its cap", () => {
+    const store = new ExemplarStore(2);
+    store.offer("requests", 1, { route: "/a" }, inSpan());
+    store.offer("requests", 1, { route: "/b" }, inSpan());
+    store.offer("requests", 7, { route: "/a" }, inSpan());
+    store.offer("requests", 1, { route: "/c" }, inSpan());
+
+    expect(store.get("requests", { route: "/a" })?.value).toBe(7);
+    expect(store.get("requests", { route: "/b" })).toBeUndefined();
+    expect(store.getStats()).toEqual({ series: 2, maxSeries: 2, evicted: 1 });
+  });
+});
+
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
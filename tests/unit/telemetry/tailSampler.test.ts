@@ -0,0 +1,235 @@
+/* tests/unit/telemetry/tailSampler.test.ts - Tail Sampling Unit Tests */
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import "../../shared/logger-mock";
+
+import { context, metrics, type Span, SpanStatusCode, trace } from "@opentelemetry/api";
+import { MeterProvider, MetricReader } from "@opentelemetry/sdk-metrics";
+import { BasicTracerProvider, type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { createExportStatsTracker } from "../../../src/telemetry/export-stats-tracker";
+import { BunSpanProcessor } from "../../../src/telemetry/exporters/BunSpanProcessor";
+import { TailSampler, type TailSamplingConfig } from "../../../src/telemetry/exporters/TailSampler";
+import { initializeSlaMonitor } from "../../../src/telemetry/sla-monitor";
+
+const baseConfig: TailSamplingConfig = {
+  decisionWaitMs: 5000,
+  maxTraces: 100,
+  maxSpansPerTrace: 100,
+  operationNames: [],
+  probability: 0,
+};
+
+const samplers: TailSampler[] = [];
+
+/**
+ * A sampler fed by a real tracer; `kept` collects the names of exported spans
+ */
+function createSampler(overrides: Partial<TailSamplingConfig> = {}) {
+  const kept: string[] = [];
+  const sampler = new TailSampler({ ...baseConfig, ...overrides }, (spans) => {
+    kept.push(...spans.map((span) => span.name));
+  });
+  samplers.push(sampler);
+  const provider = new BasicTracerProvider({
+    spanProcessors: [
+      {
+        onStart: () => {},
+        onEnd: (span: ReadableSpan) => sampler.add(span),
+        forceFlush: async () => {},
+        shutdown: async () => {},
+      },
+    ],
+  });
+  const tracer = provider.getTracer("tail-sampling-test");
+  const childOf = (parent: Span, name: string) =>
+    tracer.startSpan(name, {}, trace.setSpan(context.active(), parent));
+  return { sampler, tracer, kept, childOf };
+}
+
+class CollectingReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+afterEach(() => {
+  for (const sampler of samplers.splice(0)) sampler.stop();
+  initializeSlaMonitor({ slaThresholds: [] });
+});
+
+describe("TailSampler", () => {
+  test("buffers a trace until its root ends and keeps it when any span failed", () => {
+    const { sampler, tracer, kept, childOf } = createSampler();
+
+    const root = tracer.startSpan("POST /graphql");
+    const child = childOf(root, "couchbase.get");
+    child.setStatus({ code: SpanStatusCode.ERROR });
+    child.end();
+    expect(kept).toEqual([]);
+    expect(sampler.getStats()).toMatchObject({ bufferedTraces: 1, bufferedSpans: 1 });
+
+    root.end();
+    expect(kept).toEqual(["couchbase.get", "POST /graphql"]);
+
+    const healthy = tracer.startSpan("GET /health");
+    healthy.end();
+    expect(kept).toHaveLength(2);
+    expect(sampler.getStats()).toMatchObject({
+      bufferedTraces: 0,
+      bufferedSpans: 0,
+      sampled: { error: 1 },
+      dropped: { probabilistic: 1 },
+    });
+  });
+
+  test("keeps traces slower than the SlaMonitor p95 threshold of their endpoint", () => {
+    initializeSlaMonitor({ slaThresholds: [{ endpoint: "/graphql", p95: 100, p99: 250 }] });
+    const { sampler, tracer, kept } = createSampler();
+
+    tracer.startSpan("POST", { attributes: { "http.route": "/graphql" }, startTime: Date.now() - 300 }).end();
+    tracer.startSpan("POST", { attributes: { "http.route": "/graphql" } }).end();
+    // No threshold for this endpoint, so it's only as slow as it is
+    tracer.startSpan("GET", { attributes: { "http.route": "/health" }, startTime: Date.now() - 300 }).end();
+
+    expect(kept).toEqual(["POST"]);
+    expect(sampler.getStats().sampled.latency).toBe(1);
+  });
+
+  test("keeps listed operations by span name or GraphQL operation name", () => {
+    const { sampler, tracer, kept } = createSampler({ operationNames: ["GetLooks", "reorderLooks"] });
+
+    tracer.startSpan("query", { attributes: { "graphql.operation.name": "GetLooks" } }).end();
+    tracer.startSpan("reorderLooks").end();
+    tracer.startSpan("query", { attributes: { "graphql.operation.name": "GetOptions" } }).end();
+
+    expect(kept).toEqual(["query", "reorderLooks"]);
+    expect(sampler.getStats().sampled.operation).toBe(2);
+  });
+
+  test("samples the remaining traces by probability", () => {
+    const { sampler, tracer, kept } = createSampler({ probability: 1 });
+
+    tracer.startSpan("GET /health").end();
+
+    expect(kept).toEqual(["GET /health"]);
+    expect(sampler.getStats().sampled.probabilistic).toBe(1);
+  });
+
+  test("decides traces whose root never arrives after the wait, and late spans follow the decision", () => {
+    const { sampler, tracer, kept, childOf } = createSampler({ decisionWaitMs: 1000 });
+
+    const root = tracer.startSpan("subscription");
+    const failed = childOf(root, "resolve");
+    failed.setStatus({ code: SpanStatusCode.ERROR });
+    failed.end();
+
+    sampler.sweep(Date.now() + 500);
+    expect(kept).toEqual([]);
+
+    sampler.sweep(Date.now() + 1000);
+    expect(kept).toEqual(["resolve"]);
+
+    root.end();
+    expect(kept).toEqual(["resolve", "subscription"]);
+    expect(sampler.getStats().sampled.error).toBe(1);
+  });
+
+  test("exports its counters through the meter provider registered after it was built", async () => {
+    // Built at startup, before initializeTelemetry registers the global provider
+    const { tracer, childOf } = createSampler({ operationNames: ["GetLooks"] });
+    const reader = new CollectingReader();
+    const provider = new MeterProvider({ readers: [reader] });
+    metrics.setGlobalMeterProvider(provider);
+
+    try {
+      tracer.startSpan("query", { attributes: { "graphql.operation.name": "GetLooks" } }).end();
+      tracer.startSpan("GET /health").end();
+      const pending = tracer.startSpan("subscription");
+      childOf(pending, "resolve").end();
+
+      const { resourceMetrics } = await reader.collect();
+      const points = new Map(
+        resourceMetrics.scopeMetrics
+          .flatMap((scope) => scope.metrics)
+          .map((metric) => [metric.descriptor.name, metric.dataPoints.map((point) => [point.attributes, point.value])])
+      );
+      expect(points.get("tail_sampling_traces_sampled_total")).toEqual([[{ policy: "operation" }, 1]]);
+      expect(points.get("tail_sampling_traces_dropped_total")).toEqual([[{ reason: "probabilistic" }, 1]]);
+      expect(points.get("tail_sampling_buffered_traces")).toEqual([[{}, 1]]);
+    } finally {
+      metrics.disable();
+      await provider.shutdown();
+    }
+  });
+
+  test("bounds the buffer by trace count and spans per trace", () => {
+    const { sampler, tracer, kept, childOf } = createSampler({ maxTraces: 2, maxSpansPerTrace: 2 });
+
+    const roots = ["a", "b", "c"].map((name) => tracer.startSpan(name));
+    for (const root of roots) childOf(root, `${root.spanContext().spanId}-child`).end();
+
+    // The third trace evicted the first, which no policy wanted
+    expect(sampler.getStats()).toMatchObject({ bufferedTraces: 2, dropped: { buffer_full: 1 } });
+
+    const crowded = roots[2];
+    crowded.setStatus({ code: SpanStatusCode.ERROR });
+    for (let i = 0; i < 3; i++) childOf(crowded, `extra-${i}`).end();
+    crowded.end();
+
+    expect(kept).toHaveLength(2);
+    // Only two of the crowded trace's five spans fit; its root was one of those turned away
+    expect(sampler.getStats()).toMatchObject({ bufferedTraces: 1, droppedSpans: 3, sampled: { error: 1 } });
+  });
+});
+
+describe("BunSpanProcessor tail sampling", () => {
+  const received: string[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const body = await request.json();
+        for (const resourceSpans of body.resourceSpans ?? []) {
+          for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+            received.push(...scopeSpans.spans.map((span: { name: string }) => span.name));
+          }
+        }
+        return new Response("{}");
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("exports only the traces the policies keep and reports the counters", async () => {
+    const exportStats = createExportStatsTracker();
+    const processor = new BunSpanProcessor({
+      url: `http://localhost:${server.port}/v1/traces`,
+      retryConfig: { maxRetries: 0, initialDelayMs: 1, maxDelayMs: 1, backoffMultiplier: 1 },
+      tailSampling: { ...baseConfig, operationNames: ["GetLooks"] },
+      exportStats,
+    });
+    const tracer = new BasicTracerProvider({ spanProcessors: [processor] }).getTracer("tail-sampling-test");
+
+    tracer.startSpan("GET /health").end();
+    tracer.startSpan("query", { attributes: { "graphql.operation.name": "GetLooks" } }).end();
+    const pending = tracer.startSpan("still running");
+    tracer.startSpan("child", {}, trace.setSpan(context.active(), pending)).end();
+
+    await processor.forceFlush();
+    expect(received).toEqual(["query"]);
+    expect(exportStats.getStats()).toMatchObject({ total: 1, failures: 0 });
+
+    // Shutdown decides what's left; nothing keeps the unfinished trace
+    await processor.shutdown();
+    expect(received).toEqual(["query"]);
+    expect(processor.getStats().tailSampling).toMatchObject({
+      bufferedTraces: 0,
+      sampled: { operation: 1 },
+      dropped: { probabilistic: 2 },
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/* tests/unit/telemetry/telemetrySpool.test.ts - Telemetry Spool Unit Tests */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import "../../shared/logger-mock";
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TelemetrySpool, type TelemetrySpoolConfig } from "../../../src/telemetry/spool/TelemetrySpool";
+
+const spools: TelemetrySpool[] = [];
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (payload: Uint8Array) => new TextDecoder().decode(payload);
+
+const createSpool = (overrides: Partial<TelemetrySpoolConfig> = {}) => {
+  const spool = new TelemetrySpool({
+    path: ":memory:",
+    maxBytes: 1024 * 1024,
+    maxAgeMs: 60000,
+    replayBytesPerSecond: 1024 * 1024,
+    ...overrides,
+  });
+  spools.push(spool);
+  return spool;
+};
+
+afterEach(() => {
+  for (const spool of spools.splice(0)) spool.close();
+});
+
+describe("TelemetrySpool", () => {
+  test("replays a signal's batches in append order and stops at the first failure", async () => {
+    const spool = createSpool();
+    spool.append("traces", bytes("t1"), "json");
+    spool.append("logs", bytes("l1"), "json");
+    spool.append("traces", bytes("t2"), "json");
+    spool.append("traces", bytes("t3"), "json");
+
+    const sent: string[] = [];
+    const replayed = await spool.replay("traces", async (payload) => {
+      if (text(payload) === "t3") throw new Error("HTTP 503");
+      sent.push(text(payload));
+    });
+
+    expect(replayed).toBe(2);
+    expect(sent).toEqual(["t1", "t2"]);
+    expect(spool.getStats().signals).toMatchObject({
+      traces: { entries: 1, bytes: 2 },
+      metrics: { entries: 0, oldestAgeMs: null },
+      logs: { entries: 1 },
+    });
+
+    await spool.replay("traces", async (payload, encoding) => {
+      sent.push(`${text(payload)}:${encoding}`);
+    });
+    expect(sent).toEqual(["t1", "t2", "t3:json"]);
+    expect(spool.hasPending("traces")).toBe(false);
+    expect(spool.getStats()).toMatchObject({ entries: 1, spooled: 4, replayed: 3 });
+  });
+
+  test("evicts the oldest batches once the size cap is exceeded", () => {
+    const spool = createSpool({ maxBytes: 1048576 });
+    const chunk = "x".repeat(400 * 1024);
+    spool.append("metrics", bytes(`a${chunk}`), "json");
+    spool.append("logs", bytes(`b${chunk}`), "json");
+    spool.append("metrics", bytes(`c${chunk}`), "json");
+
+    const stats = spool.getStats();
+    expect(stats.evicted).toBe(1);
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBeLessThanOrEqual(1048576);
+    expect(stats.signals.logs.entries).toBe(1);
+
+    // A single batch over the cap is refused rather than emptying the spool
+    expect(spool.append("traces", bytes("x".repeat(1048577)), "json")).toBe(false);
+    expect(spool.getStats()).toMatchObject({ entries: 2, rejected: 1 });
+  });
+
+  test("discards batches older than the age cap", async () => {
+    const spool = createSpool({ maxAgeMs: 30 });
+    spool.append("logs", bytes("old"), "json");
+    await Bun.sleep(50);
+    spool.append("logs", bytes("new"), "json");
+
+    const sent: string[] = [];
+    await spool.replay("logs", async (payload) => {
+      sent.push(text(payload));
+    });
+
+    expect(sent).toEqual(["new"]);
+    expect(spool.getStats().expired).toBe(1);
+  });
+
+  test("holds replay to the configured bandwidth", async () => {
+    const spool = createSpool({ replayBytesPerSecond: 4000 });
+    for (let i = 0; i < 3; i++) spool.append("traces", bytes("x".repeat(400)), "json");
+
+    const startTime = Date.now();
+    await spool.replay("traces", async () => {});
+
+    // 1200 bytes at 4000 B/s
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(280);
+  });
+
+  test("keeps batches across restarts when backed by a file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "telemetry-spool-"));
+    try {
+      const path = join(dir, "spool.sqlite");
+      const first = createSpool({ path });
+      first.append("metrics", bytes("m1"), "json");
+      first.close();
+
+      const second = createSpool({ path });
+      expect(second.getStats().signals.metrics.entries).toBe(1);
+      second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});